@@ -0,0 +1,389 @@
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import pLimit from 'p-limit';
+import semver from 'semver';
+import { Logger } from '@verdaccio/types';
+import { createArtifactTarget } from './binary-artifacts';
+import { createRegistryError, registryRequest } from './registry-client';
+import { RegistryRouter } from './registry-router';
+import { RetryPolicy } from './retry-policy';
+import {
+  Advisory,
+  AdvisoryDbSnapshot,
+  AdvisoryDbSummary,
+  AdvisorySeverity,
+  AdvisorySyncResult,
+  IngestConfig,
+  RegistryTarget
+} from './types';
+
+export const ADVISORIES_DIR = '.advisories';
+
+// 快照文件格式版本，内网 healer 只加载能识别的格式
+const ADVISORY_DB_FORMAT = 1;
+const BULK_ADVISORY_PATH = '-/npm/v1/security/advisories/bulk';
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_KEEP_REVISIONS = 3;
+const SEVERITIES: AdvisorySeverity[] = ['info', 'low', 'moderate', 'high', 'critical'];
+
+/**
+ * 快照文件名：advisories-<revision>.json
+ */
+export const ADVISORY_SNAPSHOT_PATTERN = /^advisories-(\d+)\.json$/;
+
+/**
+ * 安全公告库
+ *
+ * 通过上游的 bulk advisory 接口查询已缓存包的安全公告，按版本号保存为
+ * storage/.advisories/advisories-<revision>.json 快照；新快照随差分导出进入内网，
+ * 由 metadata-healer 加载最新版本后响应 npm audit
+ */
+export class AdvisoryDatabase {
+  private config: IngestConfig;
+  private router: RegistryRouter;
+  private storagePath: string;
+  private logger: Logger;
+
+  constructor(config: IngestConfig, router: RegistryRouter, storagePath: string, logger: Logger) {
+    this.config = config;
+    this.router = router;
+    this.storagePath = storagePath;
+    this.logger = logger;
+  }
+
+  /**
+   * 查询指定包的安全公告并生成新快照
+   * 未查询的包沿用上一快照的数据；查询失败的批次同样保留原数据并记录在 failed 中
+   */
+  async refresh(
+    packages: Map<string, string[]>,
+    retryPolicy: RetryPolicy,
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<AdvisorySyncResult> {
+    const previous = await this.readLatest();
+    const advisories: Record<string, Advisory[]> = { ...(previous?.advisories || {}) };
+    const target = this.getTarget();
+
+    const { found, failed } = await this.query(packages, retryPolicy, onProgress);
+    for (const [name, list] of found) {
+      if (list.length > 0) {
+        advisories[name] = list;
+      } else {
+        delete advisories[name];
+      }
+    }
+
+    const revision = Math.max(Date.now(), (previous?.revision || 0) + 1);
+    const snapshot: AdvisoryDbSnapshot = {
+      format: ADVISORY_DB_FORMAT,
+      revision,
+      generatedAt: new Date(revision).toISOString(),
+      registry: target.url,
+      packages: packages.size,
+      advisories: sortKeys(advisories)
+    };
+    const file = await this.writeSnapshot(snapshot);
+
+    this.logger.info(
+      { revision, checked: packages.size, failed: failed.length },
+      'Advisory database revision @{revision} written (@{checked} packages checked, @{failed} failed)'
+    );
+
+    return {
+      ...summarize(snapshot),
+      file,
+      checked: packages.size,
+      failed
+    };
+  }
+
+  /**
+   * 分批调用 bulk advisory 接口，返回每个查询成功的包命中的公告（无公告时为空数组）
+   */
+  async query(
+    packages: Map<string, string[]>,
+    retryPolicy: RetryPolicy,
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<{ found: Map<string, Advisory[]>; failed: string[] }> {
+    const target = this.getTarget();
+    const url = new URL(BULK_ADVISORY_PATH, ensureTrailingSlash(target.url)).toString();
+
+    const names = Array.from(packages.keys()).sort();
+    const batchSize = Math.max(1, this.config.advisories?.batchSize || DEFAULT_BATCH_SIZE);
+    const batches: string[][] = [];
+    for (let i = 0; i < names.length; i += batchSize) {
+      batches.push(names.slice(i, i + batchSize));
+    }
+
+    const found = new Map<string, Advisory[]>();
+    const failed: string[] = [];
+    const limit = pLimit(Math.max(1, Math.min(10, this.config.concurrency || 5)));
+    let completed = 0;
+
+    await Promise.all(
+      batches.map((batch) =>
+        limit(async () => {
+          const query: Record<string, string[]> = {};
+          for (const name of batch) {
+            query[name] = packages.get(name) || [];
+          }
+
+          try {
+            const { result } = await retryPolicy.run(() => this.fetchBulk(target, url, query));
+            for (const name of batch) {
+              const list = Array.isArray(result[name]) ? result[name] : [];
+              found.set(name, list.map(normalizeAdvisory));
+            }
+          } catch (error: any) {
+            failed.push(...batch);
+            this.logger.warn(
+              { count: batch.length, first: batch[0], error: error.message },
+              'Failed to fetch advisories for @{count} packages starting at @{first}: @{error}'
+            );
+          } finally {
+            completed += batch.length;
+            onProgress?.(completed, names.length);
+          }
+        })
+      )
+    );
+
+    return { found, failed: failed.sort() };
+  }
+
+  /**
+   * 最新快照的统计信息（尚未生成时返回 null）
+   */
+  async getSummary(): Promise<AdvisoryDbSummary | null> {
+    const snapshot = await this.readLatest();
+    return snapshot ? summarize(snapshot) : null;
+  }
+
+  /**
+   * 读取最新快照
+   */
+  async readLatest(): Promise<AdvisoryDbSnapshot | null> {
+    const revisions = await this.listRevisions();
+    for (const revision of revisions) {
+      try {
+        const content = await readFile(this.getSnapshotPath(revision), 'utf-8');
+        const snapshot = JSON.parse(content) as AdvisoryDbSnapshot;
+        if (snapshot.format === ADVISORY_DB_FORMAT) {
+          return snapshot;
+        }
+      } catch (error: any) {
+        this.logger.warn(
+          { revision, error: error.message },
+          'Failed to read advisory database revision @{revision}: @{error}'
+        );
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 调用 bulk advisory 接口，请求体为 { 包名: [版本, ...] }
+   */
+  private async fetchBulk(
+    target: RegistryTarget,
+    url: string,
+    query: Record<string, string[]>
+  ): Promise<Record<string, any[]>> {
+    const response = await registryRequest(
+      target,
+      url,
+      { accept: 'application/json', 'content-type': 'application/json' },
+      Buffer.from(JSON.stringify(query))
+    );
+    if (response.status !== 200) {
+      throw createRegistryError(`POST ${url} failed with status ${response.status}`, response.status, response.headers);
+    }
+    return JSON.parse(response.body.toString('utf-8')) || {};
+  }
+
+  /**
+   * 写入快照并清理旧版本（先写临时文件再重命名，避免导出时读到不完整的文件）
+   */
+  private async writeSnapshot(snapshot: AdvisoryDbSnapshot): Promise<string> {
+    const dir = path.join(this.storagePath, ADVISORIES_DIR);
+    await mkdir(dir, { recursive: true });
+
+    const snapshotPath = this.getSnapshotPath(snapshot.revision);
+    const tempPath = `${snapshotPath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(snapshot));
+    await rename(tempPath, snapshotPath);
+
+    const keep = Math.max(1, this.config.advisories?.keepRevisions || DEFAULT_KEEP_REVISIONS);
+    const stale = (await this.listRevisions()).slice(keep);
+    for (const revision of stale) {
+      await unlink(this.getSnapshotPath(revision)).catch(() => undefined);
+    }
+
+    return `${ADVISORIES_DIR}/${path.basename(snapshotPath)}`;
+  }
+
+  /**
+   * 已有快照版本（从新到旧）
+   */
+  private async listRevisions(): Promise<number[]> {
+    let entries: string[];
+    try {
+      entries = await readdir(path.join(this.storagePath, ADVISORIES_DIR));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return entries
+      .map((entry) => entry.match(ADVISORY_SNAPSHOT_PATTERN))
+      .filter((match): match is RegExpMatchArray => !!match)
+      .map((match) => Number(match[1]))
+      .sort((a, b) => b - a);
+  }
+
+  private getSnapshotPath(revision: number): string {
+    return path.join(this.storagePath, ADVISORIES_DIR, `advisories-${revision}.json`);
+  }
+
+  /**
+   * 配置了 advisories.registry 时使用该地址（不携带默认上游的认证），否则使用默认上游
+   */
+  private getTarget(): RegistryTarget {
+    const registry = this.config.advisories?.registry;
+    return registry ? createArtifactTarget(this.router, registry) : this.router.getDefault();
+  }
+}
+
+/**
+ * 分析期间使用的安全公告索引
+ *
+ * bulk 接口只返回影响所提交版本的公告，因此按包提交上游全部版本以获得完整的公告列表；
+ * 同一分析任务内每个包只查询一次，查询失败的包视为没有公告
+ */
+export class AdvisoryIndex {
+  private database: AdvisoryDatabase;
+  private retryPolicy: RetryPolicy;
+  private entries: Map<string, Advisory[]> = new Map();
+  private failed: Set<string> = new Set();
+
+  constructor(database: AdvisoryDatabase, retryPolicy: RetryPolicy) {
+    this.database = database;
+    this.retryPolicy = retryPolicy;
+  }
+
+  /**
+   * 查询尚未加载的包（packages 为包名到其全部可用版本的映射）
+   */
+  async prefetch(packages: Map<string, string[]>): Promise<void> {
+    const pending = new Map(
+      Array.from(packages).filter(([name]) => !this.entries.has(name) && !this.failed.has(name))
+    );
+    if (pending.size === 0) {
+      return;
+    }
+
+    const { found, failed } = await this.database.query(pending, this.retryPolicy);
+    for (const [name, list] of found) {
+      this.entries.set(name, list);
+    }
+    for (const name of failed) {
+      this.failed.add(name);
+    }
+  }
+
+  /**
+   * 影响指定版本的公告
+   */
+  match(name: string, version: string): Advisory[] {
+    return (this.entries.get(name) || []).filter((advisory) => affects(advisory, version));
+  }
+
+  /**
+   * 从候选版本中排除受公告影响的版本
+   */
+  filterSafe(name: string, versions: string[]): string[] {
+    const advisories = this.entries.get(name);
+    if (!advisories || advisories.length === 0) {
+      return versions;
+    }
+    return versions.filter((version) => !advisories.some((advisory) => affects(advisory, version)));
+  }
+
+  /**
+   * 查询失败的包（其版本选择与标注不考虑安全公告）
+   */
+  getFailed(): string[] {
+    return Array.from(this.failed).sort();
+  }
+}
+
+/**
+ * 公告中最高的严重程度
+ */
+export function getHighestSeverity(advisories: Advisory[]): AdvisorySeverity | undefined {
+  let highest = -1;
+  for (const advisory of advisories) {
+    highest = Math.max(highest, SEVERITIES.indexOf(advisory.severity));
+  }
+  return highest >= 0 ? SEVERITIES[highest] : undefined;
+}
+
+function affects(advisory: Advisory, version: string): boolean {
+  try {
+    return semver.satisfies(version, advisory.vulnerable_versions, { includePrerelease: true });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 只保留 npm audit 使用的字段
+ */
+function normalizeAdvisory(advisory: any): Advisory {
+  return {
+    id: advisory.id,
+    url: advisory.url,
+    title: advisory.title,
+    severity: SEVERITIES.includes(advisory.severity) ? advisory.severity : 'moderate',
+    vulnerable_versions: advisory.vulnerable_versions || '*',
+    cwe: Array.isArray(advisory.cwe) ? advisory.cwe : undefined,
+    cvss: advisory.cvss || undefined
+  };
+}
+
+function summarize(snapshot: AdvisoryDbSnapshot): AdvisoryDbSummary {
+  const severities = Object.fromEntries(SEVERITIES.map((severity) => [severity, 0])) as Record<
+    AdvisorySeverity,
+    number
+  >;
+  const ids = new Set<number>();
+
+  for (const list of Object.values(snapshot.advisories)) {
+    for (const advisory of list) {
+      if (!ids.has(advisory.id)) {
+        ids.add(advisory.id);
+        severities[advisory.severity]++;
+      }
+    }
+  }
+
+  return {
+    revision: snapshot.revision,
+    generatedAt: snapshot.generatedAt,
+    registry: snapshot.registry,
+    packages: snapshot.packages,
+    vulnerablePackages: Object.keys(snapshot.advisories).length,
+    advisories: ids.size,
+    severities
+  };
+}
+
+function sortKeys<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function ensureTrailingSlash(url: string): string {
+  return url.endsWith('/') ? url : `${url}/`;
+}
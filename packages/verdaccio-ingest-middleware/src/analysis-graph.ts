@@ -0,0 +1,178 @@
+import {
+  AnalysisResult,
+  DependencyEdge,
+  DependencyGraph,
+  DependencyGraphNode,
+  WhyResult
+} from './types';
+
+/**
+ * 分析依赖图 - 基于分析时记录的依赖边，提供图导出与 "why" 路径查询
+ */
+export class AnalysisGraph {
+  private analysis: AnalysisResult;
+  private edges: DependencyEdge[];
+  // 子节点 -> 指向它的边（用于从目标包反向回溯到根）
+  private parentIndex: Map<string, DependencyEdge[]> = new Map();
+
+  constructor(analysis: AnalysisResult, edges: DependencyEdge[]) {
+    this.analysis = analysis;
+    this.edges = edges;
+
+    for (const edge of edges) {
+      const parents = this.parentIndex.get(edge.child);
+      if (parents) {
+        parents.push(edge);
+      } else {
+        this.parentIndex.set(edge.child, [edge]);
+      }
+    }
+  }
+
+  /**
+   * 导出 JSON 格式的依赖图
+   */
+  toJSON(): DependencyGraph {
+    const toDownload = new Map(
+      this.analysis.toDownload.map((pkg) => [`${pkg.name}@${pkg.version}`, pkg])
+    );
+    const nodes = new Map<string, DependencyGraphNode>();
+
+    const addNode = (id: string, virtual: boolean): void => {
+      if (nodes.has(id)) return;
+      if (virtual) {
+        nodes.set(id, { id, name: id, virtual: true });
+        return;
+      }
+      const { name, version } = this.splitNodeId(id);
+      const pending = toDownload.get(id);
+      nodes.set(id, {
+        id,
+        name,
+        version,
+        toDownload: !!pending,
+        reason: pending?.reason
+      });
+    };
+
+    for (const edge of this.edges) {
+      addNode(edge.parent, edge.type === 'root');
+      addNode(edge.child, false);
+    }
+    for (const id of toDownload.keys()) {
+      addNode(id, false);
+    }
+
+    return {
+      analysisId: this.analysis.analysisId,
+      nodes: Array.from(nodes.values()),
+      edges: this.edges
+    };
+  }
+
+  /**
+   * 导出 Graphviz DOT 格式的依赖图
+   * 待下载节点高亮，可选/对等依赖使用虚线
+   */
+  toDot(): string {
+    const graph = this.toJSON();
+    const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+    const lines: string[] = [
+      `digraph ${quote(graph.analysisId)} {`,
+      '  rankdir=LR;',
+      '  node [shape=box, fontname="Helvetica", fontsize=10];',
+      '  edge [fontname="Helvetica", fontsize=8];'
+    ];
+
+    for (const node of graph.nodes) {
+      const attrs: string[] = [];
+      if (node.virtual) {
+        attrs.push('shape=ellipse', 'style=filled', 'fillcolor="#e0e0e0"');
+      } else if (node.toDownload) {
+        attrs.push('style=filled', 'fillcolor="#ffe0b2"');
+      }
+      lines.push(`  ${quote(node.id)}${attrs.length > 0 ? ` [${attrs.join(', ')}]` : ''};`);
+    }
+
+    for (const edge of graph.edges) {
+      const attrs = [`label=${quote(edge.range)}`];
+      if (edge.type === 'optionalDependencies' || edge.type === 'peerDependencies') {
+        attrs.push('style=dashed');
+      } else if (edge.type === 'devDependencies') {
+        attrs.push('style=dotted');
+      }
+      lines.push(`  ${quote(edge.parent)} -> ${quote(edge.child)} [${attrs.join(', ')}];`);
+    }
+
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  /**
+   * 查询包被引入的所有路径（从虚拟来源到目标包）
+   */
+  why(name: string, version?: string, limit: number = 100): WhyResult {
+    const targets = new Set<string>();
+    for (const edge of this.edges) {
+      const { name: childName, version: childVersion } = this.splitNodeId(edge.child);
+      if (childName === name && (!version || childVersion === version)) {
+        targets.add(edge.child);
+      }
+    }
+
+    const paths: string[][] = [];
+    let truncated = false;
+
+    // 反向深度优先：沿父边回溯，路径中已出现的节点不再访问（避免循环依赖）
+    const walk = (node: string, suffix: string[], visiting: Set<string>): void => {
+      if (paths.length >= limit) {
+        truncated = true;
+        return;
+      }
+
+      const parents = this.parentIndex.get(node) || [];
+      if (parents.length === 0) {
+        paths.push([node, ...suffix]);
+        return;
+      }
+
+      for (const edge of parents) {
+        if (paths.length >= limit) {
+          truncated = true;
+          return;
+        }
+        if (edge.type === 'root') {
+          paths.push([edge.parent, node, ...suffix]);
+          continue;
+        }
+        if (visiting.has(edge.parent)) continue;
+        visiting.add(edge.parent);
+        walk(edge.parent, [node, ...suffix], visiting);
+        visiting.delete(edge.parent);
+      }
+    };
+
+    for (const target of targets) {
+      walk(target, [], new Set([target]));
+    }
+
+    return {
+      analysisId: this.analysis.analysisId,
+      name,
+      version,
+      paths,
+      truncated
+    };
+  }
+
+  /**
+   * 拆分节点 ID（name@version，兼容 scoped 包）
+   */
+  private splitNodeId(id: string): { name: string; version?: string } {
+    const atIndex = id.lastIndexOf('@');
+    if (atIndex > 0) {
+      return { name: id.substring(0, atIndex), version: id.substring(atIndex + 1) };
+    }
+    return { name: id };
+  }
+}
@@ -0,0 +1,805 @@
+import { createWriteStream } from 'fs';
+import { access, mkdir, readdir, rename, stat, unlink } from 'fs/promises';
+import { createHash, randomBytes } from 'crypto';
+import path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import pLimit from 'p-limit';
+import semver from 'semver';
+import { Logger } from '@verdaccio/types';
+import { createRegistryError, openRegistryStream } from './registry-client';
+import { RegistryRouter } from './registry-router';
+import { RetryPolicy } from './retry-policy';
+import { StorageScanner } from './storage-scanner';
+import { formatPlatform } from './platform-matcher';
+import {
+  ArtifactDownloadStatus,
+  ArtifactFile,
+  ArtifactRecipeConfig,
+  IngestConfig,
+  PlatformConfig,
+  RegistryTarget
+} from './types';
+
+export const ARTIFACTS_DIR = '.artifacts';
+
+/**
+ * 制品规则解析时的上下文
+ */
+export interface ArtifactContext {
+  name: string;
+  version: string;
+  /** 该版本的完整 manifest（来自本地 package.json） */
+  manifest: any;
+  platform: PlatformConfig;
+  nodeAbis: number[];
+  /** 读取本地已缓存 tarball 中的文件（路径相对于包根目录），不存在时返回 null */
+  readPackageFile(name: string, version: string, file: string): Promise<string | null>;
+}
+
+/**
+ * 制品规则：把 name@version + 目标平台转换为安装脚本会下载的文件
+ */
+export interface ArtifactRecipe {
+  /** 规则名（用于日志） */
+  name: string;
+  matches(manifest: any): boolean;
+  resolve(
+    context: ArtifactContext
+  ): Array<Omit<ArtifactFile, 'name' | 'version'>> | Promise<Array<Omit<ArtifactFile, 'name' | 'version'>>>;
+}
+
+// electron 使用的平台与架构名称
+const ELECTRON_OS = new Set(['linux', 'win32', 'darwin']);
+const ELECTRON_ARCH: Record<string, string> = {
+  x64: 'x64',
+  arm64: 'arm64',
+  ia32: 'ia32',
+  arm: 'armv7l'
+};
+
+/**
+ * electron：postinstall 通过 @electron/get 从 GitHub Releases 下载对应平台的 zip
+ * ELECTRON_MIRROR 指向镜像目录，文件路径为 v<version>/<文件名>
+ */
+const electronRecipe: ArtifactRecipe = {
+  name: 'electron',
+  matches: (manifest) => manifest.name === 'electron',
+  resolve: ({ version, platform }) => {
+    const arch = ELECTRON_ARCH[platform.arch];
+    if (!ELECTRON_OS.has(platform.os) || !arch) {
+      return [];
+    }
+    const baseUrl = 'https://github.com/electron/electron/releases/download/';
+    return [
+      `v${version}/electron-v${version}-${platform.os}-${arch}.zip`,
+      `v${version}/SHASUMS256.txt`
+    ].map((file) => ({
+      mirror: 'electron',
+      path: file,
+      url: baseUrl + file,
+      env: 'ELECTRON_MIRROR'
+    }));
+  }
+};
+
+/**
+ * node-pre-gyp：manifest 的 binary 字段声明了 host / remote_path / package_name 模板
+ * npm_config_<module_name>_binary_host_mirror 替换 host，其余路径保持不变
+ */
+const nodePreGypRecipe: ArtifactRecipe = {
+  name: 'node-pre-gyp',
+  matches: (manifest) => !!manifest.binary?.module_name && !!getPreGypHost(manifest.binary),
+  resolve: ({ name, version, manifest, platform, nodeAbis }) => {
+    const binary = manifest.binary;
+    const host = ensureTrailingSlash(getPreGypHost(binary)!);
+    const remotePath = String(binary.remote_path || '');
+    const packageName = String(
+      binary.package_name || '{module_name}-v{version}-{node_abi}-{platform}-{arch}.tar.gz'
+    );
+    const template = `${remotePath}/${packageName}`;
+    const parsed = semver.parse(version);
+    const napiVersions: Array<number | undefined> =
+      template.includes('{napi_build_version}') && Array.isArray(binary.napi_versions)
+        ? binary.napi_versions
+        : [undefined];
+    const abis: Array<number | undefined> = template.includes('{node_abi}') ? nodeAbis : [undefined];
+    const libcs = platform.os !== 'linux' ? ['unknown'] : platform.libc ? [platform.libc] : ['glibc', 'musl'];
+
+    const files: Array<Omit<ArtifactFile, 'name' | 'version'>> = [];
+    for (const napi of napiVersions) {
+      for (const abi of abis) {
+        for (const libc of libcs) {
+          const file = normalizeArtifactPath(
+            fillTemplate(template, {
+              module_name: binary.module_name,
+              name,
+              version,
+              major: String(parsed?.major ?? ''),
+              minor: String(parsed?.minor ?? ''),
+              patch: String(parsed?.patch ?? ''),
+              prerelease: parsed?.prerelease.join('.') || '',
+              build: parsed?.build.join('.') || '',
+              node_abi: abi === undefined ? '' : `node-v${abi}`,
+              node_abi_napi: napi === undefined ? (abi === undefined ? '' : `node-v${abi}`) : 'napi',
+              napi_build_version: napi === undefined ? '' : String(napi),
+              platform: platform.os,
+              arch: platform.arch,
+              target_arch: platform.arch,
+              libc,
+              configuration: 'Release',
+              toolset: ''
+            })
+          );
+          files.push({
+            mirror: name,
+            path: file,
+            url: host + file,
+            env: `npm_config_${binary.module_name}_binary_host_mirror`
+          });
+        }
+      }
+    }
+    return files;
+  }
+};
+
+/**
+ * prebuild-install：从仓库的 GitHub Releases 下载 <name>-v<version>-<runtime>-v<abi>-<platform><libc>-<arch>.tar.gz
+ * npm_config_<name>_binary_host 指向镜像目录，文件路径为 v<version>/<文件名>
+ */
+const prebuildInstallRecipe: ArtifactRecipe = {
+  name: 'prebuild-install',
+  matches: (manifest) =>
+    !!manifest.dependencies?.['prebuild-install'] && !!getGitHubRepository(manifest.repository),
+  resolve: ({ name, version, manifest, platform, nodeAbis }) => {
+    const repository = getGitHubRepository(manifest.repository)!;
+    const shortName = name.replace(/^@[^/]+\//, '');
+    const napiVersions: number[] = Array.isArray(manifest.binary?.napi_versions)
+      ? manifest.binary.napi_versions
+      : [];
+    const runtimes =
+      napiVersions.length > 0
+        ? napiVersions.map((abi) => ({ runtime: 'napi', abi }))
+        : nodeAbis.map((abi) => ({ runtime: 'node', abi }));
+    const libcs = platform.os !== 'linux' ? [''] : platform.libc ? [platform.libc] : ['glibc', 'musl'];
+
+    const files: Array<Omit<ArtifactFile, 'name' | 'version'>> = [];
+    for (const { runtime, abi } of runtimes) {
+      for (const libc of libcs) {
+        const suffix = libc === 'musl' ? 'musl' : '';
+        const file = `v${version}/${shortName}-v${version}-${runtime}-v${abi}-${platform.os}${suffix}-${platform.arch}.tar.gz`;
+        files.push({
+          mirror: name,
+          path: file,
+          url: `https://github.com/${repository}/releases/download/${file}`,
+          env: `npm_config_${name.replace(/[^a-zA-Z0-9]/g, '_').replace(/^_/, '')}_binary_host`
+        });
+      }
+    }
+    return files;
+  }
+};
+
+/**
+ * node-sass：install 脚本从 GitHub Releases 下载 <platform>-<arch>-<abi>_binding.node
+ * SASS_BINARY_SITE 指向镜像目录，文件路径为 v<version>/<文件名>
+ */
+const nodeSassRecipe: ArtifactRecipe = {
+  name: 'node-sass',
+  matches: (manifest) => manifest.name === 'node-sass',
+  resolve: ({ version, platform, nodeAbis }) => {
+    const libcs = platform.os !== 'linux' ? [''] : platform.libc ? [platform.libc] : ['glibc', 'musl'];
+    return nodeAbis.flatMap((abi) =>
+      libcs.map((libc) => {
+        const file = `v${version}/${platform.os}${libc === 'musl' ? '_musl' : ''}-${platform.arch}-${abi}_binding.node`;
+        return {
+          mirror: 'node-sass',
+          path: file,
+          url: `https://github.com/sass/node-sass/releases/download/${file}`,
+          env: 'SASS_BINARY_SITE'
+        };
+      })
+    );
+  }
+};
+
+// sharp 0.33 之前下载的 libvips 平台名称（arm64 为 arm64v8，arm 按 armv7 处理）
+const SHARP_ARCH: Record<string, string> = {
+  x64: 'x64',
+  ia32: 'ia32',
+  arm64: 'arm64v8',
+  arm: 'armv7'
+};
+
+/**
+ * sharp（0.33 之前）：install 脚本按 package.json 的 config.libvips 从 sharp-libvips 的 GitHub Releases
+ * 下载预编译的 libvips；sharp 自身的绑定由 prebuild-install 规则处理。0.33 起改为 @img/sharp-* 平台包，无需额外下载
+ * npm_config_sharp_libvips_binary_host 指向镜像目录，文件路径为 v<libvips>/<文件名>
+ */
+const sharpLibvipsRecipe: ArtifactRecipe = {
+  name: 'sharp-libvips',
+  matches: (manifest) =>
+    manifest.name === 'sharp' && typeof manifest.config?.libvips === 'string' && semver.lt(manifest.version, '0.33.0'),
+  resolve: ({ manifest, platform }) => {
+    const arch = SHARP_ARCH[platform.arch];
+    if (!arch || !['linux', 'darwin', 'win32'].includes(platform.os)) {
+      return [];
+    }
+    const libvips = manifest.config.libvips;
+    // 0.29 起只提供 brotli 压缩包
+    const extension = semver.gte(manifest.version, '0.29.0') ? 'tar.br' : 'tar.gz';
+    const libcs = platform.os !== 'linux' ? [''] : platform.libc ? [platform.libc] : ['glibc', 'musl'];
+    return libcs.map((libc) => {
+      const file = `v${libvips}/libvips-${libvips}-${platform.os}${libc === 'musl' ? 'musl' : ''}-${arch}.${extension}`;
+      return {
+        mirror: 'sharp-libvips',
+        path: file,
+        url: `https://github.com/lovell/sharp-libvips/releases/download/${file}`,
+        env: 'npm_config_sharp_libvips_binary_host'
+      };
+    });
+  }
+};
+
+// Prisma 引擎的 binaryTarget（Linux 按 OpenSSL 版本区分，同时镜像 1.1.x 与 3.0.x）
+function getPrismaTargets(platform: PlatformConfig): string[] {
+  if (platform.os === 'darwin') {
+    return platform.arch === 'arm64' ? ['darwin-arm64'] : platform.arch === 'x64' ? ['darwin'] : [];
+  }
+  if (platform.os === 'win32') {
+    return platform.arch === 'x64' ? ['windows'] : [];
+  }
+  if (platform.os !== 'linux' || (platform.arch !== 'x64' && platform.arch !== 'arm64')) {
+    return [];
+  }
+  const prefixes: string[] = [];
+  if (platform.libc !== 'musl') {
+    prefixes.push(platform.arch === 'arm64' ? 'linux-arm64' : 'debian');
+  }
+  if (platform.libc !== 'glibc') {
+    prefixes.push(platform.arch === 'arm64' ? 'linux-musl-arm64' : 'linux-musl');
+  }
+  return prefixes.flatMap((prefix) => [`${prefix}-openssl-1.1.x`, `${prefix}-openssl-3.0.x`]);
+}
+
+/**
+ * Prisma：@prisma/engines 的 postinstall 按 @prisma/engines-version 中的引擎提交哈希，
+ * 从 binaries.prisma.sh 下载查询引擎（Node-API 库）与 schema 引擎（5.0 之前为 migration 引擎）及其 SHA256
+ * PRISMA_ENGINES_MIRROR 指向镜像目录，文件路径为 all_commits/<hash>/<binaryTarget>/<文件名>.gz
+ */
+const prismaEnginesRecipe: ArtifactRecipe = {
+  name: 'prisma-engines',
+  matches: (manifest) => manifest.name === '@prisma/engines-version',
+  resolve: ({ version, manifest, platform }) => {
+    const hash: string | undefined =
+      manifest.prisma?.enginesVersion || version.match(/([0-9a-f]{40})$/)?.[1];
+    if (!hash) {
+      return [];
+    }
+    const schemaEngine = (semver.parse(version)?.major ?? 0) >= 5 ? 'schema-engine' : 'migration-engine';
+
+    return getPrismaTargets(platform).flatMap((target) => {
+      const library =
+        target === 'windows'
+          ? 'query_engine.dll.node'
+          : target.startsWith('darwin')
+            ? 'libquery_engine.dylib.node'
+            : 'libquery_engine.so.node';
+      const engine = target === 'windows' ? `${schemaEngine}.exe` : schemaEngine;
+      return [library, engine].flatMap((binary) =>
+        [`${binary}.gz`, `${binary}.gz.sha256`, `${binary}.sha256`].map((name) => {
+          const file = `all_commits/${hash}/${target}/${name}`;
+          return {
+            mirror: 'prisma',
+            path: file,
+            url: `https://binaries.prisma.sh/${file}`,
+            env: 'PRISMA_ENGINES_MIRROR'
+          };
+        })
+      );
+    });
+  }
+};
+
+// Chrome for Testing 的平台名称
+function getChromeForTestingPlatform(platform: PlatformConfig): string | undefined {
+  switch (`${platform.os}-${platform.arch}`) {
+    case 'linux-x64':
+      return 'linux64';
+    case 'darwin-x64':
+      return 'mac-x64';
+    case 'darwin-arm64':
+      return 'mac-arm64';
+    case 'win32-x64':
+      return 'win64';
+    case 'win32-ia32':
+      return 'win32';
+    default:
+      return undefined;
+  }
+}
+
+// Chromium 快照的目录与压缩包名称（puppeteer 21 之前）
+const CHROMIUM_SNAPSHOTS: Record<string, [string, string]> = {
+  'linux-x64': ['Linux_x64', 'chrome-linux'],
+  'darwin-x64': ['Mac', 'chrome-mac'],
+  'darwin-arm64': ['Mac_Arm', 'chrome-mac'],
+  'win32-x64': ['Win_x64', 'chrome-win'],
+  'win32-ia32': ['Win', 'chrome-win']
+};
+
+/**
+ * puppeteer：postinstall 下载 puppeteer-core 中 revisions.js 声明的浏览器版本
+ * 21 起为 Chrome for Testing（PUPPETEER_DOWNLOAD_BASE_URL 指向镜像目录，文件路径为 <版本>/<平台>/<文件名>），
+ * 之前为 Chromium 快照（PUPPETEER_DOWNLOAD_HOST 指向镜像目录，文件路径为 chromium-browser-snapshots/...）。
+ * 浏览器版本只能从 tarball 中读取，需要 puppeteer-core 已缓存
+ */
+const puppeteerRecipe: ArtifactRecipe = {
+  name: 'puppeteer',
+  matches: (manifest) => manifest.name === 'puppeteer',
+  resolve: async ({ name, version, manifest, platform, readPackageFile }) => {
+    const coreVersion = manifest.dependencies?.['puppeteer-core'];
+    const source =
+      typeof coreVersion === 'string' && semver.valid(coreVersion)
+        ? await readPackageFile('puppeteer-core', coreVersion, 'lib/cjs/puppeteer/revisions.js')
+        : await readPackageFile(name, version, 'lib/cjs/puppeteer/revisions.js');
+    if (!source) {
+      throw new Error('revisions.js not found in the cached puppeteer-core tarball');
+    }
+    const revision = (key: string) =>
+      source.match(new RegExp(`['"]?${key}['"]?\\s*:\\s*['"]([\\w.]+)['"]`))?.[1];
+
+    const chrome = revision('chrome');
+    if (chrome) {
+      const target = getChromeForTestingPlatform(platform);
+      if (!target) {
+        return [];
+      }
+      const headlessShell = revision('chrome-headless-shell');
+      return [
+        `${chrome}/${target}/chrome-${target}.zip`,
+        ...(headlessShell ? [`${headlessShell}/${target}/chrome-headless-shell-${target}.zip`] : [])
+      ].map((file) => ({
+        mirror: 'puppeteer',
+        path: file,
+        url: `https://storage.googleapis.com/chrome-for-testing-public/${file}`,
+        env: 'PUPPETEER_DOWNLOAD_BASE_URL'
+      }));
+    }
+
+    const chromium = revision('chromium');
+    const snapshot = CHROMIUM_SNAPSHOTS[`${platform.os}-${platform.arch}`];
+    if (!chromium || !snapshot) {
+      return [];
+    }
+    const file = `chromium-browser-snapshots/${snapshot[0]}/${chromium}/${snapshot[1]}.zip`;
+    return [
+      {
+        mirror: 'puppeteer',
+        path: file,
+        url: `https://storage.googleapis.com/${file}`,
+        env: 'PUPPETEER_DOWNLOAD_HOST'
+      }
+    ];
+  }
+};
+
+// Playwright 浏览器构建的平台后缀（firefox / webkit 按 Linux 发行版分别构建，未内置）
+const PLAYWRIGHT_SUFFIX: Record<string, string> = {
+  'linux-x64': 'linux',
+  'linux-arm64': 'linux-arm64',
+  'darwin-x64': 'mac',
+  'darwin-arm64': 'mac-arm64',
+  'win32-x64': 'win64'
+};
+const PLAYWRIGHT_BROWSERS = new Set(['chromium', 'chromium-headless-shell', 'ffmpeg']);
+
+/**
+ * playwright：`playwright install` 按 playwright-core 中 browsers.json 的修订号下载浏览器
+ * 内置 chromium、chromium-headless-shell 与 ffmpeg；firefox / webkit 的构建按 Linux 发行版区分，需要自定义规则。
+ * PLAYWRIGHT_DOWNLOAD_HOST 指向镜像目录，文件路径为 builds/<浏览器>/<修订号>/<文件名>
+ */
+const playwrightRecipe: ArtifactRecipe = {
+  name: 'playwright',
+  matches: (manifest) => manifest.name === 'playwright-core',
+  resolve: async ({ name, version, platform, readPackageFile }) => {
+    const suffix = PLAYWRIGHT_SUFFIX[`${platform.os}-${platform.arch}`];
+    if (!suffix) {
+      return [];
+    }
+    const source = await readPackageFile(name, version, 'browsers.json');
+    if (!source) {
+      throw new Error('browsers.json not found in the cached playwright-core tarball');
+    }
+
+    const browsers: Array<{ name: string; revision: string }> = JSON.parse(source).browsers || [];
+    return browsers
+      .filter((browser) => PLAYWRIGHT_BROWSERS.has(browser.name) && /^\d+$/.test(String(browser.revision)))
+      .map((browser) => {
+        // chromium-headless-shell 与 chromium 共用构建目录
+        const directory = browser.name === 'ffmpeg' ? 'ffmpeg' : 'chromium';
+        const file = `builds/${directory}/${browser.revision}/${browser.name}-${suffix}.zip`;
+        return {
+          mirror: 'playwright',
+          path: file,
+          url: `https://playwright.download.prss.microsoft.com/dbazure/download/playwright/${file}`,
+          env: 'PLAYWRIGHT_DOWNLOAD_HOST'
+        };
+      });
+  }
+};
+
+const BUILTIN_RECIPES: ArtifactRecipe[] = [
+  electronRecipe,
+  nodePreGypRecipe,
+  prebuildInstallRecipe,
+  nodeSassRecipe,
+  sharpLibvipsRecipe,
+  prismaEnginesRecipe,
+  puppeteerRecipe,
+  playwrightRecipe
+];
+
+/**
+ * 由配置生成的自定义规则
+ */
+function createConfiguredRecipe(config: ArtifactRecipeConfig): ArtifactRecipe {
+  return {
+    name: `custom:${config.package}`,
+    matches: (manifest) =>
+      manifest.name === config.package &&
+      (!config.versions || semver.satisfies(manifest.version, config.versions, { includePrerelease: true })),
+    resolve: ({ name, version, platform, nodeAbis }) => {
+      const files: Array<Omit<ArtifactFile, 'name' | 'version'>> = [];
+      const baseUrl = ensureTrailingSlash(config.baseUrl);
+      for (const template of config.files) {
+        const abis: Array<number | undefined> = template.includes('{abi}') ? nodeAbis : [undefined];
+        for (const abi of abis) {
+          const file = normalizeArtifactPath(
+            fillTemplate(template, {
+              name,
+              version,
+              os: platform.os,
+              arch: platform.arch,
+              libc: platform.libc || '',
+              platform: formatPlatform(platform),
+              abi: abi === undefined ? '' : String(abi)
+            })
+          );
+          files.push({
+            mirror: config.mirror || config.package,
+            path: file,
+            url: baseUrl + file,
+            env: config.env
+          });
+        }
+      }
+      return files;
+    }
+  };
+}
+
+/**
+ * 二进制制品镜像
+ *
+ * electron、sharp、sqlite3 等包在 postinstall 时从 CDN 或 GitHub Releases 下载额外的二进制文件，
+ * 仅缓存 tarball 无法离线安装。按规则计算出这些文件的地址，下载到 storage/.artifacts/<mirror>/ 下，
+ * 随差分导出一起带到内网，由 metadata-healer 通过 /_/artifacts/ 提供下载
+ */
+export class ArtifactMirror {
+  private config: IngestConfig;
+  private router: RegistryRouter;
+  private scanner: StorageScanner;
+  private storagePath: string;
+  private logger: Logger;
+  private recipes: ArtifactRecipe[];
+
+  constructor(
+    config: IngestConfig,
+    router: RegistryRouter,
+    scanner: StorageScanner,
+    storagePath: string,
+    logger: Logger
+  ) {
+    this.config = config;
+    this.router = router;
+    this.scanner = scanner;
+    this.storagePath = storagePath;
+    this.logger = logger;
+
+    const configured = (config.artifacts?.recipes || []).filter(
+      (recipe) => recipe?.package && recipe.baseUrl && Array.isArray(recipe.files)
+    );
+    const overridden = new Set(configured.map((recipe) => recipe.package));
+    this.recipes = [
+      ...configured.map(createConfiguredRecipe),
+      // 配置了自定义规则的包不再使用内置规则
+      ...BUILTIN_RECIPES.map((recipe) => ({
+        ...recipe,
+        matches: (manifest: any) => !overridden.has(manifest.name) && recipe.matches(manifest)
+      }))
+    ];
+  }
+
+  /**
+   * 计算指定版本在各目标平台上需要的制品（按镜像路径去重）
+   */
+  async plan(
+    packages: Array<{ name: string; version: string }>,
+    platforms: PlatformConfig[]
+  ): Promise<ArtifactFile[]> {
+    const nodeAbis = this.getNodeAbis();
+    const files = new Map<string, ArtifactFile>();
+    const byName = new Map<string, Set<string>>();
+    for (const { name, version } of packages) {
+      if (!byName.has(name)) {
+        byName.set(name, new Set());
+      }
+      byName.get(name)!.add(version);
+    }
+
+    const limit = pLimit(this.getConcurrency());
+    await Promise.all(
+      Array.from(byName.entries()).map(([name, versions]) =>
+        limit(async () => {
+          const packument: any = await this.scanner.readPackument(name);
+          if (!packument?.versions) {
+            return;
+          }
+
+          for (const version of versions) {
+            const manifest = packument.versions[version];
+            if (!manifest) {
+              continue;
+            }
+
+            for (const recipe of this.recipes) {
+              if (!recipe.matches(manifest)) {
+                continue;
+              }
+              for (const platform of platforms) {
+                try {
+                  const resolved = await recipe.resolve({
+                    name,
+                    version,
+                    manifest,
+                    platform,
+                    nodeAbis,
+                    readPackageFile: (pkg, pkgVersion, file) => this.scanner.readPackageFile(pkg, pkgVersion, file)
+                  });
+                  for (const file of resolved) {
+                    files.set(`${file.mirror}/${file.path}`, { name, version, ...file });
+                  }
+                } catch (error: any) {
+                  this.logger.warn(
+                    { recipe: recipe.name, spec: `${name}@${version}`, error: error.message },
+                    'Artifact recipe @{recipe} failed for @{spec}: @{error}'
+                  );
+                }
+              }
+            }
+          }
+        })
+      )
+    );
+
+    return Array.from(files.values());
+  }
+
+  /**
+   * 下载制品，已存在的文件跳过
+   */
+  async download(
+    files: ArtifactFile[],
+    retryPolicy: RetryPolicy,
+    onProgress?: (completed: number, total: number, file: ArtifactFile) => void
+  ): Promise<ArtifactDownloadStatus[]> {
+    const limit = pLimit(this.getConcurrency());
+    let completed = 0;
+
+    return Promise.all(
+      files.map((file) =>
+        limit(async (): Promise<ArtifactDownloadStatus> => {
+          const destPath = this.getArtifactPath(file.mirror, file.path);
+          try {
+            if (await this.exists(destPath)) {
+              return { ...file, status: 'skipped' };
+            }
+
+            const { result: size, attempts } = await retryPolicy.run(() =>
+              this.fetchArtifact(file.url, destPath, file.sha256)
+            );
+            this.logger.info(
+              { url: file.url, size },
+              'Downloaded artifact @{url} (@{size} bytes)'
+            );
+            return { ...file, status: 'success', size, attempts };
+          } catch (error: any) {
+            this.logger.warn(
+              { url: file.url, error: error.message },
+              'Failed to download artifact @{url}: @{error}'
+            );
+            return { ...file, status: 'failed', error: error.message, attempts: error.attempts };
+          } finally {
+            completed++;
+            onProgress?.(completed, files.length, file);
+          }
+        })
+      )
+    );
+  }
+
+  /**
+   * 列出已镜像的制品（按镜像目录汇总）
+   */
+  async list(): Promise<Array<{ mirror: string; files: number; size: number }>> {
+    const summary = new Map<string, { files: number; size: number }>();
+    const root = path.join(this.storagePath, ARTIFACTS_DIR);
+
+    const walk = async (relativePath: string): Promise<void> => {
+      let entries;
+      try {
+        entries = await readdir(path.join(root, relativePath), { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        if (entry.name.startsWith('.')) continue;
+        const entryPath = relativePath ? `${relativePath}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+        } else if (entry.isFile()) {
+          const mirror = getMirrorName(entryPath);
+          const fileStat = await stat(path.join(root, entryPath));
+          const item = summary.get(mirror) || { files: 0, size: 0 };
+          item.files++;
+          item.size += fileStat.size;
+          summary.set(mirror, item);
+        }
+      }
+    };
+
+    await walk('');
+    return Array.from(summary.entries())
+      .map(([mirror, item]) => ({ mirror, ...item }))
+      .sort((a, b) => a.mirror.localeCompare(b.mirror));
+  }
+
+  /**
+   * 流式下载到临时文件，完成后重命名，失败时不留下不完整的文件
+   */
+  private async fetchArtifact(url: string, destPath: string, sha256?: string): Promise<number> {
+    const response = await openRegistryStream(createArtifactTarget(this.router, url), url, {
+      accept: 'application/octet-stream'
+    });
+    const status = response.statusCode || 0;
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw createRegistryError(`GET ${url} failed with status ${status}`, status, response.headers);
+    }
+
+    await mkdir(path.dirname(destPath), { recursive: true });
+    const tempPath = `${destPath}.${process.pid}-${randomBytes(4).toString('hex')}.tmp`;
+    const hash = createHash('sha256');
+    let size = 0;
+    const hasher = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        size += chunk.length;
+        hash.update(chunk);
+        callback(null, chunk);
+      }
+    });
+
+    try {
+      await pipeline(response, hasher, createWriteStream(tempPath));
+      if (size === 0) {
+        throw Object.assign(new Error(`Downloaded artifact ${url} is empty`), { code: 'EEMPTYARTIFACT' });
+      }
+      const actual = hash.digest('hex');
+      if (sha256 && sha256.toLowerCase() !== actual) {
+        throw Object.assign(new Error(`SHA256 mismatch for ${url}: expected ${sha256}, got ${actual}`), {
+          code: 'EINTEGRITY'
+        });
+      }
+      await rename(tempPath, destPath);
+      return size;
+    } catch (error) {
+      await unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private getArtifactPath(mirror: string, file: string): string {
+    const root = path.join(this.storagePath, ARTIFACTS_DIR);
+    const destPath = path.join(root, mirror, file);
+    if (!destPath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid artifact path: ${mirror}/${file}`);
+    }
+    return destPath;
+  }
+
+  private getNodeAbis(): number[] {
+    const configured = (this.config.artifacts?.nodeAbis || [])
+      .map(Number)
+      .filter((abi) => Number.isInteger(abi) && abi > 0);
+    return configured.length > 0 ? configured : [Number(process.versions.modules)];
+  }
+
+  private getConcurrency(): number {
+    const configured = Number(this.config.concurrency);
+    if (!Number.isFinite(configured) || configured <= 0) {
+      return 5;
+    }
+    return Math.max(1, Math.min(50, Math.floor(configured)));
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * 制品托管在第三方地址上：沿用默认上游的代理 / CA / 超时设置，但不携带 registry 的认证信息与附加请求头
+ */
+export function createArtifactTarget(router: RegistryRouter, url: string): RegistryTarget {
+  return {
+    ...router.getDefault(),
+    name: 'artifacts',
+    url,
+    authorization: undefined,
+    headers: {}
+  };
+}
+
+/**
+ * 镜像目录名：scoped 包占两级目录
+ */
+export function getMirrorName(relativePath: string): string {
+  const parts = relativePath.split('/');
+  return parts[0].startsWith('@') && parts.length > 2 ? `${parts[0]}/${parts[1]}` : parts[0];
+}
+
+function getPreGypHost(binary: any): string | undefined {
+  const host = typeof binary?.host === 'string' ? binary.host : binary?.host?.endpoint;
+  return typeof host === 'string' && /^https?:\/\//.test(host) ? host : undefined;
+}
+
+function getGitHubRepository(repository: any): string | undefined {
+  const url = typeof repository === 'string' ? repository : repository?.url;
+  const match = typeof url === 'string' && url.match(/github\.com[/:]([^/]+)\/([^/#]+?)(?:\.git)?(?:[/#].*)?$/);
+  if (match) {
+    return `${match[1]}/${match[2]}`;
+  }
+  // "owner/repo" / "github:owner/repo" 简写
+  const shorthand = typeof url === 'string' && url.match(/^(?:github:)?([\w.-]+)\/([\w.-]+)$/);
+  return shorthand ? `${shorthand[1]}/${shorthand[2]}` : undefined;
+}
+
+function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{([a-z_]+)\}/g, (match, key: string) =>
+    key in values ? values[key] : match
+  );
+}
+
+/**
+ * 去掉多余的 ./ 与重复斜杠，拒绝跳出镜像目录的路径
+ */
+function normalizeArtifactPath(file: string): string {
+  const parts = file
+    .split('/')
+    .filter((part) => part !== '' && part !== '.');
+  if (parts.some((part) => part === '..')) {
+    throw new Error(`Invalid artifact path: ${file}`);
+  }
+  return parts.join('/');
+}
+
+function ensureTrailingSlash(url: string): string {
+  return url.endsWith('/') ? url : `${url}/`;
+}
@@ -2,6 +2,11 @@ import pacote from 'pacote';
 import semver from 'semver';
 import pLimit from 'p-limit';
 import { Logger } from '@verdaccio/types';
+import { AdvisoryIndex } from './advisory-db';
+import { classifyDependencySpec, isRegistrySpec } from './dependency-spec';
+import { PackumentSession } from './packument-cache';
+import { hasPlatformRestriction, matchesPlatformFields } from './platform-matcher';
+import { RegistryRouter } from './registry-router';
 import {
   IngestConfig,
   ResolvedPackage,
@@ -10,7 +15,12 @@ import {
   RefreshedMetadata,
   PackageToDownload,
   ProgressCallback,
-  AnalysisProgress
+  AnalysisProgress,
+  DependencyEdge,
+  DependencyType,
+  DependencySpecType,
+  AnalysisTrace,
+  UnresolvedDependency
 } from './types';
 
 /**
@@ -25,24 +35,30 @@ import {
  * 1. 使用 packument（包含所有版本）替代 manifest（单个版本），减少请求次数
  * 2. 并发获取元数据，提高效率
  * 3. 先完整分析依赖树，再统一下载，避免重复判断
- * 4. 缓存 packument，处理交叉依赖时避免重复请求
+ * 4. 缓存 packument（磁盘持久化 + ETag 校验），处理交叉依赖及多次分析时避免重复下载
+ *
+ * 每个任务使用独立的实例，packument 的校验记录只属于本任务，并发任务之间互不影响
  */
 export class DependencyResolver {
   private config: IngestConfig;
   private logger: Logger;
-  private registry: string;
-  // 缓存 packument（包含所有版本信息），避免重复请求
-  private packumentCache: Map<string, any> = new Map();
-  // 正在进行中的 packument 请求（避免并发场景下重复请求同一包）
-  private packumentInflight: Map<string, Promise<any | null>> = new Map();
+  private router: RegistryRouter;
+  // 本任务的 packument 缓存会话（缓存精简后的 packument，包含所有版本信息），避免重复请求
+  private packumentCache: PackumentSession;
   // 并发控制
   private concurrencyLimit: ReturnType<typeof pLimit>;
 
-  constructor(config: IngestConfig, logger: Logger) {
+  constructor(
+    config: IngestConfig,
+    router: RegistryRouter,
+    packuments: PackumentSession,
+    logger: Logger
+  ) {
     this.config = config;
     this.logger = logger;
-    this.registry = config.upstreamRegistry || 'https://registry.npmjs.org';
+    this.router = router;
     this.concurrencyLimit = pLimit(config.concurrency || 5);
+    this.packumentCache = packuments;
   }
 
   /**
@@ -126,13 +142,18 @@ export class DependencyResolver {
    * 2. 使用 packument 缓存：避免交叉依赖导致的重复请求
    * 3. 并发获取：同一层的包并发获取元数据
    * 4. 先完整分析，再统一下载：生成完整的下载列表后再执行下载
+   *
+   * 传入 advisories（avoidVulnerable 选项）时，版本范围优先解析到不受安全公告影响的最高版本，
+   * 并为受影响的已缓存版本补充同系列的修复版本（security-fix）
    */
   async analyzeMissingDependencies(
     cached: CachedPackage[],
     metadata: RefreshedMetadata[],
     options: SyncOptions,
     onProgress?: ProgressCallback,
-    progressStartTime?: number
+    progressStartTime?: number,
+    trace?: AnalysisTrace,
+    advisories?: AdvisoryIndex
   ): Promise<PackageToDownload[]> {
     type AnalysisTarget = {
       name: string;
@@ -149,6 +170,10 @@ export class DependencyResolver {
     const processed = new Set<string>();
     // 已分析过依赖的 name@version（避免重复分析同一版本的依赖）
     const analyzedDeps = new Set<string>();
+    // 依赖图记录：边在父节点处登记，子节点版本待解析后回填
+    const graphRecorder = trace?.edges ? this.createGraphRecorder() : null;
+    // 无法从 registry 获取的依赖（按 name@spec 去重）
+    const unresolved = trace?.unresolved ? new Map<string, UnresolvedDependency>() : null;
 
     const startTime = progressStartTime || Date.now();
 
@@ -174,11 +199,30 @@ export class DependencyResolver {
       }
     }
 
+    // 已缓存包的安全公告（按上游全部版本查询，用于判断已缓存版本是否受影响及查找修复版本）
+    if (advisories) {
+      await advisories.prefetch(
+        new Map(cached.map((pkg) => [pkg.name, metadataMap.get(pkg.name)?.versions || pkg.versions]))
+      );
+    }
+
     // 第二步：收集需要更新/补齐的版本作为附加根节点
     for (const pkg of cached) {
       const meta = metadataMap.get(pkg.name);
       if (!meta) continue;
 
+      // 受安全公告影响的已缓存版本：补充同 minor（其次同 major）中不受影响的最高版本
+      if (advisories) {
+        for (const fixVersion of this.findSecurityFixes(pkg, meta.versions, advisories)) {
+          addFirstLayerTarget({
+            name: pkg.name,
+            versionRange: fixVersion,
+            requiredBy: 'security-fix',
+            reason: 'security-fix'
+          });
+        }
+      }
+
       if (options.updateToLatest) {
         const latestVersion = meta.distTags.latest;
         if (latestVersion && !pkg.versions.includes(latestVersion)) {
@@ -226,6 +270,9 @@ export class DependencyResolver {
 
       // 批量并发获取 packument
       await this.prefetchPackuments(packageNames);
+      if (advisories) {
+        await this.prefetchAdvisories(packageNames, advisories);
+      }
 
       // 下一层待处理的包
       const nextLayer: AnalysisTarget[] = [];
@@ -256,17 +303,38 @@ export class DependencyResolver {
 
         try {
           // 从缓存的 packument 中解析具体版本
-          const resolvedVersion = await this.resolveVersionFromCache(name, versionRange);
+          const resolvedVersion = await this.resolveVersionFromCache(name, versionRange, advisories);
           if (!resolvedVersion) {
             this.logger.warn(
               { name, versionRange },
               'Could not resolve version for @{name}@@{versionRange}'
             );
+            // 本地已有版本在上游不存在（如已撤销）时无需下载，不计入无法解析
+            if (requiredBy && requiredBy !== 'local-cache') {
+              this.recordUnresolved(
+                unresolved,
+                name,
+                versionRange,
+                'registry',
+                requiredBy,
+                'No matching version found in registry'
+              );
+            }
+            continue;
+          }
+
+          // 依赖中只适用于其他平台的二进制包无需下载（根节点不过滤）
+          if (depth > 0 && (await this.isExcludedByPlatform(name, resolvedVersion, options))) {
             continue;
           }
 
           const key = `${name}@${resolvedVersion}`;
 
+          graphRecorder?.resolve(name, versionRange, resolvedVersion);
+          if (depth === 0 && requiredBy) {
+            graphRecorder?.addEdge(requiredBy, name, versionRange, 'root', 0);
+          }
+
           // 跳过已处理的包
           if (processed.has(key)) {
             continue;
@@ -278,12 +346,15 @@ export class DependencyResolver {
           const hasLocalVersion = cachedPkg?.versions.includes(resolvedVersion);
 
           if (!hasLocalVersion) {
-            // 需要下载
+            // 需要下载（packument 已在解析版本时缓存）
+            const packument = await this.getPackument(name);
             missing.push({
               name,
               version: resolvedVersion,
               reason: reason || (depth === 0 ? 'newer-version' : 'missing-dependency'),
-              requiredBy
+              requiredBy,
+              registry: this.packumentCache.getSource(name),
+              size: packument?.versions?.[resolvedVersion]?.dist?.unpackedSize
             });
           }
 
@@ -291,20 +362,27 @@ export class DependencyResolver {
           if (!analyzedDeps.has(key)) {
             analyzedDeps.add(key);
 
-            const packument = this.packumentCache.get(name);
+            const packument = await this.getPackument(name);
             const versionManifest = packument?.versions?.[resolvedVersion];
 
             if (versionManifest) {
-              const dependencies = this.collectDependencies(versionManifest, options);
+              const dependencies = this.collectTypedDependencies(
+                versionManifest,
+                options,
+                (depName, spec, type) => this.recordUnresolved(unresolved, depName, spec, type, key)
+              );
 
               // 收集子依赖到下一层
-              for (const [depName, depRange] of Object.entries(dependencies)) {
+              for (const { name: depName, range: depRange, type: depType } of dependencies) {
                 // 检查本地是否有满足版本范围的版本
                 const depCached = cachedMap.get(depName);
                 const hasSatisfyingVersion = depCached &&
-                  this.hasMatchingVersion(depCached.versions, depRange as string);
+                  this.hasMatchingVersion(depCached.versions, depRange);
 
                 if (!hasSatisfyingVersion) {
+                  // 本地已满足的依赖不会产生下载，不计入依赖图
+                  graphRecorder?.addEdge(key, depName, depRange, depType, depth + 1);
+
                   const nextKey = `${depName}@${depRange}`;
                   if (nextLayerSeen.has(nextKey)) {
                     continue;
@@ -313,7 +391,7 @@ export class DependencyResolver {
 
                   nextLayer.push({
                     name: depName,
-                    versionRange: depRange as string,
+                    versionRange: depRange,
                     requiredBy: key
                   });
                 }
@@ -339,6 +417,13 @@ export class DependencyResolver {
     // 去重（可能有多个包依赖同一个版本）
     const uniqueMissing = this.deduplicatePackages(missing);
 
+    if (trace?.edges && graphRecorder) {
+      trace.edges.push(...graphRecorder.build());
+    }
+    if (trace?.unresolved && unresolved) {
+      trace.unresolved.push(...unresolved.values());
+    }
+
     this.logger.info(
       { count: uniqueMissing.length, depth },
       'Analysis complete: found @{count} missing packages across @{depth} layers'
@@ -351,8 +436,8 @@ export class DependencyResolver {
    * 批量预取 packument
    */
   private async prefetchPackuments(packageNames: string[]): Promise<void> {
-    // 过滤出未缓存的包
-    const uncached = packageNames.filter((name) => !this.packumentCache.has(name));
+    // 过滤出本轮尚未校验的包
+    const uncached = packageNames.filter((name) => !this.packumentCache.isValidated(name));
 
     if (uncached.length === 0) return;
 
@@ -371,37 +456,70 @@ export class DependencyResolver {
     await Promise.all(tasks);
   }
 
+  /**
+   * 批量查询安全公告（提交 packument 中的全部版本）
+   */
+  private async prefetchAdvisories(packageNames: string[], advisories: AdvisoryIndex): Promise<void> {
+    const packages = new Map<string, string[]>();
+    for (const name of packageNames) {
+      const packument = await this.getPackument(name);
+      if (packument?.versions) {
+        packages.set(name, Object.keys(packument.versions));
+      }
+    }
+    await advisories.prefetch(packages);
+  }
+
   /**
    * 从缓存的 packument 中解析版本
    */
   private async resolveVersionFromCache(
     name: string,
-    range: string
+    range: string,
+    advisories?: AdvisoryIndex
   ): Promise<string | null> {
-    const packument = this.packumentCache.get(name);
-    if (!packument) {
-      // 尝试获取
-      const fetched = await this.getPackument(name);
-      if (!fetched) return null;
+    const cached = await this.getPackument(name);
+    if (!cached?.versions) return null;
+
+    const matched = this.matchVersion(cached, range, advisories);
+    if (matched) {
+      return matched;
     }
 
-    const cached = this.packumentCache.get(name);
-    if (!cached?.versions) return null;
+    // 当前 registry 没有满足的版本（如镜像尚未同步），尝试后续 registry
+    const fallback = await this.packumentCache.getFromFallback(
+      name,
+      (packument) => this.matchVersion(packument, range) !== null
+    );
+    return fallback ? this.matchVersion(fallback, range, advisories) : null;
+  }
+
+  /**
+   * 在 packument 中匹配版本（具体版本 / dist-tag / 版本范围）
+   * 传入 advisories 时，版本范围优先匹配不受安全公告影响的版本，没有时仍取最高的满足版本
+   */
+  private matchVersion(packument: any, range: string, advisories?: AdvisoryIndex): string | null {
+    if (!packument?.versions) return null;
 
     // 如果 range 是具体版本
-    if (cached.versions[range]) {
+    if (packument.versions[range]) {
       return range;
     }
 
     // 如果 range 是 dist-tag
-    if (cached['dist-tags']?.[range]) {
-      return cached['dist-tags'][range];
+    if (packument['dist-tags']?.[range]) {
+      return packument['dist-tags'][range];
     }
 
     // 解析版本范围
-    const versions = Object.keys(cached.versions);
-    const matched = semver.maxSatisfying(versions, range);
-    return matched;
+    const versions = Object.keys(packument.versions);
+    if (advisories) {
+      const safe = semver.maxSatisfying(advisories.filterSafe(packument.name, versions), range);
+      if (safe) {
+        return safe;
+      }
+    }
+    return semver.maxSatisfying(versions, range);
   }
 
   /**
@@ -420,171 +538,320 @@ export class DependencyResolver {
     return Array.from(seen.values());
   }
 
-  /**
-   * 精简 packument 数据，只保留分析所需的字段
-   * 完整 packument 可能包含 readme、scripts 等大量无用数据，
-   * 对于 7000+ 包的场景会导致内存溢出
-   */
-  private trimPackument(packument: any): any {
-    const trimmed: any = {
-      name: packument.name,
-      'dist-tags': packument['dist-tags'] || {}
-    };
-
-    // 只保留每个版本的依赖相关字段和 dist 信息
-    if (packument.versions) {
-      trimmed.versions = {};
-      for (const [ver, manifest] of Object.entries<any>(packument.versions)) {
-        trimmed.versions[ver] = {
-          name: manifest.name,
-          version: manifest.version,
-          dependencies: manifest.dependencies,
-          devDependencies: manifest.devDependencies,
-          peerDependencies: manifest.peerDependencies,
-          optionalDependencies: manifest.optionalDependencies,
-          dist: manifest.dist,
-          os: manifest.os,
-          cpu: manifest.cpu,
-          libc: manifest.libc
-        };
-      }
-    }
-
-    return trimmed;
-  }
-
   /**
    * 获取 packument（带缓存，精简存储）
    */
   private async getPackument(name: string): Promise<any | null> {
-    if (this.packumentCache.has(name)) {
-      return this.packumentCache.get(name);
-    }
-
-    const inflight = this.packumentInflight.get(name);
-    if (inflight) {
-      return inflight;
-    }
-
-    const request = (async () => {
-      try {
-        const packument = await pacote.packument(name, {
-          registry: this.registry,
-          fullMetadata: true
-        });
-        // 精简后再缓存，大幅减少内存占用
-        const trimmed = this.trimPackument(packument);
-        this.packumentCache.set(name, trimmed);
-        return trimmed;
-      } catch (error: any) {
-        this.logger.warn(
-          { name, error: error.message },
-          'Failed to get packument for @{name}: @{error}'
-        );
-        return null;
-      } finally {
-        this.packumentInflight.delete(name);
-      }
-    })();
-
-    this.packumentInflight.set(name, request);
-    return request;
+    return this.packumentCache.get(name);
   }
 
   /**
    * 递归解析依赖树（完整版本）
-   * 用于从零开始下载一个包及其所有依赖
+   * 用于从零开始下载一个包及其所有依赖；
+   * 传入本地缓存时，子依赖优先复用本地已有的满足版本
    */
   async resolveTree(
     packages: string[],
-    options: SyncOptions
+    options: SyncOptions,
+    cached: CachedPackage[] = [],
+    onProgress?: ProgressCallback,
+    progressStartTime?: number,
+    trace?: AnalysisTrace
   ): Promise<ResolvedPackage[]> {
+    type TreeTarget = { name: string; versionRange: string; requiredBy?: string };
+
     const resolved = new Map<string, ResolvedPackage>();
-    const queue: Array<{ name: string; versionRange: string; depth: number }> = [];
+    const cachedMap = new Map(cached.map((p) => [p.name, p]));
+    // 已加入队列的 name@range（避免同一范围重复解析）
+    const queued = new Set<string>();
+    const graphRecorder = trace?.edges ? this.createGraphRecorder() : null;
+    // 无法从 registry 获取的依赖（按 name@spec 去重）
+    const unresolved = trace?.unresolved ? new Map<string, UnresolvedDependency>() : null;
+    const startTime = progressStartTime || Date.now();
 
-    // 初始化队列
+    // 初始化根节点
+    let currentLayer: TreeTarget[] = [];
     for (const pkg of packages) {
       const { name, version } = this.parsePackageSpec(pkg);
-      queue.push({ name, versionRange: version || 'latest', depth: 0 });
+      const spec = classifyDependencySpec(name, version || 'latest');
+      if (!isRegistrySpec(spec)) {
+        this.recordUnresolved(unresolved, name, version || '', spec.type, 'requested');
+        continue;
+      }
+      queued.add(`${spec.name}@${spec.range}`);
+      currentLayer.push({ name: spec.name, versionRange: spec.range });
     }
 
-    // BFS 遍历依赖树
-    while (queue.length > 0) {
-      const { name, versionRange, depth } = queue.shift()!;
+    let depth = 0;
+    const maxDepth = options.maxDepth || 50;
+    let totalProcessed = 0;
+    let estimatedTotal = currentLayer.length * 3;
 
-      // 检查深度限制
-      if (options.maxDepth && depth > options.maxDepth) {
-        continue;
-      }
+    // 分层 BFS 遍历依赖树
+    while (currentLayer.length > 0 && depth <= maxDepth) {
+      await this.prefetchPackuments([...new Set(currentLayer.map((p) => p.name))]);
 
-      try {
-        const manifest = await pacote.manifest(`${name}@${versionRange}`, {
-          registry: this.registry,
-          fullMetadata: true
-        });
+      const nextLayer: TreeTarget[] = [];
 
-        const key = `${manifest.name}@${manifest.version}`;
-        if (resolved.has(key)) {
-          continue;
-        }
+      for (const { name, versionRange, requiredBy } of currentLayer) {
+        totalProcessed++;
+
+        if (onProgress) {
+          const elapsed = Date.now() - startTime;
+          const avgTimePerPkg = totalProcessed > 0 ? elapsed / totalProcessed : 0;
+          const remaining = Math.max(0, (estimatedTotal - totalProcessed) * avgTimePerPkg);
 
-        const resolvedPkg: ResolvedPackage = {
-          name: manifest.name,
-          version: manifest.version,
-          dist: manifest.dist || { tarball: '', shasum: '' },
-          dependencies: manifest.dependencies || {},
-          devDependencies: options.includeDev ? manifest.devDependencies || {} : {},
-          peerDependencies: options.includePeer ? manifest.peerDependencies || {} : {},
-          optionalDependencies: options.includeOptional
-            ? manifest.optionalDependencies || {}
-            : {}
-        };
-
-        resolved.set(key, resolvedPkg);
-
-        // 将依赖加入队列
-        const allDeps = this.collectDependencies(manifest, options);
-
-        for (const [depName, depVersion] of Object.entries(allDeps)) {
-          queue.push({
-            name: depName,
-            versionRange: depVersion as string,
-            depth: depth + 1
+          onProgress({
+            phase: 'analyzing',
+            phaseProgress: Math.min(99, Math.round((totalProcessed / estimatedTotal) * 100)),
+            totalProgress: Math.min(99, Math.round((totalProcessed / estimatedTotal) * 100)),
+            currentPackage: `${name}@${versionRange}`,
+            processed: totalProcessed,
+            total: estimatedTotal,
+            startTime,
+            estimatedRemaining: Math.round(remaining),
+            phaseDescription: `解析依赖 (层级 ${depth}): ${name}`
           });
         }
 
-        this.logger.debug(
-          { name: manifest.name, version: manifest.version },
-          'Resolved @{name}@@{version}'
-        );
-      } catch (error: any) {
-        this.logger.warn(
-          { name, versionRange, error: error.message },
-          'Failed to resolve @{name}@@{versionRange}: @{error}'
-        );
+        try {
+          // 子依赖优先使用本地已缓存的满足版本，根节点始终按上游解析
+          const localVersions = depth > 0 ? cachedMap.get(name)?.versions || [] : [];
+          const resolvedVersion =
+            semver.maxSatisfying(localVersions, versionRange) ||
+            (await this.resolveVersionFromCache(name, versionRange));
+
+          if (!resolvedVersion) {
+            this.logger.warn(
+              { name, versionRange },
+              'Could not resolve version for @{name}@@{versionRange}'
+            );
+            this.recordUnresolved(
+              unresolved,
+              name,
+              versionRange,
+              'registry',
+              requiredBy || 'requested',
+              'No matching version found in registry'
+            );
+            continue;
+          }
+
+          // 依赖中只适用于其他平台的二进制包无需下载（根节点不过滤）
+          if (depth > 0 && (await this.isExcludedByPlatform(name, resolvedVersion, options))) {
+            continue;
+          }
+
+          const key = `${name}@${resolvedVersion}`;
+
+          graphRecorder?.resolve(name, versionRange, resolvedVersion);
+          if (depth === 0) {
+            graphRecorder?.addEdge('requested', name, versionRange, 'root', 0);
+          }
+
+          if (resolved.has(key)) {
+            continue;
+          }
+
+          const manifest = (await this.getPackument(name))?.versions?.[resolvedVersion];
+
+          resolved.set(key, {
+            name,
+            version: resolvedVersion,
+            dist: manifest?.dist || { tarball: '', shasum: '' },
+            dependencies: manifest?.dependencies || {},
+            devDependencies: options.includeDev ? manifest?.devDependencies || {} : {},
+            peerDependencies: options.includePeer ? manifest?.peerDependencies || {} : {},
+            optionalDependencies: options.includeOptional
+              ? manifest?.optionalDependencies || {}
+              : {},
+            requiredBy,
+            registry: this.packumentCache.getSource(name)
+          });
+
+          // 将依赖加入下一层
+          const dependencies = this.collectTypedDependencies(
+            manifest,
+            options,
+            (depName, spec, type) => this.recordUnresolved(unresolved, depName, spec, type, key)
+          );
+          for (const { name: depName, range: depRange, type: depType } of dependencies) {
+            graphRecorder?.addEdge(key, depName, depRange, depType, depth + 1);
+
+            const nextKey = `${depName}@${depRange}`;
+            if (queued.has(nextKey)) {
+              continue;
+            }
+            queued.add(nextKey);
+            nextLayer.push({ name: depName, versionRange: depRange, requiredBy: key });
+          }
+
+          this.logger.debug(
+            { name, version: resolvedVersion },
+            'Resolved @{name}@@{version}'
+          );
+        } catch (error: any) {
+          this.logger.warn(
+            { name, versionRange, error: error.message },
+            'Failed to resolve @{name}@@{versionRange}: @{error}'
+          );
+        }
       }
+
+      estimatedTotal = totalProcessed + nextLayer.length * 2;
+      currentLayer = nextLayer;
+      depth++;
+    }
+
+    if (trace?.edges && graphRecorder) {
+      trace.edges.push(...graphRecorder.build());
     }
+    if (trace?.unresolved && unresolved) {
+      trace.unresolved.push(...unresolved.values());
+    }
+
+    this.logger.info(
+      { roots: packages.length, count: resolved.size, depth },
+      'Resolved tree for @{roots} specs: @{count} packages across @{depth} layers'
+    );
 
     return Array.from(resolved.values());
   }
 
   /**
-   * 收集所有需要处理的依赖
+   * 收集所有需要处理的依赖，并保留依赖类型
+   * 同名依赖按 optional > peer > dev > dependencies 的优先级覆盖；
+   * npm: 别名指向真实包，bundleDependencies 随父包 tarball 分发因此跳过，
+   * 其余非 registry 依赖交给 onUnresolved 记录
    */
-  private collectDependencies(
+  private collectTypedDependencies(
     manifest: any,
-    options: SyncOptions
-  ): Record<string, string> {
-    if (!manifest) return {};
+    options: SyncOptions,
+    onUnresolved?: (name: string, spec: string, type: DependencySpecType) => void
+  ): Array<{ name: string; range: string; type: DependencyType }> {
+    if (!manifest) return [];
+
+    const bundled = manifest.bundleDependencies ?? manifest.bundledDependencies;
+    const bundledNames = new Set<string>(
+      bundled === true
+        ? Object.keys(manifest.dependencies || {})
+        : Array.isArray(bundled)
+          ? bundled
+          : []
+    );
+
+    const fields: Array<[DependencyType, boolean]> = [
+      ['dependencies', true],
+      ['devDependencies', !!options.includeDev],
+      ['peerDependencies', !!options.includePeer],
+      ['optionalDependencies', !!options.includeOptional]
+    ];
+
+    const declared = new Map<string, { range: string; type: DependencyType }>();
+    for (const [field, enabled] of fields) {
+      if (!enabled) continue;
+      for (const [name, range] of Object.entries<string>(manifest[field] || {})) {
+        declared.set(name, { range, type: field });
+      }
+    }
+
+    const result: Array<{ name: string; range: string; type: DependencyType }> = [];
+    for (const [name, { range, type }] of declared) {
+      if (bundledNames.has(name)) continue;
+
+      const spec = classifyDependencySpec(name, range);
+      if (isRegistrySpec(spec)) {
+        result.push({ name: spec.name, range: spec.range, type });
+      } else if (onUnresolved) {
+        onUnresolved(name, range, spec.type);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 记录无法从 registry 获取的依赖
+   */
+  private recordUnresolved(
+    unresolved: Map<string, UnresolvedDependency> | null,
+    name: string,
+    spec: string,
+    type: DependencySpecType,
+    requiredBy: string,
+    error?: string
+  ): void {
+    if (!unresolved) return;
+
+    const key = `${name}@${spec}`;
+    const existing = unresolved.get(key);
+    if (existing) {
+      if (!existing.requiredBy.includes(requiredBy)) {
+        existing.requiredBy.push(requiredBy);
+      }
+      return;
+    }
+    unresolved.set(key, { name, spec, type, requiredBy: [requiredBy], error });
+  }
+
+  /**
+   * 创建依赖图记录器
+   * 边在处理父节点时登记（子节点仅知道版本范围），子节点解析出具体版本后再回填
+   */
+  private createGraphRecorder() {
+    const pending: Array<Omit<DependencyEdge, 'child'> & { name: string }> = [];
+    const resolutions = new Map<string, string>();
 
     return {
-      ...(manifest.dependencies || {}),
-      ...(options.includeDev ? manifest.devDependencies || {} : {}),
-      ...(options.includePeer ? manifest.peerDependencies || {} : {}),
-      ...(options.includeOptional ? manifest.optionalDependencies || {} : {})
+      addEdge: (
+        parent: string,
+        name: string,
+        range: string,
+        type: DependencyEdge['type'],
+        depth: number
+      ): void => {
+        pending.push({ parent, name, range, type, depth });
+      },
+      resolve: (name: string, range: string, version: string): void => {
+        resolutions.set(`${name}@${range}`, version);
+      },
+      build: (): DependencyEdge[] => {
+        const edges: DependencyEdge[] = [];
+        const seen = new Set<string>();
+        for (const { parent, name, range, type, depth } of pending) {
+          const version = resolutions.get(`${name}@${range}`);
+          // 超出最大深度或解析失败的依赖没有对应节点
+          if (!version) continue;
+          const child = `${name}@${version}`;
+          const edgeKey = `${parent}>${child}>${type}`;
+          if (seen.has(edgeKey)) continue;
+          seen.add(edgeKey);
+          edges.push({ parent, child, range, type, depth });
+        }
+        return edges;
+      }
     };
   }
 
+  /**
+   * 版本声明了 os / cpu / libc 限制且与所有目标平台都不匹配（npm 在这些平台上不会安装）
+   */
+  private async isExcludedByPlatform(
+    name: string,
+    version: string,
+    options: SyncOptions
+  ): Promise<boolean> {
+    if (!options.platforms || options.platforms.length === 0) {
+      return false;
+    }
+
+    const manifest = (await this.getPackument(name))?.versions?.[version];
+    if (!hasPlatformRestriction(manifest)) {
+      return false;
+    }
+    return !options.platforms.some((platform) => matchesPlatformFields(manifest, platform));
+  }
+
   /**
    * 检查是否有匹配的版本
    */
@@ -646,33 +913,54 @@ export class DependencyResolver {
     return Array.from(result);
   }
 
+  /**
+   * 为受安全公告影响的已缓存版本查找修复版本
+   * 依次在同 minor、同 major 中查找高于该版本且不受影响的最高稳定版本，已缓存时无需补充
+   */
+  private findSecurityFixes(
+    pkg: CachedPackage,
+    availableVersions: string[],
+    advisories: AdvisoryIndex
+  ): string[] {
+    const result = new Set<string>();
+    const safeAvailable = advisories
+      .filterSafe(pkg.name, availableVersions)
+      .filter((v) => {
+        const parsed = semver.parse(v);
+        return parsed && !parsed.prerelease.length;
+      });
+
+    for (const cachedVersion of pkg.versions) {
+      const parsed = semver.parse(cachedVersion);
+      if (!parsed || advisories.match(pkg.name, cachedVersion).length === 0) continue;
+
+      const fixVersion =
+        semver.maxSatisfying(safeAvailable, `>${cachedVersion} <${parsed.major}.${parsed.minor + 1}.0`) ||
+        semver.maxSatisfying(safeAvailable, `>${cachedVersion} <${parsed.major + 1}.0.0`);
+      if (fixVersion && !pkg.versions.includes(fixVersion)) {
+        result.add(fixVersion);
+      }
+    }
+
+    return Array.from(result);
+  }
+
   /**
    * 解析版本范围到具体版本
    */
   async resolveVersion(name: string, range: string): Promise<string> {
-    const manifest = await pacote.manifest(`${name}@${range}`, {
-      registry: this.registry
-    });
+    const { result: manifest } = await this.router.withFailover(name, (target) =>
+      pacote.manifest(`${name}@${range}`, this.router.toPacoteOptions(target))
+    );
     return manifest.version;
   }
 
   /**
    * 解析包规格
+   * 以包名后的第一个 @ 分隔，保证 npm: 别名、URL 等描述完整保留
    */
   private parsePackageSpec(spec: string): { name: string; version?: string } {
-    // 处理 scoped 包
-    if (spec.startsWith('@')) {
-      const lastAtIndex = spec.lastIndexOf('@');
-      if (lastAtIndex > 0) {
-        return {
-          name: spec.substring(0, lastAtIndex),
-          version: spec.substring(lastAtIndex + 1)
-        };
-      }
-      return { name: spec };
-    }
-
-    const atIndex = spec.lastIndexOf('@');
+    const atIndex = spec.indexOf('@', 1);
     if (atIndex > 0) {
       return {
         name: spec.substring(0, atIndex),
@@ -683,10 +971,44 @@ export class DependencyResolver {
   }
 
   /**
-   * 清除 packument 缓存
+   * 结束本任务的 packument 缓存会话并输出缓存统计，每个任务结束时调用一次
+   * 磁盘缓存与内存 LRU 保留，下一个任务通过条件请求重新校验
    */
-  clearCache(): void {
-    this.packumentCache.clear();
-    this.packumentInflight.clear();
+  endSession(): void {
+    this.packumentCache.end();
   }
 }
+
+/**
+ * 精简 packument 数据，只保留分析所需的字段
+ * 完整 packument 可能包含 readme、scripts 等大量无用数据，
+ * 对于 7000+ 包的场景会导致内存溢出
+ */
+export function trimPackument(packument: any): any {
+  const trimmed: any = {
+    name: packument.name,
+    'dist-tags': packument['dist-tags'] || {}
+  };
+
+  // 只保留每个版本的依赖相关字段和 dist 信息
+  if (packument.versions) {
+    trimmed.versions = {};
+    for (const [ver, manifest] of Object.entries<any>(packument.versions)) {
+      trimmed.versions[ver] = {
+        name: manifest.name,
+        version: manifest.version,
+        dependencies: manifest.dependencies,
+        devDependencies: manifest.devDependencies,
+        peerDependencies: manifest.peerDependencies,
+        optionalDependencies: manifest.optionalDependencies,
+        dist: manifest.dist,
+        bundleDependencies: manifest.bundleDependencies ?? manifest.bundledDependencies,
+        os: manifest.os,
+        cpu: manifest.cpu,
+        libc: manifest.libc
+      };
+    }
+  }
+
+  return trimmed;
+}
@@ -0,0 +1,62 @@
+import { DependencySpecType } from './types';
+
+/**
+ * 依赖描述分类结果
+ */
+export interface ClassifiedSpec {
+  type: DependencySpecType;
+  /** 实际包名（npm: 别名会指向真实包） */
+  name: string;
+  /** 可用于 registry 解析的版本范围（仅 registry / alias 有意义） */
+  range: string;
+}
+
+/**
+ * 对依赖描述进行分类
+ * 仅 registry 与 npm: 别名可以从上游 registry 获取，其余类型需要单独处理
+ */
+export function classifyDependencySpec(name: string, spec: string): ClassifiedSpec {
+  const raw = String(spec ?? '').trim();
+  const other = (type: DependencySpecType): ClassifiedSpec => ({ type, name, range: raw });
+
+  if (raw.startsWith('npm:')) {
+    const target = raw.slice(4);
+    const atIndex = target.indexOf('@', 1);
+    return {
+      type: 'alias',
+      name: atIndex === -1 ? target : target.substring(0, atIndex),
+      range: atIndex === -1 ? 'latest' : target.substring(atIndex + 1) || 'latest'
+    };
+  }
+
+  if (raw.startsWith('workspace:')) return other('workspace');
+  if (raw.startsWith('link:') || raw.startsWith('portal:')) return other('link');
+  if (raw.startsWith('file:') || /^(\.{1,2}\/|\/|~\/)/.test(raw)) return other('file');
+
+  if (
+    /^git(\+[a-z]+)?:/i.test(raw) ||
+    /^(github|gitlab|bitbucket|gist):/i.test(raw) ||
+    /^ssh:\/\//i.test(raw) ||
+    /^[^@\s]+@[^:\s]+:.+\.git(#.*)?$/.test(raw) ||
+    /^https?:\/\/.+\.git(#.*)?$/i.test(raw)
+  ) {
+    return other('git');
+  }
+
+  if (/^https?:\/\//i.test(raw)) return other('tarball');
+
+  // GitHub 简写：user/repo 或 user/repo#ref
+  if (/^[^@\s/:]+\/[^\s/]+$/.test(raw)) return other('github');
+
+  // yarn 的 patch: / exec: 等协议
+  if (/^[a-z]+:/i.test(raw)) return other('other');
+
+  return { type: 'registry', name, range: raw || 'latest' };
+}
+
+/**
+ * 是否可以从 registry 获取
+ */
+export function isRegistrySpec(spec: ClassifiedSpec): boolean {
+  return spec.type === 'registry' || spec.type === 'alias';
+}
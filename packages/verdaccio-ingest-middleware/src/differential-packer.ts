@@ -1,244 +1,320 @@
-import { createReadStream, createWriteStream } from 'fs';
-import { mkdir, rm, copyFile, readFile, writeFile, stat } from 'fs/promises';
+import { createWriteStream } from 'fs';
+import { open, rm } from 'fs/promises';
 import path from 'path';
 import { createHash } from 'crypto';
+import { Transform } from 'stream';
 import { pipeline } from 'stream/promises';
-import { createGzip, createGunzip } from 'zlib';
-import pLimit from 'p-limit';
-import tar from 'tar';
+import { createGzip } from 'zlib';
 import { Logger } from '@verdaccio/types';
+import { MANIFEST_FILE } from 'verdaccio-offline-common';
+import { TarWriter } from './tar-writer';
+import { ManifestSigner } from './manifest-signer';
+import { createEncryptStream, ENCRYPTED_ARCHIVE_EXTENSION } from './export-encryption';
 import {
   ScannedFile,
   ExportManifest,
   ExportFileEntry,
   ExportRecord,
-  ExportProgress
+  ExportProgress,
+  ExportVolume,
+  ExportEncryptionOptions
 } from './types';
 
+// 每个分卷为 gzip 头尾、tar 结束块及清单的固定部分预留的空间
+const VOLUME_RESERVED_SIZE = 64 * 1024;
+// 允许的最小分卷大小
+export const MIN_VOLUME_SIZE = 1024 * 1024;
+// 同一文件内两次进度回调的最小间隔（毫秒）
+const PROGRESS_INTERVAL = 500;
+
 /**
  * 差分打包器
- * 用于创建和解压差分导出包
+ * 用于创建差分导出包
  */
 export class DifferentialPacker {
   private storagePath: string;
   private logger: Logger;
-  private fileConcurrency: number;
+  private signer?: ManifestSigner;
 
-  constructor(storagePath: string, logger: Logger, fileConcurrency: number = 5) {
+  constructor(storagePath: string, logger: Logger, signer?: ManifestSigner) {
     this.storagePath = storagePath;
     this.logger = logger;
-    this.fileConcurrency = Math.max(1, Math.min(50, Math.floor(fileConcurrency)));
+    this.signer = signer;
   }
 
   /**
    * 创建导出包
+   *
+   * 文件直接从存储目录读出并写入 tar.gz 流，同一次读取中计算 SHA-256；
+   * 清单在所有文件之后写入，配置了签名时签名文件紧随清单之后。
+   * 指定 maxVolumeSize 时按估算的压缩包大小将文件拆分为多个分卷，
+   * 每个分卷是独立的 tar.gz，包含只列出本分卷文件的清单，各分卷共用 exportId。
+   * 指定 encryption 时 gzip 输出经过分段 AES-256-GCM 加密后再写入 .tar.gz.enc，每个分卷使用独立的数据密钥
    */
   async createExportPackage(
     files: ScannedFile[],
     options: {
       exportId: string;
       baseTimestamp?: Date;
+      /** 按存储清单导出时清单的生成时间 */
+      baseInventory?: string;
       outputDir: string;
       filenamePrefix?: string;
+      /** 每个分卷的最大大小（字节） */
+      maxVolumeSize?: number;
+      encryption?: ExportEncryptionOptions;
       onProgress?: (progress: ExportProgress) => void;
     }
   ): Promise<{
-    filename: string;
-    path: string;
-    size: number;
-    checksum: string;
+    /** 整个导出的清单 */
     manifest: ExportManifest;
+    volumes: ExportVolume[];
   }> {
     const {
       exportId,
       baseTimestamp,
+      baseInventory,
       outputDir,
       filenamePrefix = 'diff-export',
+      maxVolumeSize,
+      encryption,
       onProgress
     } = options;
 
     const timestamp = new Date();
     const timestampStr = timestamp.toISOString().replace(/[:.]/g, '-');
-    const filename = `${filenamePrefix}-${timestampStr}.tar.gz`;
-    const outputPath = path.join(outputDir, filename);
+    const startTime = timestamp.getTime();
 
-    // 创建临时目录
-    const tempDir = path.join(outputDir, `.temp-${exportId}`);
-    await mkdir(tempDir, { recursive: true });
+    const createManifest = (entries: ExportFileEntry[], volume?: { index: number; count: number }): ExportManifest => ({
+      version: 1,
+      exportId,
+      timestamp: timestamp.toISOString(),
+      baseTimestamp: baseTimestamp?.toISOString(),
+      baseInventory,
+      volumeIndex: volume?.index,
+      volumeCount: volume?.count,
+      type: baseTimestamp || baseInventory ? 'incremental' : 'full',
+      files: entries,
+      stats: {
+        totalFiles: entries.length,
+        totalSize: entries.reduce((sum, f) => sum + f.size, 0),
+        packages: new Set(entries.map(f => f.packageName)).size,
+        versions: entries.filter(f => f.type === 'tarball').length
+      }
+    });
 
-    try {
-      // 阶段 1: 计算文件校验和
-      this.logger.info('Calculating file checksums...');
-      const filesWithChecksum: ExportFileEntry[] = new Array(files.length);
-      let processed = 0;
-      const total = files.length;
-      const checksumLimit = pLimit(this.fileConcurrency);
+    // 按路径排序，使同一个包的元数据与 tarball 尽量位于同一分卷
+    const ordered = [...files].sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+    const plan = maxVolumeSize ? this.planVolumes(ordered, maxVolumeSize) : [ordered];
 
-      await Promise.all(
-        files.map((file, index) =>
-          checksumLimit(async () => {
-            const checksum = await this.calculateFileChecksum(file.absolutePath);
-            filesWithChecksum[index] = {
-              path: file.relativePath,
-              size: file.size,
-              mtime: file.mtime.toISOString(),
-              checksum,
-              type: file.type,
-              packageName: file.packageName,
-              version: file.version
-            };
+    const total = files.length;
+    const totalBytes = files.reduce((sum, f) => sum + f.size, 0);
+    let processed = 0;
+    let bytesProcessed = 0;
+    let lastReport = 0;
 
-            processed++;
-            if (onProgress) {
-              onProgress({
-                phase: 'calculating-checksums',
-                phaseProgress: Math.round((processed / total) * 100),
-                totalProgress: Math.round((processed / total) * 30),
-                currentFile: file.relativePath,
-                processed,
-                total,
-                startTime: timestamp.getTime(),
-                phaseDescription: `计算校验和: ${file.relativePath}`
-              });
-            }
-          })
-        )
-      );
+    const report = (phase: ExportProgress['phase'], phaseDescription: string, currentFile?: string) => {
+      lastReport = Date.now();
+      if (!onProgress) return;
+      const ratio = totalBytes > 0 ? Math.min(1, bytesProcessed / totalBytes) : processed / Math.max(1, total);
+      const elapsed = lastReport - startTime;
+      onProgress({
+        phase,
+        phaseProgress: Math.round(ratio * 100),
+        totalProgress: Math.min(99, Math.round(ratio * 100)),
+        currentFile,
+        processed,
+        total,
+        startTime,
+        estimatedRemaining: bytesProcessed > 0 ? Math.round((elapsed / bytesProcessed) * (totalBytes - bytesProcessed)) : undefined,
+        phaseDescription,
+        bytesProcessed,
+        totalBytes
+      });
+    };
+
+    const volumes: ExportVolume[] = [];
+    const allEntries: ExportFileEntry[] = [];
+
+    try {
+      for (let v = 0; v < plan.length; v++) {
+        const volume = plan.length > 1 ? { index: v + 1, count: plan.length } : undefined;
+        const extension = encryption ? `.tar.gz${ENCRYPTED_ARCHIVE_EXTENSION}` : '.tar.gz';
+        const filename = volume
+          ? `${filenamePrefix}-${timestampStr}.vol${formatVolumeNumber(volume.index, plan.length)}-of-${formatVolumeNumber(plan.length, plan.length)}${extension}`
+          : `${filenamePrefix}-${timestampStr}${extension}`;
+        const outputPath = path.join(outputDir, filename);
+        const label = volume ? `（分卷 ${volume.index}/${volume.count}）` : '';
 
-      // 阶段 2: 复制文件到临时目录
-      this.logger.info('Copying files to temp directory...');
-      processed = 0;
-      const copyLimit = pLimit(this.fileConcurrency);
-      const dirCreatePromises = new Map<string, Promise<void>>();
+        this.logger.info({ filename, files: plan[v].length }, 'Streaming @{files} files into @{filename}...');
 
-      await Promise.all(
-        files.map((file) =>
-          copyLimit(async () => {
-            const destPath = path.join(tempDir, file.relativePath);
-            const dirPath = path.dirname(destPath);
-            let dirPromise = dirCreatePromises.get(dirPath);
-            if (!dirPromise) {
-              dirPromise = mkdir(dirPath, { recursive: true }).then(() => undefined);
-              dirCreatePromises.set(dirPath, dirPromise);
+        // 压缩包的 SHA-256 与大小在写入时同步计算
+        const archiveHash = createHash('sha256');
+        let archiveSize = 0;
+        const gzip = createGzip();
+        const encrypted = encryption ? await createEncryptStream(encryption) : undefined;
+        const written = pipeline([
+          gzip,
+          ...(encrypted ? [encrypted.stream] : []),
+          new Transform({
+            transform(chunk: Buffer, _encoding, callback) {
+              archiveHash.update(chunk);
+              archiveSize += chunk.length;
+              callback(null, chunk);
             }
-            await dirPromise;
-            await copyFile(file.absolutePath, destPath);
+          }),
+          createWriteStream(outputPath)
+        ]);
+        // 写入失败时由下方的 await written 抛出
+        written.catch(() => undefined);
+
+        const entries: ExportFileEntry[] = [];
+        try {
+          const writer = new TarWriter(gzip);
 
+          for (const file of plan[v]) {
+            const entry = await this.packFile(writer, file, (chunk) => {
+              bytesProcessed += chunk.length;
+              if (Date.now() - lastReport >= PROGRESS_INTERVAL) {
+                report('packing', `打包文件${label}: ${file.relativePath}`, file.relativePath);
+              }
+            });
+            entries.push(entry);
             processed++;
-            if (onProgress) {
-              onProgress({
-                phase: 'packing',
-                phaseProgress: Math.round((processed / total) * 100),
-                totalProgress: 30 + Math.round((processed / total) * 50),
-                currentFile: file.relativePath,
-                processed,
-                total,
-                startTime: timestamp.getTime(),
-                phaseDescription: `复制文件: ${file.relativePath}`
-              });
-            }
-          })
-        )
-      );
+            report('packing', `打包文件${label}: ${file.relativePath}`, file.relativePath);
+          }
 
-      // 计算统计信息
-      const packages = new Set(files.map(f => f.packageName));
-      const versions = files.filter(f => f.type === 'tarball').length;
-      const totalSize = files.reduce((sum, f) => sum + f.size, 0);
+          // 所有文件的校验和都已得到后再写入清单（分卷只列出本分卷的文件）
+          report('finalizing', volume ? `写入清单（分卷 ${volume.index}/${volume.count}）...` : '写入清单...');
+          const manifest = createManifest(entries, volume);
+          const manifestContent = Buffer.from(JSON.stringify(manifest, null, 2));
+          const signatures = this.signer ? await this.signer.sign(manifestContent) : [];
+          await writer.addBuffer(MANIFEST_FILE, manifestContent, timestamp);
+          for (const signature of signatures) {
+            await writer.addBuffer(signature.filename, signature.content, timestamp);
+          }
+          await writer.finish();
+          await written;
 
-      // 创建清单文件
-      const manifest: ExportManifest = {
-        version: 1,
-        exportId,
-        timestamp: timestamp.toISOString(),
-        baseTimestamp: baseTimestamp?.toISOString(),
-        type: baseTimestamp ? 'incremental' : 'full',
-        files: filesWithChecksum,
-        stats: {
-          totalFiles: files.length,
-          totalSize,
-          packages: packages.size,
-          versions
+          if (maxVolumeSize && archiveSize > maxVolumeSize) {
+            throw new Error(`Volume ${filename} is ${archiveSize} bytes, exceeding maxVolumeSize ${maxVolumeSize}`);
+          }
+
+          volumes.push({
+            filename,
+            path: outputPath,
+            size: archiveSize,
+            checksum: archiveHash.digest('hex'),
+            manifest,
+            signedBy: signatures.length > 0 ? signatures.map((signature) => signature.signedBy) : undefined,
+            encryptedFor: encrypted?.encryptedFor
+          });
+          allEntries.push(...entries);
+        } catch (error) {
+          gzip.destroy();
+          await written.catch(() => undefined);
+          await rm(outputPath, { force: true });
+          throw error;
         }
-      };
+      }
+    } catch (error) {
+      // 删除已生成的分卷，失败的导出不保留任何归档
+      for (const volume of volumes) {
+        await rm(volume.path, { force: true });
+      }
+      throw error;
+    }
 
-      // 写入清单文件
-      const manifestPath = path.join(tempDir, '.export-manifest.json');
-      await writeFile(manifestPath, JSON.stringify(manifest, null, 2));
+    if (onProgress) {
+      onProgress({
+        phase: 'completed',
+        phaseProgress: 100,
+        totalProgress: 100,
+        processed: total,
+        total,
+        startTime,
+        phaseDescription: '导出完成',
+        bytesProcessed,
+        totalBytes
+      });
+    }
 
-      // 阶段 3: 创建 tar.gz 包
-      this.logger.info('Creating tar.gz archive...');
-      if (onProgress) {
-        onProgress({
-          phase: 'finalizing',
-          phaseProgress: 0,
-          totalProgress: 80,
-          processed: 0,
-          total: 1,
-          startTime: timestamp.getTime(),
-          phaseDescription: '创建压缩包...'
-        });
-      }
+    this.logger.info(
+      {
+        exportId,
+        volumes: volumes.length,
+        size: volumes.reduce((sum, volume) => sum + volume.size, 0),
+        files: files.length
+      },
+      'Export @{exportId} created: @{volumes} volume(s), @{size} bytes, @{files} files'
+    );
 
-      await tar.create(
-        {
-          gzip: true,
-          file: outputPath,
-          cwd: tempDir
-        },
-        ['.']
-      );
+    return {
+      manifest: createManifest(allEntries),
+      volumes
+    };
+  }
 
-      // 计算最终文件的校验和和大小
-      const outputStat = await stat(outputPath);
-      const outputChecksum = await this.calculateFileChecksum(outputPath);
+  /**
+   * 将单个文件从存储目录写入归档，读取时计算 SHA-256
+   *
+   * 大小与修改时间取自打开后的文件，读取的字节数与之不一致（导出期间被修改）时报错
+   */
+  private async packFile(
+    writer: TarWriter,
+    file: ScannedFile,
+    onChunk: (chunk: Buffer) => void
+  ): Promise<ExportFileEntry> {
+    const handle = await open(file.absolutePath, 'r');
+    try {
+      const fileStat = await handle.stat();
+      const hash = createHash('sha256');
+      const chunks = fileStat.size > 0
+        ? handle.createReadStream({ start: 0, end: fileStat.size - 1, autoClose: false })
+        : [];
 
-      if (onProgress) {
-        onProgress({
-          phase: 'completed',
-          phaseProgress: 100,
-          totalProgress: 100,
-          processed: total,
-          total,
-          startTime: timestamp.getTime(),
-          phaseDescription: '导出完成'
+      try {
+        await writer.addFile(file.relativePath, fileStat.size, fileStat.mtime, chunks, (chunk) => {
+          hash.update(chunk);
+          onChunk(chunk);
         });
+      } catch (error: any) {
+        throw new Error(`Failed to pack ${file.relativePath}: ${error.message}`);
       }
 
-      this.logger.info(
-        { filename, size: outputStat.size, files: files.length },
-        'Export package created: @{filename} (@{size} bytes, @{files} files)'
-      );
-
-      return {
-        filename,
-        path: outputPath,
-        size: outputStat.size,
-        checksum: outputChecksum,
-        manifest
-      };
+      return toFileEntry(file, fileStat.size, fileStat.mtime, hash.digest('hex'));
     } finally {
-      // 清理临时目录
-      try {
-        await rm(tempDir, { recursive: true, force: true });
-      } catch {
-        // 忽略清理错误
-      }
+      await handle.close();
     }
   }
 
   /**
-   * 计算文件 SHA256 校验和
+   * 按估算的压缩包大小依次将文件分配到分卷（单个文件超过分卷大小时报错）
    */
-  private async calculateFileChecksum(filePath: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const hash = createHash('sha256');
-      const stream = createReadStream(filePath);
+  private planVolumes(ordered: ScannedFile[], maxVolumeSize: number): ScannedFile[][] {
+    const capacity = maxVolumeSize - VOLUME_RESERVED_SIZE;
+    const plan: ScannedFile[][] = [];
+    let current: ScannedFile[] = [];
+    let used = 0;
 
-      stream.on('data', (data) => hash.update(data));
-      stream.on('end', () => resolve(hash.digest('hex')));
-      stream.on('error', reject);
-    });
+    for (const file of ordered) {
+      const cost = estimateArchivedSize(file);
+      if (cost > capacity) {
+        throw new Error(`File ${file.relativePath} (${file.size} bytes) does not fit into a volume of ${maxVolumeSize} bytes`);
+      }
+      if (current.length > 0 && used + cost > capacity) {
+        plan.push(current);
+        current = [];
+        used = 0;
+      }
+      current.push(file);
+      used += cost;
+    }
+    if (current.length > 0) {
+      plan.push(current);
+    }
+
+    return plan;
   }
 
   /**
@@ -248,7 +324,9 @@ export class DifferentialPacker {
     exportId: string,
     filename: string,
     checksum: string,
-    manifest: ExportManifest
+    manifest: ExportManifest,
+    signedBy?: string[],
+    encryptedFor?: string[]
   ): ExportRecord {
     return {
       exportId,
@@ -260,6 +338,11 @@ export class DifferentialPacker {
       checksum,
       type: manifest.type,
       baseTimestamp: manifest.baseTimestamp,
+      baseInventory: manifest.baseInventory,
+      volumeIndex: manifest.volumeIndex,
+      volumeCount: manifest.volumeCount,
+      signedBy,
+      encryptedFor,
       summary: {
         packages: manifest.stats.packages,
         versions: manifest.stats.versions
@@ -267,3 +350,32 @@ export class DifferentialPacker {
     };
   }
 }
+
+function toFileEntry(file: ScannedFile, size: number, mtime: Date, checksum: string): ExportFileEntry {
+  return {
+    path: file.relativePath,
+    size,
+    mtime: mtime.toISOString(),
+    checksum,
+    type: file.type,
+    packageName: file.packageName,
+    version: file.version
+  };
+}
+
+/**
+ * 文件在分卷中占用的估算大小：tar 头与 PAX 扩展头、512 字节对齐、
+ * 已压缩内容再次 gzip 及加密分段标签带来的少量膨胀，以及文件在清单中的条目（校验和尚未计算，按 SHA-256 长度估算）
+ */
+function estimateArchivedSize(file: ScannedFile): number {
+  const tarSize = Math.ceil(file.size / 512) * 512 + 1536;
+  const entry = toFileEntry(file, file.size, file.mtime, '0'.repeat(64));
+  return Math.ceil(tarSize * 1.001) + JSON.stringify(entry, null, 2).length + 8;
+}
+
+/**
+ * 分卷序号补零到与分卷总数相同的位数（至少两位），使文件名按序号排序
+ */
+function formatVolumeNumber(index: number, count: number): string {
+  return String(index).padStart(Math.max(2, String(count).length), '0');
+}
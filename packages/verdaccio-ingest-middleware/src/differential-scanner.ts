@@ -1,12 +1,18 @@
+import { createReadStream } from 'fs';
 import { readdir, stat, readFile, writeFile, mkdir } from 'fs/promises';
+import { createHash } from 'crypto';
 import path from 'path';
 import pLimit from 'p-limit';
 import { Logger } from '@verdaccio/types';
+import { StorageIndex, getMetadataDigest } from 'verdaccio-offline-common';
+import { ADVISORIES_DIR, ADVISORY_SNAPSHOT_PATTERN } from './advisory-db';
+import { ARTIFACTS_DIR, getMirrorName } from './binary-artifacts';
 import {
   ExportHistoryFile,
   ExportRecord,
   ScannedFile,
-  ExportFileEntry
+  ExportFileEntry,
+  StorageInventory
 } from './types';
 
 const EXPORT_HISTORY_FILE = '.export-history.json';
@@ -20,11 +26,13 @@ export class DifferentialScanner {
   private storagePath: string;
   private logger: Logger;
   private scanConcurrency: number;
+  private storageIndex?: StorageIndex;
 
-  constructor(storagePath: string, logger: Logger, scanConcurrency: number = 5) {
+  constructor(storagePath: string, logger: Logger, scanConcurrency: number = 5, storageIndex?: StorageIndex) {
     this.storagePath = storagePath;
     this.logger = logger;
     this.scanConcurrency = Math.max(1, Math.min(50, Math.floor(scanConcurrency)));
+    this.storageIndex = storageIndex;
   }
 
   /**
@@ -43,6 +51,8 @@ export class DifferentialScanner {
     );
 
     await this.scanDirectory('', files, since, includeMetadata);
+    await this.scanArtifacts('', files, since);
+    await this.scanAdvisories(files, since);
 
     this.logger.info(
       { count: files.length },
@@ -52,6 +62,96 @@ export class DifferentialScanner {
     return files;
   }
 
+  /**
+   * 扫描内网存储清单中缺少或不一致的文件
+   *
+   * tarball 按 name@version 的 SHA-1 比对，元数据按版本列表与 dist-tags 的摘要比对，
+   * 二进制制品与安全公告库按大小比对；与修改时间无关，内网丢失或回滚的文件也会重新导出
+   */
+  async scanAgainstInventory(
+    inventory: StorageInventory,
+    options: { includeMetadata?: boolean }
+  ): Promise<ScannedFile[]> {
+    const { includeMetadata = true } = options;
+
+    this.logger.info(
+      { generatedAt: inventory.generatedAt, tarballs: Object.keys(inventory.tarballs).length },
+      'Scanning files missing from storage inventory generated at @{generatedAt} (@{tarballs} tarballs)'
+    );
+
+    const candidates: ScannedFile[] = [];
+    await this.scanDirectory('', candidates, undefined, includeMetadata);
+    await this.scanArtifacts('', candidates);
+    await this.scanAdvisories(candidates);
+
+    const limit = pLimit(this.scanConcurrency);
+    const missing = await Promise.all(
+      candidates.map((file) =>
+        limit(async () => {
+          try {
+            return await this.isMissingFromInventory(file, inventory);
+          } catch (error: any) {
+            this.logger.warn(
+              { path: file.relativePath, error: error.message },
+              'Failed to compare @{path} with storage inventory: @{error}'
+            );
+            return true;
+          }
+        })
+      )
+    );
+    const files = candidates.filter((_, i) => missing[i]);
+
+    this.logger.info(
+      { count: files.length, scanned: candidates.length },
+      'Found @{count} of @{scanned} files missing from storage inventory'
+    );
+
+    return files;
+  }
+
+  /**
+   * 文件是否需要导出（清单中没有或与清单不一致）
+   */
+  private async isMissingFromInventory(file: ScannedFile, inventory: StorageInventory): Promise<boolean> {
+    switch (file.type) {
+      case 'tarball': {
+        const expected = file.version && inventory.tarballs[`${file.packageName}@${file.version}`];
+        return !expected || (await this.getShasum(file)) !== expected.toLowerCase();
+      }
+      case 'metadata': {
+        const expected = inventory.metadata[file.packageName];
+        if (!expected) {
+          return true;
+        }
+        const packument = JSON.parse(await readFile(file.absolutePath, 'utf-8'));
+        return getMetadataDigest(packument) !== expected;
+      }
+      default:
+        return inventory.files[file.relativePath] !== file.size;
+    }
+  }
+
+  /**
+   * tarball 的 SHA-1（存储索引中的记录与文件一致时直接使用）
+   */
+  private async getShasum(file: ScannedFile): Promise<string> {
+    const indexed = file.version
+      ? (await this.storageIndex?.getPackage(file.packageName))?.versions[file.version]
+      : undefined;
+    if (indexed?.shasum && indexed.size === file.size && Math.floor(indexed.mtime) === file.mtime.getTime()) {
+      return indexed.shasum;
+    }
+
+    return new Promise((resolve, reject) => {
+      const hash = createHash('sha1');
+      createReadStream(file.absolutePath)
+        .on('data', (chunk) => hash.update(chunk))
+        .on('end', () => resolve(hash.digest('hex')))
+        .on('error', reject);
+    });
+  }
+
   /**
    * 递归扫描目录
    */
@@ -134,6 +234,103 @@ export class DifferentialScanner {
     }
   }
 
+  /**
+   * 递归扫描 .artifacts 下的二进制制品（按镜像目录归属到对应的包）
+   */
+  private async scanArtifacts(
+    relativePath: string,
+    files: ScannedFile[],
+    since?: Date
+  ): Promise<void> {
+    const absolutePath = path.join(this.storagePath, ARTIFACTS_DIR, relativePath);
+
+    let entries;
+    try {
+      entries = await readdir(absolutePath, { withFileTypes: true });
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        this.logger.warn(
+          { path: absolutePath, error: error.message },
+          'Failed to scan directory @{path}: @{error}'
+        );
+      }
+      return;
+    }
+
+    const limit = pLimit(this.scanConcurrency);
+    await Promise.all(
+      entries.map((entry) =>
+        limit(async () => {
+          // 跳过隐藏文件与下载中的临时文件
+          if (entry.name.startsWith('.') || entry.name.endsWith('.tmp')) {
+            return;
+          }
+
+          const entryRelativePath = relativePath ? `${relativePath}/${entry.name}` : entry.name;
+          if (entry.isDirectory()) {
+            await this.scanArtifacts(entryRelativePath, files, since);
+            return;
+          }
+          if (!entry.isFile()) {
+            return;
+          }
+
+          const entryAbsolutePath = path.join(absolutePath, entry.name);
+          const fileStat = await stat(entryAbsolutePath);
+          if (since && fileStat.mtime <= since) return;
+
+          files.push({
+            relativePath: `${ARTIFACTS_DIR}/${entryRelativePath}`,
+            absolutePath: entryAbsolutePath,
+            size: fileStat.size,
+            mtime: fileStat.mtime,
+            type: 'artifact',
+            packageName: getMirrorName(entryRelativePath)
+          });
+        })
+      )
+    );
+  }
+
+  /**
+   * 扫描安全公告库快照（.advisories/advisories-<revision>.json）
+   */
+  private async scanAdvisories(files: ScannedFile[], since?: Date): Promise<void> {
+    const absolutePath = path.join(this.storagePath, ADVISORIES_DIR);
+
+    let entries;
+    try {
+      entries = await readdir(absolutePath, { withFileTypes: true });
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        this.logger.warn(
+          { path: absolutePath, error: error.message },
+          'Failed to scan directory @{path}: @{error}'
+        );
+      }
+      return;
+    }
+
+    for (const entry of entries) {
+      if (!entry.isFile() || !ADVISORY_SNAPSHOT_PATTERN.test(entry.name)) {
+        continue;
+      }
+
+      const entryAbsolutePath = path.join(absolutePath, entry.name);
+      const fileStat = await stat(entryAbsolutePath);
+      if (since && fileStat.mtime <= since) continue;
+
+      files.push({
+        relativePath: `${ADVISORIES_DIR}/${entry.name}`,
+        absolutePath: entryAbsolutePath,
+        size: fileStat.size,
+        mtime: fileStat.mtime,
+        type: 'advisory',
+        packageName: ADVISORIES_DIR
+      });
+    }
+  }
+
   /**
    * 规范化包路径，将 URL 编码的 %2f 解码为 /
    * 例如: @babel%2fcore -> @babel/core
@@ -294,3 +491,16 @@ export class DifferentialScanner {
     };
   }
 }
+
+/**
+ * 请求中的存储清单是否有效
+ */
+export function isStorageInventory(value: any): value is StorageInventory {
+  return (
+    !!value &&
+    value.format === 1 &&
+    typeof value.tarballs === 'object' &&
+    typeof value.metadata === 'object' &&
+    typeof value.files === 'object'
+  );
+}
@@ -0,0 +1,220 @@
+import { DownloadProgress, PackageDownloadStatus, PackageToDownload } from './types';
+
+// 速度统计的滑动窗口（毫秒）
+const THROUGHPUT_WINDOW = 5000;
+// 字节进度上报的最小间隔（毫秒）
+const PROGRESS_INTERVAL = 500;
+
+/**
+ * 字节进度回调：received 为当前包本次请求已接收的字节数（重试时从 0 重新计算）
+ */
+export type ByteProgressListener = (received: number, total?: number) => void;
+
+/**
+ * 下载单个包的工作函数，失败时返回 status 为 failed 的结果而不是抛出
+ */
+export type DownloadWorker = (
+  pkg: PackageToDownload,
+  onBytes: ByteProgressListener
+) => Promise<PackageDownloadStatus>;
+
+/**
+ * 下载调度器 - 持续工作池
+ *
+ * 1. 任一并发槽位空出即开始下一个包，单个大包不会阻塞其余槽位
+ * 2. 已知大小的包按从大到小排在前面，避免最后只剩一个大包在下载
+ * 3. 按字节统计进度、速度与剩余时间
+ */
+export class DownloadScheduler {
+  private concurrency: number;
+  private onProgress: (progress: DownloadProgress) => void;
+  private startTime: number = Date.now();
+  private total = 0;
+  private succeeded = 0;
+  private failed = 0;
+  // 已成功下载的包的字节数
+  private succeededBytes = 0;
+  // 实际传输的字节数（含失败与重试），用于计算速度
+  private transferredBytes = 0;
+  private active: Map<string, { received: number; total?: number }> = new Map();
+  private samples: Array<{ time: number; bytes: number }> = [];
+  private currentPackage?: string;
+  private lastReport = 0;
+
+  constructor(concurrency: number, onProgress: (progress: DownloadProgress) => void) {
+    this.concurrency = Math.max(1, concurrency);
+    this.onProgress = onProgress;
+  }
+
+  /**
+   * 执行下载，返回按下载顺序排列的结果
+   */
+  async run(packages: PackageToDownload[], worker: DownloadWorker): Promise<PackageDownloadStatus[]> {
+    const queue = this.order(packages);
+    const results: PackageDownloadStatus[] = new Array(queue.length);
+    let next = 0;
+
+    this.startTime = Date.now();
+    this.total = queue.length;
+
+    const runWorker = async (): Promise<void> => {
+      while (next < queue.length) {
+        const index = next++;
+        const pkg = queue[index];
+        const key = `${pkg.name}@${pkg.version}`;
+
+        this.active.set(key, { received: 0 });
+        this.currentPackage = key;
+        this.report(false);
+
+        let status: PackageDownloadStatus;
+        try {
+          status = await worker(pkg, (received, total) => this.track(key, received, total));
+        } catch (error: any) {
+          status = { name: pkg.name, version: pkg.version, status: 'failed', error: error.message };
+        }
+
+        const received = this.active.get(key)?.received || 0;
+        this.active.delete(key);
+        if (status.status === 'success') {
+          this.succeeded++;
+          this.succeededBytes += status.size ?? received;
+        } else {
+          this.failed++;
+        }
+
+        results[index] = status;
+        this.report(true);
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(this.concurrency, queue.length) }, () => runWorker())
+    );
+
+    return results;
+  }
+
+  /**
+   * 当前进度快照
+   */
+  getProgress(): DownloadProgress {
+    const processed = this.succeeded + this.failed;
+    const activeBytes = Array.from(this.active.values()).reduce(
+      (sum, item) => sum + item.received,
+      0
+    );
+    const bytesDownloaded = this.succeededBytes + activeBytes;
+    const totalBytes = this.estimateTotalBytes();
+    const throughput = this.getThroughput();
+
+    let phaseProgress = this.total > 0 ? (processed / this.total) * 100 : 100;
+    if (totalBytes && processed < this.total) {
+      phaseProgress = Math.min(99, (bytesDownloaded / totalBytes) * 100);
+    }
+
+    return {
+      phase: 'downloading',
+      phaseProgress: Math.round(phaseProgress),
+      totalProgress: Math.round(phaseProgress),
+      currentPackage: this.currentPackage,
+      processed,
+      total: this.total,
+      startTime: this.startTime,
+      estimatedRemaining:
+        totalBytes && throughput > 0
+          ? Math.round((Math.max(0, totalBytes - bytesDownloaded) / throughput) * 1000)
+          : undefined,
+      phaseDescription: `Downloading packages (${processed}/${this.total})`,
+      active: Array.from(this.active.keys()),
+      succeeded: this.succeeded,
+      failed: this.failed,
+      bytesDownloaded,
+      totalBytes,
+      throughput
+    };
+  }
+
+  /**
+   * 已知大小的包按从大到小排在前面，其余保持原有顺序
+   */
+  private order(packages: PackageToDownload[]): PackageToDownload[] {
+    return packages
+      .map((pkg, index) => ({ pkg, index }))
+      .sort((a, b) => {
+        const sizeA = a.pkg.size ?? -1;
+        const sizeB = b.pkg.size ?? -1;
+        return sizeB - sizeA || a.index - b.index;
+      })
+      .map((item) => item.pkg);
+  }
+
+  private track(key: string, received: number, total?: number): void {
+    const previous = this.active.get(key)?.received || 0;
+    // 重试时接收字节数从 0 重新开始
+    this.transferredBytes += received >= previous ? received - previous : received;
+    this.active.set(key, { received, total });
+    this.report(false);
+  }
+
+  /**
+   * 预计总字节数：已完成 + 进行中（优先使用 Content-Length）+ 未开始（按平均大小估算）
+   */
+  private estimateTotalBytes(): number | undefined {
+    const average = this.succeeded > 0 ? this.succeededBytes / this.succeeded : undefined;
+    let total = this.succeededBytes;
+
+    for (const item of this.active.values()) {
+      if (item.total) {
+        total += item.total;
+      } else if (average !== undefined) {
+        total += Math.max(item.received, average);
+      } else {
+        return undefined;
+      }
+    }
+
+    const pending = this.total - this.succeeded - this.failed - this.active.size;
+    if (pending > 0) {
+      if (average === undefined) {
+        return undefined;
+      }
+      total += pending * average;
+    }
+
+    return Math.round(total);
+  }
+
+  /**
+   * 最近几秒的平均速度（字节/秒），样本不足时使用整体平均速度
+   */
+  private getThroughput(): number {
+    const now = Date.now();
+    const recent = this.samples.filter((sample) => now - sample.time <= THROUGHPUT_WINDOW);
+    if (recent.length >= 2) {
+      const first = recent[0];
+      const last = recent[recent.length - 1];
+      if (last.time - first.time >= 1000) {
+        return Math.round(((last.bytes - first.bytes) / (last.time - first.time)) * 1000);
+      }
+    }
+
+    const elapsed = now - this.startTime;
+    return elapsed > 0 ? Math.round((this.transferredBytes / elapsed) * 1000) : 0;
+  }
+
+  private report(force: boolean): void {
+    const now = Date.now();
+    if (!force && now - this.lastReport < PROGRESS_INTERVAL) {
+      return;
+    }
+    this.lastReport = now;
+
+    this.samples.push({ time: now, bytes: this.transferredBytes });
+    while (this.samples.length > 0 && now - this.samples[0].time > THROUGHPUT_WINDOW) {
+      this.samples.shift();
+    }
+
+    this.onProgress(this.getProgress());
+  }
+}
@@ -0,0 +1,88 @@
+import { createPublicKey, diffieHellman, generateKeyPairSync, KeyObject, randomBytes, scrypt } from 'crypto';
+import { Transform } from 'stream';
+import {
+  EncryptedArchiveRecipient,
+  createArchiveEncryptStream,
+  createArchiveHeader,
+  createDataKey,
+  deriveX25519WrappingKey,
+  getKeyFingerprint,
+  wrapDataKey
+} from 'verdaccio-offline-common';
+import { ExportEncryptionOptions } from './types';
+
+export const ENCRYPTED_ARCHIVE_EXTENSION = '.enc';
+export const MIN_PASSPHRASE_LENGTH = 8;
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 };
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+
+/**
+ * 读取接收方的 X25519 公钥（SPKI PEM），不是 X25519 公钥时抛出错误
+ */
+export function parseRecipientKey(pem: string): KeyObject {
+  let key: KeyObject;
+  try {
+    key = createPublicKey(pem);
+  } catch (error: any) {
+    throw new Error(`Invalid recipient key: ${error.message}`);
+  }
+  if (key.asymmetricKeyType !== 'x25519') {
+    throw new Error(`Recipient key must be an X25519 public key, got ${key.asymmetricKeyType}`);
+  }
+  return key;
+}
+
+/**
+ * 创建加密流及可解密方的描述（写入导出记录）
+ *
+ * 每个归档使用随机的 32 字节数据密钥，按口令与接收方公钥分别封装到容器头中，
+ * 容器格式与分段加密由 verdaccio-offline-common 提供
+ */
+export async function createEncryptStream(
+  options: ExportEncryptionOptions
+): Promise<{ stream: Transform; encryptedFor: string[] }> {
+  const dataKey = createDataKey();
+  const recipients: EncryptedArchiveRecipient[] = [];
+  const encryptedFor: string[] = [];
+
+  if (options.passphrase) {
+    const salt = randomBytes(16);
+    const kek = await deriveScryptKey(options.passphrase, salt);
+    recipients.push({ type: 'scrypt', salt: salt.toString('base64'), ...SCRYPT_PARAMS, ...wrapDataKey(kek, dataKey) });
+    encryptedFor.push('passphrase');
+  }
+
+  if (options.recipientKey) {
+    const recipient = parseRecipientKey(options.recipientKey);
+    const ephemeral = generateKeyPairSync('x25519');
+    const ephemeralKey = ephemeral.publicKey.export({ type: 'spki', format: 'der' });
+    const shared = diffieHellman({ privateKey: ephemeral.privateKey, publicKey: recipient });
+    const kek = deriveX25519WrappingKey(shared, ephemeralKey);
+    const fingerprint = getKeyFingerprint(recipient);
+    recipients.push({
+      type: 'x25519',
+      fingerprint,
+      ephemeralKey: ephemeralKey.toString('base64'),
+      ...wrapDataKey(kek, dataKey)
+    });
+    encryptedFor.push(`x25519:${fingerprint}`);
+  }
+
+  if (recipients.length === 0) {
+    throw new Error('Encryption requires a passphrase or a recipient key');
+  }
+
+  return {
+    stream: createArchiveEncryptStream(dataKey, createArchiveHeader(recipients)),
+    encryptedFor
+  };
+}
+
+function deriveScryptKey(passphrase: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase, salt, 32, { ...SCRYPT_PARAMS, maxmem: SCRYPT_MAXMEM }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
@@ -6,3 +6,4 @@ export * from './types';
 export { StorageScanner } from './storage-scanner';
 export { PackageDownloader } from './package-downloader';
 export { DependencyResolver } from './dependency-resolver';
+export { PackumentCache, PackumentSession } from './packument-cache';
@@ -3,16 +3,37 @@ import { pluginUtils } from '@verdaccio/core';
 import { Config, Logger } from '@verdaccio/types';
 import pLimit from 'p-limit';
 import semver from 'semver';
+import {
+  SearchIndex,
+  StorageAuditor,
+  StorageIndex,
+  STORAGE_REPAIR_ACTIONS,
+  countIssues,
+  parseSearchQuery
+} from 'verdaccio-offline-common';
 import { StorageScanner } from './storage-scanner';
 import { PackageDownloader } from './package-downloader';
-import { DependencyResolver } from './dependency-resolver';
-import { DifferentialScanner } from './differential-scanner';
-import { DifferentialPacker } from './differential-packer';
+import { DependencyResolver, trimPackument } from './dependency-resolver';
+import { DifferentialScanner, isStorageInventory } from './differential-scanner';
+import { DifferentialPacker, MIN_VOLUME_SIZE } from './differential-packer';
+import { MIN_PASSPHRASE_LENGTH, parseRecipientKey } from './export-encryption';
+import { ManifestSigner } from './manifest-signer';
+import { LockfileParser } from './lockfile-parser';
+import { PackumentCache, PackumentSession } from './packument-cache';
+import { AnalysisGraph } from './analysis-graph';
+import { RegistryRouter } from './registry-router';
+import { CircuitBreaker, RetryPolicy } from './retry-policy';
+import { DownloadScheduler } from './download-scheduler';
+import { formatPlatform } from './platform-matcher';
+import { ArtifactMirror } from './binary-artifacts';
+import { NODE_DIST_MIRROR, NodeDistMirror } from './node-dist';
+import { AdvisoryDatabase, AdvisoryIndex, getHighestSeverity } from './advisory-db';
 import { getWebUIHTML } from './web-ui';
 import {
   IngestConfig,
   IngestRequest,
   SyncRequest,
+  SyncOptions,
   PlatformDownloadRequest,
   SyncResult,
   CacheStatus,
@@ -27,7 +48,31 @@ import {
   AnalysisProgress,
   ExportPreviewRequest,
   ExportCreateRequest,
-  ExportProgress
+  ExportEncryptionOptions,
+  ExportProgress,
+  LockfileAnalysisRequest,
+  ParsedLockfile,
+  OverrideRule,
+  AddPackagesRequest,
+  DependencyEdge,
+  AnalysisTrace,
+  PlatformConfig,
+  PlatformBinaryStatus,
+  ArtifactsRequest,
+  ArtifactsResult,
+  ArtifactFile,
+  ArtifactDownloadStatus,
+  NodeDistRequest,
+  NodeDistResult,
+  AdvisoriesRequest,
+  AdvisorySyncResult,
+  StorageAuditReport,
+  StorageAuditRequest,
+  StorageIssue,
+  StorageRepairRequest,
+  StorageRepairResult,
+  StorageInventory,
+  ExportVolumeInfo
 } from './types';
 
 /**
@@ -38,14 +83,25 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
   private logger: Logger;
   private scanner!: StorageScanner;
   private downloader!: PackageDownloader;
-  private resolver: DependencyResolver;
+  private packumentCache: PackumentCache;
+  private router: RegistryRouter;
+  private lockfileParser: LockfileParser;
   private storagePath: string;
   private tasks: Map<string, TaskStatus>;
   // 分析结果缓存（用于分析-确认-下载工作流）
   private analysisCache: Map<string, AnalysisResult>;
+  // 分析时记录的依赖边（与分析结果同时过期）
+  private analysisGraphs: Map<string, DependencyEdge[]>;
   // 差分导出相关
   private diffScanner!: DifferentialScanner;
   private diffPacker!: DifferentialPacker;
+  private artifacts!: ArtifactMirror;
+  private nodeDist: NodeDistMirror;
+  private advisories!: AdvisoryDatabase;
+  private searchIndex!: SearchIndex;
+  // 持久化的存储索引（配置关闭时为 null，回退到目录扫描）
+  private storageIndex: StorageIndex | null = null;
+  private auditor!: StorageAuditor;
 
   constructor(config: IngestConfig, options: pluginUtils.PluginOptions) {
     super(config, options);
@@ -72,27 +128,78 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
       }
     }
 
-    this.resolver = new DependencyResolver(this.config as IngestConfig, this.logger);
+    // 按 registries 映射与 packages 的 proxy 规则为每个包选择上游
+    this.router = new RegistryRouter(this.config as IngestConfig, options.config as Config, this.logger);
+    this.packumentCache = new PackumentCache({
+      storagePath: this.storagePath,
+      router: this.router,
+      logger: this.logger,
+      maxEntries: (this.config as IngestConfig).packumentCacheSize,
+      transform: trimPackument
+    });
+    this.lockfileParser = new LockfileParser(this.logger);
     this.tasks = new Map();
     this.analysisCache = new Map();
+    this.analysisGraphs = new Map();
+    this.nodeDist = new NodeDistMirror(this.config as IngestConfig, this.router, this.logger);
   }
 
   /**
    * 注册中间件路由
    */
   register_middlewares(app: Express, auth: any, storage: any): void {
-    // 初始化扫描器和下载器
-    this.scanner = new StorageScanner(this.config as IngestConfig, this.storagePath, this.logger);
-    this.downloader = new PackageDownloader(this.config as IngestConfig, this.storagePath, this.logger);
+    // 初始化存储索引、扫描器和下载器
+    const indexConfig = (this.config as IngestConfig).storageIndex || {};
+    if (indexConfig.enabled !== false) {
+      this.storageIndex = new StorageIndex(this.storagePath, this.logger, indexConfig, this.getConcurrency());
+      this.storageIndex.start();
+    }
+    this.scanner = new StorageScanner(
+      this.config as IngestConfig,
+      this.storagePath,
+      this.logger,
+      this.storageIndex || undefined
+    );
+    this.downloader = new PackageDownloader(
+      this.config as IngestConfig,
+      this.router,
+      this.storagePath,
+      this.logger
+    );
     // 初始化差分导出相关
     const concurrency = (this.config as IngestConfig).concurrency || 5;
-    this.diffScanner = new DifferentialScanner(this.storagePath, this.logger, concurrency);
-    this.diffPacker = new DifferentialPacker(this.storagePath, this.logger, concurrency);
+    this.diffScanner = new DifferentialScanner(
+      this.storagePath,
+      this.logger,
+      concurrency,
+      this.storageIndex || undefined
+    );
+    const signingConfig = (this.config as IngestConfig).exportSigning;
+    this.diffPacker = new DifferentialPacker(
+      this.storagePath,
+      this.logger,
+      signingConfig?.privateKey || signingConfig?.openpgpKey ? new ManifestSigner(signingConfig, this.logger) : undefined
+    );
+    this.artifacts = new ArtifactMirror(
+      this.config as IngestConfig,
+      this.router,
+      this.scanner,
+      this.storagePath,
+      this.logger
+    );
+    this.advisories = new AdvisoryDatabase(
+      this.config as IngestConfig,
+      this.router,
+      this.storagePath,
+      this.logger
+    );
+    this.searchIndex = new SearchIndex(this.storagePath, this.logger, this.getConcurrency());
+    this.auditor = new StorageAuditor(this.storagePath, this.logger, STORAGE_REPAIR_ACTIONS, this.getConcurrency());
 
     const router = Router();
 
-    // 添加 JSON body 解析中间件
-    router.use(json());
+    // 添加 JSON body 解析中间件（锁文件可能较大，放宽请求体限制）
+    router.use(json({ limit: '50mb' }));
 
     // 刷新已缓存包的元数据
     router.post('/ingest/refresh', this.handleRefresh.bind(this));
@@ -103,9 +210,22 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
     // 分析依赖（仅分析，不下载）
     router.post('/ingest/analyze', this.handleAnalyze.bind(this));
 
+    // 基于锁文件分析依赖（仅分析，不下载）
+    router.post('/ingest/analyze/lockfile', this.handleAnalyzeLockfile.bind(this));
+
+    // 添加新包（解析完整依赖树，仅分析，不下载）
+    router.post('/ingest/add', this.handleAddPackages.bind(this));
+
     // 获取分析结果
     router.get('/ingest/analysis/:analysisId', this.handleGetAnalysis.bind(this));
 
+    // 获取分析依赖图（JSON / Graphviz DOT）
+    router.get('/ingest/analysis/:analysisId/graph', this.handleGetAnalysisGraph.bind(this));
+
+    // 查询包被引入的所有依赖路径
+    router.get('/ingest/analysis/:analysisId/why/:scope/:name', this.handleWhy.bind(this));
+    router.get('/ingest/analysis/:analysisId/why/:name', this.handleWhy.bind(this));
+
     // 执行下载（基于分析结果）
     router.post('/ingest/download', this.handleDownload.bind(this));
 
@@ -115,6 +235,19 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
     // 下载指定包的多平台版本
     router.post('/ingest/platform', this.handlePlatformDownload.bind(this));
 
+    // 镜像安装脚本下载的二进制制品（electron、node-pre-gyp 等）
+    router.post('/ingest/artifacts', this.handleArtifacts.bind(this));
+
+    // 已镜像的二进制制品
+    router.get('/ingest/artifacts', this.handleListArtifacts.bind(this));
+
+    // 镜像 node-gyp 所需的 Node.js headers / 发行包
+    router.post('/ingest/node-dist', this.handleNodeDist.bind(this));
+
+    // 安全公告库（供内网 npm audit 使用）
+    router.post('/ingest/advisories', this.handleAdvisories.bind(this));
+    router.get('/ingest/advisories', this.handleAdvisorySummary.bind(this));
+
     // 查询任务状态
     router.get('/ingest/status/:taskId', this.handleStatus.bind(this));
 
@@ -124,6 +257,13 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
     // 重建本地索引（内网元数据修复）
     router.post('/ingest/rebuild-index', this.handleRebuildIndex.bind(this));
 
+    // 存储完整性审计与修复（异步任务，结果通过 /ingest/status 查询）
+    router.post('/ingest/audit', this.handleAudit.bind(this));
+    router.post('/ingest/audit/repair', this.handleAuditRepair.bind(this));
+
+    // 搜索本地已缓存的包
+    router.get('/ingest/search', this.handleSearch.bind(this));
+
     // Web UI 管理界面
     router.get('/ingest/ui', this.handleWebUI.bind(this));
 
@@ -150,6 +290,7 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
    */
   private async handleRefresh(req: Request, res: Response): Promise<void> {
     const { packages, all } = req.body as IngestRequest;
+    const resolver = this.createResolver();
 
     try {
       let cachedPackages = await this.scanner.scanAllPackages();
@@ -162,7 +303,7 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
       }
 
       // 刷新元数据
-      const refreshed = await this.resolver.refreshMetadata(cachedPackages);
+      const refreshed = await resolver.refreshMetadata(cachedPackages);
 
       // 保存更新后的元数据
       await this.savePackumentsForPackages(refreshed.map((meta) => meta.name));
@@ -180,7 +321,7 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
       this.logger.error({ error: error.message }, 'Refresh failed: @{error}');
       res.status(500).json({ success: false, error: error.message });
     } finally {
-      this.resolver.clearCache();
+      resolver.endSession();
       this.downloader.clearRequestCache();
     }
   }
@@ -207,7 +348,8 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
       includeOptional: true,
       maxDepth: 10,
       ...config.sync,
-      ...options
+      ...options,
+      platforms: targetPlatforms
     };
 
     // 创建任务
@@ -236,6 +378,8 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
     platforms: any[],
     options: any
   ): Promise<SyncResult> {
+    const packuments = this.packumentCache.createSession();
+    const resolver = this.createResolver(packuments);
     this.updateTask(taskId, { status: 'running', progress: 0 });
 
     try {
@@ -246,28 +390,26 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
 
       // 2. 刷新所有缓存包的元数据
       this.updateTask(taskId, { message: 'Refreshing metadata...' });
-      const refreshedMetadata = await this.resolver.refreshMetadata(cachedPackages);
+      const refreshedMetadata = await resolver.refreshMetadata(cachedPackages);
       this.updateTask(taskId, { progress: 30 });
 
       // 3. 分析依赖关系，找出缺失的包
       this.updateTask(taskId, { message: 'Analyzing dependencies...' });
-      const missingPackages = await this.resolver.analyzeMissingDependencies(
+      const missingPackages = await resolver.analyzeMissingDependencies(
         cachedPackages,
         refreshedMetadata,
         options
       );
       this.updateTask(taskId, { progress: 50 });
 
-      // 依赖分析完成后立即释放 packument 缓存，回收大量内存
-      this.resolver.clearCache();
-
       // 4. 下载缺失的包
       this.updateTask(taskId, { message: 'Downloading missing packages...' });
       const packagesToDownload: ResolvedPackage[] = missingPackages.map((p) => ({
         name: p.name,
         version: p.version,
         dist: { shasum: '', tarball: '' },
-        dependencies: {}
+        dependencies: {},
+        registry: p.registry
       }));
 
       const downloadResults = await this.downloader.downloadAll(
@@ -279,40 +421,56 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
       );
       this.updateTask(taskId, { progress: 70 });
 
-      // 5. 下载多平台二进制包
+      // 5. 下载多平台二进制包（每个已缓存版本与本次新下载的版本都要检测）
       this.updateTask(taskId, { message: 'Downloading platform binaries...' });
-      const binaryLimit = pLimit(this.getConcurrency());
-      let binaryProcessed = 0;
-      const binaryTotal = Math.max(1, cachedPackages.length);
-
-      await Promise.all(
-        cachedPackages.map((pkg) =>
-          binaryLimit(async () => {
-            const targetVersion = pkg.latestVersion || pkg.versions[0];
-            const isBinary = await this.downloader.detectBinaryPackage(
-              pkg.name,
-              targetVersion
-            );
+      const cachedVersions = new Map<string, Set<string>>();
+      const binaryTargets: Array<{ name: string; version: string }> = [];
+      const addCachedVersion = (name: string, version: string) => {
+        if (!cachedVersions.has(name)) {
+          cachedVersions.set(name, new Set());
+        }
+        cachedVersions.get(name)!.add(version);
+        binaryTargets.push({ name, version });
+      };
+      for (const pkg of cachedPackages) {
+        for (const version of pkg.versions) {
+          addCachedVersion(pkg.name, version);
+        }
+      }
+      for (const result of downloadResults) {
+        addCachedVersion(result.package.name, result.package.version);
+      }
 
-            if (isBinary) {
-              const platformResults = await this.downloader.downloadForPlatforms(
-                pkg.name,
-                targetVersion,
-                platforms
-              );
-              for (const result of platformResults) {
-                downloadedPackageNames.add(result.package.name);
-              }
-            }
+      const binaryPlan = await this.planPlatformBinaries(
+        binaryTargets,
+        platforms,
+        cachedVersions,
+        packuments,
+        (processed, total) => {
+          this.updateTask(taskId, {
+            progress: 70 + Math.round((processed / Math.max(1, total)) * 10),
+            message: `Detecting platform binaries (${processed}/${total})`
+          });
+        }
+      );
 
-            binaryProcessed++;
-            this.updateTask(taskId, {
-              progress: 70 + Math.round((binaryProcessed / binaryTotal) * 20),
-              message: `Downloading platform binaries (${binaryProcessed}/${binaryTotal})`
-            });
-          })
-        )
+      this.updateTask(taskId, {
+        progress: 80,
+        message: `Downloading platform binaries (${binaryPlan.packages.length})`
+      });
+      const platformResults = await this.downloader.downloadAll(
+        binaryPlan.packages.map((p) => ({
+          name: p.name,
+          version: p.version,
+          dist: { shasum: '', tarball: '' },
+          dependencies: {},
+          registry: p.registry
+        })),
+        this.getConcurrency()
       );
+      for (const result of platformResults) {
+        downloadedPackageNames.add(result.package.name);
+      }
       this.updateTask(taskId, { progress: 90 });
 
       // 6. 保存元数据
@@ -335,7 +493,7 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
         success: true,
         scanned: cachedPackages.length,
         refreshed: refreshedMetadata.length,
-        downloaded: downloadResults.length,
+        downloaded: downloadResults.length + platformResults.length,
         platforms: platforms.map((p) => `${p.os}-${p.arch}`)
       };
 
@@ -353,7 +511,7 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
       });
       throw error;
     } finally {
-      this.resolver.clearCache();
+      resolver.endSession();
       this.downloader.clearRequestCache();
     }
   }
@@ -378,7 +536,8 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
       includeOptional: true,
       maxDepth: 10,
       ...config.sync,
-      ...options
+      ...options,
+      platforms: targetPlatforms
     };
 
     // 创建任务
@@ -408,6 +567,8 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
     syncOptions: any
   ): Promise<AnalysisResult> {
     const startTime = Date.now();
+    const packuments = this.packumentCache.createSession();
+    const resolver = this.createResolver(packuments);
 
     this.updateTask(taskId, {
       status: 'running',
@@ -467,7 +628,7 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
         }
       });
 
-      const refreshedMetadata = await this.resolver.refreshMetadata(
+      const refreshedMetadata = await resolver.refreshMetadata(
         cachedPackages,
         (progress: AnalysisProgress) => {
           this.updateTask(taskId, {
@@ -496,7 +657,9 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
         }
       });
 
-      const missingPackages = await this.resolver.analyzeMissingDependencies(
+      const trace: Required<AnalysisTrace> = { edges: [], unresolved: [] };
+      const advisoryIndex = this.createAdvisoryIndex(syncOptions);
+      const missingPackages = await resolver.analyzeMissingDependencies(
         cachedPackages,
         refreshedMetadata,
         syncOptions,
@@ -510,13 +673,23 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
             }
           });
         },
-        startTime
+        startTime,
+        trace,
+        advisoryIndex
       );
 
-      // 依赖分析完成后立即释放 packument 缓存，回收大量内存
-      this.resolver.clearCache();
+      // 4. 分析平台二进制包（每个已缓存版本与待下载版本都要检测）
+      const cachedVersions = new Map<string, Set<string>>();
+      for (const pkg of cachedPackages) {
+        cachedVersions.set(pkg.name, new Set(pkg.versions));
+      }
+      const binaryTargets = [
+        ...cachedPackages.flatMap((pkg) =>
+          pkg.versions.map((version) => ({ name: pkg.name, version }))
+        ),
+        ...missingPackages
+      ];
 
-      // 4. 分析平台二进制包
       this.updateTask(taskId, {
         message: '检测平台二进制包...',
         progress: 80,
@@ -525,64 +698,42 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
           phaseProgress: 0,
           totalProgress: 80,
           processed: 0,
-          total: cachedPackages.length,
+          total: binaryTargets.length,
           startTime,
           phaseDescription: '检测平台二进制包...'
         }
       });
 
-      const platformPackages: PackageToDownload[] = [];
-      let binaryChecked = 0;
-      const binaryTotal = Math.max(1, cachedPackages.length);
-      const binaryLimit = pLimit(this.getConcurrency());
-
-      await Promise.all(
-        cachedPackages.map((pkg) =>
-          binaryLimit(async () => {
-            const targetVersion = pkg.latestVersion || pkg.versions[0];
-            const isBinary = await this.downloader.detectBinaryPackage(
-              pkg.name,
-              targetVersion
-            );
-
-            if (isBinary) {
-              const platformDeps = await this.downloader.getPlatformDependencies(
-                pkg.name,
-                targetVersion,
-                targetPlatforms
-              );
-              for (const dep of platformDeps) {
-                platformPackages.push({
-                  name: dep.name,
-                  version: dep.version,
-                  reason: 'platform-binary',
-                  requiredBy: `${pkg.name}@${targetVersion}`
-                });
-              }
+      const binaryPlan = await this.planPlatformBinaries(
+        binaryTargets,
+        targetPlatforms,
+        cachedVersions,
+        packuments,
+        (processed, total, spec) => {
+          const binaryProgress = Math.round((processed / Math.max(1, total)) * 100);
+          this.updateTask(taskId, {
+            progress: 80 + Math.round(binaryProgress * 0.15), // 80-95%
+            detailedProgress: {
+              phase: 'detecting-binaries',
+              phaseProgress: binaryProgress,
+              totalProgress: 80 + Math.round(binaryProgress * 0.15),
+              currentPackage: spec,
+              processed,
+              total,
+              startTime,
+              phaseDescription: `检测二进制包: ${spec}`
             }
-
-            binaryChecked++;
-            const binaryProgress = Math.round((binaryChecked / binaryTotal) * 100);
-            this.updateTask(taskId, {
-              progress: 80 + Math.round(binaryProgress * 0.15), // 80-95%
-              detailedProgress: {
-                phase: 'detecting-binaries',
-                phaseProgress: binaryProgress,
-                totalProgress: 80 + Math.round(binaryProgress * 0.15),
-                currentPackage: pkg.name,
-                processed: binaryChecked,
-                total: cachedPackages.length,
-                startTime,
-                phaseDescription: `检测二进制包: ${pkg.name}`
-              }
-            });
-          })
-        )
+          });
+        }
       );
+      trace.edges.push(...binaryPlan.edges);
 
       // 合并并去重
-      const allPackages = [...missingPackages, ...platformPackages];
+      const allPackages = [...missingPackages, ...binaryPlan.packages];
       const uniquePackages = this.deduplicatePackages(allPackages);
+      if (advisoryIndex) {
+        await this.annotateAdvisories(uniquePackages, advisoryIndex);
+      }
 
       // 生成分析ID并缓存结果
       const analysisId = `analysis-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -592,12 +743,14 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
         refreshed: refreshedMetadata.length,
         toDownload: uniquePackages,
         platforms: targetPlatforms.map((p: any) => `${p.os}-${p.arch}`),
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        unresolved: trace.unresolved,
+        binaries: binaryPlan.binaries,
+        advisoryFailures: advisoryIndex?.getFailed()
       };
 
       // 缓存分析结果（1小时过期）
-      this.analysisCache.set(analysisId, analysisResult);
-      setTimeout(() => this.analysisCache.delete(analysisId), 3600000);
+      this.storeAnalysis(analysisResult, trace.edges);
 
       this.logger.info(
         { analysisId, toDownload: uniquePackages.length },
@@ -629,170 +782,223 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
       });
       throw error;
     } finally {
-      // 出错时也要释放缓存，防止内存泄漏
-      this.resolver.clearCache();
+      resolver.endSession();
       this.downloader.clearRequestCache();
     }
   }
 
   /**
-   * 获取分析结果
+   * 处理锁文件分析请求（异步任务模式）
    */
-  private handleGetAnalysis(req: Request, res: Response): void {
-    const { analysisId } = req.params;
-    const analysis = this.analysisCache.get(analysisId);
+  private async handleAnalyzeLockfile(req: Request, res: Response): Promise<void> {
+    const { lockfile, filename, packageJson, platforms } = req.body as LockfileAnalysisRequest;
+    const config = this.config as IngestConfig;
 
-    if (!analysis) {
-      res.status(404).json({ success: false, error: 'Analysis not found or expired' });
+    if (!lockfile || typeof lockfile !== 'string') {
+      res.status(400).json({ success: false, error: 'Lockfile content is required' });
       return;
     }
 
-    res.json({ success: true, ...analysis });
-  }
-
-  /**
-   * 处理下载请求（基于分析结果）
-   */
-  private async handleDownload(req: Request, res: Response): Promise<void> {
-    const { analysisId, packages } = req.body as DownloadRequest;
-
-    let packagesToDownload: PackageToDownload[];
-
-    if (analysisId) {
-      const analysis = this.analysisCache.get(analysisId);
-      if (!analysis) {
-        res.status(404).json({ success: false, error: 'Analysis not found or expired' });
-        return;
-      }
-      packagesToDownload = analysis.toDownload;
-    } else if (packages && packages.length > 0) {
-      packagesToDownload = packages;
-    } else {
-      res.status(400).json({ success: false, error: 'No packages to download' });
+    // 创建任务前同步解析锁文件与覆盖规则，格式无法识别或解析失败时直接返回错误
+    let parsed: ParsedLockfile;
+    let overrides: OverrideRule[];
+    try {
+      parsed = this.lockfileParser.parse(lockfile, filename);
+      overrides = [
+        ...this.lockfileParser.parseOverrideRules(parsed.overrides),
+        ...this.lockfileParser.collectOverrides(packageJson)
+      ];
+    } catch (error: any) {
+      res.status(400).json({ success: false, error: error.message });
       return;
     }
 
+    const targetPlatforms = platforms || config.platforms || [
+      PLATFORM_PRESETS['linux-x64'],
+      PLATFORM_PRESETS['win32-x64']
+    ];
+
     // 创建任务
     const taskId = this.createTask();
 
-    // 异步执行下载
-    this.executeDownload(taskId, packagesToDownload).catch((error) => {
-      this.updateTask(taskId, {
-        status: 'failed',
-        error: error.message
-      });
-    });
+    // 异步执行分析
+    this.executeLockfileAnalysis(taskId, { parsed, overrides, filename }, targetPlatforms).catch(
+      (error) => {
+        this.updateTask(taskId, {
+          status: 'failed',
+          error: error.message
+        });
+      }
+    );
 
     res.json({
       success: true,
       taskId,
-      total: packagesToDownload.length,
-      message: 'Download task started'
+      message: 'Lockfile analysis task started'
     });
   }
 
   /**
-   * 执行下载任务
+   * 执行锁文件分析任务
+   * 锁定版本与本地缓存做差集，生成与依赖分析一致的 AnalysisResult
    */
-  private async executeDownload(
+  private async executeLockfileAnalysis(
     taskId: string,
-    packages: PackageToDownload[]
-  ): Promise<DownloadBatchResult> {
-    this.updateTask(taskId, { status: 'running', progress: 0 });
-
-    const results: PackageDownloadStatus[] = [];
-    const failedPackages: PackageToDownload[] = [];
-    const downloadedPackageNames = new Set<string>();
-    const concurrency = (this.config as IngestConfig).concurrency || 5;
-    let completed = 0;
+    lockfile: { parsed: ParsedLockfile; overrides: OverrideRule[]; filename?: string },
+    targetPlatforms: any[]
+  ): Promise<AnalysisResult> {
+    const startTime = Date.now();
+    const { parsed, overrides } = lockfile;
 
     try {
-      // 分批下载
-      for (let i = 0; i < packages.length; i += concurrency) {
-        const batch = packages.slice(i, i + concurrency);
-        const batchPromises = batch.map(async (pkg) => {
-          const status: PackageDownloadStatus = {
-            name: pkg.name,
-            version: pkg.version,
-            status: 'downloading'
-          };
-
-          try {
-            const result = await this.downloader.downloadPackage(pkg.name, pkg.version);
-            status.status = 'success';
-            status.size = result?.size;
-            downloadedPackageNames.add(pkg.name);
-          } catch (error: any) {
-            status.status = 'failed';
-            status.error = error.message;
-            failedPackages.push(pkg);
-          }
+      // 1. 比对覆盖规则（锁文件已是应用覆盖规则后的结果，离线安装只会使用锁定版本）
+      this.updateTask(taskId, {
+        status: 'running',
+        progress: 20,
+        message: '检查覆盖规则...',
+        detailedProgress: {
+          phase: 'analyzing',
+          phaseProgress: 0,
+          totalProgress: 20,
+          processed: 0,
+          total: parsed.packages.length,
+          startTime,
+          phaseDescription: `检查覆盖规则: ${overrides.length} 条`
+        }
+      });
 
-          return status;
-        });
+      const overrideMismatches = this.lockfileParser
+        .checkOverrides(parsed.packages, overrides)
+        .filter((check) => check.mismatched.length > 0);
+      for (const check of overrideMismatches) {
+        this.logger.warn(
+          { key: check.key, target: check.target, versions: check.mismatched.join(', ') },
+          'Locked versions @{versions} do not satisfy override @{key} -> @{target}, the lockfile may be stale'
+        );
+      }
+      const lockedPackages = this.lockfileParser.filterByPlatforms(parsed.packages, targetPlatforms);
 
-        const batchResults = await Promise.all(batchPromises);
-        results.push(...batchResults);
+      // 2. 与本地缓存做差集
+      this.updateTask(taskId, {
+        progress: 60,
+        message: '扫描本地缓存...',
+        detailedProgress: {
+          phase: 'scanning',
+          phaseProgress: 0,
+          totalProgress: 60,
+          processed: 0,
+          total: lockedPackages.length,
+          startTime,
+          phaseDescription: '扫描本地缓存...'
+        }
+      });
 
-        completed += batch.length;
-        const progress = Math.round((completed / packages.length) * 100);
-        this.updateTask(taskId, {
-          progress,
-          message: `Downloaded ${completed}/${packages.length} packages`
-        });
+      const cachedPackages = await this.scanner.scanAllPackages();
+      const cachedVersions = new Map<string, Set<string>>();
+      for (const pkg of cachedPackages) {
+        cachedVersions.set(pkg.name, new Set(pkg.versions));
       }
 
-      // 所有版本下载完成后，再按包维度刷新一次元数据，避免重复请求同一包
-      if (downloadedPackageNames.size > 0) {
-        this.updateTask(taskId, {
-          message: `Refreshing metadata for ${downloadedPackageNames.size} packages`
-        });
-        await this.savePackumentsForPackages(Array.from(downloadedPackageNames));
-      }
+      const source = lockfile.filename || parsed.type;
+      const toDownload = this.deduplicatePackages(
+        lockedPackages
+          .filter((pkg) => !cachedVersions.get(pkg.name)?.has(pkg.version))
+          .map((pkg): PackageToDownload => ({
+            name: pkg.name,
+            version: pkg.version,
+            reason: 'lockfile',
+            requiredBy: source
+          }))
+      );
 
-      const batchResult: DownloadBatchResult = {
-        success: failedPackages.length === 0,
-        total: packages.length,
-        succeeded: packages.length - failedPackages.length,
-        failed: failedPackages.length,
-        results,
-        failedPackages
+      // 生成分析ID并缓存结果
+      const analysisId = `analysis-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      const analysisResult: AnalysisResult = {
+        analysisId,
+        scanned: cachedPackages.length,
+        refreshed: 0,
+        toDownload,
+        platforms: targetPlatforms.map((p: any) => `${p.os}-${p.arch}`),
+        timestamp: Date.now(),
+        lockfile: {
+          type: parsed.type,
+          lockfileVersion: parsed.lockfileVersion,
+          total: lockedPackages.length,
+          cached: lockedPackages.length - toDownload.length,
+          overrides: overrides.length,
+          overrideMismatches
+        },
+        unresolved: parsed.skipped.map((entry) => ({ ...entry, requiredBy: [source] }))
       };
 
+      // 缓存分析结果（1小时过期）
+      this.storeAnalysis(analysisResult);
+
+      this.logger.info(
+        { analysisId, type: parsed.type, total: lockedPackages.length, toDownload: toDownload.length },
+        'Lockfile analysis complete (@{type}): @{toDownload}/@{total} packages to download'
+      );
+
       this.updateTask(taskId, {
         status: 'completed',
         progress: 100,
-        result: batchResult
+        message: `分析完成: ${toDownload.length} 个包待下载`,
+        result: analysisResult,
+        detailedProgress: {
+          phase: 'completed',
+          phaseProgress: 100,
+          totalProgress: 100,
+          processed: toDownload.length,
+          total: toDownload.length,
+          startTime,
+          phaseDescription: `分析完成: ${toDownload.length} 个包待下载`
+        }
       });
 
-      return batchResult;
+      return analysisResult;
     } catch (error: any) {
       this.updateTask(taskId, {
         status: 'failed',
         error: error.message
       });
       throw error;
-    } finally {
-      this.downloader.clearRequestCache();
     }
   }
 
   /**
-   * 处理重试请求
+   * 处理添加新包请求（异步任务模式）
    */
-  private async handleRetry(req: Request, res: Response): Promise<void> {
-    const { packages } = req.body as { packages: PackageToDownload[] };
+  private async handleAddPackages(req: Request, res: Response): Promise<void> {
+    const { packages, options, platforms } = req.body as AddPackagesRequest;
+    const config = this.config as IngestConfig;
+    const targetPlatforms = platforms || config.platforms || [
+      PLATFORM_PRESETS['linux-x64'],
+      PLATFORM_PRESETS['win32-x64']
+    ];
 
-    if (!packages || packages.length === 0) {
-      res.status(400).json({ success: false, error: 'No packages to retry' });
+    const specs = Array.isArray(packages)
+      ? packages.map((spec) => String(spec).trim()).filter(Boolean)
+      : [];
+    if (specs.length === 0) {
+      res.status(400).json({ success: false, error: 'No packages specified' });
       return;
     }
 
+    const syncOptions = {
+      includeDev: false,
+      includePeer: true,
+      includeOptional: true,
+      maxDepth: 10,
+      ...config.sync,
+      ...options,
+      platforms: targetPlatforms
+    };
+
     // 创建任务
     const taskId = this.createTask();
 
-    // 异步执行下载
-    this.executeDownload(taskId, packages).catch((error) => {
+    // 异步执行分析
+    this.executeAddPackages(taskId, specs, syncOptions).catch((error) => {
       this.updateTask(taskId, {
         status: 'failed',
         error: error.message
@@ -802,121 +1008,1017 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
     res.json({
       success: true,
       taskId,
-      total: packages.length,
-      message: 'Retry task started'
+      message: 'Add packages task started'
     });
   }
 
-  private getConcurrency(): number {
-    const configured = Number((this.config as IngestConfig).concurrency);
-    if (!Number.isFinite(configured) || configured <= 0) {
-      return 5;
-    }
-    return Math.max(1, Math.min(50, Math.floor(configured)));
-  }
-
-  private async savePackumentsForPackages(
-    packageNames: string[],
-    onProgress?: (completed: number, total: number, packageName: string) => void
-  ): Promise<void> {
-    const uniqueNames = Array.from(new Set(packageNames));
-    if (uniqueNames.length === 0) {
-      return;
-    }
-
-    const limit = pLimit(this.getConcurrency());
-    let completed = 0;
-    const total = uniqueNames.length;
+  /**
+   * 执行添加新包分析任务
+   * 从指定规格解析完整依赖闭包，跳过本地已有的版本；
+   * 闭包内的包均标记为 requested，requiredBy 记录依赖来源
+   */
+  private async executeAddPackages(
+    taskId: string,
+    specs: string[],
+    syncOptions: any
+  ): Promise<AnalysisResult> {
+    const startTime = Date.now();
+    const resolver = this.createResolver();
 
-    await Promise.all(
-      uniqueNames.map((packageName) =>
+    this.updateTask(taskId, {
+      status: 'running',
+      progress: 0,
+      message: '扫描本地缓存...',
+      detailedProgress: {
+        phase: 'scanning',
+        phaseProgress: 0,
+        totalProgress: 0,
+        processed: 0,
+        total: 0,
+        startTime,
+        phaseDescription: '扫描本地缓存...'
+      }
+    });
+
+    try {
+      // 1. 扫描本地已缓存的包
+      const cachedPackages = await this.scanner.scanAllPackages();
+      const cachedVersions = new Map<string, Set<string>>();
+      for (const pkg of cachedPackages) {
+        cachedVersions.set(pkg.name, new Set(pkg.versions));
+      }
+
+      // 2. 解析依赖闭包
+      this.updateTask(taskId, {
+        progress: 10,
+        message: '解析依赖树...',
+        detailedProgress: {
+          phase: 'analyzing',
+          phaseProgress: 0,
+          totalProgress: 10,
+          processed: 0,
+          total: specs.length,
+          startTime,
+          phaseDescription: '解析依赖树...'
+        }
+      });
+
+      const trace: Required<AnalysisTrace> = { edges: [], unresolved: [] };
+      const resolved = await resolver.resolveTree(
+        specs,
+        syncOptions,
+        cachedPackages,
+        (progress: AnalysisProgress) => {
+          this.updateTask(taskId, {
+            progress: 10 + Math.round(progress.phaseProgress * 0.85), // 10-95%
+            message: progress.phaseDescription,
+            detailedProgress: {
+              ...progress,
+              totalProgress: 10 + Math.round(progress.phaseProgress * 0.85)
+            }
+          });
+        },
+        startTime,
+        trace
+      );
+
+      // 3. 跳过本地已有的版本
+      const toDownload = this.deduplicatePackages(
+        resolved
+          .filter((pkg) => !cachedVersions.get(pkg.name)?.has(pkg.version))
+          .map((pkg): PackageToDownload => ({
+            name: pkg.name,
+            version: pkg.version,
+            reason: 'requested',
+            requiredBy: pkg.requiredBy,
+            registry: pkg.registry
+          }))
+      );
+
+      // 生成分析ID并缓存结果
+      const analysisId = `analysis-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      const analysisResult: AnalysisResult = {
+        analysisId,
+        scanned: cachedPackages.length,
+        refreshed: 0,
+        toDownload,
+        platforms: (syncOptions.platforms || []).map((p: any) => `${p.os}-${p.arch}`),
+        timestamp: Date.now(),
+        unresolved: trace.unresolved
+      };
+
+      // 缓存分析结果（1小时过期）
+      this.storeAnalysis(analysisResult, trace.edges);
+
+      this.logger.info(
+        { analysisId, specs: specs.join(', '), toDownload: toDownload.length },
+        'Add packages analysis complete for @{specs}: @{toDownload} packages to download'
+      );
+
+      this.updateTask(taskId, {
+        status: 'completed',
+        progress: 100,
+        message: `分析完成: ${toDownload.length} 个包待下载`,
+        result: analysisResult,
+        detailedProgress: {
+          phase: 'completed',
+          phaseProgress: 100,
+          totalProgress: 100,
+          processed: toDownload.length,
+          total: toDownload.length,
+          startTime,
+          phaseDescription: `分析完成: ${toDownload.length} 个包待下载`
+        }
+      });
+
+      return analysisResult;
+    } catch (error: any) {
+      this.updateTask(taskId, {
+        status: 'failed',
+        error: error.message
+      });
+      throw error;
+    } finally {
+      resolver.endSession();
+    }
+  }
+
+  /**
+   * 获取分析结果
+   */
+  private handleGetAnalysis(req: Request, res: Response): void {
+    const { analysisId } = req.params;
+    const analysis = this.analysisCache.get(analysisId);
+
+    if (!analysis) {
+      res.status(404).json({ success: false, error: 'Analysis not found or expired' });
+      return;
+    }
+
+    res.json({ success: true, ...analysis });
+  }
+
+  /**
+   * 获取分析依赖图
+   * 默认返回 JSON，?format=dot 返回 Graphviz DOT
+   */
+  private handleGetAnalysisGraph(req: Request, res: Response): void {
+    const { analysisId } = req.params;
+    const graph = this.getAnalysisGraph(analysisId, res);
+    if (!graph) return;
+
+    if (req.query.format === 'dot') {
+      res.setHeader('Content-Type', 'text/vnd.graphviz; charset=utf-8');
+      res.setHeader('Content-Disposition', `inline; filename="${analysisId}.dot"`);
+      res.send(graph.toDot());
+      return;
+    }
+
+    res.json({ success: true, ...graph.toJSON() });
+  }
+
+  /**
+   * 查询包被引入的所有依赖路径
+   */
+  private handleWhy(req: Request, res: Response): void {
+    const { analysisId, scope, name } = req.params;
+    const graph = this.getAnalysisGraph(analysisId, res);
+    if (!graph) return;
+
+    const packageName = scope ? `${scope}/${name}` : name;
+    const version = typeof req.query.version === 'string' ? req.query.version : undefined;
+    const limit = Math.max(1, Math.min(1000, Number(req.query.limit) || 100));
+    const result = graph.why(packageName, version, limit);
+
+    if (result.paths.length === 0) {
+      res.status(404).json({ success: false, error: `Package ${packageName} not found in analysis graph` });
+      return;
+    }
+
+    res.json({ success: true, ...result });
+  }
+
+  /**
+   * 获取分析依赖图（不存在时直接返回 404）
+   */
+  private getAnalysisGraph(analysisId: string, res: Response): AnalysisGraph | null {
+    const analysis = this.analysisCache.get(analysisId);
+    if (!analysis) {
+      res.status(404).json({ success: false, error: 'Analysis not found or expired' });
+      return null;
+    }
+
+    const edges = this.analysisGraphs.get(analysisId);
+    if (!edges) {
+      res.status(404).json({ success: false, error: 'Dependency graph not available for this analysis' });
+      return null;
+    }
+
+    return new AnalysisGraph(analysis, edges);
+  }
+
+  /**
+   * 缓存分析结果与依赖图（1小时过期）
+   */
+  private storeAnalysis(analysis: AnalysisResult, edges?: DependencyEdge[]): void {
+    const { analysisId } = analysis;
+    this.analysisCache.set(analysisId, analysis);
+    if (edges) {
+      this.analysisGraphs.set(analysisId, edges);
+    }
+    setTimeout(() => {
+      this.analysisCache.delete(analysisId);
+      this.analysisGraphs.delete(analysisId);
+    }, 3600000);
+  }
+
+  /**
+   * 处理下载请求（基于分析结果）
+   */
+  private async handleDownload(req: Request, res: Response): Promise<void> {
+    const { analysisId, packages } = req.body as DownloadRequest;
+
+    let packagesToDownload: PackageToDownload[];
+
+    if (analysisId) {
+      const analysis = this.analysisCache.get(analysisId);
+      if (!analysis) {
+        res.status(404).json({ success: false, error: 'Analysis not found or expired' });
+        return;
+      }
+      packagesToDownload = analysis.toDownload;
+    } else if (packages && packages.length > 0) {
+      packagesToDownload = packages;
+    } else {
+      res.status(400).json({ success: false, error: 'No packages to download' });
+      return;
+    }
+
+    // 创建任务
+    const taskId = this.createTask();
+
+    // 异步执行下载
+    this.executeDownload(taskId, packagesToDownload).catch((error) => {
+      this.updateTask(taskId, {
+        status: 'failed',
+        error: error.message
+      });
+    });
+
+    res.json({
+      success: true,
+      taskId,
+      total: packagesToDownload.length,
+      message: 'Download task started'
+    });
+  }
+
+  /**
+   * 执行下载任务
+   */
+  private async executeDownload(
+    taskId: string,
+    packages: PackageToDownload[]
+  ): Promise<DownloadBatchResult> {
+    this.updateTask(taskId, { status: 'running', progress: 0 });
+
+    const failedPackages: PackageToDownload[] = [];
+    const downloadedPackageNames = new Set<string>();
+    const breaker = this.createCircuitBreaker(taskId);
+    const retryPolicy = new RetryPolicy((this.config as IngestConfig).retry, breaker);
+    const scheduler = new DownloadScheduler(this.getConcurrency(), (progress) => {
+      // 熔断暂停期间保留暂停提示
+      const paused = this.tasks.get(taskId)?.status === 'paused';
+      this.updateTask(taskId, {
+        progress: progress.totalProgress,
+        detailedProgress: progress,
+        ...(paused ? {} : { message: `Downloaded ${progress.processed}/${progress.total} packages` })
+      });
+    });
+
+    try {
+      // 持续工作池：任一槽位空出即开始下一个包
+      const results = await scheduler.run(packages, async (pkg, onBytes) => {
+        const status: PackageDownloadStatus = {
+          name: pkg.name,
+          version: pkg.version,
+          status: 'downloading'
+        };
+
+        try {
+          const { result, attempts } = await retryPolicy.run(
+            () => this.downloader.downloadPackage(pkg.name, pkg.version, pkg.registry, onBytes),
+            (attempt, delay, error) => {
+              this.logger.warn(
+                { pkg: pkg.name, version: pkg.version, attempt, delay, error: error.message },
+                'Download of @{pkg}@@{version} failed (attempt @{attempt}), retrying in @{delay}ms: @{error}'
+              );
+            }
+          );
+          status.status = 'success';
+          status.size = result?.size;
+          status.registry = result?.registry;
+          status.attempts = attempts;
+          downloadedPackageNames.add(pkg.name);
+        } catch (error: any) {
+          status.status = 'failed';
+          status.error = error.message;
+          status.attempts = error.attempts || 1;
+          failedPackages.push(pkg);
+        }
+
+        return status;
+      });
+
+      // 所有版本下载完成后，再按包维度刷新一次元数据，避免重复请求同一包
+      if (downloadedPackageNames.size > 0) {
+        const downloaded = scheduler.getProgress();
+        this.updateTask(taskId, {
+          progress: 100,
+          message: `Refreshing metadata for ${downloadedPackageNames.size} packages`,
+          detailedProgress: {
+            ...downloaded,
+            phase: 'refreshing-metadata',
+            phaseProgress: 0,
+            totalProgress: 100,
+            phaseDescription: `Refreshing metadata for ${downloadedPackageNames.size} packages`
+          }
+        });
+        await this.savePackumentsForPackages(
+          Array.from(downloadedPackageNames),
+          (completed, total, packageName) => {
+            this.updateTask(taskId, {
+              detailedProgress: {
+                ...downloaded,
+                phase: 'refreshing-metadata',
+                phaseProgress: Math.round((completed / total) * 100),
+                totalProgress: 100,
+                currentPackage: packageName,
+                phaseDescription: `Refreshing metadata (${completed}/${total})`
+              }
+            });
+          }
+        );
+      }
+
+      const batchResult: DownloadBatchResult = {
+        success: failedPackages.length === 0,
+        total: packages.length,
+        succeeded: packages.length - failedPackages.length,
+        failed: failedPackages.length,
+        results,
+        failedPackages
+      };
+
+      this.updateTask(taskId, {
+        status: 'completed',
+        progress: 100,
+        result: batchResult,
+        detailedProgress: {
+          ...scheduler.getProgress(),
+          phase: 'completed',
+          phaseProgress: 100,
+          totalProgress: 100,
+          estimatedRemaining: 0,
+          phaseDescription: 'Download completed'
+        }
+      });
+
+      return batchResult;
+    } catch (error: any) {
+      this.updateTask(taskId, {
+        status: 'failed',
+        error: error.message
+      });
+      throw error;
+    } finally {
+      breaker?.dispose();
+      this.downloader.clearRequestCache();
+    }
+  }
+
+  /**
+   * 创建下载任务的熔断器：上游错误率过高时将任务标记为 paused，暂停结束后恢复
+   */
+  private createCircuitBreaker(taskId: string): CircuitBreaker | undefined {
+    const config = (this.config as IngestConfig).circuitBreaker;
+    if (config === false) {
+      return undefined;
+    }
+
+    return new CircuitBreaker(config, {
+      onOpen: (errorRate, cooldown) => {
+        const rate = Math.round(errorRate * 100);
+        const seconds = Math.round(cooldown / 1000);
+        this.logger.warn(
+          { taskId, rate, seconds },
+          'Upstream error rate @{rate}% in task @{taskId}, pausing downloads for @{seconds}s'
+        );
+        this.updateTask(taskId, {
+          status: 'paused',
+          message: `Upstream error rate ${rate}%, paused for ${seconds}s`
+        });
+      },
+      onClose: () => {
+        this.logger.info({ taskId }, 'Resuming downloads in task @{taskId}');
+        this.updateTask(taskId, { status: 'running', message: 'Resuming downloads' });
+      }
+    });
+  }
+
+  /**
+   * 处理重试请求
+   */
+  private async handleRetry(req: Request, res: Response): Promise<void> {
+    const { packages } = req.body as { packages: PackageToDownload[] };
+
+    if (!packages || packages.length === 0) {
+      res.status(400).json({ success: false, error: 'No packages to retry' });
+      return;
+    }
+
+    // 创建任务
+    const taskId = this.createTask();
+
+    // 异步执行下载
+    this.executeDownload(taskId, packages).catch((error) => {
+      this.updateTask(taskId, {
+        status: 'failed',
+        error: error.message
+      });
+    });
+
+    res.json({
+      success: true,
+      taskId,
+      total: packages.length,
+      message: 'Retry task started'
+    });
+  }
+
+  /**
+   * 为任务创建依赖解析器（共享 packument 缓存，校验记录只属于该任务的会话）
+   */
+  private createResolver(packuments: PackumentSession = this.packumentCache.createSession()): DependencyResolver {
+    return new DependencyResolver(this.config as IngestConfig, this.router, packuments, this.logger);
+  }
+
+  private getConcurrency(): number {
+    const configured = Number((this.config as IngestConfig).concurrency);
+    if (!Number.isFinite(configured) || configured <= 0) {
+      return 5;
+    }
+    return Math.max(1, Math.min(50, Math.floor(configured)));
+  }
+
+  private async savePackumentsForPackages(
+    packageNames: string[],
+    onProgress?: (completed: number, total: number, packageName: string) => void
+  ): Promise<void> {
+    const uniqueNames = Array.from(new Set(packageNames));
+    if (uniqueNames.length === 0) {
+      return;
+    }
+
+    const limit = pLimit(this.getConcurrency());
+    let completed = 0;
+    const total = uniqueNames.length;
+
+    await Promise.all(
+      uniqueNames.map((packageName) =>
+        limit(async () => {
+          try {
+            // 上游未修改（304）时本地元数据已是最新，无需重新写入
+            const result = await this.downloader.downloadPackumentIfChanged(packageName);
+            if (!result.notModified) {
+              await this.downloader.savePackument(packageName, result.packument, result);
+            }
+          } catch (error: any) {
+            this.logger.warn(
+              { name: packageName, error: error.message },
+              'Failed to save packument for @{name}: @{error}'
+            );
+          } finally {
+            completed++;
+            if (onProgress) {
+              onProgress(completed, total, packageName);
+            }
+          }
+        })
+      )
+    );
+
+    await this.refreshIndexes(uniqueNames);
+  }
+
+  /**
+   * 增量更新存储索引与搜索索引（失败不影响当前任务）
+   */
+  private async refreshIndexes(packageNames: string[]): Promise<void> {
+    try {
+      await this.storageIndex?.refresh(packageNames);
+    } catch (error: any) {
+      this.logger.warn({ error: error.message }, 'Failed to update storage index: @{error}');
+    }
+    try {
+      await this.searchIndex.update(packageNames);
+    } catch (error: any) {
+      this.logger.warn({ error: error.message }, 'Failed to update search index: @{error}');
+    }
+  }
+
+  /**
+   * 规划平台二进制包
+   * 对每个目标版本（按 name@version 去重）检测平台二进制，列出本地尚未缓存的二进制包及每个版本缺失的平台
+   * cachedVersions 为本地已有的版本，已缓存的二进制包不会重复列出
+   */
+  private async planPlatformBinaries(
+    targets: Array<{ name: string; version: string }>,
+    platforms: PlatformConfig[],
+    cachedVersions: Map<string, Set<string>>,
+    packuments: PackumentSession,
+    onProgress?: (processed: number, total: number, spec: string) => void
+  ): Promise<{ packages: PackageToDownload[]; edges: DependencyEdge[]; binaries: PlatformBinaryStatus[] }> {
+    const specs = new Map<string, { name: string; version: string }>();
+    for (const target of targets) {
+      specs.set(`${target.name}@${target.version}`, target);
+    }
+
+    const packages: PackageToDownload[] = [];
+    const edges: DependencyEdge[] = [];
+    const binaries: PlatformBinaryStatus[] = [];
+    const limit = pLimit(this.getConcurrency());
+    let processed = 0;
+
+    await Promise.all(
+      Array.from(specs.entries()).map(([spec, { name, version }]) =>
         limit(async () => {
           try {
-            const packument = await this.downloader.downloadPackument(packageName);
-            await this.downloader.savePackument(packageName, packument);
+            const matches = await this.downloader.getPlatformBinaries(name, version, platforms, packuments);
+            if (!matches) {
+              return;
+            }
+
+            const status: PlatformBinaryStatus = {
+              name,
+              version,
+              missingPlatforms: [],
+              unsupportedPlatforms: []
+            };
+            for (const { platform, dependencies } of matches) {
+              if (dependencies.length === 0) {
+                status.unsupportedPlatforms.push(formatPlatform(platform));
+                continue;
+              }
+
+              const missing = dependencies.filter(
+                (dep) => !cachedVersions.get(dep.name)?.has(dep.version)
+              );
+              if (missing.length > 0) {
+                status.missingPlatforms.push(formatPlatform(platform));
+              }
+              for (const dep of missing) {
+                packages.push({
+                  name: dep.name,
+                  version: dep.version,
+                  reason: 'platform-binary',
+                  requiredBy: spec,
+                  registry: dep.registry
+                });
+                edges.push({
+                  parent: spec,
+                  child: `${dep.name}@${dep.version}`,
+                  range: dep.version,
+                  type: 'optionalDependencies',
+                  depth: 1
+                });
+              }
+            }
+            binaries.push(status);
           } catch (error: any) {
             this.logger.warn(
-              { name: packageName, error: error.message },
-              'Failed to save packument for @{name}: @{error}'
+              { spec, error: error.message },
+              'Failed to detect platform binaries for @{spec}: @{error}'
             );
           } finally {
-            completed++;
-            if (onProgress) {
-              onProgress(completed, total, packageName);
-            }
+            processed++;
+            onProgress?.(processed, specs.size, spec);
           }
         })
       )
     );
+
+    binaries.sort(
+      (a, b) =>
+        a.name.localeCompare(b.name) ||
+        (semver.valid(a.version) && semver.valid(b.version)
+          ? semver.compare(a.version, b.version)
+          : a.version.localeCompare(b.version))
+    );
+    return { packages: this.deduplicatePackages(packages), edges, binaries };
+  }
+
+  /**
+   * 去重包列表
+   */
+  private deduplicatePackages(packages: PackageToDownload[]): PackageToDownload[] {
+    const seen = new Map<string, PackageToDownload>();
+    for (const pkg of packages) {
+      const key = `${pkg.name}@${pkg.version}`;
+      if (!seen.has(key)) {
+        seen.set(key, pkg);
+      }
+    }
+    return Array.from(seen.values());
+  }
+
+  /**
+   * 处理多平台下载请求
+   */
+  private async handlePlatformDownload(req: Request, res: Response): Promise<void> {
+    const { packages, platforms } = req.body as PlatformDownloadRequest;
+
+    if (!packages || packages.length === 0) {
+      res.status(400).json({ success: false, error: 'No packages specified' });
+      return;
+    }
+
+    const packuments = this.packumentCache.createSession();
+    try {
+      const results = [];
+
+      for (const pkg of packages) {
+        const { name, version } = this.parsePackageSpec(pkg);
+        const resolvedVersion = version || 'latest';
+
+        // 获取具体版本
+        const manifest = await this.downloader.downloadPackument(name);
+        const targetVersion =
+          resolvedVersion === 'latest'
+            ? manifest['dist-tags']?.latest
+            : resolvedVersion;
+
+        if (!targetVersion) {
+          this.logger.warn({ name }, 'No version found for @{name}');
+          continue;
+        }
+
+        // 下载多平台版本
+        const platformResults = await this.downloader.downloadForPlatforms(
+          name,
+          targetVersion,
+          platforms,
+          packuments
+        );
+
+        results.push({
+          name,
+          version: targetVersion,
+          platforms: platformResults.length
+        });
+        await this.refreshIndexes(platformResults.map((result) => result.package.name));
+      }
+
+      res.json({
+        success: true,
+        results
+      });
+    } catch (error: any) {
+      this.logger.error({ error: error.message }, 'Platform download failed: @{error}');
+      res.status(500).json({ success: false, error: error.message });
+    } finally {
+      packuments.end();
+      this.downloader.clearRequestCache();
+    }
+  }
+
+  /**
+   * 处理二进制制品镜像请求（异步任务模式）
+   */
+  private async handleArtifacts(req: Request, res: Response): Promise<void> {
+    const { packages, platforms } = req.body as ArtifactsRequest;
+    const config = this.config as IngestConfig;
+
+    const targetPlatforms = platforms || config.platforms || [
+      PLATFORM_PRESETS['linux-x64'],
+      PLATFORM_PRESETS['win32-x64']
+    ];
+
+    const taskId = this.createTask();
+
+    this.executeArtifacts(taskId, packages, targetPlatforms).catch((error) => {
+      this.updateTask(taskId, {
+        status: 'failed',
+        error: error.message
+      });
+    });
+
+    res.json({
+      success: true,
+      taskId,
+      message: 'Artifact mirror task started'
+    });
+  }
+
+  /**
+   * 执行二进制制品镜像任务
+   */
+  private async executeArtifacts(
+    taskId: string,
+    packages: Array<{ name: string; version: string }> | undefined,
+    platforms: PlatformConfig[]
+  ): Promise<ArtifactsResult> {
+    this.updateTask(taskId, { status: 'running', progress: 0 });
+    const breaker = this.createCircuitBreaker(taskId);
+    const retryPolicy = new RetryPolicy((this.config as IngestConfig).retry, breaker);
+
+    try {
+      // 未指定版本时处理所有已缓存的版本
+      let targets = packages;
+      if (!targets || targets.length === 0) {
+        this.updateTask(taskId, { message: 'Scanning local cache...' });
+        const cachedPackages = await this.scanner.scanAllPackages();
+        targets = cachedPackages.flatMap((pkg) =>
+          pkg.versions.map((version) => ({ name: pkg.name, version }))
+        );
+      }
+
+      this.updateTask(taskId, { progress: 10, message: 'Resolving artifacts...' });
+      const files = await this.artifacts.plan(targets, platforms);
+
+      this.updateTask(taskId, {
+        progress: 20,
+        message: `Downloading artifacts (0/${files.length})`
+      });
+      const statuses = await this.artifacts.download(files, retryPolicy, (completed, total) => {
+        const paused = this.tasks.get(taskId)?.status === 'paused';
+        this.updateTask(taskId, {
+          progress: 20 + Math.round((completed / Math.max(1, total)) * 80),
+          ...(paused ? {} : { message: `Downloading artifacts (${completed}/${total})` })
+        });
+      });
+
+      const result = this.summarizeArtifacts(targets.length, files, statuses);
+
+      this.updateTask(taskId, {
+        status: 'completed',
+        progress: 100,
+        message: `Artifacts: ${result.downloaded} downloaded, ${result.skipped} skipped, ${result.failed} failed`,
+        result
+      });
+
+      return result;
+    } catch (error: any) {
+      this.updateTask(taskId, {
+        status: 'failed',
+        error: error.message
+      });
+      throw error;
+    } finally {
+      breaker?.dispose();
+    }
+  }
+
+  /**
+   * 处理 Node.js 发行文件镜像请求（异步任务模式）
+   */
+  private async handleNodeDist(req: Request, res: Response): Promise<void> {
+    const { versions, full, platforms } = req.body as NodeDistRequest;
+    const config = this.config as IngestConfig;
+
+    const targetVersions = versions || config.nodeDist?.versions || [process.versions.node];
+    const targetPlatforms = platforms || config.platforms || [
+      PLATFORM_PRESETS['linux-x64'],
+      PLATFORM_PRESETS['win32-x64']
+    ];
+
+    const taskId = this.createTask();
+
+    this.executeNodeDist(taskId, targetVersions, full ?? config.nodeDist?.full ?? false, targetPlatforms).catch(
+      (error) => {
+        this.updateTask(taskId, {
+          status: 'failed',
+          error: error.message
+        });
+      }
+    );
+
+    res.json({
+      success: true,
+      taskId,
+      message: 'Node.js dist mirror task started'
+    });
+  }
+
+  /**
+   * 执行 Node.js 发行文件镜像任务
+   */
+  private async executeNodeDist(
+    taskId: string,
+    specs: string[],
+    full: boolean,
+    platforms: PlatformConfig[]
+  ): Promise<NodeDistResult> {
+    this.updateTask(taskId, { status: 'running', progress: 0, message: 'Resolving Node.js versions...' });
+    const breaker = this.createCircuitBreaker(taskId);
+    const retryPolicy = new RetryPolicy((this.config as IngestConfig).retry, breaker);
+
+    try {
+      const versions = await this.nodeDist.resolveVersions(specs);
+      this.updateTask(taskId, { progress: 10, message: `Fetching checksums for ${versions.join(', ')}` });
+      const files = await this.nodeDist.plan(versions, platforms, full);
+
+      this.updateTask(taskId, {
+        progress: 20,
+        message: `Downloading Node.js files (0/${files.length})`
+      });
+      const statuses = await this.artifacts.download(files, retryPolicy, (completed, total) => {
+        const paused = this.tasks.get(taskId)?.status === 'paused';
+        this.updateTask(taskId, {
+          progress: 20 + Math.round((completed / Math.max(1, total)) * 80),
+          ...(paused ? {} : { message: `Downloading Node.js files (${completed}/${total})` })
+        });
+      });
+
+      const summary = this.summarizeArtifacts(versions.length, files, statuses);
+      const result: NodeDistResult = {
+        ...summary,
+        // node-gyp 读取 npm 的 disturl 配置
+        env: { ...summary.env, npm_config_disturl: `/_/artifacts/${NODE_DIST_MIRROR}/` },
+        versions
+      };
+
+      this.updateTask(taskId, {
+        status: 'completed',
+        progress: 100,
+        message: `Node.js files: ${result.downloaded} downloaded, ${result.skipped} skipped, ${result.failed} failed`,
+        result
+      });
+
+      return result;
+    } catch (error: any) {
+      this.updateTask(taskId, {
+        status: 'failed',
+        error: error.message
+      });
+      throw error;
+    } finally {
+      breaker?.dispose();
+    }
+  }
+
+  /**
+   * 汇总制品下载结果，并列出内网安装时需要设置的环境变量
+   */
+  private summarizeArtifacts(
+    scanned: number,
+    files: ArtifactFile[],
+    statuses: ArtifactDownloadStatus[]
+  ): ArtifactsResult {
+    const env: Record<string, string> = {};
+    for (const file of files) {
+      if (file.env) {
+        env[file.env] = `/_/artifacts/${file.mirror}/`;
+      }
+    }
+
+    return {
+      scanned,
+      downloaded: statuses.filter((item) => item.status === 'success').length,
+      skipped: statuses.filter((item) => item.status === 'skipped').length,
+      failed: statuses.filter((item) => item.status === 'failed').length,
+      files: statuses,
+      env
+    };
+  }
+
+  /**
+   * 处理已镜像制品查询
+   */
+  private async handleListArtifacts(req: Request, res: Response): Promise<void> {
+    try {
+      const mirrors = await this.artifacts.list();
+      res.json({ success: true, mirrors });
+    } catch (error: any) {
+      this.logger.error({ error: error.message }, 'Failed to list artifacts: @{error}');
+      res.status(500).json({ success: false, error: error.message });
+    }
+  }
+
+  /**
+   * 处理安全公告同步请求（异步任务模式）
+   */
+  private async handleAdvisories(req: Request, res: Response): Promise<void> {
+    const { packages } = (req.body || {}) as AdvisoriesRequest;
+
+    const taskId = this.createTask();
+
+    this.executeAdvisories(taskId, packages).catch((error) => {
+      this.updateTask(taskId, {
+        status: 'failed',
+        error: error.message
+      });
+    });
+
+    res.json({
+      success: true,
+      taskId,
+      message: 'Advisory sync task started'
+    });
   }
 
   /**
-   * 去重包列表
+   * 执行安全公告同步任务：查询已缓存包的安全公告并生成新的公告库快照
    */
-  private deduplicatePackages(packages: PackageToDownload[]): PackageToDownload[] {
-    const seen = new Map<string, PackageToDownload>();
-    for (const pkg of packages) {
-      const key = `${pkg.name}@${pkg.version}`;
-      if (!seen.has(key)) {
-        seen.set(key, pkg);
+  private async executeAdvisories(
+    taskId: string,
+    packages: string[] | undefined
+  ): Promise<AdvisorySyncResult> {
+    this.updateTask(taskId, { status: 'running', progress: 0, message: 'Scanning local cache...' });
+    const breaker = this.createCircuitBreaker(taskId);
+    const retryPolicy = new RetryPolicy((this.config as IngestConfig).retry, breaker);
+
+    try {
+      const cachedPackages = await this.scanner.scanAllPackages();
+      const selected = packages && packages.length > 0 ? new Set(packages) : null;
+      const targets = new Map<string, string[]>();
+      for (const pkg of cachedPackages) {
+        if (!selected || selected.has(pkg.name)) {
+          targets.set(pkg.name, pkg.versions);
+        }
       }
+
+      this.updateTask(taskId, {
+        progress: 10,
+        message: `Fetching advisories (0/${targets.size})`
+      });
+      const result = await this.advisories.refresh(targets, retryPolicy, (completed, total) => {
+        const paused = this.tasks.get(taskId)?.status === 'paused';
+        this.updateTask(taskId, {
+          progress: 10 + Math.round((completed / Math.max(1, total)) * 90),
+          ...(paused ? {} : { message: `Fetching advisories (${completed}/${total})` })
+        });
+      });
+
+      this.updateTask(taskId, {
+        status: 'completed',
+        progress: 100,
+        message: `Advisories: ${result.advisories} advisories in ${result.vulnerablePackages} packages, ${result.failed.length} packages failed`,
+        result
+      });
+
+      return result;
+    } catch (error: any) {
+      this.updateTask(taskId, {
+        status: 'failed',
+        error: error.message
+      });
+      throw error;
+    } finally {
+      breaker?.dispose();
     }
-    return Array.from(seen.values());
   }
 
   /**
-   * 处理多平台下载请求
+   * 启用 avoidVulnerable 时创建本次分析使用的安全公告索引
    */
-  private async handlePlatformDownload(req: Request, res: Response): Promise<void> {
-    const { packages, platforms } = req.body as PlatformDownloadRequest;
-
-    if (!packages || packages.length === 0) {
-      res.status(400).json({ success: false, error: 'No packages specified' });
-      return;
+  private createAdvisoryIndex(options: SyncOptions): AdvisoryIndex | undefined {
+    if (!options?.avoidVulnerable) {
+      return undefined;
     }
+    return new AdvisoryIndex(this.advisories, new RetryPolicy((this.config as IngestConfig).retry));
+  }
 
-    try {
-      const results = [];
-
-      for (const pkg of packages) {
-        const { name, version } = this.parsePackageSpec(pkg);
-        const resolvedVersion = version || 'latest';
-
-        // 获取具体版本
-        const manifest = await this.downloader.downloadPackument(name);
-        const targetVersion =
-          resolvedVersion === 'latest'
-            ? manifest['dist-tags']?.latest
-            : resolvedVersion;
-
-        if (!targetVersion) {
-          this.logger.warn({ name }, 'No version found for @{name}');
-          continue;
-        }
-
-        // 下载多平台版本
-        const platformResults = await this.downloader.downloadForPlatforms(
-          name,
-          targetVersion,
-          platforms
-        );
+  /**
+   * 为待下载版本标注安全公告及最高严重程度
+   */
+  private async annotateAdvisories(packages: PackageToDownload[], index: AdvisoryIndex): Promise<void> {
+    // 分析阶段未涉及的包（如平台二进制包）按待下载版本补充查询
+    const versions = new Map<string, string[]>();
+    for (const pkg of packages) {
+      versions.set(pkg.name, [...(versions.get(pkg.name) || []), pkg.version]);
+    }
+    await index.prefetch(versions);
 
-        results.push({
-          name,
-          version: targetVersion,
-          platforms: platformResults.length
-        });
+    for (const pkg of packages) {
+      const advisories = index.match(pkg.name, pkg.version);
+      if (advisories.length > 0) {
+        pkg.advisories = advisories;
+        pkg.severity = getHighestSeverity(advisories);
       }
+    }
+  }
 
-      res.json({
-        success: true,
-        results
-      });
+  /**
+   * 处理安全公告库查询（返回最新快照的统计信息）
+   */
+  private async handleAdvisorySummary(req: Request, res: Response): Promise<void> {
+    try {
+      const summary = await this.advisories.getSummary();
+      res.json({ success: true, database: summary });
     } catch (error: any) {
-      this.logger.error({ error: error.message }, 'Platform download failed: @{error}');
+      this.logger.error({ error: error.message }, 'Failed to read advisory database: @{error}');
       res.status(500).json({ success: false, error: error.message });
-    } finally {
-      this.downloader.clearRequestCache();
     }
   }
 
@@ -949,7 +2051,8 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
           name: p.name,
           versions: p.versions,
           latestCached: p.latestVersion || p.versions[p.versions.length - 1]
-        }))
+        })),
+        storageIndex: this.storageIndex ? await this.storageIndex.getStats() : undefined
       };
 
       res.json(status);
@@ -967,7 +2070,8 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
     try {
       this.logger.info('Starting index rebuild...');
 
-      // 1. 扫描所有包
+      // 1. 与存储目录核对后扫描所有包
+      await this.storageIndex?.reconcile();
       const packages = await this.scanner.scanAllPackages();
       let healed = 0;
       let tagsUpdated = 0;
@@ -1047,9 +2151,12 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
         }
       }
 
+      // 元数据修复后重建搜索索引
+      const indexed = await this.searchIndex.rebuild();
+
       this.logger.info(
-        { scanned: packages.length, healed, tagsUpdated, created },
-        'Index rebuild completed: scanned @{scanned}, healed @{healed}, tags updated @{tagsUpdated}, created @{created}'
+        { scanned: packages.length, healed, tagsUpdated, created, indexed },
+        'Index rebuild completed: scanned @{scanned}, healed @{healed}, tags updated @{tagsUpdated}, created @{created}, indexed @{indexed}'
       );
 
       res.json({
@@ -1057,7 +2164,8 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
         scanned: packages.length,
         healed,
         tagsUpdated,
-        created
+        created,
+        indexed
       });
     } catch (error: any) {
       this.logger.error({ error: error.message }, 'Index rebuild failed: @{error}');
@@ -1065,6 +2173,288 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
     }
   }
 
+  /**
+   * 处理存储审计请求（异步任务模式）
+   */
+  private async handleAudit(req: Request, res: Response): Promise<void> {
+    const { packages } = (req.body || {}) as StorageAuditRequest;
+
+    const taskId = this.createTask();
+
+    this.executeAudit(taskId, packages).catch((error) => {
+      this.updateTask(taskId, {
+        status: 'failed',
+        error: error.message
+      });
+    });
+
+    res.json({
+      success: true,
+      taskId,
+      auditId: taskId,
+      message: 'Storage audit task started'
+    });
+  }
+
+  /**
+   * 执行存储审计任务，报告作为任务结果保存，修复时通过 auditId（即任务 ID）引用
+   */
+  private async executeAudit(taskId: string, packages: string[] | undefined): Promise<StorageAuditReport> {
+    this.updateTask(taskId, { status: 'running', progress: 0, message: 'Auditing storage...' });
+
+    try {
+      const report = await this.auditor.audit(taskId, packages, (processed, total, packageName) => {
+        this.updateTask(taskId, {
+          progress: Math.round((processed / Math.max(1, total)) * 100),
+          message: `Auditing ${packageName} (${processed}/${total})`
+        });
+      });
+
+      this.updateTask(taskId, {
+        status: 'completed',
+        progress: 100,
+        message: `Audit completed: ${report.total} issues in ${report.scannedPackages} packages`,
+        result: report
+      });
+
+      return report;
+    } catch (error: any) {
+      this.updateTask(taskId, {
+        status: 'failed',
+        error: error.message
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 处理存储修复请求（对审计报告中某一类别的问题执行修复操作）
+   */
+  private async handleAuditRepair(req: Request, res: Response): Promise<void> {
+    const { auditId, category, action, items } = (req.body || {}) as StorageRepairRequest;
+
+    const report = this.tasks.get(auditId)?.result as StorageAuditReport | undefined;
+    if (!report || report.auditId !== auditId) {
+      res.status(404).json({ success: false, error: 'Audit report not found' });
+      return;
+    }
+    if (!report.actions[category]?.includes(action)) {
+      res.status(400).json({
+        success: false,
+        error: `Action "${action}" is not available for category "${category}"`
+      });
+      return;
+    }
+
+    const selected = items && items.length > 0 ? new Set(items) : null;
+    const issues = report.issues[category].filter(
+      (issue) => !selected || selected.has(`${issue.name}@${issue.version}`)
+    );
+    if (issues.length === 0) {
+      res.status(400).json({ success: false, error: 'No matching issues to repair' });
+      return;
+    }
+
+    const taskId = this.createTask();
+
+    this.executeAuditRepair(taskId, report, issues, action).catch((error) => {
+      this.updateTask(taskId, {
+        status: 'failed',
+        error: error.message
+      });
+    });
+
+    res.json({
+      success: true,
+      taskId,
+      message: `Repairing ${issues.length} issues`
+    });
+  }
+
+  /**
+   * 执行存储修复任务，修复成功的问题从审计报告中移除
+   */
+  private async executeAuditRepair(
+    taskId: string,
+    report: StorageAuditReport,
+    issues: StorageIssue[],
+    action: StorageRepairRequest['action']
+  ): Promise<StorageRepairResult> {
+    const category = issues[0].category;
+    const result: StorageRepairResult = { auditId: report.auditId, category, action, repaired: [], failed: [] };
+    this.updateTask(taskId, { status: 'running', progress: 0, message: `Running ${action}...` });
+
+    try {
+      // 同一个包的问题一起处理（元数据只读写一次）
+      const byPackage = new Map<string, StorageIssue[]>();
+      for (const issue of issues) {
+        byPackage.set(issue.name, [...(byPackage.get(issue.name) || []), issue]);
+      }
+
+      const limit = pLimit(this.getConcurrency());
+      let completed = 0;
+      await Promise.all(
+        Array.from(byPackage.entries()).map(([name, packageIssues]) =>
+          limit(async () => {
+            const repaired = await this.repairPackage(name, packageIssues, action, result);
+            result.repaired.push(...repaired.map((issue) => `${issue.name}@${issue.version}`));
+            const done = new Set(repaired);
+            report.issues[category] = report.issues[category].filter((issue) => !done.has(issue));
+
+            completed += packageIssues.length;
+            this.updateTask(taskId, {
+              progress: Math.round((completed / issues.length) * 100),
+              message: `Running ${action} (${completed}/${issues.length})`
+            });
+          })
+        )
+      );
+      report.total = countIssues(report.issues);
+
+      // 重新下载后以上游元数据为准，其余操作只需刷新索引
+      const names = Array.from(byPackage.keys());
+      if (action === 'redownload') {
+        await this.savePackumentsForPackages(names);
+      } else {
+        await this.refreshIndexes(names);
+      }
+
+      this.updateTask(taskId, {
+        status: 'completed',
+        progress: 100,
+        message: `${action}: ${result.repaired.length} repaired, ${result.failed.length} failed`,
+        result
+      });
+
+      return result;
+    } catch (error: any) {
+      this.updateTask(taskId, {
+        status: 'failed',
+        error: error.message
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 修复单个包的问题，返回修复成功的问题（失败的记录到 result.failed）
+   */
+  private async repairPackage(
+    name: string,
+    issues: StorageIssue[],
+    action: StorageRepairRequest['action'],
+    result: StorageRepairResult
+  ): Promise<StorageIssue[]> {
+    const repaired: StorageIssue[] = [];
+    const fail = (issue: StorageIssue, error: any) => {
+      result.failed.push({ item: `${issue.name}@${issue.version}`, error: error.message });
+    };
+
+    if (action === 'reheal') {
+      try {
+        const healed = new Set(await this.rehealVersions(name, issues.map((issue) => issue.version)));
+        for (const issue of issues) {
+          if (healed.has(issue.version)) {
+            repaired.push(issue);
+          } else {
+            fail(issue, new Error('Could not extract metadata from tarball'));
+          }
+        }
+      } catch (error: any) {
+        issues.forEach((issue) => fail(issue, error));
+      }
+      return repaired;
+    }
+
+    if (action === 'drop-version') {
+      try {
+        for (const issue of issues) {
+          if (issue.category !== 'missing-tarball' && issue.filename) {
+            await this.auditor.quarantine(name, issue.filename);
+          }
+        }
+        await this.auditor.dropVersions(name, issues.map((issue) => issue.version));
+        repaired.push(...issues);
+      } catch (error: any) {
+        issues.forEach((issue) => fail(issue, error));
+      }
+      return repaired;
+    }
+
+    for (const issue of issues) {
+      try {
+        if (action === 'quarantine') {
+          await this.auditor.quarantine(name, issue.filename!);
+        } else {
+          const download = await this.downloader.downloadPackage(name, issue.version);
+          // 文件名不规范的旧文件不会被覆盖，下载成功后隔离
+          if (issue.filename && issue.filename !== download.tarballName && issue.category !== 'missing-tarball') {
+            await this.auditor.quarantine(name, issue.filename);
+          }
+        }
+        repaired.push(issue);
+      } catch (error: any) {
+        this.logger.warn(
+          { name, version: issue.version, action, error: error.message },
+          'Failed to @{action} @{name}@@{version}: @{error}'
+        );
+        fail(issue, error);
+      }
+    }
+    return repaired;
+  }
+
+  /**
+   * 按本地 tarball 重新生成版本元数据（元数据不存在时创建），返回成功的版本
+   */
+  private async rehealVersions(name: string, versions: string[]): Promise<string[]> {
+    const packument: any = (await this.scanner.readPackument(name)) || {
+      name,
+      versions: {},
+      'dist-tags': {},
+      _attachments: {},
+      time: {}
+    };
+    packument.versions = packument.versions || {};
+
+    const healed: string[] = [];
+    for (const version of versions) {
+      const versionMeta = await this.scanner.extractVersionFromTarball(name, version);
+      if (versionMeta) {
+        packument.versions[version] = versionMeta;
+        healed.push(version);
+      }
+    }
+    if (healed.length === 0) {
+      return healed;
+    }
+
+    packument['dist-tags'] = packument['dist-tags'] || {};
+    if (!packument.versions[packument['dist-tags'].latest]) {
+      const latest = this.findLatestVersion(Object.keys(packument.versions));
+      if (latest) {
+        packument['dist-tags'].latest = latest;
+      }
+    }
+    packument.time = packument.time || {};
+    packument.time.modified = new Date().toISOString();
+
+    await this.downloader.savePackument(name, packument);
+    return healed;
+  }
+
+  /**
+   * 处理本地包搜索（参数与返回格式与 npm /-/v1/search 一致）
+   */
+  private async handleSearch(req: Request, res: Response): Promise<void> {
+    try {
+      res.json(await this.searchIndex.search(parseSearchQuery(req.query)));
+    } catch (error: any) {
+      this.logger.error({ error: error.message }, 'Search failed: @{error}');
+      res.status(500).json({ success: false, error: error.message });
+    }
+  }
+
   private findLatestVersion(versions: string[]): string | undefined {
     const validVersions = versions.filter((version) => semver.valid(version));
     if (validVersions.length === 0) {
@@ -1159,21 +2549,26 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
    * 处理导出预览请求
    */
   private async handleExportPreview(req: Request, res: Response): Promise<void> {
-    const { since, includeMetadata = true } = req.body as ExportPreviewRequest;
+    const { since, inventory, includeMetadata = true } = req.body as ExportPreviewRequest;
+
+    if (inventory && !isStorageInventory(inventory)) {
+      res.status(400).json({ success: false, error: 'Invalid storage inventory' });
+      return;
+    }
 
     try {
       let baseTimestamp: Date | undefined;
 
-      if (since === 'last') {
+      // 按清单导出时忽略 since
+      if (!inventory && since === 'last') {
         baseTimestamp = await this.diffScanner.getLastExportTimestamp() || undefined;
-      } else if (since) {
+      } else if (!inventory && since) {
         baseTimestamp = new Date(since);
       }
 
-      const files = await this.diffScanner.scanModifiedFiles({
-        since: baseTimestamp,
-        includeMetadata
-      });
+      const files = inventory
+        ? await this.diffScanner.scanAgainstInventory(inventory, { includeMetadata })
+        : await this.diffScanner.scanModifiedFiles({ since: baseTimestamp, includeMetadata });
 
       const stats = this.diffScanner.calculateStats(files);
       const entries = this.diffScanner.scannedFilesToEntries(files);
@@ -1181,6 +2576,7 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
       res.json({
         success: true,
         baseTimestamp: baseTimestamp?.toISOString(),
+        baseInventory: inventory?.generatedAt,
         files: entries,
         stats
       });
@@ -1194,14 +2590,43 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
    * 处理创建导出包请求
    */
   private async handleExportCreate(req: Request, res: Response): Promise<void> {
-    const { since, includeMetadata = true, filenamePrefix } = req.body as ExportCreateRequest;
+    const { since, inventory, includeMetadata = true, filenamePrefix, maxVolumeSize, encryption } = req.body as ExportCreateRequest;
+
+    if (inventory && !isStorageInventory(inventory)) {
+      res.status(400).json({ success: false, error: 'Invalid storage inventory' });
+      return;
+    }
+    if (maxVolumeSize !== undefined && (!Number.isFinite(maxVolumeSize) || maxVolumeSize < MIN_VOLUME_SIZE)) {
+      res.status(400).json({ success: false, error: `maxVolumeSize must be at least ${MIN_VOLUME_SIZE} bytes` });
+      return;
+    }
+    if (encryption) {
+      const { passphrase, recipientKey } = encryption;
+      if (!passphrase && !recipientKey) {
+        res.status(400).json({ success: false, error: 'Encryption requires a passphrase or a recipient key' });
+        return;
+      }
+      if (passphrase !== undefined && (typeof passphrase !== 'string' || passphrase.length < MIN_PASSPHRASE_LENGTH)) {
+        res.status(400).json({ success: false, error: `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters` });
+        return;
+      }
+      if (recipientKey) {
+        try {
+          parseRecipientKey(recipientKey);
+        } catch (error: any) {
+          res.status(400).json({ success: false, error: error.message });
+          return;
+        }
+      }
+    }
 
     try {
       let baseTimestamp: Date | undefined;
 
-      if (since === 'last') {
+      // 按清单导出时忽略 since
+      if (!inventory && since === 'last') {
         baseTimestamp = await this.diffScanner.getLastExportTimestamp() || undefined;
-      } else if (since) {
+      } else if (!inventory && since) {
         baseTimestamp = new Date(since);
       }
 
@@ -1212,8 +2637,14 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
       // 异步执行导出
       this.executeExport(taskId, exportId, {
         baseTimestamp,
+        inventory,
         includeMetadata,
-        filenamePrefix
+        filenamePrefix,
+        maxVolumeSize,
+        encryption: encryption && {
+          passphrase: encryption.passphrase || undefined,
+          recipientKey: encryption.recipientKey || undefined
+        }
       }).catch((error) => {
         this.updateTask(taskId, {
           status: 'failed',
@@ -1241,11 +2672,15 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
     exportId: string,
     options: {
       baseTimestamp?: Date;
+      inventory?: StorageInventory;
       includeMetadata?: boolean;
       filenamePrefix?: string;
+      maxVolumeSize?: number;
+      /** 口令只在任务执行期间保存在内存中 */
+      encryption?: ExportEncryptionOptions;
     }
   ): Promise<void> {
-    const { baseTimestamp, includeMetadata = true, filenamePrefix } = options;
+    const { baseTimestamp, inventory, includeMetadata = true, filenamePrefix, maxVolumeSize, encryption } = options;
 
     this.updateTask(taskId, { status: 'running', progress: 0 });
 
@@ -1264,10 +2699,9 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
         }
       });
 
-      const files = await this.diffScanner.scanModifiedFiles({
-        since: baseTimestamp,
-        includeMetadata
-      });
+      const files = inventory
+        ? await this.diffScanner.scanAgainstInventory(inventory, { includeMetadata })
+        : await this.diffScanner.scanModifiedFiles({ since: baseTimestamp, includeMetadata });
 
       if (files.length === 0) {
         this.updateTask(taskId, {
@@ -1292,8 +2726,11 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
       const result = await this.diffPacker.createExportPackage(files, {
         exportId,
         baseTimestamp,
+        baseInventory: inventory?.generatedAt,
         outputDir,
         filenamePrefix,
+        maxVolumeSize,
+        encryption,
         onProgress: (progress: ExportProgress) => {
           this.updateTask(taskId, {
             progress: progress.totalProgress,
@@ -1303,32 +2740,46 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
         }
       });
 
-      // 保存导出记录
-      const record = this.diffPacker.createExportRecord(
-        exportId,
-        result.filename,
-        result.checksum,
-        result.manifest
-      );
-      await this.diffScanner.addExportRecord(record);
+      // 保存导出记录（每个分卷一条，共用 exportId）
+      for (const volume of result.volumes) {
+        const record = this.diffPacker.createExportRecord(
+          exportId,
+          volume.filename,
+          volume.checksum,
+          volume.manifest,
+          volume.signedBy,
+          volume.encryptedFor
+        );
+        await this.diffScanner.addExportRecord(record);
+      }
+
+      const volumes: ExportVolumeInfo[] = result.volumes.map((volume, i) => ({
+        index: i + 1,
+        filename: volume.filename,
+        downloadUrl: `/_/ingest/export/download/${exportId}` + (result.volumes.length > 1 ? `?volume=${i + 1}` : ''),
+        fileSize: volume.size
+      }));
 
       // 完成
       this.updateTask(taskId, {
         status: 'completed',
         progress: 100,
-        message: `导出完成: ${result.filename}`,
+        message: volumes.length > 1
+          ? `导出完成: ${volumes.length} 个分卷`
+          : `导出完成: ${volumes[0].filename}`,
         result: {
           exportId,
-          filename: result.filename,
-          downloadUrl: `/_/ingest/export/download/${exportId}`,
-          fileSize: result.size,
-          stats: result.manifest.stats
+          filename: volumes[0].filename,
+          downloadUrl: volumes[0].downloadUrl,
+          fileSize: volumes.reduce((sum, volume) => sum + volume.fileSize, 0),
+          stats: result.manifest.stats,
+          volumes: volumes.length > 1 ? volumes : undefined
         }
       });
 
       this.logger.info(
-        { exportId, filename: result.filename, files: files.length },
-        'Export completed: @{filename} with @{files} files'
+        { exportId, volumes: volumes.length, files: files.length },
+        'Export completed: @{exportId} with @{files} files in @{volumes} volume(s)'
       );
     } catch (error: any) {
       this.updateTask(taskId, {
@@ -1344,10 +2795,12 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
    */
   private async handleExportDownload(req: Request, res: Response): Promise<void> {
     const { exportId } = req.params;
+    // 分卷导出通过 ?volume=<序号> 下载各分卷，默认第一个
+    const volume = Number(req.query.volume) || 1;
 
     try {
       const history = await this.diffScanner.readExportHistory();
-      const record = history.exports.find(e => e.exportId === exportId);
+      const record = history.exports.find(e => e.exportId === exportId && (e.volumeIndex || 1) === volume);
 
       if (!record) {
         res.status(404).json({ success: false, error: 'Export not found' });
@@ -1367,7 +2820,7 @@ export default class IngestMiddleware extends pluginUtils.Plugin<IngestConfig> {
       }
 
       // 设置响应头
-      res.setHeader('Content-Type', 'application/gzip');
+      res.setHeader('Content-Type', record.encryptedFor ? 'application/octet-stream' : 'application/gzip');
       res.setHeader('Content-Disposition', `attachment; filename="${record.filename}"`);
 
       // 流式发送文件
@@ -0,0 +1,749 @@
+import path from 'path';
+import semver from 'semver';
+import { Logger } from '@verdaccio/types';
+import { classifyDependencySpec, isRegistrySpec } from './dependency-spec';
+import { matchesPlatformFields } from './platform-matcher';
+import {
+  LockfileType,
+  LockedPackage,
+  OverrideCheck,
+  OverrideRule,
+  ParsedLockfile,
+  PlatformConfig,
+  UnresolvedDependency
+} from './types';
+
+/**
+ * 锁文件解析器
+ * 支持 package-lock.json (v1/v2/v3)、yarn.lock (classic / berry) 与 pnpm-lock.yaml，
+ * 提取锁定的精确版本，并报告 overrides / resolutions 覆盖规则与锁定版本的差异
+ */
+export class LockfileParser {
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  /**
+   * 解析锁文件内容
+   */
+  parse(content: string, filename?: string): ParsedLockfile {
+    const type = this.detectType(content, filename);
+    let parsed: ParsedLockfile;
+
+    switch (type) {
+      case 'package-lock':
+        parsed = this.parsePackageLock(content);
+        break;
+      case 'yarn-classic':
+        parsed = this.parseYarnClassic(content);
+        break;
+      case 'yarn-berry':
+        parsed = this.parseYarnBerry(content);
+        break;
+      case 'pnpm':
+        parsed = this.parsePnpmLock(content);
+        break;
+    }
+
+    this.logger.info(
+      { type, version: parsed.lockfileVersion, count: parsed.packages.length, skipped: parsed.skipped.length },
+      'Parsed @{type} lockfile (v@{version}): @{count} packages, @{skipped} skipped'
+    );
+
+    return parsed;
+  }
+
+  /**
+   * 识别锁文件格式
+   */
+  detectType(content: string, filename?: string): LockfileType {
+    const baseName = filename ? path.basename(filename) : '';
+
+    if (baseName === 'package-lock.json' || baseName === 'npm-shrinkwrap.json') {
+      return 'package-lock';
+    }
+    if (baseName === 'pnpm-lock.yaml') {
+      return 'pnpm';
+    }
+    if (baseName === 'yarn.lock') {
+      return /^__metadata:/m.test(content) ? 'yarn-berry' : 'yarn-classic';
+    }
+
+    if (content.trimStart().startsWith('{')) {
+      return 'package-lock';
+    }
+    if (/^__metadata:/m.test(content)) {
+      return 'yarn-berry';
+    }
+    if (/^lockfileVersion:/m.test(content)) {
+      return 'pnpm';
+    }
+    if (/^# yarn lockfile v1/m.test(content) || /^"?[^\s#"][^\n]*@[^\n]*:\s*$/m.test(content)) {
+      return 'yarn-classic';
+    }
+
+    throw new Error('Unsupported lockfile format');
+  }
+
+  /**
+   * 从 package.json 中收集覆盖规则
+   * npm overrides（支持嵌套与 $ 引用）、yarn resolutions、pnpm.overrides；保留规则的父包路径
+   */
+  collectOverrides(packageJson?: string | Record<string, any>): OverrideRule[] {
+    if (!packageJson) {
+      return [];
+    }
+
+    const pkg = typeof packageJson === 'string' ? JSON.parse(packageJson) : packageJson;
+    const directDeps: Record<string, string> = {
+      ...pkg.optionalDependencies,
+      ...pkg.peerDependencies,
+      ...pkg.devDependencies,
+      ...pkg.dependencies
+    };
+    const rules: OverrideRule[] = [];
+
+    this.flattenNpmOverrides(pkg.overrides, directDeps, rules, []);
+    rules.push(...this.parseOverrideRules(pkg.resolutions), ...this.parseOverrideRules(pkg.pnpm?.overrides));
+
+    return rules;
+  }
+
+  /**
+   * 解析 "键 -> 目标版本" 形式的覆盖规则
+   * 支持 pnpm 的 "parent>child"、"parent@1>child" 与 yarn 的 "parent/child"、"**\/child" 路径形式
+   */
+  parseOverrideRules(overrides?: Record<string, any>): OverrideRule[] {
+    const rules: OverrideRule[] = [];
+    for (const [key, target] of Object.entries<any>(overrides || {})) {
+      if (typeof target !== 'string') continue;
+      const path = this.splitOverridePath(key);
+      const { name, range } = this.splitDescriptor(path[path.length - 1]);
+      rules.push({ key, parents: path.slice(0, -1), name, selector: range || undefined, target });
+    }
+    return rules;
+  }
+
+  /**
+   * 检查锁定版本是否符合覆盖规则（只用于报告）
+   *
+   * 锁文件是包管理器应用覆盖规则后的结果，离线安装（npm ci / pnpm install --frozen-lockfile）
+   * 只会安装锁定的版本，因此不能在这里改写版本。只有全局规则可以直接与锁定版本比对，
+   * 带父包路径的规则只作用于部分依赖路径，记录为 scoped
+   */
+  checkOverrides(packages: LockedPackage[], rules: OverrideRule[]): OverrideCheck[] {
+    return rules.map((rule) => {
+      const locked = packages
+        .filter((pkg) => pkg.name === rule.name && (!rule.selector || semver.satisfies(pkg.version, rule.selector)))
+        .map((pkg) => pkg.version);
+      const check: OverrideCheck = {
+        key: rule.key,
+        target: rule.target,
+        scoped: rule.parents.length > 0,
+        locked,
+        mismatched: []
+      };
+
+      // 别名、移除（"-"）与 git / file 等目标无法与锁定版本比对
+      if (!check.scoped && semver.validRange(rule.target)) {
+        check.mismatched = locked.filter((version) => !semver.satisfies(version, rule.target));
+      }
+      return check;
+    });
+  }
+
+  /**
+   * 按目标平台过滤带 os/cpu/libc 限制的包
+   */
+  filterByPlatforms(packages: LockedPackage[], platforms?: PlatformConfig[]): LockedPackage[] {
+    if (!platforms || platforms.length === 0) {
+      return packages;
+    }
+
+    return packages.filter((pkg) =>
+      platforms.some((platform) => matchesPlatformFields(pkg, platform))
+    );
+  }
+
+  /**
+   * 解析 package-lock.json / npm-shrinkwrap.json
+   */
+  private parsePackageLock(content: string): ParsedLockfile {
+    const lock = JSON.parse(content);
+    const packages: LockedPackage[] = [];
+    const skipped: UnresolvedDependency[] = [];
+
+    if (lock.packages && typeof lock.packages === 'object') {
+      // v2 / v3：扁平的 packages 字段，键为安装路径
+      for (const [location, entry] of Object.entries<any>(lock.packages)) {
+        // 根项目与工作区目录本身不需要下载
+        if (!location.includes('node_modules/')) continue;
+        // 工作区链接和内置（bundled）依赖不单独下载
+        if (entry.link || entry.inBundle) continue;
+
+        const name =
+          entry.name || location.slice(location.lastIndexOf('node_modules/') + 'node_modules/'.length);
+        this.addLocked(
+          packages,
+          skipped,
+          {
+            name,
+            version: entry.version,
+            dev: entry.dev || entry.devOptional,
+            optional: entry.optional,
+            os: entry.os,
+            cpu: entry.cpu,
+            libc: entry.libc
+          },
+          entry.resolved
+        );
+      }
+    } else if (lock.dependencies) {
+      // v1：嵌套的 dependencies 字段
+      this.walkPackageLockV1(lock.dependencies, packages, skipped);
+    }
+
+    return {
+      type: 'package-lock',
+      lockfileVersion: String(lock.lockfileVersion ?? 1),
+      packages: this.deduplicate(packages),
+      overrides: {},
+      skipped
+    };
+  }
+
+  /**
+   * 递归遍历 package-lock v1 的 dependencies
+   */
+  private walkPackageLockV1(
+    dependencies: Record<string, any>,
+    packages: LockedPackage[],
+    skipped: UnresolvedDependency[]
+  ): void {
+    for (const [key, entry] of Object.entries<any>(dependencies)) {
+      if (!entry || entry.bundled) continue;
+
+      let name = key;
+      let version = String(entry.version || '');
+      // npm 别名: "npm:real-name@1.2.3"
+      if (version.startsWith('npm:')) {
+        const alias = this.splitDescriptor(version.slice(4));
+        name = alias.name;
+        version = alias.range;
+      }
+
+      this.addLocked(
+        packages,
+        skipped,
+        { name, version, dev: entry.dev, optional: entry.optional },
+        entry.resolved
+      );
+
+      if (entry.dependencies) {
+        this.walkPackageLockV1(entry.dependencies, packages, skipped);
+      }
+    }
+  }
+
+  /**
+   * 解析 yarn classic (v1) 的 yarn.lock
+   */
+  private parseYarnClassic(content: string): ParsedLockfile {
+    const entries: Array<{ descriptors: string[]; version?: string; resolved?: string }> = [];
+    let current: (typeof entries)[number] | null = null;
+
+    for (const raw of content.split(/\r?\n/)) {
+      const text = raw.trim();
+      if (!text || text.startsWith('#')) continue;
+
+      const indent = raw.length - raw.trimStart().length;
+      if (indent === 0 && text.endsWith(':')) {
+        current = {
+          descriptors: text
+            .slice(0, -1)
+            .split(/,\s*/)
+            .map((descriptor) => descriptor.trim().replace(/^"|"$/g, ''))
+        };
+        entries.push(current);
+        continue;
+      }
+
+      if (!current || indent !== 2) continue;
+
+      const match = text.match(/^(\S+)\s+(.+)$/);
+      if (!match) continue;
+      const value = match[2].replace(/^"|"$/g, '');
+      if (match[1] === 'version') current.version = value;
+      if (match[1] === 'resolved') current.resolved = value;
+    }
+
+    const packages: LockedPackage[] = [];
+    const skipped: UnresolvedDependency[] = [];
+
+    for (const entry of entries) {
+      const { name, range } = this.splitDescriptor(entry.descriptors[0]);
+      const spec = classifyDependencySpec(name, range);
+      if (!isRegistrySpec(spec)) {
+        skipped.push(this.toUnresolved(name, range));
+        continue;
+      }
+
+      this.addLocked(
+        packages,
+        skipped,
+        { name: spec.name, version: entry.version || '' },
+        entry.resolved
+      );
+    }
+
+    return {
+      type: 'yarn-classic',
+      lockfileVersion: '1',
+      packages: this.deduplicate(packages),
+      overrides: {},
+      skipped
+    };
+  }
+
+  /**
+   * 解析 yarn berry (v2+) 的 yarn.lock
+   */
+  private parseYarnBerry(content: string): ParsedLockfile {
+    const lock = parseYamlSubset(content) || {};
+    const packages: LockedPackage[] = [];
+    const skipped: UnresolvedDependency[] = [];
+
+    for (const [descriptors, entry] of Object.entries<any>(lock)) {
+      if (descriptors === '__metadata' || !entry) continue;
+
+      const resolution = String(entry.resolution || '');
+      const locked = this.parseBerryResolution(resolution);
+      if (!locked) {
+        const { name, range } = this.splitDescriptor(resolution || descriptors.split(',')[0].trim());
+        skipped.push(this.toUnresolved(name, range));
+        continue;
+      }
+
+      // yarn 4 使用 conditions 字段描述平台限制，例如 "os=darwin & cpu=arm64"
+      const conditions = String(entry.conditions || '');
+      const fieldsOf = (field: string): string[] | undefined => {
+        const values = Array.from(conditions.matchAll(new RegExp(`${field}=([\\w-]+)`, 'g'))).map(
+          (m) => m[1]
+        );
+        return values.length > 0 ? values : undefined;
+      };
+
+      this.addLocked(packages, skipped, {
+        ...locked,
+        os: fieldsOf('os'),
+        cpu: fieldsOf('cpu'),
+        libc: fieldsOf('libc')
+      });
+    }
+
+    return {
+      type: 'yarn-berry',
+      lockfileVersion: String(lock.__metadata?.version ?? ''),
+      packages: this.deduplicate(packages),
+      overrides: {},
+      skipped
+    };
+  }
+
+  /**
+   * 解析 yarn berry 的 resolution 字段
+   * 支持 "name@npm:1.2.3" 与 "name@patch:name@npm%3A1.2.3#..."
+   */
+  private parseBerryResolution(resolution: string): { name: string; version: string } | null {
+    const patch = resolution.match(/^((?:@[^/]+\/)?[^@]+)@patch:.*?@npm%3A([^#:&]+)/);
+    if (patch) {
+      return { name: patch[1], version: decodeURIComponent(patch[2]) };
+    }
+
+    const npm = resolution.match(/^((?:@[^/]+\/)?[^@]+)@npm:(.+)$/);
+    if (npm) {
+      return { name: npm[1], version: npm[2] };
+    }
+
+    return null;
+  }
+
+  /**
+   * 解析 pnpm-lock.yaml（v5 / v6 / v9）
+   */
+  private parsePnpmLock(content: string): ParsedLockfile {
+    const lock = parseYamlSubset(content) || {};
+    const lockfileVersion = String(lock.lockfileVersion ?? '');
+    const major = parseFloat(lockfileVersion) || 0;
+    const packages: LockedPackage[] = [];
+    const skipped: UnresolvedDependency[] = [];
+
+    for (const [key, value] of Object.entries<any>(lock.packages || {})) {
+      const entry = value || {};
+      const resolution = entry.resolution || {};
+
+      const parsedKey = this.parsePnpmKey(key, major);
+
+      // git / 本地目录等非 registry 解析
+      if (resolution.repo || resolution.directory || resolution.type) {
+        const spec = resolution.repo || (resolution.directory ? `file:${resolution.directory}` : key);
+        skipped.push(this.toUnresolved(entry.name || parsedKey.name, spec));
+        continue;
+      }
+
+      this.addLocked(
+        packages,
+        skipped,
+        {
+          name: entry.name || parsedKey.name,
+          version: String(entry.version || parsedKey.version),
+          dev: entry.dev,
+          optional: entry.optional,
+          os: this.toList(entry.os),
+          cpu: this.toList(entry.cpu),
+          libc: this.toList(entry.libc)
+        },
+        resolution.tarball
+      );
+    }
+
+    const overrides: Record<string, string> = {};
+    for (const [key, value] of Object.entries<any>(lock.overrides || {})) {
+      if (typeof value === 'string') {
+        overrides[key] = value;
+      }
+    }
+
+    return {
+      type: 'pnpm',
+      lockfileVersion,
+      packages: this.deduplicate(packages),
+      overrides,
+      skipped
+    };
+  }
+
+  /**
+   * 解析 pnpm packages 键
+   * v5: /name/1.2.3_peer  v6: /name@1.2.3(peer)  v9: name@1.2.3
+   */
+  private parsePnpmKey(key: string, major: number): { name: string; version: string } {
+    const spec = (key.startsWith('/') ? key.slice(1) : key).replace(/\(.*$/, '');
+
+    if (major > 0 && major < 6) {
+      const segments = spec.split('/');
+      const scoped = segments[0].startsWith('@');
+      const name = scoped ? `${segments[0]}/${segments[1]}` : segments[0];
+      const versionPart = segments[scoped ? 2 : 1] || '';
+      return { name, version: versionPart.split('_')[0] };
+    }
+
+    const { name, range } = this.splitDescriptor(spec);
+    return { name, version: range };
+  }
+
+  /**
+   * 校验并加入锁定包列表
+   */
+  private addLocked(
+    packages: LockedPackage[],
+    skipped: UnresolvedDependency[],
+    pkg: LockedPackage,
+    resolved?: string
+  ): void {
+    if (!this.isRegistryResolved(resolved)) {
+      skipped.push(this.toUnresolved(pkg.name, resolved!));
+      return;
+    }
+    if (!pkg.name || !pkg.version || !semver.valid(pkg.version)) {
+      skipped.push(this.toUnresolved(pkg.name, pkg.version || '', 'Invalid locked version'));
+      return;
+    }
+    packages.push(pkg);
+  }
+
+  /**
+   * 生成跳过条目（来源由调用方补充）
+   */
+  private toUnresolved(name: string, spec: string, error?: string): UnresolvedDependency {
+    return {
+      name,
+      spec,
+      type: classifyDependencySpec(name, spec).type,
+      requiredBy: [],
+      error
+    };
+  }
+
+  /**
+   * resolved 地址是否为 registry tarball
+   */
+  private isRegistryResolved(resolved?: string): boolean {
+    if (!resolved) {
+      return true;
+    }
+    const url = resolved.split('#')[0].split('?')[0];
+    return /^https?:\/\//.test(url) && url.endsWith('.tgz');
+  }
+
+  /**
+   * 拆分 "name@range" 形式的依赖描述（兼容 scoped 包）
+   */
+  private splitDescriptor(descriptor: string): { name: string; range: string } {
+    const atIndex = descriptor.indexOf('@', 1);
+    if (atIndex === -1) {
+      return { name: descriptor, range: '' };
+    }
+    return {
+      name: descriptor.substring(0, atIndex),
+      range: descriptor.substring(atIndex + 1)
+    };
+  }
+
+  /**
+   * 拆分覆盖规则键中的依赖路径
+   * 仅把包名之间的 ">" 视为父子分隔符，避免误拆 "foo@>=1.0.0" 这类范围；
+   * yarn 路径中的 "**" 表示任意层级，scoped 包名的两段合并为一段
+   */
+  private splitOverridePath(key: string): string[] {
+    const path: string[] = [];
+    for (const part of key.split(/(?<![@\s<>=])>(?![=\s\d])/)) {
+      const segments = part.split('/').filter((segment) => segment && segment !== '**');
+      for (let i = 0; i < segments.length; i++) {
+        if (segments[i].startsWith('@') && !segments[i].slice(1).includes('@') && i + 1 < segments.length) {
+          path.push(`${segments[i]}/${segments[++i]}`);
+        } else {
+          path.push(segments[i]);
+        }
+      }
+    }
+    return path.map((segment) => segment.replace(/@npm:/, '@'));
+  }
+
+  /**
+   * 展开 npm overrides（嵌套对象中的 "." 表示父包自身，嵌套规则只作用于父包之下）
+   */
+  private flattenNpmOverrides(
+    overrides: Record<string, any> | undefined,
+    directDeps: Record<string, string>,
+    rules: OverrideRule[],
+    parents: string[]
+  ): void {
+    for (const [key, value] of Object.entries<any>(overrides || {})) {
+      const path = key === '.' ? parents : [...parents, key];
+      if (path.length === 0) continue;
+
+      if (typeof value === 'string') {
+        const { name, range } = this.splitDescriptor(path[path.length - 1]);
+        rules.push({
+          key: path.join('>'),
+          parents: path.slice(0, -1),
+          name,
+          selector: range || undefined,
+          // "$name" 引用根项目中同名依赖的版本
+          target: value.startsWith('$') ? directDeps[value.slice(1)] || value : value
+        });
+      } else if (value && typeof value === 'object') {
+        this.flattenNpmOverrides(value, directDeps, rules, path);
+      }
+    }
+  }
+
+  private toList(value: any): string[] | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    return Array.isArray(value) ? value.map(String) : [String(value)];
+  }
+
+  private deduplicate(packages: LockedPackage[]): LockedPackage[] {
+    const seen = new Set<string>();
+    return packages.filter((pkg) => {
+      const key = `${pkg.name}@${pkg.version}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+}
+
+// ==================== 精简 YAML 解析 ====================
+// 锁文件由工具生成、结构规整，只需支持块映射、块序列、行内 {} / [] 与带引号的标量
+
+interface YamlLine {
+  indent: number;
+  text: string;
+}
+
+function parseYamlSubset(content: string): any {
+  const lines: YamlLine[] = [];
+  for (const raw of content.split(/\r?\n/)) {
+    const text = raw.trim();
+    if (!text || text.startsWith('#')) continue;
+    lines.push({ indent: raw.length - raw.trimStart().length, text });
+  }
+
+  let pos = 0;
+  const isSequenceItem = (line: YamlLine) => line.text === '-' || line.text.startsWith('- ');
+
+  const parseNode = (indent: number): any =>
+    isSequenceItem(lines[pos]) ? parseSequence(indent) : parseMapping(indent);
+
+  const parseSequence = (indent: number): any[] => {
+    const items: any[] = [];
+    while (pos < lines.length && lines[pos].indent === indent && isSequenceItem(lines[pos])) {
+      const rest = lines[pos].text.slice(1).trim();
+      pos++;
+      if (rest) {
+        items.push(parseYamlValue(rest));
+      } else if (pos < lines.length && lines[pos].indent > indent) {
+        items.push(parseNode(lines[pos].indent));
+      } else {
+        items.push(null);
+      }
+    }
+    return items;
+  };
+
+  const parseMapping = (indent: number): Record<string, any> => {
+    const result: Record<string, any> = {};
+    while (pos < lines.length && lines[pos].indent === indent && !isSequenceItem(lines[pos])) {
+      const { key, rest } = splitYamlKey(lines[pos].text);
+      pos++;
+
+      if (rest) {
+        result[key] = parseYamlValue(rest);
+        // 跳过不支持的多行标量续行
+        while (pos < lines.length && lines[pos].indent > indent) pos++;
+        continue;
+      }
+
+      const next = lines[pos];
+      if (next && (next.indent > indent || (next.indent === indent && isSequenceItem(next)))) {
+        result[key] = parseNode(next.indent);
+      } else {
+        result[key] = null;
+      }
+    }
+    return result;
+  };
+
+  return lines.length > 0 ? parseNode(lines[0].indent) : {};
+}
+
+function splitYamlKey(text: string): { key: string; rest: string } {
+  if (text[0] === '"' || text[0] === "'") {
+    const end = findClosingQuote(text, 0);
+    return {
+      key: String(parseYamlScalar(text.slice(0, end + 1))),
+      rest: text.slice(end + 1).replace(/^\s*:/, '').trim()
+    };
+  }
+
+  const separator = text.indexOf(': ');
+  if (separator === -1) {
+    return { key: text.replace(/:$/, ''), rest: '' };
+  }
+  return { key: text.slice(0, separator), rest: text.slice(separator + 2).trim() };
+}
+
+function findClosingQuote(text: string, start: number): number {
+  const quote = text[start];
+  for (let i = start + 1; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') {
+      i++;
+    } else if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") {
+        i++;
+        continue;
+      }
+      return i;
+    }
+  }
+  return text.length - 1;
+}
+
+function parseYamlScalar(raw: string): any {
+  if (raw.startsWith("'") && raw.endsWith("'") && raw.length >= 2) {
+    return raw.slice(1, -1).replace(/''/g, "'");
+  }
+  if (raw.startsWith('"') && raw.endsWith('"') && raw.length >= 2) {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return raw.slice(1, -1);
+    }
+  }
+  if (raw === 'true') return true;
+  if (raw === 'false') return false;
+  if (raw === 'null' || raw === '~') return null;
+  return raw;
+}
+
+function parseYamlValue(raw: string): any {
+  return raw.startsWith('{') || raw.startsWith('[') ? parseYamlFlow(raw) : parseYamlScalar(raw);
+}
+
+function parseYamlFlow(text: string): any {
+  let i = 0;
+  const skipSpaces = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+
+  const readScalar = (terminators: string): any => {
+    skipSpaces();
+    const start = i;
+    if (text[i] === '"' || text[i] === "'") {
+      i = findClosingQuote(text, i) + 1;
+      return parseYamlScalar(text.slice(start, i));
+    }
+    while (i < text.length && !terminators.includes(text[i])) i++;
+    return parseYamlScalar(text.slice(start, i).trim());
+  };
+
+  const readValue = (terminators: string): any => {
+    skipSpaces();
+    if (text[i] === '{') return readMap();
+    if (text[i] === '[') return readSequence();
+    return readScalar(terminators);
+  };
+
+  const readMap = (): Record<string, any> => {
+    const result: Record<string, any> = {};
+    i++;
+    while (i < text.length) {
+      skipSpaces();
+      if (text[i] === '}') {
+        i++;
+        break;
+      }
+      const key = String(readScalar(':}'));
+      skipSpaces();
+      if (text[i] === ':') i++;
+      result[key] = readValue(',}');
+      skipSpaces();
+      if (text[i] === ',') i++;
+    }
+    return result;
+  };
+
+  const readSequence = (): any[] => {
+    const items: any[] = [];
+    i++;
+    while (i < text.length) {
+      skipSpaces();
+      if (text[i] === ']') {
+        i++;
+        break;
+      }
+      items.push(readValue(',]'));
+      skipSpaces();
+      if (text[i] === ',') i++;
+    }
+    return items;
+  };
+
+  return readValue('');
+}
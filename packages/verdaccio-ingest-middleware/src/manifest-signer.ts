@@ -0,0 +1,129 @@
+import { spawn } from 'child_process';
+import { createPrivateKey, createPublicKey, KeyObject, sign } from 'crypto';
+import { readFile } from 'fs/promises';
+import { Logger } from '@verdaccio/types';
+import { MANIFEST_OPENPGP_SIGNATURE_FILE, MANIFEST_SIGNATURE_FILE, getKeyFingerprint } from 'verdaccio-offline-common';
+import { ExportSigningConfig, ManifestSignature } from './types';
+
+/**
+ * 签名结果（写入导出包的文件）
+ */
+export interface SignatureFile {
+  filename: string;
+  content: Buffer;
+  signedBy: string;
+}
+
+/**
+ * 导出清单签名器
+ *
+ * 使用配置的 Ed25519 私钥对清单的原始字节签名，生成 .export-manifest.sig；
+ * 配置 openpgpKey 时另外调用 gpg 生成 ASCII armor 格式的分离签名 .export-manifest.json.asc
+ */
+export class ManifestSigner {
+  private config: ExportSigningConfig;
+  private logger: Logger;
+  private key: Promise<{ privateKey: KeyObject; fingerprint: string }> | null = null;
+
+  constructor(config: ExportSigningConfig, logger: Logger) {
+    this.config = config;
+    this.logger = logger;
+  }
+
+  /**
+   * 对清单签名，返回需要写入导出包的签名文件
+   */
+  async sign(manifest: Buffer): Promise<SignatureFile[]> {
+    const files: SignatureFile[] = [];
+
+    if (this.config.privateKey) {
+      const { privateKey, fingerprint } = await this.loadKey();
+      const keyId = this.config.keyId || fingerprint;
+      const signature: ManifestSignature = {
+        format: 1,
+        algorithm: 'ed25519',
+        keyId,
+        fingerprint,
+        signedAt: new Date().toISOString(),
+        signature: sign(null, manifest, privateKey).toString('base64')
+      };
+      files.push({
+        filename: MANIFEST_SIGNATURE_FILE,
+        content: Buffer.from(JSON.stringify(signature, null, 2)),
+        signedBy: keyId
+      });
+    }
+
+    if (this.config.openpgpKey) {
+      const args = ['--batch', '--yes', '--armor', '--local-user', this.config.openpgpKey, '--output', '-', '--detach-sign'];
+      if (this.config.gpgHome) {
+        args.unshift('--homedir', this.config.gpgHome);
+      }
+      files.push({
+        filename: MANIFEST_OPENPGP_SIGNATURE_FILE,
+        content: await runGpg(args, manifest),
+        signedBy: `openpgp:${this.config.openpgpKey}`
+      });
+    }
+
+    return files;
+  }
+
+  /**
+   * 读取并缓存 Ed25519 私钥
+   */
+  private loadKey(): Promise<{ privateKey: KeyObject; fingerprint: string }> {
+    if (!this.key) {
+      this.key = (async () => {
+        const source = this.config.privateKey!;
+        const pem = source.includes('-----BEGIN') ? source : await readFile(source, 'utf-8');
+        const privateKey = createPrivateKey(pem);
+        if (privateKey.asymmetricKeyType !== 'ed25519') {
+          throw new Error(`Export signing key must be an Ed25519 key, got ${privateKey.asymmetricKeyType}`);
+        }
+
+        const fingerprint = getKeyFingerprint(createPublicKey(privateKey));
+        this.logger.info(
+          { keyId: this.config.keyId || fingerprint },
+          'Loaded export signing key @{keyId}'
+        );
+        return { privateKey, fingerprint };
+      })();
+      // 读取失败时下次导出重新读取
+      this.key.catch(() => {
+        this.key = null;
+      });
+    }
+    return this.key;
+  }
+}
+
+/**
+ * 运行 gpg，将 input 写入标准输入，返回标准输出
+ */
+function runGpg(args: string[], input: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const gpg = spawn('gpg', args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    gpg.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    gpg.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+    gpg.on('error', (error: any) => {
+      reject(error.code === 'ENOENT' ? new Error('gpg not found, required for OpenPGP signatures') : error);
+    });
+    gpg.on('close', (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        const message = Buffer.concat(stderr).toString().trim().split('\n').pop();
+        reject(new Error(`gpg exited with code ${code}: ${message}`));
+      }
+    });
+
+    gpg.stdin.on('error', () => {
+      // gpg 提前退出时由 close 事件报告
+    });
+    gpg.stdin.end(input);
+  });
+}
@@ -0,0 +1,190 @@
+import semver from 'semver';
+import { Logger } from '@verdaccio/types';
+import { createArtifactTarget } from './binary-artifacts';
+import { createRegistryError, registryRequest } from './registry-client';
+import { RegistryRouter } from './registry-router';
+import { ArtifactFile, IngestConfig, PlatformConfig } from './types';
+
+const DEFAULT_BASE_URL = 'https://nodejs.org/dist/';
+
+// 镜像目录：/_/artifacts/node/ 与 nodejs.org/dist 结构一致
+export const NODE_DIST_MIRROR = 'node';
+
+// Windows 上 node-gyp 链接所需的 node.lib 目录
+const WIN_LIB_DIRS: Record<string, string> = {
+  x64: 'win-x64',
+  ia32: 'win-x86',
+  arm64: 'win-arm64'
+};
+
+// 完整发行包使用的架构名称
+const LINUX_ARCH: Record<string, string> = {
+  x64: 'x64',
+  arm64: 'arm64',
+  arm: 'armv7l',
+  s390x: 's390x',
+  ppc64: 'ppc64le'
+};
+const DARWIN_ARCH: Record<string, string> = {
+  x64: 'x64',
+  arm64: 'arm64'
+};
+const WIN_ARCH: Record<string, string> = {
+  x64: 'x64',
+  ia32: 'x86',
+  arm64: 'arm64'
+};
+
+/**
+ * Node.js 发行文件镜像
+ *
+ * 离线环境中回退到 node-gyp rebuild 的原生模块需要对应 Node 版本的 headers 与 SHASUMS256.txt，
+ * 按 nodejs.org/dist 的目录结构保存到 storage/.artifacts/node/，内网将 disturl / NODEJS_ORG_MIRROR 指向 /_/artifacts/node/
+ */
+export class NodeDistMirror {
+  private config: IngestConfig;
+  private router: RegistryRouter;
+  private logger: Logger;
+
+  constructor(config: IngestConfig, router: RegistryRouter, logger: Logger) {
+    this.config = config;
+    this.router = router;
+    this.logger = logger;
+  }
+
+  /**
+   * 将版本或 semver 范围解析为精确版本（范围按 index.json 取满足条件的最高版本）
+   */
+  async resolveVersions(specs: string[]): Promise<string[]> {
+    const versions = new Set<string>();
+    let available: string[] | null = null;
+
+    for (const spec of specs) {
+      const exact = semver.valid(String(spec).replace(/^v/, ''));
+      if (exact) {
+        versions.add(exact);
+        continue;
+      }
+
+      if (!semver.validRange(spec)) {
+        throw new Error(`Invalid Node.js version: ${spec}`);
+      }
+      available = available || (await this.fetchAvailableVersions());
+      const matched = semver.maxSatisfying(available, spec);
+      if (!matched) {
+        throw new Error(`No Node.js release matches ${spec}`);
+      }
+      versions.add(matched);
+    }
+
+    return Array.from(versions);
+  }
+
+  /**
+   * 计算需要镜像的文件：SHASUMS256.txt、headers、Windows 的 node.lib，以及可选的完整发行包
+   * 只保留 SHASUMS256.txt 中列出的文件，并记录其 SHA256 用于下载校验
+   */
+  async plan(versions: string[], platforms: PlatformConfig[], full: boolean): Promise<ArtifactFile[]> {
+    const files: ArtifactFile[] = [];
+
+    for (const version of versions) {
+      const checksums = await this.fetchChecksums(version);
+      const candidates = new Set<string>([`node-v${version}-headers.tar.gz`]);
+
+      for (const platform of platforms) {
+        if (platform.os === 'win32' && WIN_LIB_DIRS[platform.arch]) {
+          candidates.add(`${WIN_LIB_DIRS[platform.arch]}/node.lib`);
+        }
+        if (full) {
+          const distribution = getDistributionName(version, platform);
+          if (distribution) {
+            candidates.add(distribution);
+          }
+        }
+      }
+
+      files.push(this.createFile(version, 'SHASUMS256.txt'));
+      for (const name of candidates) {
+        const sha256 = checksums.get(name);
+        if (!sha256) {
+          this.logger.warn(
+            { file: name, version },
+            'Node.js v@{version} does not provide @{file}, skipping'
+          );
+          continue;
+        }
+        files.push({ ...this.createFile(version, name), sha256 });
+      }
+    }
+
+    return files;
+  }
+
+  private createFile(version: string, name: string): ArtifactFile {
+    const file = `v${version}/${name}`;
+    return {
+      name: 'node',
+      version,
+      mirror: NODE_DIST_MIRROR,
+      path: file,
+      url: this.getBaseUrl() + file,
+      env: 'NODEJS_ORG_MIRROR'
+    };
+  }
+
+  /**
+   * 读取 SHASUMS256.txt（每行为 "<sha256>  <文件名>"）
+   */
+  private async fetchChecksums(version: string): Promise<Map<string, string>> {
+    const url = `${this.getBaseUrl()}v${version}/SHASUMS256.txt`;
+    const response = await registryRequest(createArtifactTarget(this.router, url), url);
+    if (response.status !== 200) {
+      throw createRegistryError(`GET ${url} failed with status ${response.status}`, response.status, response.headers);
+    }
+
+    const checksums = new Map<string, string>();
+    for (const line of response.body.toString('utf-8').split('\n')) {
+      const match = line.trim().match(/^([a-f0-9]{64})\s+\*?(.+)$/i);
+      if (match) {
+        checksums.set(match[2], match[1].toLowerCase());
+      }
+    }
+    return checksums;
+  }
+
+  private async fetchAvailableVersions(): Promise<string[]> {
+    const url = `${this.getBaseUrl()}index.json`;
+    const response = await registryRequest(createArtifactTarget(this.router, url), url, {
+      accept: 'application/json'
+    });
+    if (response.status !== 200) {
+      throw createRegistryError(`GET ${url} failed with status ${response.status}`, response.status, response.headers);
+    }
+
+    const releases = JSON.parse(response.body.toString('utf-8'));
+    return (Array.isArray(releases) ? releases : [])
+      .map((release: any) => semver.valid(String(release.version || '').replace(/^v/, '')))
+      .filter((version: string | null): version is string => !!version);
+  }
+
+  private getBaseUrl(): string {
+    const baseUrl = this.config.nodeDist?.baseUrl || DEFAULT_BASE_URL;
+    return baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+  }
+}
+
+/**
+ * 完整发行包文件名（nodejs.org 不提供 musl / FreeBSD / Android 构建）
+ */
+function getDistributionName(version: string, platform: PlatformConfig): string | undefined {
+  if (platform.os === 'linux' && platform.libc !== 'musl' && LINUX_ARCH[platform.arch]) {
+    return `node-v${version}-linux-${LINUX_ARCH[platform.arch]}.tar.xz`;
+  }
+  if (platform.os === 'darwin' && DARWIN_ARCH[platform.arch]) {
+    return `node-v${version}-darwin-${DARWIN_ARCH[platform.arch]}.tar.gz`;
+  }
+  if (platform.os === 'win32' && WIN_ARCH[platform.arch]) {
+    return `node-v${version}-win-${WIN_ARCH[platform.arch]}.zip`;
+  }
+  return undefined;
+}
@@ -1,16 +1,36 @@
 import pacote from 'pacote';
-import { createHash } from 'crypto';
-import { mkdir, writeFile } from 'fs/promises';
+import { access, mkdir, writeFile } from 'fs/promises';
 import path from 'path';
 import pLimit from 'p-limit';
+import semver from 'semver';
+import { LRUCache } from 'lru-cache';
 import { Logger } from '@verdaccio/types';
+import { fetchPackument, PackumentFetchResult, PackumentSession, PackumentValidators } from './packument-cache';
+import { RegistryRouter } from './registry-router';
+import { fetchTarball, TarballProgressListener } from './tarball-fetcher';
+import {
+  hasPlatformRestriction,
+  isPlatformSpecificName,
+  matchesPlatformFields,
+  matchesPlatformName
+} from './platform-matcher';
 import {
   IngestConfig,
   ResolvedPackage,
   DownloadResult,
-  PlatformConfig
+  PlatformBinaryMatch,
+  PlatformConfig,
+  PlatformDependency
 } from './types';
 
+/**
+ * manifest 及提供它的上游 registry
+ */
+interface ManifestWithSource {
+  manifest: any;
+  registry?: string;
+}
+
 /**
  * 包下载器 - 负责从上游仓库下载包
  */
@@ -18,18 +38,28 @@ export class PackageDownloader {
   private config: IngestConfig;
   private logger: Logger;
   private storagePath: string;
-  private registry: string;
+  private router: RegistryRouter;
   // 请求级缓存，避免短时间内重复拉取同一元数据
   private packumentCache: Map<string, any> = new Map();
   private packumentInflight: Map<string, Promise<any>> = new Map();
-  private manifestCache: Map<string, any> = new Map();
-  private manifestInflight: Map<string, Promise<any>> = new Map();
-
-  constructor(config: IngestConfig, storagePath: string, logger: Logger) {
+  private manifestCache: Map<string, ManifestWithSource> = new Map();
+  private manifestInflight: Map<string, Promise<ManifestWithSource>> = new Map();
+  // 已保存到 storage 的 packument 对应的 ETag / Last-Modified（跨任务保留，用于条件请求）
+  private savedValidators: LRUCache<string, PackumentValidators>;
+
+  constructor(
+    config: IngestConfig,
+    router: RegistryRouter,
+    storagePath: string,
+    logger: Logger
+  ) {
     this.config = config;
+    this.router = router;
     this.storagePath = storagePath;
     this.logger = logger;
-    this.registry = config.upstreamRegistry || 'https://registry.npmjs.org';
+    this.savedValidators = new LRUCache<string, PackumentValidators>({
+      max: 50000
+    });
   }
 
   /**
@@ -66,10 +96,17 @@ export class PackageDownloader {
    * 下载单个包
    */
   async downloadPackage(pkg: ResolvedPackage): Promise<DownloadResult>;
-  async downloadPackage(name: string, version: string): Promise<DownloadResult>;
+  async downloadPackage(
+    name: string,
+    version: string,
+    registry?: string,
+    onProgress?: TarballProgressListener
+  ): Promise<DownloadResult>;
   async downloadPackage(
     pkgOrName: ResolvedPackage | string,
-    version?: string
+    version?: string,
+    registry?: string,
+    onProgress?: TarballProgressListener
   ): Promise<DownloadResult> {
     const pkg: ResolvedPackage =
       typeof pkgOrName === 'string'
@@ -77,7 +114,8 @@ export class PackageDownloader {
             name: pkgOrName,
             version: version!,
             dist: { shasum: '', tarball: '' },
-            dependencies: {}
+            dependencies: {},
+            registry
           }
         : pkgOrName;
 
@@ -86,42 +124,47 @@ export class PackageDownloader {
     const tarballName = this.getTarballName(pkg.name, pkg.version);
     const tarballPath = path.join(tarballDir, tarballName);
 
+    // 优先使用分析阶段解析该版本的 registry，失败时按顺序回退
+    const targets = this.router.getTargets(pkg.name, pkg.registry);
+
     // 确保目录存在
     await mkdir(tarballDir, { recursive: true });
 
     this.logger.debug(
-      { spec, registry: this.registry },
+      { spec, registry: targets[0]?.url || '-' },
       'Downloading @{spec} from @{registry}'
     );
 
-    // 下载 tarball（使用 pacote.tarball() 获取 Buffer）
-    const tarballBuffer = await pacote.tarball(spec, {
-      registry: this.registry
-    });
-
-    // 验证下载的 tarball 不是空的
-    if (!tarballBuffer || tarballBuffer.length === 0) {
-      throw new Error(`Downloaded tarball for ${spec} is empty`);
-    }
-
-    // 计算哈希
-    const sha1Hash = createHash('sha1');
-    const sha512Hash = createHash('sha512');
-    sha1Hash.update(tarballBuffer);
-    sha512Hash.update(tarballBuffer);
-    const size = tarballBuffer.length;
-
-    // 写入文件
-    await writeFile(tarballPath, tarballBuffer);
-
-    const shasum = sha1Hash.digest('hex');
-    const integrity = `sha512-${sha512Hash.digest('base64')}`;
+    // manifest 与 tarball 取自同一 registry，以其 dist 信息校验下载内容
+    const { result, target } = await this.router.withFailover(
+      pkg.name,
+      async (candidate) => {
+        const manifest = await pacote.manifest(spec, {
+          ...this.router.toPacoteOptions(candidate),
+          fullMetadata: true
+        });
+        const dist: any = manifest.dist || {};
+        if (!dist.tarball) {
+          throw new Error(`Manifest for ${spec} has no tarball URL`);
+        }
+        const expected = {
+          name: pkg.name,
+          version: pkg.version,
+          integrity: dist.integrity,
+          shasum: dist.shasum
+        };
+        const digest = await fetchTarball(candidate, dist.tarball, tarballPath, expected, onProgress);
+        return { manifest, digest };
+      },
+      targets
+    );
 
-    // 获取完整 manifest
-    const manifest = await this.getManifest(spec, true);
+    const { manifest } = result;
+    const { shasum, integrity, size } = result.digest;
+    this.manifestCache.set(`full:${spec}`, { manifest, registry: target.url });
 
     this.logger.info(
-      { name: pkg.name, version: pkg.version, shasum, size, registry: this.registry },
+      { name: pkg.name, version: pkg.version, shasum, size, registry: target.url },
       'Downloaded @{name}@@{version} (shasum: @{shasum}, size: @{size} bytes)'
     );
 
@@ -132,7 +175,8 @@ export class PackageDownloader {
       shasum,
       integrity,
       size,
-      manifest
+      manifest,
+      registry: target.url
     };
   }
 
@@ -143,6 +187,44 @@ export class PackageDownloader {
     return this.getPackument(packageName);
   }
 
+  /**
+   * 获取自上次保存以来有变化的元数据
+   * 使用上次保存时记录的 ETag 发送条件请求，未修改时返回 notModified，无需重新写入
+   */
+  async downloadPackumentIfChanged(packageName: string): Promise<PackumentFetchResult> {
+    const metadataPath = path.join(this.getPackagePath(packageName), 'package.json');
+    let validators = this.savedValidators.get(packageName);
+    if (validators) {
+      // 本地元数据已被删除时需要重新完整获取
+      try {
+        await access(metadataPath);
+      } catch {
+        validators = undefined;
+      }
+    }
+
+    try {
+      // 校验信息只对保存时的 registry 有效
+      const { result } = await this.router.withFailover(packageName, (target) =>
+        fetchPackument(
+          target,
+          packageName,
+          validators && validators.registry === target.url ? validators : {}
+        )
+      );
+      if (!result.notModified) {
+        this.packumentCache.set(packageName, result.packument);
+      }
+      return result;
+    } catch (error: any) {
+      this.logger.error(
+        { packageName, error: error.message },
+        'Failed to fetch packument for @{packageName}: @{error}'
+      );
+      throw error;
+    }
+  }
+
   /**
    * 清理请求缓存（任务结束后调用，释放内存）
    */
@@ -168,10 +250,12 @@ export class PackageDownloader {
 
     const request = (async () => {
       try {
-        const packument = await pacote.packument(packageName, {
-          registry: this.registry,
-          fullMetadata: true
-        });
+        const { result: packument } = await this.router.withFailover(packageName, (target) =>
+          pacote.packument(packageName, {
+            ...this.router.toPacoteOptions(target),
+            fullMetadata: true
+          })
+        );
         this.packumentCache.set(packageName, packument);
         return packument;
       } catch (error: any) {
@@ -190,12 +274,19 @@ export class PackageDownloader {
   }
 
   /**
-   * 获取 manifest（带缓存 + 并发去重）
+   * 获取 manifest（带缓存 + 并发去重，按上游顺序回退）
    */
-  private async getManifest(spec: string, fullMetadata: boolean): Promise<any> {
+  private async getManifest(
+    packageName: string,
+    range: string,
+    fullMetadata: boolean,
+    preferredRegistry?: string
+  ): Promise<ManifestWithSource> {
+    const spec = `${packageName}@${range}`;
     const cacheKey = `${fullMetadata ? 'full' : 'lean'}:${spec}`;
-    if (this.manifestCache.has(cacheKey)) {
-      return this.manifestCache.get(cacheKey);
+    const cached = this.manifestCache.get(cacheKey);
+    if (cached) {
+      return cached;
     }
 
     const inflight = this.manifestInflight.get(cacheKey);
@@ -205,12 +296,15 @@ export class PackageDownloader {
 
     const request = (async () => {
       try {
-        const manifest = await pacote.manifest(spec, {
-          registry: this.registry,
-          fullMetadata
-        });
-        this.manifestCache.set(cacheKey, manifest);
-        return manifest;
+        const { result: manifest, target } = await this.router.withFailover(
+          packageName,
+          (candidate) =>
+            pacote.manifest(spec, { ...this.router.toPacoteOptions(candidate), fullMetadata }),
+          this.router.getTargets(packageName, preferredRegistry)
+        );
+        const resolved: ManifestWithSource = { manifest, registry: target.url };
+        this.manifestCache.set(cacheKey, resolved);
+        return resolved;
       } catch (error: any) {
         this.logger.warn(
           { spec, error: error.message },
@@ -226,6 +320,24 @@ export class PackageDownloader {
     return request;
   }
 
+  /**
+   * 从任务的 packument 缓存会话中选出 range 对应的 manifest
+   * 检测多个版本的平台二进制时，同一个包只请求一次元数据；npm: 别名等无法本地解析的 range 退回 getManifest
+   */
+  private async getVersionManifest(
+    packuments: PackumentSession,
+    packageName: string,
+    range: string
+  ): Promise<ManifestWithSource> {
+    const packument = await packuments.get(packageName);
+    const registry = packuments.getSource(packageName);
+    const version = packument ? pickVersion(packument, range) : null;
+    if (!version) {
+      return this.getManifest(packageName, range, false, registry);
+    }
+    return { manifest: packument.versions[version], registry };
+  }
+
   private getConcurrency(): number {
     const configured = Number(this.config.concurrency);
     if (!Number.isFinite(configured) || configured <= 0) {
@@ -237,13 +349,28 @@ export class PackageDownloader {
   /**
    * 保存元数据到存储
    */
-  async savePackument(packageName: string, packument: any): Promise<void> {
+  async savePackument(
+    packageName: string,
+    packument: any,
+    validators?: PackumentValidators
+  ): Promise<void> {
     const packagePath = this.getPackagePath(packageName);
     const metadataPath = path.join(packagePath, 'package.json');
 
     await mkdir(packagePath, { recursive: true });
     await writeFile(metadataPath, JSON.stringify(packument, null, 2));
 
+    // 只有与上游内容一致时才记录校验信息，本地改写过的元数据下次需完整刷新
+    if (validators && (validators.etag || validators.lastModified)) {
+      this.savedValidators.set(packageName, {
+        registry: validators.registry,
+        etag: validators.etag,
+        lastModified: validators.lastModified
+      });
+    } else {
+      this.savedValidators.delete(packageName);
+    }
+
     this.logger.debug(
       { packageName },
       'Saved packument for @{packageName}'
@@ -255,20 +382,29 @@ export class PackageDownloader {
    */
   async detectBinaryPackage(
     packageName: string,
-    version: string
+    version: string,
+    packuments: PackumentSession
   ): Promise<boolean> {
     try {
-      const manifest = await this.getManifest(`${packageName}@${version}`, true);
+      const { manifest } = await this.getVersionManifest(packuments, packageName, version);
 
-      // 检查 optionalDependencies 中的平台特定包
-      const hasOptionalPlatformDeps = Object.keys(
-        manifest.optionalDependencies || {}
-      ).some((dep) => this.isPlatformSpecificPackage(dep));
+      // 检查 package.json 中的 os/cpu/libc 字段
+      if (hasPlatformRestriction(manifest)) {
+        return true;
+      }
 
-      // 检查 package.json 中的 os/cpu 字段
-      const hasOsCpuRestriction = manifest.os || manifest.cpu;
+      const optionalNames = Object.keys(manifest.optionalDependencies || {});
+      if (optionalNames.length === 0) {
+        return false;
+      }
+      // 包名已明确带有平台信息时无需再请求元数据
+      if (optionalNames.some((name) => isPlatformSpecificName(name))) {
+        return true;
+      }
 
-      return hasOptionalPlatformDeps || !!hasOsCpuRestriction;
+      // 检查 optionalDependencies 的 manifest 是否声明了平台限制
+      const optionalDeps = await this.getOptionalDependencyManifests(packuments, manifest);
+      return optionalDeps.some((dep) => hasPlatformRestriction(dep.manifest));
     } catch {
       return false;
     }
@@ -280,9 +416,10 @@ export class PackageDownloader {
   async downloadForPlatforms(
     packageName: string,
     version: string,
-    platforms: PlatformConfig[]
+    platforms: PlatformConfig[],
+    packuments: PackumentSession
   ): Promise<DownloadResult[]> {
-    const platformDeps = await this.getPlatformDependencies(packageName, version, platforms);
+    const platformDeps = await this.getPlatformDependencies(packageName, version, platforms, packuments);
     if (platformDeps.length === 0) {
       return [];
     }
@@ -291,7 +428,8 @@ export class PackageDownloader {
       name: dep.name,
       version: dep.version,
       dist: { shasum: '', tarball: '' },
-      dependencies: {}
+      dependencies: {},
+      registry: dep.registry
     }));
 
     return this.downloadAll(packages, this.getConcurrency());
@@ -303,62 +441,83 @@ export class PackageDownloader {
   async getPlatformDependencies(
     packageName: string,
     version: string,
-    platforms: PlatformConfig[]
-  ): Promise<Array<{ name: string; version: string }>> {
-    const allDeps: Array<{ name: string; version: string }> = [];
-    const limit = pLimit(Math.min(this.getConcurrency(), Math.max(1, platforms.length)));
-
-    await Promise.all(
-      platforms.map((platform) =>
-        limit(async () => {
-          try {
-            const deps = await this.resolvePlatformDependencies(
-              packageName,
-              version,
-              platform
-            );
-            allDeps.push(...deps);
-          } catch {
-            // 忽略解析失败
-          }
-        })
-      )
-    );
+    platforms: PlatformConfig[],
+    packuments: PackumentSession
+  ): Promise<PlatformDependency[]> {
+    let matches: PlatformBinaryMatch[] | null;
+    try {
+      matches = await this.getPlatformBinaries(packageName, version, platforms, packuments);
+    } catch {
+      // 忽略解析失败
+      return [];
+    }
 
     // 去重
     const seen = new Set<string>();
-    return allDeps.filter((dep) => {
-      const key = `${dep.name}@${dep.version}`;
-      if (seen.has(key)) return false;
-      seen.add(key);
-      return true;
-    });
+    return (matches || [])
+      .flatMap((match) => match.dependencies)
+      .filter((dep) => {
+        const key = `${dep.name}@${dep.version}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
   }
 
   /**
-   * 解析平台特定的依赖
+   * 按目标平台分别解析平台特定的依赖，顺序与 platforms 一致
+   * 优先按可选依赖 manifest 中的 os / cpu / libc 字段判断（与 npm 安装时一致），未声明时才按包名推断
+   * 可选依赖中没有平台特定的包时返回 null；上游没有提供某个平台的二进制时，该平台的 dependencies 为空数组
+   * 元数据通过任务的 packument 缓存会话获取，与依赖分析共用磁盘缓存与条件请求
    */
-  private async resolvePlatformDependencies(
+  async getPlatformBinaries(
     packageName: string,
     version: string,
-    platform: PlatformConfig
-  ): Promise<Array<{ name: string; version: string }>> {
-    const manifest = await this.getManifest(`${packageName}@${version}`, true);
+    platforms: PlatformConfig[],
+    packuments: PackumentSession
+  ): Promise<PlatformBinaryMatch[] | null> {
+    const { manifest } = await this.getVersionManifest(packuments, packageName, version);
+    const optionalDeps = (await this.getOptionalDependencyManifests(packuments, manifest)).filter(
+      ({ name, manifest: depManifest }) =>
+        hasPlatformRestriction(depManifest) || isPlatformSpecificName(name)
+    );
+    if (optionalDeps.length === 0) {
+      return null;
+    }
+
+    return platforms.map((platform) => ({
+      platform,
+      dependencies: optionalDeps
+        .filter(({ name, manifest: depManifest }) =>
+          hasPlatformRestriction(depManifest)
+            ? matchesPlatformFields(depManifest, platform)
+            : matchesPlatformName(name, platform)
+        )
+        .map(({ name, manifest: depManifest, registry }) => ({
+          // npm: 别名以实际包名下载
+          name: depManifest.name || name,
+          version: depManifest.version,
+          registry
+        }))
+    }));
+  }
 
-    const optionalDeps = manifest.optionalDependencies || {};
-    const candidates = Object.entries(optionalDeps)
-      .filter(([name]) => this.matchesPlatform(name, platform));
-    const limit = pLimit(Math.min(this.getConcurrency(), Math.max(1, candidates.length)));
+  /**
+   * 获取所有可选依赖的精简 manifest（含 os / cpu / libc），获取失败的依赖会被忽略
+   */
+  private async getOptionalDependencyManifests(
+    packuments: PackumentSession,
+    manifest: any
+  ): Promise<Array<{ name: string; manifest: any; registry?: string }>> {
+    const entries = Object.entries<any>(manifest.optionalDependencies || {});
+    const limit = pLimit(Math.min(this.getConcurrency(), Math.max(1, entries.length)));
 
     const results = await Promise.all(
-      candidates.map(([name, versionRange]) =>
+      entries.map(([name, versionRange]) =>
         limit(async () => {
           try {
-            const depManifest = await this.getManifest(`${name}@${versionRange}`, false);
-            return {
-              name,
-              version: depManifest.version
-            };
+            const resolved = await this.getVersionManifest(packuments, name, String(versionRange));
+            return { name, ...resolved };
           } catch {
             return null;
           }
@@ -366,63 +525,9 @@ export class PackageDownloader {
       )
     );
 
-    return results.filter((item): item is { name: string; version: string } => item !== null);
-  }
-
-  /**
-   * 检查包名是否是平台特定的
-   */
-  private isPlatformSpecificPackage(packageName: string): boolean {
-    const platformPatterns = [
-      /@esbuild\//,
-      /@swc\/core-/,
-      /@rollup\/rollup-/,
-      /@img\/sharp-/,
-      /-linux-/,
-      /-win32-/,
-      /-darwin-/,
-      /-x64/,
-      /-arm64/,
-      /-gnu$/,
-      /-musl$/,
-      /-msvc$/
-    ];
-
-    return platformPatterns.some((pattern) => pattern.test(packageName));
-  }
-
-  /**
-   * 检查包名是否匹配指定平台
-   */
-  private matchesPlatform(packageName: string, platform: PlatformConfig): boolean {
-    const name = packageName.toLowerCase();
-
-    // 检查操作系统
-    const osMatch =
-      (platform.os === 'linux' && name.includes('linux')) ||
-      (platform.os === 'win32' && name.includes('win32')) ||
-      (platform.os === 'darwin' && name.includes('darwin'));
-
-    if (!osMatch) return false;
-
-    // 检查架构
-    const archMatch =
-      (platform.arch === 'x64' && (name.includes('x64') || name.includes('x86_64'))) ||
-      (platform.arch === 'arm64' && (name.includes('arm64') || name.includes('aarch64'))) ||
-      (platform.arch === 'ia32' && (name.includes('ia32') || name.includes('x86')));
-
-    if (!archMatch) return false;
-
-    // 检查 libc（仅 Linux）
-    if (platform.os === 'linux' && platform.libc) {
-      const libcMatch =
-        (platform.libc === 'glibc' && (name.includes('gnu') || !name.includes('musl'))) ||
-        (platform.libc === 'musl' && name.includes('musl'));
-
-      return libcMatch;
-    }
-
-    return true;
+    return results.filter(
+      (item): item is { name: string; manifest: any; registry?: string } => item !== null
+    );
   }
 
   /**
@@ -440,3 +545,29 @@ export class PackageDownloader {
     return `${baseName}-${version}.tgz`;
   }
 }
+
+/**
+ * 按 npm 的规则从 packument 中选出 range 对应的版本：dist-tag、精确版本，
+ * 否则优先 latest（满足 range 时），再取满足 range 的最高版本；无法解析时返回 null
+ */
+function pickVersion(packument: any, range: string): string | null {
+  const versions = packument?.versions || {};
+  const distTags = packument?.['dist-tags'] || {};
+  const spec = range.trim() || 'latest';
+
+  if (distTags[spec] && versions[distTags[spec]]) {
+    return distTags[spec];
+  }
+  if (versions[spec]) {
+    return spec;
+  }
+  if (!semver.validRange(spec, { loose: true })) {
+    return null;
+  }
+
+  const latest = distTags.latest;
+  if (latest && versions[latest] && semver.satisfies(latest, spec, { loose: true })) {
+    return latest;
+  }
+  return semver.maxSatisfying(Object.keys(versions), spec, { loose: true });
+}
@@ -0,0 +1,354 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { LRUCache } from 'lru-cache';
+import { Logger } from '@verdaccio/types';
+import { createRegistryError, registryRequest } from './registry-client';
+import { RegistryRouter } from './registry-router';
+import { PackumentCacheEntry, PackumentCacheStats, RegistryTarget } from './types';
+
+const PACKUMENT_CACHE_DIR = path.join('.ingest-cache', 'packuments');
+
+/**
+ * 条件请求的校验信息
+ */
+export interface PackumentValidators {
+  /** 校验信息对应的上游 registry */
+  registry?: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * 条件请求结果
+ */
+export interface PackumentFetchResult extends PackumentValidators {
+  /** 上游未修改（304） */
+  notModified: boolean;
+  packument?: any;
+}
+
+/**
+ * 从上游获取 packument，携带 If-None-Match / If-Modified-Since 进行条件请求
+ */
+export async function fetchPackument(
+  target: RegistryTarget,
+  name: string,
+  validators: PackumentValidators = {}
+): Promise<PackumentFetchResult> {
+  // scoped 包需要将 / 编码为 %2f
+  const url = `${target.url.replace(/\/+$/, '')}/${name.replace('/', '%2f')}`;
+  const headers: Record<string, string> = { accept: 'application/json' };
+  if (validators.etag) {
+    headers['if-none-match'] = validators.etag;
+  }
+  if (validators.lastModified) {
+    headers['if-modified-since'] = validators.lastModified;
+  }
+
+  const response = await registryRequest(target, url, headers);
+
+  if (response.status === 304) {
+    return { ...validators, registry: target.url, notModified: true };
+  }
+  if (response.status < 200 || response.status >= 300) {
+    throw createRegistryError(
+      `GET ${url} failed with status ${response.status}`,
+      response.status,
+      response.headers
+    );
+  }
+
+  return {
+    registry: target.url,
+    notModified: false,
+    packument: JSON.parse(response.body.toString('utf-8')),
+    etag: response.headers.etag || undefined,
+    lastModified: response.headers['last-modified'] || undefined
+  };
+}
+
+/**
+ * Packument 缓存 - 磁盘持久化 + 内存 LRU + ETag 条件校验
+ *
+ * 1. 精简后的 packument 连同 ETag / Last-Modified 持久化到 storage 下的隐藏目录，进程重启后仍可复用
+ * 2. 每个任务通过独立的会话读取，会话中每个包只向上游校验一次，未修改时上游返回 304，无需重新下载完整元数据
+ * 3. 内存中只保留最近使用的条目，超出上限时按 LRU 淘汰，被淘汰的条目仍可从磁盘读回
+ * 4. 上游超时、5xx、404 时按顺序回退到下一个 registry，全部不可用时使用磁盘中的旧数据
+ */
+export class PackumentCache {
+  private cacheDir: string;
+  private router: RegistryRouter;
+  private logger: Logger;
+  private transform: (packument: any) => any;
+  private memory: LRUCache<string, PackumentCacheEntry>;
+
+  constructor(options: {
+    storagePath: string;
+    router: RegistryRouter;
+    logger: Logger;
+    maxEntries?: number;
+    transform?: (packument: any) => any;
+  }) {
+    this.cacheDir = path.join(options.storagePath, PACKUMENT_CACHE_DIR);
+    this.router = options.router;
+    this.logger = options.logger;
+    this.transform = options.transform || ((packument) => packument);
+    this.memory = new LRUCache<string, PackumentCacheEntry>({
+      max: options.maxEntries || 2000
+    });
+  }
+
+  /**
+   * 开始一个任务的会话
+   * 内存 LRU 与磁盘缓存由所有会话共享，校验记录、进行中的请求与统计只属于该会话
+   */
+  createSession(): PackumentSession {
+    return new PackumentSession(this, this.router, this.logger);
+  }
+
+  /**
+   * 内存中是否有该包的条目
+   */
+  has(name: string): boolean {
+    return this.memory.has(name);
+  }
+
+  /**
+   * 读取条目（内存 -> 磁盘），磁盘读回的条目放回内存
+   */
+  async load(name: string): Promise<PackumentCacheEntry | null> {
+    const entry = this.memory.get(name) || (await this.readEntry(name));
+    if (entry) {
+      this.memory.set(name, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * 放入内存（已校验或回退使用的条目）
+   */
+  remember(entry: PackumentCacheEntry): void {
+    this.memory.set(entry.name, entry);
+  }
+
+  /**
+   * 当前缓存的 packument 来自哪个 registry
+   */
+  getSource(name: string): string | undefined {
+    return this.memory.peek(name)?.registry;
+  }
+
+  /**
+   * 精简上游返回的 packument
+   */
+  trim(packument: any): any {
+    return this.transform(packument);
+  }
+
+  /**
+   * 保存上游返回的 packument 到内存与磁盘
+   */
+  async store(
+    name: string,
+    result: PackumentFetchResult,
+    packument: any = this.transform(result.packument)
+  ): Promise<PackumentCacheEntry> {
+    const entry: PackumentCacheEntry = {
+      name,
+      registry: result.registry,
+      etag: result.etag,
+      lastModified: result.lastModified,
+      fetchedAt: Date.now(),
+      packument
+    };
+    this.memory.set(name, entry);
+    await this.writeEntry(entry);
+    return entry;
+  }
+
+  private getEntryPath(name: string): string {
+    return path.join(this.cacheDir, `${encodeURIComponent(name)}.json`);
+  }
+
+  private async readEntry(name: string): Promise<PackumentCacheEntry | null> {
+    try {
+      const content = await readFile(this.getEntryPath(name), 'utf-8');
+      const entry = JSON.parse(content) as PackumentCacheEntry;
+      return entry?.packument ? entry : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 写入磁盘（先写临时文件再重命名，避免中断时留下损坏的缓存）
+   */
+  private async writeEntry(entry: PackumentCacheEntry): Promise<void> {
+    const entryPath = this.getEntryPath(entry.name);
+    const tempPath = `${entryPath}.${process.pid}.tmp`;
+
+    try {
+      await mkdir(this.cacheDir, { recursive: true });
+      await writeFile(tempPath, JSON.stringify(entry));
+      await rename(tempPath, entryPath);
+    } catch (error: any) {
+      this.logger.warn(
+        { name: entry.name, error: error.message },
+        'Failed to persist packument cache for @{name}: @{error}'
+      );
+    }
+  }
+}
+
+/**
+ * 单个任务的 packument 缓存会话
+ * 会话中已校验过的包直接使用缓存，并发请求同一包时共用一次上游请求
+ */
+export class PackumentSession {
+  private cache: PackumentCache;
+  private router: RegistryRouter;
+  private logger: Logger;
+  // 本会话中已校验过的包名
+  private validated: Set<string> = new Set();
+  // 正在进行中的请求（避免并发场景下重复请求同一包）
+  private inflight: Map<string, Promise<any | null>> = new Map();
+  private stats: PackumentCacheStats = { hits: 0, notModified: 0, fetched: 0, stale: 0, failed: 0 };
+
+  constructor(cache: PackumentCache, router: RegistryRouter, logger: Logger) {
+    this.cache = cache;
+    this.router = router;
+    this.logger = logger;
+  }
+
+  /**
+   * 本会话中是否已校验过（可直接使用）
+   */
+  isValidated(name: string): boolean {
+    return this.validated.has(name) && this.cache.has(name);
+  }
+
+  /**
+   * 获取 packument（内存 -> 磁盘 -> 上游条件请求），失败时返回 null
+   */
+  async get(name: string): Promise<any | null> {
+    const inflight = this.inflight.get(name);
+    if (inflight) {
+      return inflight;
+    }
+
+    const request = (async () => {
+      // 本会话已校验过的条目（包括被 LRU 淘汰后从磁盘读回的）
+      const entry = await this.cache.load(name);
+      if (entry && this.validated.has(name)) {
+        this.stats.hits++;
+        return entry.packument;
+      }
+
+      try {
+        // 校验信息只对获取它的 registry 有效
+        const { result } = await this.router.withFailover(name, (target) =>
+          fetchPackument(
+            target,
+            name,
+            entry && entry.registry === target.url
+              ? { etag: entry.etag, lastModified: entry.lastModified }
+              : {}
+          )
+        );
+
+        let current: PackumentCacheEntry;
+        if (result.notModified && entry) {
+          this.stats.notModified++;
+          current = { ...entry, fetchedAt: Date.now() };
+          this.cache.remember(current);
+        } else {
+          this.stats.fetched++;
+          current = await this.cache.store(name, result);
+        }
+
+        this.validated.add(name);
+        return current.packument;
+      } catch (error: any) {
+        if (entry) {
+          this.stats.stale++;
+          this.logger.warn(
+            { name, error: error.message },
+            'Failed to revalidate packument for @{name}, using cached copy: @{error}'
+          );
+          this.cache.remember(entry);
+          this.validated.add(name);
+          return entry.packument;
+        }
+
+        this.stats.failed++;
+        this.logger.warn(
+          { name, error: error.message },
+          'Failed to get packument for @{name}: @{error}'
+        );
+        return null;
+      } finally {
+        this.inflight.delete(name);
+      }
+    })();
+
+    this.inflight.set(name, request);
+    return request;
+  }
+
+  /**
+   * 当前 packument 不满足要求时（如镜像尚未同步新版本），依次尝试后续 registry
+   * 返回第一个满足要求的 packument 并替换缓存，均不满足时返回 null
+   */
+  async getFromFallback(name: string, accept: (packument: any) => boolean): Promise<any | null> {
+    const targets = this.router.getTargets(name);
+    const source = this.getSource(name);
+    const start = source ? targets.findIndex((target) => target.url === source) + 1 : 0;
+
+    for (const target of targets.slice(start)) {
+      try {
+        const result = await fetchPackument(target, name);
+        const packument = this.cache.trim(result.packument);
+        if (!accept(packument)) {
+          continue;
+        }
+
+        this.logger.info(
+          { name, registry: target.url },
+          'Using packument for @{name} from fallback registry @{registry}'
+        );
+        this.stats.fetched++;
+        await this.cache.store(name, result, packument);
+        this.validated.add(name);
+        return packument;
+      } catch (error: any) {
+        this.logger.warn(
+          { name, registry: target.url, error: error.message },
+          'Fallback registry @{registry} failed for @{name}: @{error}'
+        );
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 当前缓存的 packument 来自哪个 registry
+   */
+  getSource(name: string): string | undefined {
+    return this.cache.getSource(name);
+  }
+
+  /**
+   * 结束会话：输出统计信息
+   * 内存 LRU 与磁盘缓存保留，下一个会话重新向上游校验
+   */
+  end(): void {
+    const { hits, notModified, fetched, stale, failed } = this.stats;
+    if (notModified + fetched + stale + failed > 0) {
+      this.logger.info(
+        { notModified, fetched, hits, stale, failed },
+        'Packument cache: @{notModified} not modified, @{fetched} fetched, @{hits} hits, @{stale} stale, @{failed} failed'
+      );
+    }
+  }
+}
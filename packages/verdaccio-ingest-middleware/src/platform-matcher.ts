@@ -0,0 +1,154 @@
+import { PlatformConfig } from './types';
+
+/**
+ * 版本 manifest 中声明的平台限制（与 npm 安装时的判断依据一致）
+ */
+export interface PlatformFields {
+  os?: string | string[];
+  cpu?: string | string[];
+  libc?: string | string[];
+}
+
+/**
+ * 从包名推断出的平台
+ */
+export interface NamePlatform {
+  os?: PlatformConfig['os'];
+  arch?: PlatformConfig['arch'];
+  libc?: 'glibc' | 'musl';
+}
+
+// 包名片段到 os 的映射
+const OS_TOKENS: Record<string, PlatformConfig['os']> = {
+  linux: 'linux',
+  win32: 'win32',
+  windows: 'win32',
+  darwin: 'darwin',
+  macos: 'darwin',
+  freebsd: 'freebsd',
+  android: 'android'
+};
+
+// 包名片段到 cpu 的映射
+const ARCH_TOKENS: Record<string, PlatformConfig['arch']> = {
+  x64: 'x64',
+  x86_64: 'x64',
+  amd64: 'x64',
+  arm64: 'arm64',
+  aarch64: 'arm64',
+  ia32: 'ia32',
+  x86: 'ia32',
+  i386: 'ia32',
+  i686: 'ia32',
+  arm: 'arm',
+  armv6: 'arm',
+  armv7: 'arm',
+  armhf: 'arm',
+  s390x: 's390x',
+  ppc64: 'ppc64',
+  ppc64le: 'ppc64',
+  powerpc64le: 'ppc64'
+};
+
+// 包名片段到 libc 的映射
+const LIBC_TOKENS: Record<string, 'glibc' | 'musl'> = {
+  gnu: 'glibc',
+  gnueabihf: 'glibc',
+  glibc: 'glibc',
+  musl: 'musl',
+  musleabihf: 'musl'
+};
+
+/**
+ * manifest 是否声明了 os / cpu / libc 限制
+ */
+export function hasPlatformRestriction(manifest: PlatformFields | undefined): boolean {
+  return !!manifest && [manifest.os, manifest.cpu, manifest.libc].some((field) => toList(field).length > 0);
+}
+
+/**
+ * 按 manifest 的 os / cpu / libc 字段判断是否可安装到目标平台（与 npm 规则一致）
+ * libc 仅在 Linux 上检查；目标平台未指定 libc 时 glibc / musl 均视为匹配
+ */
+export function matchesPlatformFields(manifest: PlatformFields, platform: PlatformConfig): boolean {
+  if (!matchesField(toList(manifest.os), platform.os)) {
+    return false;
+  }
+  if (!matchesField(toList(manifest.cpu), platform.arch)) {
+    return false;
+  }
+  if (platform.os === 'linux' && platform.libc) {
+    return matchesField(toList(manifest.libc), platform.libc);
+  }
+  return true;
+}
+
+/**
+ * 平台标识，与 PLATFORM_PRESETS 的键一致（如 linux-x64、linux-arm64-musl）
+ */
+export function formatPlatform(platform: PlatformConfig): string {
+  const key = `${platform.os}-${platform.arch}`;
+  return platform.os === 'linux' && platform.libc === 'musl' ? `${key}-musl` : key;
+}
+
+/**
+ * 从包名推断平台（按 - / _ . 分隔后逐段匹配，避免仅因包含 "x64" 等子串而误判）
+ */
+export function parsePlatformFromName(packageName: string): NamePlatform {
+  const result: NamePlatform = {};
+  const tokens = packageName.toLowerCase().replace(/^@/, '').split(/[/.-]/);
+
+  for (const token of tokens) {
+    result.os = result.os || OS_TOKENS[token];
+    result.arch = result.arch || ARCH_TOKENS[token];
+    result.libc = result.libc || LIBC_TOKENS[token];
+  }
+
+  return result;
+}
+
+/**
+ * 包名是否同时包含 os 与 cpu 片段（仅在 manifest 未声明平台限制时作为兜底判断）
+ */
+export function isPlatformSpecificName(packageName: string): boolean {
+  const { os, arch } = parsePlatformFromName(packageName);
+  return !!os && !!arch;
+}
+
+/**
+ * 按包名判断是否匹配目标平台（兜底规则）
+ */
+export function matchesPlatformName(packageName: string, platform: PlatformConfig): boolean {
+  const parsed = parsePlatformFromName(packageName);
+  if (!parsed.os || !parsed.arch) {
+    return false;
+  }
+  if (parsed.os !== platform.os || parsed.arch !== platform.arch) {
+    return false;
+  }
+  if (platform.os === 'linux' && platform.libc && parsed.libc) {
+    return parsed.libc === platform.libc;
+  }
+  return true;
+}
+
+/**
+ * 检查 os/cpu/libc 列表是否允许指定值（支持 "!value" 排除写法）
+ */
+function matchesField(list: string[], value: string): boolean {
+  if (list.length === 0) {
+    return true;
+  }
+  if (list.includes(`!${value}`)) {
+    return false;
+  }
+  const allowed = list.filter((item) => !item.startsWith('!'));
+  return allowed.length === 0 || allowed.includes(value);
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value]).map(String);
+}
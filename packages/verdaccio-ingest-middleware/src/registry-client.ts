@@ -0,0 +1,318 @@
+import http, { IncomingHttpHeaders, IncomingMessage } from 'http';
+import https from 'https';
+import tls from 'tls';
+import { gunzipSync, inflateSync } from 'zlib';
+import { RegistryTarget } from './types';
+
+const MAX_REDIRECTS = 5;
+
+// 网络层可重试错误（超时、连接被拒绝/重置、DNS 失败等）
+const NETWORK_ERROR_CODES = new Set([
+  'ETIMEDOUT',
+  'ESOCKETTIMEDOUT',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'EHOSTUNREACH',
+  'ENETUNREACH'
+]);
+
+/**
+ * 上游请求结果
+ */
+export interface RegistryResponse {
+  status: number;
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+}
+
+/**
+ * 是否应回退到下一个上游：超时/网络错误、5xx、404，以及镜像缺少指定版本（ETARGET）
+ * 兼容 pacote（npm-registry-fetch）与 registryRequest 抛出的错误
+ */
+export function isFailoverError(error: any): boolean {
+  const status = Number(error?.statusCode ?? error?.status);
+  if (status) {
+    return status === 404 || status === 408 || status >= 500;
+  }
+
+  const code = String(error?.code || '');
+  if (code === 'ETARGET' || code === 'E404' || /^E5\d\d$/.test(code)) {
+    return true;
+  }
+  if (NETWORK_ERROR_CODES.has(code) || NETWORK_ERROR_CODES.has(String(error?.errno || ''))) {
+    return true;
+  }
+  return error?.type === 'request-timeout' || error?.type === 'body-timeout';
+}
+
+/**
+ * 是否为可重试的临时错误：超时/网络错误、429、408、5xx
+ * 404、版本不存在、完整性校验失败等重试也不会成功的错误返回 false
+ */
+export function isTransientError(error: any): boolean {
+  const status = Number(error?.statusCode ?? error?.status);
+  if (status) {
+    return status === 429 || status === 408 || status >= 500;
+  }
+
+  const code = String(error?.code || '');
+  if (code === 'E429' || code === 'E408' || /^E5\d\d$/.test(code)) {
+    return true;
+  }
+  if (NETWORK_ERROR_CODES.has(code) || NETWORK_ERROR_CODES.has(String(error?.errno || ''))) {
+    return true;
+  }
+  return error?.type === 'request-timeout' || error?.type === 'body-timeout';
+}
+
+/**
+ * 读取上游返回的 Retry-After（秒数或 HTTP 日期），返回需要等待的毫秒数
+ * 兼容 registryRequest 与 npm-registry-fetch 抛出的错误
+ */
+export function getRetryAfter(error: any): number | undefined {
+  let value = error?.retryAfter;
+  const headers = error?.headers;
+  if (value === undefined && headers) {
+    value = typeof headers.get === 'function' ? headers.get('retry-after') : headers['retry-after'];
+  }
+  if (Array.isArray(value)) {
+    value = value[0];
+  }
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * 创建带 HTTP 状态码的请求错误（保留 Retry-After 供重试使用）
+ */
+export function createRegistryError(
+  message: string,
+  statusCode: number,
+  headers: IncomingHttpHeaders = {}
+): Error {
+  return Object.assign(new Error(message), { statusCode, retryAfter: headers['retry-after'] });
+}
+
+/**
+ * 向上游 registry 发起请求（读取完整响应体）
+ * 统一处理认证、CA 证书、HTTP(S) 代理、超时、重定向与 gzip 解压；传入 body 时以 POST 发送
+ */
+export async function registryRequest(
+  target: RegistryTarget,
+  url: string,
+  headers: Record<string, string> = {},
+  body?: Buffer
+): Promise<RegistryResponse> {
+  const response = await openRegistryStream(
+    target,
+    url,
+    {
+      'accept-encoding': 'gzip, deflate',
+      ...headers
+    },
+    body
+  );
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of response) {
+    chunks.push(chunk as Buffer);
+  }
+
+  let responseBody = Buffer.concat(chunks);
+  const encoding = response.headers['content-encoding'];
+  if (encoding === 'gzip') {
+    responseBody = gunzipSync(responseBody);
+  } else if (encoding === 'deflate') {
+    responseBody = inflateSync(responseBody);
+  }
+
+  return { status: response.statusCode || 0, headers: response.headers, body: responseBody };
+}
+
+/**
+ * 向上游 registry 发起请求并返回响应流（调用方负责消费响应体）
+ */
+export async function openRegistryStream(
+  target: RegistryTarget,
+  url: string,
+  headers: Record<string, string> = {},
+  body?: Buffer
+): Promise<IncomingMessage> {
+  let currentUrl = url;
+  let requestBody = body;
+  const extraHeaders = { ...headers };
+
+  for (let redirects = 0; ; redirects++) {
+    const parsed = new URL(currentUrl);
+    // 仅向 registry 同源地址发送认证信息，跳转到 CDN 等第三方地址时不携带
+    const sameOrigin = parsed.host === new URL(target.url).host;
+    const requestHeaders: Record<string, string> = {
+      'user-agent': 'verdaccio-ingest-middleware',
+      ...target.headers,
+      ...extraHeaders
+    };
+    if (target.authorization && sameOrigin) {
+      requestHeaders.authorization = target.authorization;
+    }
+
+    if (requestBody) {
+      requestHeaders['content-length'] = String(requestBody.length);
+    }
+
+    const response = await sendRequest(target, parsed, requestHeaders, requestBody);
+    const status = response.statusCode || 0;
+    if (status >= 300 && status < 400 && status !== 304 && response.headers.location) {
+      response.resume();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Too many redirects while requesting ${url}`);
+      }
+      currentUrl = new URL(response.headers.location, currentUrl).toString();
+      // 仅 307 / 308 保留请求方法与请求体，其余跳转按 GET 处理
+      if (status !== 307 && status !== 308 && requestBody) {
+        requestBody = undefined;
+        delete extraHeaders['content-type'];
+        delete extraHeaders['content-encoding'];
+      }
+      continue;
+    }
+
+    return response;
+  }
+}
+
+async function sendRequest(
+  target: RegistryTarget,
+  url: URL,
+  headers: Record<string, string>,
+  body?: Buffer
+): Promise<IncomingMessage> {
+  const isHttps = url.protocol === 'https:';
+  const proxy = shouldUseProxy(target, url) ? new URL(target.proxy!) : null;
+  // HTTPS 目标经代理：先通过 CONNECT 建立隧道并完成 TLS 握手，请求直接在该连接上发送
+  const tunnel = proxy && isHttps ? await openTunnel(proxy, url, target) : null;
+
+  return new Promise((resolve, reject) => {
+    const options: https.RequestOptions = {
+      method: body ? 'POST' : 'GET',
+      headers,
+      ca: target.ca,
+      rejectUnauthorized: target.strictSSL,
+      timeout: target.timeout
+    };
+
+    let request: http.ClientRequest;
+    if (tunnel) {
+      request = https.request({
+        ...options,
+        host: url.hostname,
+        port: url.port || 443,
+        path: `${url.pathname}${url.search}`,
+        createConnection: () => tunnel
+      });
+    } else if (proxy) {
+      // HTTP 目标经代理：直接向代理发送完整 URL
+      request = http.request({
+        ...options,
+        host: proxy.hostname,
+        port: proxy.port || 80,
+        path: url.toString(),
+        headers: { ...headers, host: url.host, ...proxyAuthHeader(proxy) }
+      });
+    } else {
+      request = (isHttps ? https : http).request({
+        ...options,
+        host: url.hostname,
+        port: url.port || (isHttps ? 443 : 80),
+        path: `${url.pathname}${url.search}`
+      });
+    }
+
+    request.on('response', resolve);
+    request.on('timeout', () => {
+      request.destroy(
+        Object.assign(new Error(`Request to ${url.host} timed out after ${target.timeout}ms`), {
+          code: 'ETIMEDOUT'
+        })
+      );
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+/**
+ * 通过 HTTP 代理建立到目标主机的 TLS 隧道
+ */
+function openTunnel(proxy: URL, url: URL, target: RegistryTarget): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const authority = `${url.hostname}:${url.port || 443}`;
+    const connect = http.request({
+      host: proxy.hostname,
+      port: proxy.port || 80,
+      method: 'CONNECT',
+      path: authority,
+      headers: { host: authority, ...proxyAuthHeader(proxy) },
+      timeout: target.timeout
+    });
+
+    connect.on('connect', (response, socket) => {
+      if (response.statusCode !== 200) {
+        socket.destroy();
+        reject(new Error(`Proxy CONNECT to ${authority} failed with status ${response.statusCode}`));
+        return;
+      }
+
+      const secureSocket = tls.connect({
+        socket,
+        servername: url.hostname,
+        ca: target.ca,
+        rejectUnauthorized: target.strictSSL
+      });
+      secureSocket.once('secureConnect', () => resolve(secureSocket));
+      secureSocket.once('error', reject);
+    });
+    connect.on('timeout', () => {
+      connect.destroy(new Error(`Proxy CONNECT to ${authority} timed out`));
+    });
+    connect.on('error', reject);
+    connect.end();
+  });
+}
+
+function proxyAuthHeader(proxy: URL): Record<string, string> {
+  if (!proxy.username) {
+    return {};
+  }
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return { 'proxy-authorization': `Basic ${Buffer.from(credentials).toString('base64')}` };
+}
+
+/**
+ * 是否需要经过代理（no_proxy 支持逗号分隔的主机名后缀）
+ */
+function shouldUseProxy(target: RegistryTarget, url: URL): boolean {
+  if (!target.proxy) {
+    return false;
+  }
+  if (!target.noProxy) {
+    return true;
+  }
+
+  const host = url.hostname.toLowerCase();
+  return !target.noProxy
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase().replace(/^\*?\./, ''))
+    .filter(Boolean)
+    .some((entry) => entry === '*' || host === entry || host.endsWith(`.${entry}`));
+}
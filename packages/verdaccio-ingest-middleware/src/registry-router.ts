@@ -0,0 +1,38 @@
+import { RegistryRouter as BaseRegistryRouter, RegistryTarget } from 'verdaccio-offline-common';
+import { isFailoverError } from './registry-client';
+
+/**
+ * 上游 registry 路由器
+ *
+ * 路由规则（scope 映射、packages 的 proxy 规则、默认上游链）与 uplink 的认证、证书、代理、超时解析
+ * 由 verdaccio-offline-common 提供，这里增加上游之间的失败回退
+ */
+export class RegistryRouter extends BaseRegistryRouter {
+  /**
+   * 按顺序在上游之间尝试请求：超时、5xx、404 时回退到下一个 registry，其余错误直接抛出
+   * 包不使用上游时抛出 404 错误
+   */
+  async withFailover<T>(
+    packageName: string,
+    request: (target: RegistryTarget) => Promise<T>,
+    targets: RegistryTarget[] = this.getTargets(packageName)
+  ): Promise<{ result: T; target: RegistryTarget }> {
+    if (targets.length === 0) {
+      throw this.createNotProxiedError(packageName);
+    }
+    for (let i = 0; ; i++) {
+      const target = targets[i];
+      try {
+        return { result: await request(target), target };
+      } catch (error: any) {
+        if (i >= targets.length - 1 || !isFailoverError(error)) {
+          throw error;
+        }
+        this.logger.warn(
+          { name: packageName, registry: target.url, next: targets[i + 1].url, error: error.message },
+          'Registry @{registry} failed for @{name}, falling back to @{next}: @{error}'
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import { getRetryAfter, isTransientError } from './registry-client';
+import { CircuitBreakerConfig, RetryConfig } from './types';
+
+const DEFAULT_RETRY: Required<RetryConfig> = {
+  maxAttempts: 3,
+  baseDelay: 1000,
+  maxDelay: 30000
+};
+
+const DEFAULT_CIRCUIT_BREAKER: Required<CircuitBreakerConfig> = {
+  windowSize: 20,
+  minRequests: 10,
+  errorThreshold: 0.5,
+  cooldown: 30000
+};
+
+/**
+ * 熔断状态变化回调
+ */
+export interface CircuitBreakerListener {
+  /** 熔断打开：errorRate 为触发时窗口内的错误率，cooldown 为暂停时长（毫秒） */
+  onOpen?: (errorRate: number, cooldown: number) => void;
+  /** 暂停结束，恢复请求 */
+  onClose?: () => void;
+}
+
+/**
+ * 重试回调：attempt 为刚失败的尝试序号，delay 为下次尝试前的等待时间（毫秒）
+ */
+export type RetryListener = (attempt: number, delay: number, error: any) => void;
+
+/**
+ * 熔断器 - 统计最近请求的上游错误率，超过阈值时暂停所有请求一段时间
+ *
+ * 只有临时错误（网络错误、429、5xx）计入错误率，404、校验失败等与上游健康状况无关的错误视为正常响应
+ * 暂停结束后清空统计窗口，重新累计到 minRequests 次请求后才会再次判断
+ */
+export class CircuitBreaker {
+  private options: Required<CircuitBreakerConfig>;
+  private listener: CircuitBreakerListener;
+  // 最近请求的结果（true 表示失败）
+  private outcomes: boolean[] = [];
+  private paused: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private resolvePause: (() => void) | null = null;
+
+  constructor(config: CircuitBreakerConfig = {}, listener: CircuitBreakerListener = {}) {
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER, ...config };
+    this.listener = listener;
+  }
+
+  /**
+   * 记录一次请求结果
+   */
+  record(failed: boolean): void {
+    // 暂停期间仍在进行的请求不计入统计
+    if (this.paused) {
+      return;
+    }
+
+    this.outcomes.push(failed);
+    if (this.outcomes.length > this.options.windowSize) {
+      this.outcomes.shift();
+    }
+    if (this.outcomes.length < this.options.minRequests) {
+      return;
+    }
+
+    const errorRate = this.outcomes.filter(Boolean).length / this.outcomes.length;
+    if (errorRate >= this.options.errorThreshold) {
+      this.open(errorRate);
+    }
+  }
+
+  /**
+   * 熔断打开时等待暂停结束
+   */
+  async waitUntilClosed(): Promise<void> {
+    while (this.paused) {
+      await this.paused;
+    }
+  }
+
+  /**
+   * 释放计时器并放行所有等待中的请求（任务结束时调用）
+   */
+  dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.paused = null;
+    this.resolvePause?.();
+    this.resolvePause = null;
+  }
+
+  private open(errorRate: number): void {
+    const { cooldown } = this.options;
+    this.outcomes = [];
+    this.paused = new Promise<void>((resolve) => {
+      this.resolvePause = resolve;
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.paused = null;
+        this.resolvePause = null;
+        resolve();
+        this.listener.onClose?.();
+      }, cooldown);
+    });
+    this.listener.onOpen?.(errorRate, cooldown);
+  }
+}
+
+/**
+ * 重试策略 - 临时错误按指数退避 + 随机抖动重试，并遵循上游返回的 Retry-After
+ */
+export class RetryPolicy {
+  private options: Required<RetryConfig>;
+  private breaker?: CircuitBreaker;
+
+  constructor(config: RetryConfig = {}, breaker?: CircuitBreaker) {
+    this.options = { ...DEFAULT_RETRY, ...config };
+    this.options.maxAttempts = Math.max(1, Math.floor(this.options.maxAttempts));
+    this.breaker = breaker;
+  }
+
+  /**
+   * 执行请求，返回结果及实际尝试次数
+   * 最终失败时抛出最后一次的错误，并在错误上附加 attempts
+   */
+  async run<T>(
+    request: (attempt: number) => Promise<T>,
+    onRetry?: RetryListener
+  ): Promise<{ result: T; attempts: number }> {
+    for (let attempt = 1; ; attempt++) {
+      await this.breaker?.waitUntilClosed();
+
+      try {
+        const result = await request(attempt);
+        this.breaker?.record(false);
+        return { result, attempts: attempt };
+      } catch (error: any) {
+        const transient = isTransientError(error);
+        this.breaker?.record(transient);
+
+        if (!transient || attempt >= this.options.maxAttempts) {
+          throw Object.assign(error, { attempts: attempt });
+        }
+
+        const delay = this.getDelay(attempt, getRetryAfter(error));
+        onRetry?.(attempt, delay, error);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * 第 n 次失败后的等待时间：baseDelay * 2^(n-1)，在 [50%, 100%] 区间随机抖动
+   * 上游返回 Retry-After 时至少等待该时长，两者都不超过 maxDelay
+   */
+  private getDelay(attempt: number, retryAfter?: number): number {
+    const { baseDelay, maxDelay } = this.options;
+    const exponential = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+    const jittered = exponential / 2 + Math.random() * (exponential / 2);
+    return Math.round(Math.min(maxDelay, Math.max(jittered, retryAfter ?? 0)));
+  }
+}
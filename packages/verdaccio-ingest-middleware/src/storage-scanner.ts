@@ -5,6 +5,8 @@ import { createGunzip } from 'zlib';
 import { createHash } from 'crypto';
 import pLimit from 'p-limit';
 import { Logger, Manifest, Version } from '@verdaccio/types';
+import { StorageIndex } from 'verdaccio-offline-common';
+import { readTarballFile } from './tarball-fetcher';
 import { CachedPackage, IngestConfig } from './types';
 
 /**
@@ -14,11 +16,13 @@ export class StorageScanner {
   private config: IngestConfig;
   private logger: Logger;
   private storagePath: string;
+  private index?: StorageIndex;
 
-  constructor(config: IngestConfig, storagePath: string, logger: Logger) {
+  constructor(config: IngestConfig, storagePath: string, logger: Logger, index?: StorageIndex) {
     this.config = config;
     this.storagePath = storagePath;
     this.logger = logger;
+    this.index = index;
 
     this.logger.info(
       { storagePath },
@@ -38,6 +42,10 @@ export class StorageScanner {
    * 扫描所有已缓存的包
    */
   async scanAllPackages(): Promise<CachedPackage[]> {
+    if (this.index) {
+      return this.listIndexedPackages(this.index);
+    }
+
     const packages: CachedPackage[] = [];
 
     try {
@@ -90,6 +98,28 @@ export class StorageScanner {
     }
   }
 
+  /**
+   * 从存储索引列出已缓存的包（只包含有 tarball 的包）
+   */
+  private async listIndexedPackages(index: StorageIndex): Promise<CachedPackage[]> {
+    const packages: CachedPackage[] = [];
+
+    for (const [name, entry] of await index.getAll()) {
+      const versions = Object.keys(entry.versions);
+      if (versions.length === 0) continue;
+
+      packages.push({
+        name,
+        versions,
+        dependencies: entry.metadata?.dependencies || {},
+        latestVersion: entry.metadata?.latest
+      });
+    }
+
+    this.logger.info({ count: packages.length }, 'Listed @{count} cached packages from storage index');
+    return packages;
+  }
+
   /**
    * 扫描 scoped 包目录
    */
@@ -268,6 +298,11 @@ export class StorageScanner {
    * 检查特定版本是否存在
    */
   async hasVersion(packageName: string, version: string): Promise<boolean> {
+    if (this.index) {
+      const entry = await this.index.getPackage(packageName);
+      return !!entry?.versions[version];
+    }
+
     const packagePath = this.getPackagePath(packageName);
     const tarballName = this.getTarballName(packageName, version);
     const tarballPath = path.join(packagePath, tarballName);
@@ -304,6 +339,19 @@ export class StorageScanner {
     }
   }
 
+  /**
+   * 读取已缓存 tarball 中的文件（路径相对于包根目录），tarball 或文件不存在时返回 null
+   */
+  async readPackageFile(packageName: string, version: string, file: string): Promise<string | null> {
+    const tarballPath = path.join(this.getPackagePath(packageName), this.getTarballName(packageName, version));
+    try {
+      const content = await readTarballFile(tarballPath, file);
+      return content ? content.toString('utf-8') : null;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * 从 tarball 中提取版本元数据
    */
@@ -0,0 +1,148 @@
+import { once } from 'events';
+import { Writable } from 'stream';
+
+const BLOCK_SIZE = 512;
+// ustar 头中 name 字段与八进制数值字段的上限
+const NAME_LENGTH = 100;
+const MAX_OCTAL_SIZE = 0o77777777777;
+
+/**
+ * 流式 tar 写入器
+ *
+ * 直接向输出流（通常为 gzip 流）写入 ustar 格式的文件条目，不需要先把文件放到磁盘目录中；
+ * 路径过长、包含非 ASCII 字符或文件超过 8 GB 时写入 PAX 扩展头。写入时遵循输出流的背压
+ */
+export class TarWriter {
+  private output: Writable;
+
+  constructor(output: Writable) {
+    this.output = output;
+  }
+
+  /**
+   * 写入文件条目，size 必须与 chunks 的总长度一致，否则抛出错误
+   */
+  async addFile(
+    name: string,
+    size: number,
+    mtime: Date,
+    chunks: AsyncIterable<Buffer> | Iterable<Buffer>,
+    onChunk?: (chunk: Buffer) => void
+  ): Promise<void> {
+    await this.writeHeader(name, size, mtime);
+
+    let written = 0;
+    for await (const chunk of chunks) {
+      written += chunk.length;
+      if (written > size) {
+        throw new Error(`Entry ${name} is larger than the declared ${size} bytes`);
+      }
+      onChunk?.(chunk);
+      await this.write(chunk);
+    }
+    if (written !== size) {
+      throw new Error(`Entry ${name} has ${written} bytes, expected ${size}`);
+    }
+
+    await this.writePadding(size);
+  }
+
+  /**
+   * 写入内存中的内容
+   */
+  async addBuffer(name: string, content: Buffer, mtime: Date = new Date()): Promise<void> {
+    await this.writeHeader(name, content.length, mtime);
+    await this.write(content);
+    await this.writePadding(content.length);
+  }
+
+  /**
+   * 写入归档结束标记（两个空块）并结束输出流
+   */
+  async finish(): Promise<void> {
+    await this.write(Buffer.alloc(BLOCK_SIZE * 2));
+    this.output.end();
+  }
+
+  private async writeHeader(name: string, size: number, mtime: Date): Promise<void> {
+    const pax: Record<string, string> = {};
+    if (Buffer.byteLength(name) > NAME_LENGTH || !/^[\x20-\x7e]*$/.test(name)) {
+      pax.path = name;
+    }
+    if (size > MAX_OCTAL_SIZE) {
+      pax.size = String(size);
+    }
+
+    const shortName = toAsciiName(name);
+    if (Object.keys(pax).length > 0) {
+      const records = Buffer.from(Object.entries(pax).map(([key, value]) => encodePaxRecord(key, value)).join(''));
+      await this.write(encodeHeader(`PaxHeader/${shortName}`.slice(0, NAME_LENGTH), records.length, mtime, 'x'));
+      await this.write(records);
+      await this.writePadding(records.length);
+    }
+
+    await this.write(encodeHeader(shortName, size > MAX_OCTAL_SIZE ? 0 : size, mtime, '0'));
+  }
+
+  private async writePadding(size: number): Promise<void> {
+    const remainder = size % BLOCK_SIZE;
+    if (remainder > 0) {
+      await this.write(Buffer.alloc(BLOCK_SIZE - remainder));
+    }
+  }
+
+  private async write(chunk: Buffer): Promise<void> {
+    if (!this.output.write(chunk)) {
+      await once(this.output, 'drain');
+    }
+  }
+}
+
+/**
+ * 编码 ustar 头（typeflag '0' 为普通文件，'x' 为 PAX 扩展头）
+ */
+function encodeHeader(name: string, size: number, mtime: Date, typeflag: '0' | 'x'): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE);
+  header.write(name, 0, NAME_LENGTH, 'ascii');
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, Math.max(0, Math.floor(mtime.getTime() / 1000)), 136, 12);
+  header.write(typeflag, 156, 1, 'ascii');
+  header.write('ustar\u000000', 257, 8, 'ascii');
+
+  // 计算校验和时校验和字段视为 8 个空格
+  header.fill(' ', 148, 156);
+  let checksum = 0;
+  for (const byte of header) {
+    checksum += byte;
+  }
+  header.write(`${checksum.toString(8).padStart(6, '0')}\u0000 `, 148, 8, 'ascii');
+
+  return header;
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  header.write(`${value.toString(8).padStart(length - 1, '0')}\u0000`, offset, length, 'ascii');
+}
+
+/**
+ * PAX 记录格式为 "<长度> <键>=<值>\n"，长度包含长度数字本身
+ */
+function encodePaxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = Buffer.byteLength(body);
+  let length = bodyLength + String(bodyLength).length;
+  if (String(length).length + bodyLength !== length) {
+    length = bodyLength + String(length).length;
+  }
+  return `${length}${body}`;
+}
+
+/**
+ * ustar name 字段只保存 ASCII，完整路径由 PAX 头提供
+ */
+function toAsciiName(name: string): string {
+  return name.replace(/[^\x20-\x7e]/g, '_').slice(0, NAME_LENGTH);
+}
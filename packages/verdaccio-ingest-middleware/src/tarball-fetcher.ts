@@ -0,0 +1,196 @@
+import { createHash, getHashes, Hash, randomBytes } from 'crypto';
+import { createWriteStream } from 'fs';
+import { rename, unlink } from 'fs/promises';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import semver from 'semver';
+import tar from 'tar';
+import { readPackageJson } from 'verdaccio-offline-common';
+import { createRegistryError, openRegistryStream } from './registry-client';
+import { RegistryTarget } from './types';
+
+// SRI 支持的摘要算法（由弱到强）
+const INTEGRITY_ALGORITHMS = ['sha1', 'sha256', 'sha384', 'sha512'];
+
+/**
+ * 上游 packument 中声明的 tarball 信息，用于校验下载内容
+ */
+export interface ExpectedTarball {
+  name: string;
+  version: string;
+  integrity?: string;
+  shasum?: string;
+}
+
+/**
+ * 已落盘 tarball 的摘要信息
+ */
+export interface TarballDigest {
+  shasum: string;
+  integrity: string;
+  size: number;
+}
+
+/**
+ * 下载进度回调：received 为本次请求已接收的字节数，total 为响应声明的长度（未知时为 undefined）
+ */
+export type TarballProgressListener = (received: number, total?: number) => void;
+
+/**
+ * 创建 tarball 校验错误（不会触发上游回退，该包直接失败）
+ */
+export function createTarballError(message: string, code: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+/**
+ * 流式下载 tarball 并校验
+ *
+ * 1. 边下载边计算摘要，写入同目录下的临时文件，不在内存中缓存整个 tarball
+ * 2. 与上游声明的 dist.integrity / dist.shasum 比对
+ * 3. 检查 tarball 内 package.json 的 name / version 与请求的版本一致
+ * 4. 全部通过后重命名到目标路径，中途失败或进程中断不会留下不完整的 .tgz
+ */
+export async function fetchTarball(
+  target: RegistryTarget,
+  url: string,
+  destPath: string,
+  expected: ExpectedTarball,
+  onProgress?: TarballProgressListener
+): Promise<TarballDigest> {
+  const spec = `${expected.name}@${expected.version}`;
+  const response = await openRegistryStream(target, url, { accept: 'application/octet-stream' });
+  const status = response.statusCode || 0;
+  if (status < 200 || status >= 300) {
+    response.resume();
+    throw createRegistryError(`GET ${url} failed with status ${status}`, status, response.headers);
+  }
+
+  const expectedIntegrity = parseIntegrity(expected.integrity);
+  const algorithms = new Set(['sha1', 'sha512', ...expectedIntegrity.keys()]);
+  const hashes = new Map<string, Hash>();
+  for (const algorithm of algorithms) {
+    hashes.set(algorithm, createHash(algorithm));
+  }
+
+  const contentLength = Number(response.headers['content-length']) || undefined;
+  let size = 0;
+  const hasher = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      for (const hash of hashes.values()) {
+        hash.update(chunk);
+      }
+      onProgress?.(size, contentLength);
+      callback(null, chunk);
+    }
+  });
+
+  const tempPath = `${destPath}.${process.pid}-${randomBytes(4).toString('hex')}.tmp`;
+
+  try {
+    await pipeline(response, hasher, createWriteStream(tempPath));
+
+    if (size === 0) {
+      throw createTarballError(`Downloaded tarball for ${spec} is empty`, 'EEMPTYTARBALL');
+    }
+
+    const digests = new Map<string, string>();
+    for (const [algorithm, hash] of hashes) {
+      digests.set(algorithm, hash.digest('base64'));
+    }
+    const shasum = Buffer.from(digests.get('sha1')!, 'base64').toString('hex');
+
+    verifyIntegrity(spec, expectedIntegrity, digests);
+    if (expected.shasum && expected.shasum.toLowerCase() !== shasum) {
+      throw createTarballError(
+        `Shasum mismatch for ${spec}: expected ${expected.shasum}, got ${shasum}`,
+        'EINTEGRITY'
+      );
+    }
+
+    const packageJson = await readPackageJson(tempPath, spec);
+    if (packageJson.name !== expected.name || !isSameVersion(packageJson.version, expected.version)) {
+      throw createTarballError(
+        `Tarball for ${spec} contains ${packageJson.name}@${packageJson.version}`,
+        'EPACKAGEMISMATCH'
+      );
+    }
+
+    await rename(tempPath, destPath);
+
+    return { shasum, integrity: `sha512-${digests.get('sha512')}`, size };
+  } catch (error) {
+    await unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * 解析 SRI 字符串（可能包含多个以空格分隔的摘要），只保留本机支持的算法
+ */
+function parseIntegrity(integrity?: string): Map<string, string[]> {
+  const supported = new Set(getHashes());
+  const parsed = new Map<string, string[]>();
+
+  for (const entry of (integrity || '').trim().split(/\s+/)) {
+    const match = entry.match(/^([a-z0-9]+)-([A-Za-z0-9+/=]+)(\?.*)?$/i);
+    if (!match) continue;
+    const algorithm = match[1].toLowerCase();
+    if (!INTEGRITY_ALGORITHMS.includes(algorithm) || !supported.has(algorithm)) continue;
+    parsed.set(algorithm, [...(parsed.get(algorithm) || []), match[2]]);
+  }
+
+  return parsed;
+}
+
+/**
+ * 使用最强的声明算法校验：该算法下任一摘要匹配即通过
+ */
+function verifyIntegrity(
+  spec: string,
+  expected: Map<string, string[]>,
+  digests: Map<string, string>
+): void {
+  const algorithm = [...INTEGRITY_ALGORITHMS].reverse().find((name) => expected.has(name));
+  if (!algorithm) {
+    return;
+  }
+
+  const actual = digests.get(algorithm)!;
+  const candidates = expected.get(algorithm)!;
+  if (!candidates.includes(actual)) {
+    throw createTarballError(
+      `Integrity mismatch for ${spec}: expected ${algorithm}-${candidates[0]}, got ${algorithm}-${actual}`,
+      'EINTEGRITY'
+    );
+  }
+}
+
+/**
+ * 读取 tarball 顶层目录下的指定文件（如 package/lib/cjs/revisions.js），文件不存在时返回 null
+ */
+export async function readTarballFile(tarballPath: string, file: string): Promise<Buffer | null> {
+  let content: Buffer | null = null;
+  await tar.t({
+    file: tarballPath,
+    filter: (entryPath) => content === null && entryPath.replace(/^[^/]+\//, '') === file,
+    onentry: (entry) => {
+      const chunks: Buffer[] = [];
+      entry.on('data', (chunk: Buffer) => chunks.push(chunk));
+      entry.on('end', () => {
+        content = Buffer.concat(chunks);
+      });
+    }
+  });
+  return content;
+}
+
+function isSameVersion(actual: string, expected: string): boolean {
+  if (actual === expected) {
+    return true;
+  }
+  const left = semver.valid(actual, { loose: true });
+  const right = semver.valid(expected, { loose: true });
+  return !!left && !!right && semver.eq(left, right);
+}
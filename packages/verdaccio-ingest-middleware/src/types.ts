@@ -1,11 +1,47 @@
 import { Manifest, Version, Dist } from '@verdaccio/types';
+import {
+  RegistryConfig,
+  StorageIndexConfig,
+  StorageIndexStats,
+  StorageInventory
+} from 'verdaccio-offline-common';
+
+// 存储索引、搜索索引、存储审计与上游路由的类型由 verdaccio-offline-common 定义，各插件共用
+export {
+  StorageIndexConfig,
+  SearchIndexEntry,
+  SearchPackageLinks,
+  SearchIndexFile,
+  SearchQuery,
+  SearchResultObject,
+  SearchResponse,
+  StorageIndexTarball,
+  StorageIndexPackage,
+  StorageIndexFile,
+  StorageIndexStats,
+  StorageIssueCategory,
+  StorageRepairAction,
+  StorageIssue,
+  StorageAuditRequest,
+  StorageAuditReport,
+  StorageRepairRequest,
+  StorageRepairResult,
+  RegistryConfig,
+  RegistryTarget,
+  EncryptedArchiveHeader,
+  EncryptedArchiveRecipient,
+  StorageInventory
+} from 'verdaccio-offline-common';
 
 /**
  * 平台配置
  */
 export interface PlatformConfig {
-  os: 'linux' | 'win32' | 'darwin';
-  arch: 'x64' | 'arm64' | 'ia32';
+  /** 与 process.platform / package.json 的 os 字段取值一致 */
+  os: 'linux' | 'win32' | 'darwin' | 'freebsd' | 'android';
+  /** 与 process.arch / package.json 的 cpu 字段取值一致 */
+  arch: 'x64' | 'arm64' | 'ia32' | 'arm' | 's390x' | 'ppc64';
+  /** 仅 Linux 有效，与 package.json 的 libc 字段取值一致；未指定时 glibc / musl 均匹配 */
   libc?: 'glibc' | 'musl';
 }
 
@@ -19,6 +55,120 @@ export interface IngestConfig {
   timeout?: number;
   platforms?: PlatformConfig[];
   sync?: SyncOptions;
+  /** 内存中保留的 packument 数量上限（LRU 淘汰，磁盘缓存不受影响） */
+  packumentCacheSize?: number;
+  /** 按顺序尝试的默认上游列表（URL 或 uplink 名称），超时、5xx、404 时回退到下一个 */
+  upstreamRegistries?: Array<string | RegistryConfig>;
+  /** scope 到上游 registry 的映射，如 { '@myorg': 'https://npm.pkg.github.com' }，优先于 packages 的 proxy 规则 */
+  registries?: Record<string, string | RegistryConfig>;
+  /** 下载失败时的重试策略（仅对 ECONNRESET、429、5xx 等临时错误重试） */
+  retry?: RetryConfig;
+  /** 上游错误率过高时暂停下载任务，设为 false 关闭 */
+  circuitBreaker?: CircuitBreakerConfig | false;
+  /** 安装脚本从 CDN / GitHub Releases 下载的二进制制品（electron、node-pre-gyp 等） */
+  artifacts?: ArtifactsConfig;
+  /** node-gyp 编译原生模块所需的 Node.js headers / 发行包 */
+  nodeDist?: NodeDistConfig;
+  /** 安全公告库（供内网 npm audit 使用） */
+  advisories?: AdvisoriesConfig;
+  /** 持久化的存储索引（代替每次请求重新扫描存储目录） */
+  storageIndex?: StorageIndexConfig;
+  /** 导出清单签名（内网按受信任的公钥校验） */
+  exportSigning?: ExportSigningConfig;
+}
+
+/**
+ * 下载重试配置
+ */
+export interface RetryConfig {
+  /** 每个包最多尝试次数（含首次，默认 3） */
+  maxAttempts?: number;
+  /** 首次重试前的等待时间（毫秒，默认 1000），之后按指数增长并加入随机抖动 */
+  baseDelay?: number;
+  /** 单次等待上限（毫秒，默认 30000），上游返回的 Retry-After 同样受此限制 */
+  maxDelay?: number;
+}
+
+/**
+ * 熔断配置
+ */
+export interface CircuitBreakerConfig {
+  /** 统计最近多少次请求的错误率（默认 20） */
+  windowSize?: number;
+  /** 窗口内至少多少次请求后才判断是否熔断（默认 10） */
+  minRequests?: number;
+  /** 触发熔断的错误率（0-1，默认 0.5） */
+  errorThreshold?: number;
+  /** 熔断后暂停时长（毫秒，默认 30000） */
+  cooldown?: number;
+}
+
+/**
+ * 二进制制品镜像配置
+ */
+export interface ArtifactsConfig {
+  /** 需要镜像的 Node.js ABI（process.versions.modules，如 115），默认为当前进程的 ABI */
+  nodeAbis?: number[];
+  /** 自定义制品规则；某个包配置了自定义规则时不再使用该包的内置规则 */
+  recipes?: ArtifactRecipeConfig[];
+}
+
+/**
+ * Node.js 发行文件镜像配置
+ */
+export interface NodeDistConfig {
+  /** Node.js 版本（精确版本或 semver 范围，如 20.11.0、^18），默认为当前进程的版本 */
+  versions?: string[];
+  /** 是否同时下载目标平台的完整发行包（默认 false，只下载 headers） */
+  full?: boolean;
+  /** 上游地址（默认 https://nodejs.org/dist/） */
+  baseUrl?: string;
+}
+
+/**
+ * 安全公告库配置
+ */
+export interface AdvisoriesConfig {
+  /** bulk advisory 接口所在的 registry（默认为默认上游） */
+  registry?: string;
+  /** 每次请求查询的包数量（默认 100） */
+  batchSize?: number;
+  /** 保留的快照数量（默认 3） */
+  keepRevisions?: number;
+}
+
+/**
+ * 导出清单签名配置（privateKey 与 openpgpKey 至少配置一个）
+ */
+export interface ExportSigningConfig {
+  /** Ed25519 私钥（PKCS#8 PEM 内容或文件路径） */
+  privateKey?: string;
+  /** 写入签名的密钥标识（默认为公钥指纹） */
+  keyId?: string;
+  /** 同时生成 OpenPGP 分离签名时使用的 gpg 密钥（gpg --local-user 的值），私钥不能需要交互输入口令 */
+  openpgpKey?: string;
+  /** gpg 主目录（默认为 gpg 自身的默认目录） */
+  gpgHome?: string;
+}
+
+/**
+ * 自定义制品规则
+ * files 中的路径模板支持 {version} {os} {arch} {libc} {platform} {abi} 占位符，
+ * 上游地址为 baseUrl + 路径，保存到 storage/.artifacts/<mirror>/<路径>
+ */
+export interface ArtifactRecipeConfig {
+  /** 包名 */
+  package: string;
+  /** 适用的版本范围（默认全部版本） */
+  versions?: string;
+  /** 镜像目录（/_/artifacts/<mirror>/），默认为包名 */
+  mirror?: string;
+  /** 上游地址前缀 */
+  baseUrl: string;
+  /** 相对 baseUrl 的文件路径模板 */
+  files: string[];
+  /** 安装时指向镜像的环境变量（仅用于提示） */
+  env?: string;
 }
 
 /**
@@ -31,6 +181,10 @@ export interface SyncOptions {
   includePeer?: boolean;
   includeOptional?: boolean;
   maxDepth?: number;
+  /** 目标平台：声明了 os / cpu / libc 且与所有目标平台都不匹配的依赖不会被下载 */
+  platforms?: PlatformConfig[];
+  /** 查询安全公告：版本范围优先解析到不受影响的版本，补充已缓存漏洞版本的修复版本，并标注待下载版本的公告 */
+  avoidVulnerable?: boolean;
 }
 
 /**
@@ -49,6 +203,156 @@ export interface SyncRequest {
   options?: SyncOptions;
 }
 
+/**
+ * 添加新包请求
+ */
+export interface AddPackagesRequest {
+  /** 包规格列表，例如 react@^18、@nestjs/core@10 */
+  packages: string[];
+  options?: SyncOptions;
+  /** 目标平台（可选依赖中的平台二进制包只保留匹配的平台） */
+  platforms?: PlatformConfig[];
+}
+
+/**
+ * 二进制制品镜像请求
+ */
+export interface ArtifactsRequest {
+  /** 要处理的版本，未指定时处理所有已缓存的版本 */
+  packages?: Array<{ name: string; version: string }>;
+  platforms?: PlatformConfig[];
+}
+
+/**
+ * 需要镜像的单个制品文件
+ */
+export interface ArtifactFile {
+  /** 提供该制品的包 */
+  name: string;
+  version: string;
+  /** 镜像目录（/_/artifacts/<mirror>/） */
+  mirror: string;
+  /** 镜像目录下的相对路径 */
+  path: string;
+  /** 上游地址 */
+  url: string;
+  /** 安装时指向镜像的环境变量 */
+  env?: string;
+  /** 上游公布的 SHA256（十六进制），下载后校验 */
+  sha256?: string;
+}
+
+/**
+ * 单个制品的下载结果
+ */
+export interface ArtifactDownloadStatus extends ArtifactFile {
+  status: 'success' | 'skipped' | 'failed';
+  size?: number;
+  error?: string;
+  attempts?: number;
+}
+
+/**
+ * 二进制制品镜像结果
+ */
+export interface ArtifactsResult {
+  /** 检查的版本数 */
+  scanned: number;
+  downloaded: number;
+  skipped: number;
+  failed: number;
+  files: ArtifactDownloadStatus[];
+  /** 环境变量到镜像路径的映射（路径相对于内网 registry 地址） */
+  env: Record<string, string>;
+}
+
+/**
+ * Node.js 发行文件镜像请求（未指定的字段使用 nodeDist 配置）
+ */
+export interface NodeDistRequest {
+  versions?: string[];
+  full?: boolean;
+  platforms?: PlatformConfig[];
+}
+
+/**
+ * Node.js 发行文件镜像结果
+ */
+export interface NodeDistResult extends ArtifactsResult {
+  /** 解析后的精确版本 */
+  versions: string[];
+}
+
+/**
+ * 安全公告严重程度
+ */
+export type AdvisorySeverity = 'info' | 'low' | 'moderate' | 'high' | 'critical';
+
+/**
+ * 安全公告（字段与 npm bulk advisory 接口的返回一致）
+ */
+export interface Advisory {
+  id: number;
+  url: string;
+  title: string;
+  severity: AdvisorySeverity;
+  /** 受影响的版本范围 */
+  vulnerable_versions: string;
+  cwe?: string[];
+  cvss?: { score: number; vectorString: string | null };
+}
+
+/**
+ * 安全公告库快照（storage/.advisories/advisories-<revision>.json）
+ */
+export interface AdvisoryDbSnapshot {
+  /** 文件格式版本 */
+  format: number;
+  /** 快照版本（生成时间戳），内网加载版本号最大的快照 */
+  revision: number;
+  generatedAt: string;
+  /** 查询的 registry */
+  registry: string;
+  /** 本次查询的包数量 */
+  packages: number;
+  /** 包名 -> 安全公告（无公告的包不记录） */
+  advisories: Record<string, Advisory[]>;
+}
+
+/**
+ * 安全公告库统计
+ */
+export interface AdvisoryDbSummary {
+  revision: number;
+  generatedAt: string;
+  registry: string;
+  packages: number;
+  /** 存在安全公告的包数量 */
+  vulnerablePackages: number;
+  /** 公告数量（按 id 去重） */
+  advisories: number;
+  severities: Record<AdvisorySeverity, number>;
+}
+
+/**
+ * 安全公告同步请求（未指定 packages 时查询所有已缓存的包）
+ */
+export interface AdvisoriesRequest {
+  packages?: string[];
+}
+
+/**
+ * 安全公告同步结果
+ */
+export interface AdvisorySyncResult extends AdvisoryDbSummary {
+  /** 快照文件（相对 storage） */
+  file: string;
+  /** 本次查询的包数量 */
+  checked: number;
+  /** 查询失败的包（沿用上一快照的数据） */
+  failed: string[];
+}
+
 /**
  * 平台下载请求
  */
@@ -68,6 +372,10 @@ export interface ResolvedPackage {
   devDependencies?: Record<string, string>;
   peerDependencies?: Record<string, string>;
   optionalDependencies?: Record<string, string>;
+  /** 依赖来源（name@version），根节点为空 */
+  requiredBy?: string;
+  /** 解析该版本时使用的上游 registry */
+  registry?: string;
 }
 
 /**
@@ -81,6 +389,8 @@ export interface DownloadResult {
   integrity: string;
   size: number;
   manifest: any;
+  /** 实际提供 tarball 的上游 registry */
+  registry: string;
 }
 
 /**
@@ -109,9 +419,124 @@ export interface RefreshedMetadata {
 export interface PackageToDownload {
   name: string;
   version: string;
-  reason: 'newer-version' | 'missing-dependency' | 'platform-binary' | 'sibling-version';
+  reason:
+    | 'newer-version'
+    | 'missing-dependency'
+    | 'platform-binary'
+    | 'sibling-version'
+    | 'lockfile'
+    | 'requested'
+    | 'security-fix';
   /** 被哪个包依赖（用于追踪依赖链） */
   requiredBy?: string;
+  /** 解析该版本时使用的上游 registry（多上游回退时用于追踪来源） */
+  registry?: string;
+  /** 预计大小（字节，取自 dist.unpackedSize），仅用于安排下载顺序 */
+  size?: number;
+  /** 影响该版本的安全公告（仅 avoidVulnerable 分析时标注） */
+  advisories?: Advisory[];
+  /** 公告中最高的严重程度 */
+  severity?: AdvisorySeverity;
+}
+
+/**
+ * 依赖类型
+ */
+export type DependencyType =
+  | 'dependencies'
+  | 'devDependencies'
+  | 'peerDependencies'
+  | 'optionalDependencies';
+
+/**
+ * 依赖描述类型
+ */
+export type DependencySpecType =
+  | 'registry'
+  | 'alias'
+  | 'workspace'
+  | 'file'
+  | 'link'
+  | 'git'
+  | 'github'
+  | 'tarball'
+  | 'other';
+
+/**
+ * 无法从 registry 离线获取的依赖
+ */
+export interface UnresolvedDependency {
+  name: string;
+  /** 原始依赖描述（版本范围、URL、路径等） */
+  spec: string;
+  type: DependencySpecType;
+  /** 引入该依赖的包（name@version 或来源） */
+  requiredBy: string[];
+  /** 附加说明（如 registry 中没有匹配的版本） */
+  error?: string;
+}
+
+/**
+ * 分析过程中的附加记录
+ */
+export interface AnalysisTrace {
+  /** 依赖边 */
+  edges?: DependencyEdge[];
+  /** 无法解析的依赖 */
+  unresolved?: UnresolvedDependency[];
+}
+
+/**
+ * 依赖图中的一条边
+ */
+export interface DependencyEdge {
+  /** 父节点 name@version；根节点的父节点为虚拟来源（local-cache、update-to-latest 等） */
+  parent: string;
+  /** 子节点 name@version */
+  child: string;
+  /** 父节点声明的版本范围 */
+  range: string;
+  /** 依赖类型，虚拟来源到根节点的边为 root */
+  type: DependencyType | 'root';
+  /** 子节点所在层级（根节点为 0） */
+  depth: number;
+}
+
+/**
+ * 依赖图中的节点
+ */
+export interface DependencyGraphNode {
+  /** name@version 或虚拟来源名称 */
+  id: string;
+  name: string;
+  version?: string;
+  /** 是否为虚拟来源 */
+  virtual?: boolean;
+  /** 是否在待下载列表中 */
+  toDownload?: boolean;
+  reason?: PackageToDownload['reason'];
+}
+
+/**
+ * 分析依赖图
+ */
+export interface DependencyGraph {
+  analysisId: string;
+  nodes: DependencyGraphNode[];
+  edges: DependencyEdge[];
+}
+
+/**
+ * "为什么需要这个包" 查询结果
+ */
+export interface WhyResult {
+  analysisId: string;
+  name: string;
+  version?: string;
+  /** 每条路径从虚拟来源开始，到目标包结束 */
+  paths: string[][];
+  /** 路径数超过上限时被截断 */
+  truncated: boolean;
 }
 
 /**
@@ -124,6 +549,43 @@ export interface AnalysisResult {
   toDownload: PackageToDownload[];
   platforms: string[];
   timestamp: number;
+  /** 锁文件分析摘要（仅锁文件分析时存在） */
+  lockfile?: LockfileSummary;
+  /** 无法从 registry 获取的依赖（git / file / workspace 等），下载前需人工处理 */
+  unresolved?: UnresolvedDependency[];
+  /** 含平台二进制的版本及其尚缺的目标平台（每个已缓存版本与待下载版本分别列出） */
+  binaries?: PlatformBinaryStatus[];
+  /** 安全公告查询失败的包（仅 avoidVulnerable 分析时存在，这些包的版本选择未考虑安全公告） */
+  advisoryFailures?: string[];
+}
+
+/**
+ * 平台特定的可选依赖（如 @esbuild/linux-x64）
+ */
+export interface PlatformDependency {
+  name: string;
+  version: string;
+  registry?: string;
+}
+
+/**
+ * 单个目标平台匹配到的二进制包
+ */
+export interface PlatformBinaryMatch {
+  platform: PlatformConfig;
+  dependencies: PlatformDependency[];
+}
+
+/**
+ * 含平台二进制的版本在各目标平台上的完整性
+ */
+export interface PlatformBinaryStatus {
+  name: string;
+  version: string;
+  /** 上游有对应二进制、但本地尚未缓存的平台 */
+  missingPlatforms: string[];
+  /** 上游没有提供对应二进制的平台 */
+  unsupportedPlatforms: string[];
 }
 
 /**
@@ -144,6 +606,10 @@ export interface PackageDownloadStatus {
   status: 'pending' | 'downloading' | 'success' | 'failed';
   error?: string;
   size?: number;
+  /** 实际提供 tarball 的上游 registry */
+  registry?: string;
+  /** 尝试次数（含重试） */
+  attempts?: number;
 }
 
 /**
@@ -181,6 +647,8 @@ export interface CacheStatus {
     versions: string[];
     latestCached: string;
   }>;
+  /** 存储索引统计（未启用时为空） */
+  storageIndex?: StorageIndexStats;
 }
 
 /**
@@ -207,6 +675,40 @@ export interface AnalysisProgress {
   phaseDescription: string;
 }
 
+/**
+ * 下载进度详情
+ */
+export interface DownloadProgress {
+  /** 当前阶段 */
+  phase: 'downloading' | 'refreshing-metadata' | 'completed';
+  /** 当前阶段进度百分比 (0-100) */
+  phaseProgress: number;
+  /** 总体进度百分比 (0-100) */
+  totalProgress: number;
+  /** 最近开始下载的包 */
+  currentPackage?: string;
+  /** 已完成（成功或失败）的包数量 */
+  processed: number;
+  /** 包总数 */
+  total: number;
+  /** 开始时间戳 */
+  startTime: number;
+  /** 预估剩余时间（毫秒，按剩余字节数与当前速度计算） */
+  estimatedRemaining?: number;
+  /** 当前阶段描述 */
+  phaseDescription: string;
+  /** 正在下载的包 */
+  active: string[];
+  succeeded: number;
+  failed: number;
+  /** 已下载字节数 */
+  bytesDownloaded: number;
+  /** 预计总字节数（未开始的包按已完成包的平均大小估算） */
+  totalBytes?: number;
+  /** 下载速度（字节/秒，最近几秒的滑动平均） */
+  throughput: number;
+}
+
 /**
  * 进度回调函数类型
  */
@@ -217,13 +719,104 @@ export type ProgressCallback = (progress: AnalysisProgress) => void;
  */
 export interface TaskStatus {
   taskId: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'paused' | 'completed' | 'failed';
   progress?: number;
   message?: string;
   result?: any;
   error?: string;
   /** 详细进度信息 */
-  detailedProgress?: AnalysisProgress | ExportProgress;
+  detailedProgress?: AnalysisProgress | ExportProgress | DownloadProgress;
+}
+
+// ==================== 锁文件分析相关类型 ====================
+
+/**
+ * 支持的锁文件格式
+ */
+export type LockfileType = 'package-lock' | 'yarn-classic' | 'yarn-berry' | 'pnpm';
+
+/**
+ * 锁文件分析请求
+ */
+export interface LockfileAnalysisRequest {
+  /** 锁文件内容 */
+  lockfile: string;
+  /** 锁文件名（用于识别格式，缺省时根据内容自动识别） */
+  filename?: string;
+  /** 项目 package.json（用于读取 overrides / resolutions / pnpm.overrides） */
+  packageJson?: string | Record<string, any>;
+  /** 目标平台（带 os/cpu 限制的包仅保留匹配的平台） */
+  platforms?: PlatformConfig[];
+}
+
+/**
+ * 锁文件中锁定的包
+ */
+export interface LockedPackage {
+  name: string;
+  version: string;
+  dev?: boolean;
+  optional?: boolean;
+  os?: string[];
+  cpu?: string[];
+  libc?: string[];
+}
+
+/**
+ * 覆盖规则（overrides / resolutions / pnpm.overrides）
+ */
+export interface OverrideRule {
+  /** 原始键（npm 嵌套规则以 ">" 连接父包） */
+  key: string;
+  /** 父包路径，空数组表示全局规则 */
+  parents: string[];
+  name: string;
+  /** 键中限定的版本范围（如 "foo@1" 中的 "1"） */
+  selector?: string;
+  target: string;
+}
+
+/**
+ * 覆盖规则与锁定版本的比对结果
+ */
+export interface OverrideCheck {
+  key: string;
+  target: string;
+  /** 规则带父包路径，只作用于部分依赖路径，不做比对 */
+  scoped: boolean;
+  /** 锁文件中该包的锁定版本 */
+  locked: string[];
+  /** 不满足目标范围的锁定版本 */
+  mismatched: string[];
+}
+
+/**
+ * 锁文件解析结果
+ */
+export interface ParsedLockfile {
+  type: LockfileType;
+  lockfileVersion: string;
+  packages: LockedPackage[];
+  /** 锁文件自带的覆盖规则（如 pnpm-lock.yaml 的 overrides） */
+  overrides: Record<string, string>;
+  /** 无法从 registry 获取而跳过的条目（git / file / workspace 等） */
+  skipped: UnresolvedDependency[];
+}
+
+/**
+ * 锁文件分析摘要
+ */
+export interface LockfileSummary {
+  type: LockfileType;
+  lockfileVersion: string;
+  /** 锁文件中锁定的包总数（平台过滤后） */
+  total: number;
+  /** 本地已缓存的数量 */
+  cached: number;
+  /** 覆盖规则数量（只用于报告，锁定版本以锁文件为准） */
+  overrides: number;
+  /** 锁定版本不符合的全局覆盖规则（锁文件可能未在修改覆盖规则后重新生成） */
+  overrideMismatches: OverrideCheck[];
 }
 
 /**
@@ -233,10 +826,20 @@ export const PLATFORM_PRESETS: Record<string, PlatformConfig> = {
   'linux-x64': { os: 'linux', arch: 'x64', libc: 'glibc' },
   'linux-arm64': { os: 'linux', arch: 'arm64', libc: 'glibc' },
   'linux-x64-musl': { os: 'linux', arch: 'x64', libc: 'musl' },
+  'linux-arm64-musl': { os: 'linux', arch: 'arm64', libc: 'musl' },
+  'linux-arm': { os: 'linux', arch: 'arm', libc: 'glibc' },
+  'linux-ia32': { os: 'linux', arch: 'ia32', libc: 'glibc' },
+  'linux-s390x': { os: 'linux', arch: 's390x', libc: 'glibc' },
+  'linux-ppc64': { os: 'linux', arch: 'ppc64', libc: 'glibc' },
   'win32-x64': { os: 'win32', arch: 'x64' },
   'win32-arm64': { os: 'win32', arch: 'arm64' },
+  'win32-ia32': { os: 'win32', arch: 'ia32' },
   'darwin-x64': { os: 'darwin', arch: 'x64' },
-  'darwin-arm64': { os: 'darwin', arch: 'arm64' }
+  'darwin-arm64': { os: 'darwin', arch: 'arm64' },
+  'freebsd-x64': { os: 'freebsd', arch: 'x64' },
+  'freebsd-arm64': { os: 'freebsd', arch: 'arm64' },
+  'android-arm64': { os: 'android', arch: 'arm64' },
+  'android-arm': { os: 'android', arch: 'arm' }
 };
 
 // ==================== 差分导出相关类型 ====================
@@ -273,6 +876,16 @@ export interface ExportRecord {
   type: 'full' | 'incremental';
   /** 增量导出的基准时间 */
   baseTimestamp?: string;
+  /** 按存储清单导出时清单的生成时间 */
+  baseInventory?: string;
+  /** 分卷序号（从 1 开始，同一导出的各分卷共用 exportId） */
+  volumeIndex?: number;
+  /** 分卷总数（未分卷时为空） */
+  volumeCount?: number;
+  /** 清单签名使用的密钥（Ed25519 为 keyId，OpenPGP 为 openpgp:<密钥>） */
+  signedBy?: string[];
+  /** 加密导出包可由谁解密（passphrase 或 x25519:<公钥指纹>），未加密时为空 */
+  encryptedFor?: string[];
   /** 导出摘要 */
   summary: {
     packages: number;
@@ -292,6 +905,12 @@ export interface ExportManifest {
   timestamp: string;
   /** 增量导出的基准时间 */
   baseTimestamp?: string;
+  /** 按存储清单导出时清单的生成时间 */
+  baseInventory?: string;
+  /** 分卷序号（从 1 开始，files 与 stats 只包含本分卷的文件） */
+  volumeIndex?: number;
+  /** 分卷总数（未分卷时为空） */
+  volumeCount?: number;
   /** 导出类型 */
   type: 'full' | 'incremental';
   /** 来源系统信息 */
@@ -323,8 +942,8 @@ export interface ExportFileEntry {
   mtime: string;
   /** SHA256 校验和 */
   checksum: string;
-  /** 文件类型 */
-  type: 'tarball' | 'metadata';
+  /** 文件类型（artifact 为 .artifacts 下的二进制制品，advisory 为 .advisories 下的安全公告库快照） */
+  type: 'tarball' | 'metadata' | 'artifact' | 'advisory';
   /** 包名（已解码） */
   packageName?: string;
   /** 版本号（仅 tarball） */
@@ -343,8 +962,8 @@ export interface ScannedFile {
   size: number;
   /** 修改时间 */
   mtime: Date;
-  /** 文件类型 */
-  type: 'tarball' | 'metadata';
+  /** 文件类型（artifact 为 .artifacts 下的二进制制品，advisory 为 .advisories 下的安全公告库快照） */
+  type: 'tarball' | 'metadata' | 'artifact' | 'advisory';
   /** 包名 */
   packageName: string;
   /** 版本号 */
@@ -357,6 +976,8 @@ export interface ScannedFile {
 export interface ExportPreviewRequest {
   /** 基准时间（ISO 8601 或 'last' 表示上次导出时间） */
   since?: string | 'last';
+  /** 内网存储清单（提供时忽略 since，只导出清单中缺少或不一致的文件） */
+  inventory?: StorageInventory;
   /** 是否包含元数据文件 */
   includeMetadata?: boolean;
 }
@@ -368,6 +989,8 @@ export interface ExportPreviewResponse {
   success: boolean;
   /** 基准时间 */
   baseTimestamp?: string;
+  /** 存储清单的生成时间 */
+  baseInventory?: string;
   /** 文件列表 */
   files: ExportFileEntry[];
   /** 统计信息 */
@@ -385,10 +1008,26 @@ export interface ExportPreviewResponse {
 export interface ExportCreateRequest {
   /** 基准时间（ISO 8601 或 'last' 表示上次导出时间） */
   since?: string | 'last';
+  /** 内网存储清单（提供时忽略 since，只导出清单中缺少或不一致的文件） */
+  inventory?: StorageInventory;
   /** 是否包含元数据文件 */
   includeMetadata?: boolean;
   /** 自定义文件名前缀 */
   filenamePrefix?: string;
+  /** 每个分卷的最大大小（字节），超过时拆分为多个分卷 */
+  maxVolumeSize?: number;
+  /** 加密导出包（口令与接收方公钥至少提供一个，两者都提供时任一均可解密） */
+  encryption?: ExportEncryptionOptions;
+}
+
+/**
+ * 导出包加密选项
+ */
+export interface ExportEncryptionOptions {
+  /** 口令（至少 8 个字符，不会写入日志或导出历史） */
+  passphrase?: string;
+  /** 接收方的 X25519 公钥（SPKI PEM） */
+  recipientKey?: string;
 }
 
 /**
@@ -410,6 +1049,50 @@ export interface ExportTaskResult {
     packages: number;
     versions: number;
   };
+  /** 分卷列表（分卷导出时，filename / downloadUrl 为第一个分卷） */
+  volumes?: ExportVolumeInfo[];
+}
+
+/**
+ * 导出分卷信息
+ */
+export interface ExportVolumeInfo {
+  /** 分卷序号（从 1 开始） */
+  index: number;
+  filename: string;
+  downloadUrl: string;
+  fileSize: number;
+}
+
+/**
+ * 打包生成的单个导出文件（未分卷时只有一个）
+ */
+export interface ExportVolume {
+  filename: string;
+  path: string;
+  size: number;
+  /** 导出文件的 SHA256 校验和 */
+  checksum: string;
+  /** 本分卷的清单 */
+  manifest: ExportManifest;
+  /** 清单签名使用的密钥 */
+  signedBy?: string[];
+  /** 加密导出包可由谁解密 */
+  encryptedFor?: string[];
+}
+
+/**
+ * Ed25519 清单签名（导出包中的 .export-manifest.sig）
+ */
+export interface ManifestSignature {
+  format: 1;
+  algorithm: 'ed25519';
+  keyId: string;
+  /** 公钥指纹（SPKI DER 的 SHA-256） */
+  fingerprint: string;
+  signedAt: string;
+  /** 对 .export-manifest.json 原始字节的签名（base64） */
+  signature: string;
 }
 
 /**
@@ -441,3 +1124,37 @@ export interface ExportProgress {
   /** 总字节数 */
   totalBytes?: number;
 }
+
+/**
+ * packument 磁盘缓存条目
+ */
+export interface PackumentCacheEntry {
+  name: string;
+  /** 获取该 packument 的上游 registry */
+  registry?: string;
+  /** 上游返回的 ETag，用于 If-None-Match 条件请求 */
+  etag?: string;
+  /** 上游返回的 Last-Modified，用于 If-Modified-Since 条件请求 */
+  lastModified?: string;
+  /** 最近一次从上游获取或校验的时间戳 */
+  fetchedAt: number;
+  /** 精简后的 packument */
+  packument: any;
+}
+
+/**
+ * packument 缓存统计（每轮任务结束时输出）
+ */
+export interface PackumentCacheStats {
+  /** 本轮已校验过、直接命中内存的次数 */
+  hits: number;
+  /** 上游返回 304 的次数 */
+  notModified: number;
+  /** 上游返回完整数据的次数 */
+  fetched: number;
+  /** 上游不可用、回退使用磁盘旧数据的次数 */
+  stale: number;
+  /** 获取失败的次数 */
+  failed: number;
+}
+
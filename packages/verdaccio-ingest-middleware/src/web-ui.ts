@@ -301,6 +301,7 @@ export function getWebUIHTML(config: any): string {
     .status-badge.completed { background: #e8f5e9; color: #388e3c; }
     .status-badge.failed { background: #ffebee; color: #d32f2f; }
     .status-badge.pending { background: #fff3e0; color: #f57c00; }
+    .status-badge.paused { background: #fff8e1; color: #f9a825; }
 
     .stats-grid {
       display: grid;
@@ -368,6 +369,37 @@ export function getWebUIHTML(config: any): string {
       color: #666;
     }
 
+    .search-bar {
+      display: flex;
+      gap: 10px;
+      margin-bottom: 10px;
+    }
+
+    .search-bar input {
+      flex: 1;
+      padding: 8px 10px;
+      border: 1px solid #ddd;
+      border-radius: 5px;
+      font-size: 14px;
+    }
+
+    .search-bar select {
+      padding: 8px 10px;
+      border: 1px solid #ddd;
+      border-radius: 5px;
+      font-size: 14px;
+    }
+
+    .package-keyword {
+      display: inline-block;
+      font-size: 11px;
+      color: #2c5364;
+      background: #e3f2fd;
+      padding: 1px 6px;
+      border-radius: 3px;
+      margin: 2px 4px 0 0;
+    }
+
     .hidden {
       display: none;
     }
@@ -454,10 +486,120 @@ export function getWebUIHTML(config: any): string {
       border-radius: 3px;
     }
 
+    .download-item .pkg-severity {
+      font-size: 11px;
+      color: white;
+      padding: 2px 6px;
+      border-radius: 3px;
+      margin-right: 6px;
+    }
+
+    .pkg-severity.critical { background: #b71c1c; }
+    .pkg-severity.high { background: #e53935; }
+    .pkg-severity.moderate { background: #fb8c00; }
+    .pkg-severity.low { background: #fdd835; color: #333; }
+    .pkg-severity.info { background: #90a4ae; }
+
+    .severity-filter {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      margin-bottom: 10px;
+      font-size: 13px;
+    }
+
+    .download-item .pkg-registry {
+      font-size: 11px;
+      color: #2c5364;
+      margin-right: 6px;
+    }
+
     .download-item .pkg-status {
       font-size: 12px;
     }
 
+    .download-item .why-btn {
+      font-size: 11px;
+      margin-left: 6px;
+      padding: 1px 6px;
+      border: 1px solid #2c5364;
+      border-radius: 3px;
+      background: white;
+      color: #2c5364;
+      cursor: pointer;
+    }
+
+    .unresolved-list {
+      margin-bottom: 10px;
+      padding: 10px 12px;
+      background: #fff8e1;
+      border: 1px solid #ffe082;
+      border-radius: 6px;
+      font-size: 13px;
+      max-height: 240px;
+      overflow-y: auto;
+    }
+
+    .unresolved-title {
+      font-weight: 600;
+      color: #8a6d3b;
+      margin-bottom: 6px;
+    }
+
+    .unresolved-item {
+      padding: 4px 0;
+      border-bottom: 1px dashed #ffe082;
+    }
+
+    .unresolved-item:last-child {
+      border-bottom: none;
+    }
+
+    .unresolved-item .pkg-version {
+      color: #666;
+      margin: 0 6px;
+    }
+
+    .unresolved-item .pkg-reason {
+      font-size: 11px;
+      color: #8a6d3b;
+      background: #ffecb3;
+      padding: 1px 6px;
+      border-radius: 3px;
+    }
+
+    .unresolved-by {
+      font-size: 11px;
+      color: #888;
+      margin-top: 2px;
+    }
+
+    .why-tree {
+      padding: 6px 12px 8px 24px;
+      font-size: 12px;
+      background: #fafafa;
+      border-bottom: 1px solid #eee;
+    }
+
+    .why-tree ul {
+      list-style: none;
+      padding-left: 16px;
+      border-left: 1px dashed #ccc;
+    }
+
+    .why-tree > ul {
+      padding-left: 0;
+      border-left: none;
+    }
+
+    .why-tree li {
+      padding: 2px 0;
+    }
+
+    .why-tree .why-empty {
+      color: #888;
+    }
+
     .download-item .pkg-status.success {
       color: #28a745;
     }
@@ -620,6 +762,15 @@ export function getWebUIHTML(config: any): string {
           <button class="btn btn-warning" onclick="rebuildIndex()">
             🔧 重建本地索引
           </button>
+          <button class="btn btn-primary" onclick="mirrorArtifacts()" id="artifactsBtn">
+            🧩 镜像二进制制品
+          </button>
+          <button class="btn btn-primary" onclick="mirrorNodeDist()" id="nodeDistBtn">
+            🟩 镜像 Node.js headers
+          </button>
+          <button class="btn btn-primary" onclick="syncAdvisories()" id="advisoriesBtn">
+            🛡️ 同步安全公告
+          </button>
         </div>
         <div id="quickTaskStatus" class="hidden">
           <div class="progress-bar">
@@ -718,6 +869,16 @@ export function getWebUIHTML(config: any): string {
             <label><input type="checkbox" name="platform" value="win32-arm64"><span>Windows ARM64</span></label>
             <label><input type="checkbox" name="platform" value="darwin-x64"><span>macOS x64</span></label>
             <label><input type="checkbox" name="platform" value="darwin-arm64"><span>macOS ARM64</span></label>
+            <label><input type="checkbox" name="platform" value="linux-x64-musl"><span>Linux x64 (musl)</span></label>
+            <label><input type="checkbox" name="platform" value="linux-arm64-musl"><span>Linux ARM64 (musl)</span></label>
+            <label><input type="checkbox" name="platform" value="linux-arm"><span>Linux ARM</span></label>
+            <label><input type="checkbox" name="platform" value="linux-ia32"><span>Linux x86</span></label>
+            <label><input type="checkbox" name="platform" value="linux-s390x"><span>Linux s390x</span></label>
+            <label><input type="checkbox" name="platform" value="linux-ppc64"><span>Linux ppc64</span></label>
+            <label><input type="checkbox" name="platform" value="win32-ia32"><span>Windows x86</span></label>
+            <label><input type="checkbox" name="platform" value="freebsd-x64"><span>FreeBSD x64</span></label>
+            <label><input type="checkbox" name="platform" value="android-arm64"><span>Android ARM64</span></label>
+            <label><input type="checkbox" name="platform" value="android-arm"><span>Android ARM</span></label>
           </div>
         </div>
         <div class="form-group">
@@ -738,11 +899,38 @@ export function getWebUIHTML(config: any): string {
             <label><input type="checkbox" id="completeSiblingVersions" checked><span>补全同级版本</span></label>
             <button class="help-btn" type="button">?<span class="tooltip">对每个已缓存的版本，自动下载同 minor 系列的最新 patch 版本和同 major 系列的最新 minor 版本。例如本地有 6.3.2，则补全 6.3.x 最新和 6.x.x 最新</span></button>
           </div>
+          <div class="option-row">
+            <label><input type="checkbox" id="avoidVulnerable"><span>避开有漏洞的版本</span></label>
+            <button class="help-btn" type="button">?<span class="tooltip">查询安全公告库，在满足版本范围的前提下优先选择没有已知漏洞的最高版本，并为有漏洞的已缓存版本补充同系列的修复版本</span></button>
+          </div>
         </div>
         <button class="btn btn-primary" onclick="startAnalysis()" id="analyzeBtn">
           🔍 分析依赖
         </button>
 
+        <div class="form-group" style="margin-top: 15px;">
+          <div class="option-row">
+            <label>基于锁文件分析</label>
+            <button class="help-btn" type="button">?<span class="tooltip">上传 package-lock.json / yarn.lock / pnpm-lock.yaml，按锁定的精确版本与本地缓存比对，生成待下载列表。可同时选择 package.json，报告锁定版本不符合的 overrides / resolutions（不会改写锁定版本）</span></button>
+          </div>
+          <input type="file" id="lockfileInput" accept=".json,.lock,.yaml,.yml">
+          <input type="file" id="lockfilePackageJson" accept=".json" title="package.json（可选）" style="margin-top: 5px;">
+        </div>
+        <button class="btn btn-success" onclick="startLockfileAnalysis()" id="lockfileAnalyzeBtn">
+          📄 分析锁文件
+        </button>
+
+        <div class="form-group" style="margin-top: 15px;">
+          <div class="option-row">
+            <label>添加新包</label>
+            <button class="help-btn" type="button">?<span class="tooltip">输入包规格（每行一个，如 react@^18、@nestjs/core@10），解析完整依赖树并跳过本地已有版本。依赖类型沿用上方同步选项</span></button>
+          </div>
+          <textarea id="addPackageSpecs" rows="4" placeholder="react@^18&#10;@nestjs/core@10"></textarea>
+        </div>
+        <button class="btn btn-success" onclick="startAddPackages()" id="addPackagesBtn">
+          ➕ 分析新包
+        </button>
+
 
         <!-- 分析进度区域 -->
         <div id="analysisProgress" class="detailed-progress hidden">
@@ -769,6 +957,31 @@ export function getWebUIHTML(config: any): string {
           </div>
           <div class="progress-current-pkg" id="progressCurrentPkg">等待开始...</div>
         </div>
+        <!-- 下载进度 -->
+        <div id="downloadProgress" class="detailed-progress hidden">
+          <div class="progress-header">
+            <span class="progress-phase" id="downloadPhase">准备中...</span>
+            <span class="progress-percentage" id="downloadPercentage">0%</span>
+          </div>
+          <div class="progress-bar-large">
+            <div class="progress-bar-fill" id="downloadProgressBar" style="width: 0%"></div>
+          </div>
+          <div class="progress-details">
+            <div class="progress-detail-item">
+              <div class="progress-detail-value" id="downloadBytes">0 B</div>
+              <div class="progress-detail-label">已下载</div>
+            </div>
+            <div class="progress-detail-item">
+              <div class="progress-detail-value" id="downloadSpeed">--</div>
+              <div class="progress-detail-label">速度</div>
+            </div>
+            <div class="progress-detail-item">
+              <div class="progress-detail-value" id="downloadETA">--</div>
+              <div class="progress-detail-label">预计剩余</div>
+            </div>
+          </div>
+          <div class="progress-current-pkg" id="downloadActive">等待开始...</div>
+        </div>
         <!-- 分析结果区域 -->
         <div id="analysisResult" class="analysis-result hidden">
           <div class="analysis-header">
@@ -784,6 +997,16 @@ export function getWebUIHTML(config: any): string {
               </div>
             </div>
           </div>
+          <div class="unresolved-list hidden" id="unresolvedList"></div>
+          <div class="unresolved-list hidden" id="binaryList"></div>
+          <div class="severity-filter hidden" id="severityFilter">
+            <span id="severitySummary"></span>
+            <select id="severityFilterSelect" onchange="renderDownloadList()">
+              <option value="all">全部下载</option>
+              <option value="high">排除 high 及以上</option>
+              <option value="any">排除所有含漏洞版本</option>
+            </select>
+          </div>
           <div class="download-list" id="downloadList"></div>
           <div class="action-buttons">
             <button class="btn btn-success" onclick="confirmDownload()" id="downloadBtn">
@@ -849,6 +1072,16 @@ export function getWebUIHTML(config: any): string {
     <!-- 包列表 -->
     <div class="card">
       <h2>📦 已缓存的包</h2>
+      <div class="search-bar">
+        <input type="text" id="packageSearch" placeholder="搜索包名、描述、关键字（支持 keywords: author: scope: 限定符）" oninput="onPackageSearch()">
+        <select id="packageSearchField" onchange="onPackageSearch()">
+          <option value="">全部字段</option>
+          <option value="keywords">关键字</option>
+          <option value="author">作者</option>
+          <option value="maintainer">维护者</option>
+          <option value="scope">scope</option>
+        </select>
+      </div>
       <div class="package-list" id="packageList">
         <p style="color: #666; text-align: center; padding: 20px;">加载中...</p>
       </div>
@@ -877,6 +1110,11 @@ export function getWebUIHTML(config: any): string {
           <label><input type="radio" name="exportBase" value="full"><span>全量导出</span></label>
           <button class="help-btn" type="button">?<span class="tooltip">导出所有文件，不考虑时间点</span></button>
         </div>
+        <div class="option-row">
+          <label><input type="radio" name="exportBase" value="inventory"><span>按内网存储清单</span></label>
+          <input type="file" id="exportInventoryFile" accept=".json" style="margin-left: 10px;" disabled>
+          <button class="help-btn" type="button">?<span class="tooltip">上传内网 healer 界面下载的存储清单，只导出内网缺少或与内网不一致的文件</span></button>
+        </div>
       </div>
       <div class="form-group">
         <label>导出选项</label>
@@ -884,6 +1122,18 @@ export function getWebUIHTML(config: any): string {
           <label><input type="checkbox" id="exportIncludeMetadata" checked><span>包含元数据文件</span></label>
           <button class="help-btn" type="button">?<span class="tooltip">包含 package.json 元数据文件</span></button>
         </div>
+        <div class="option-row">
+          <label><input type="checkbox" id="exportSplitVolumes"><span>分卷导出，每卷不超过</span></label>
+          <input type="number" id="exportVolumeSize" value="4000" min="1" style="margin-left: 10px; padding: 5px; width: 100px;" disabled>
+          <span style="margin-left: 5px;">MB</span>
+          <button class="help-btn" type="button">?<span class="tooltip">传输介质或单向网闸限制单个文件大小时，将导出拆分为多个可独立校验的分卷，内网按任意顺序导入全部分卷</span></button>
+        </div>
+        <div class="option-row">
+          <label><input type="checkbox" id="exportEncrypt"><span>加密导出包</span></label>
+          <input type="password" id="exportPassphrase" placeholder="口令（至少 8 个字符）" autocomplete="new-password" style="margin-left: 10px; padding: 5px; width: 180px;" disabled>
+          <input type="file" id="exportRecipientKey" accept=".pem,.pub" title="接收方 X25519 公钥" style="margin-left: 10px;" disabled>
+          <button class="help-btn" type="button">?<span class="tooltip">通过不受信任的介质传输时使用 AES-256-GCM 加密导出包（.tar.gz.enc）。填写口令和/或选择内网的 X25519 公钥（PEM），内网导入时输入口令或使用配置的私钥解密</span></button>
+        </div>
       </div>
       <button class="btn btn-primary" onclick="previewExport()" id="previewExportBtn">
         🔍 预览变更
@@ -935,6 +1185,7 @@ export function getWebUIHTML(config: any): string {
           <a id="exportDownloadLink" href="#" class="btn btn-success" download>
             📥 下载导出包
           </a>
+          <div id="exportVolumeLinks" class="package-list hidden" style="text-align: left; margin-bottom: 15px;"></div>
           <button class="btn btn-primary" onclick="resetExport()" style="margin-left: 10px;">
             ↩️ 返回
           </button>
@@ -1025,6 +1276,172 @@ export function getWebUIHTML(config: any): string {
       }
     }
 
+    // 镜像安装脚本下载的二进制制品（electron、node-pre-gyp 等）
+    async function mirrorArtifacts() {
+      const platforms = getSelectedPlatforms();
+      if (platforms.length === 0) {
+        addLog('请至少选择一个目标平台', 'warning');
+        return;
+      }
+
+      try {
+        document.getElementById('artifactsBtn').disabled = true;
+        addLog('正在镜像二进制制品: ' + platforms.map(p => p.os + '-' + p.arch).join(', '), 'info');
+
+        const response = await fetch(API_BASE + '/artifacts', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ platforms })
+        });
+        const data = await response.json();
+        if (!data.success || !data.taskId) {
+          addLog('启动制品镜像失败: ' + (data.error || '未知错误'), 'error');
+          document.getElementById('artifactsBtn').disabled = false;
+          return;
+        }
+
+        document.getElementById('quickTaskStatus').classList.remove('hidden');
+        const interval = setInterval(async () => {
+          try {
+            const statusResponse = await fetch(API_BASE + '/status/' + data.taskId);
+            const task = await statusResponse.json();
+            updateTaskDisplay(task);
+
+            if (task.status === 'completed' || task.status === 'failed') {
+              clearInterval(interval);
+              document.getElementById('artifactsBtn').disabled = false;
+
+              if (task.status === 'completed' && task.result) {
+                const result = task.result;
+                addLog('制品镜像完成: 下载 ' + result.downloaded + ' 个, 已存在 ' + result.skipped + ' 个, 失败 ' + result.failed + ' 个',
+                  result.failed > 0 ? 'warning' : 'success');
+                result.files.filter(file => file.status === 'failed').slice(0, 20).forEach(file => {
+                  addLog(file.name + '@' + file.version + ': ' + file.url + ' - ' + file.error, 'error');
+                });
+                Object.keys(result.env).forEach(name => {
+                  addLog('内网安装时设置 ' + name + '=&lt;registry&gt;' + result.env[name], 'info');
+                });
+              } else {
+                addLog('制品镜像失败: ' + (task.error || '未知错误'), 'error');
+              }
+            }
+          } catch (error) {
+            addLog('获取任务状态失败: ' + error.message, 'error');
+          }
+        }, 2000);
+      } catch (error) {
+        addLog('启动制品镜像失败: ' + error.message, 'error');
+        document.getElementById('artifactsBtn').disabled = false;
+      }
+    }
+
+    // 镜像 node-gyp 编译所需的 Node.js headers（版本取自配置 nodeDist.versions）
+    async function mirrorNodeDist() {
+      const platforms = getSelectedPlatforms();
+
+      try {
+        document.getElementById('nodeDistBtn').disabled = true;
+        addLog('正在镜像 Node.js headers...', 'info');
+
+        const response = await fetch(API_BASE + '/node-dist', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(platforms.length > 0 ? { platforms } : {})
+        });
+        const data = await response.json();
+        if (!data.success || !data.taskId) {
+          addLog('启动 Node.js 镜像失败: ' + (data.error || '未知错误'), 'error');
+          document.getElementById('nodeDistBtn').disabled = false;
+          return;
+        }
+
+        document.getElementById('quickTaskStatus').classList.remove('hidden');
+        const interval = setInterval(async () => {
+          try {
+            const statusResponse = await fetch(API_BASE + '/status/' + data.taskId);
+            const task = await statusResponse.json();
+            updateTaskDisplay(task);
+
+            if (task.status === 'completed' || task.status === 'failed') {
+              clearInterval(interval);
+              document.getElementById('nodeDistBtn').disabled = false;
+
+              if (task.status === 'completed' && task.result) {
+                const result = task.result;
+                addLog('Node.js ' + result.versions.join(', ') + ' 镜像完成: 下载 ' + result.downloaded + ' 个, 已存在 ' + result.skipped + ' 个, 失败 ' + result.failed + ' 个',
+                  result.failed > 0 ? 'warning' : 'success');
+                result.files.filter(file => file.status === 'failed').forEach(file => {
+                  addLog(file.path + ' - ' + file.error, 'error');
+                });
+                Object.keys(result.env).forEach(name => {
+                  addLog('内网编译时设置 ' + name + '=&lt;registry&gt;' + result.env[name], 'info');
+                });
+              } else {
+                addLog('Node.js 镜像失败: ' + (task.error || '未知错误'), 'error');
+              }
+            }
+          } catch (error) {
+            addLog('获取任务状态失败: ' + error.message, 'error');
+          }
+        }, 2000);
+      } catch (error) {
+        addLog('启动 Node.js 镜像失败: ' + error.message, 'error');
+        document.getElementById('nodeDistBtn').disabled = false;
+      }
+    }
+
+    // 查询已缓存包的安全公告，生成随导出进入内网的公告库快照
+    async function syncAdvisories() {
+      try {
+        document.getElementById('advisoriesBtn').disabled = true;
+        addLog('正在同步安全公告...', 'info');
+
+        const response = await fetch(API_BASE + '/advisories', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({})
+        });
+        const data = await response.json();
+        if (!data.success || !data.taskId) {
+          addLog('启动安全公告同步失败: ' + (data.error || '未知错误'), 'error');
+          document.getElementById('advisoriesBtn').disabled = false;
+          return;
+        }
+
+        document.getElementById('quickTaskStatus').classList.remove('hidden');
+        const interval = setInterval(async () => {
+          try {
+            const statusResponse = await fetch(API_BASE + '/status/' + data.taskId);
+            const task = await statusResponse.json();
+            updateTaskDisplay(task);
+
+            if (task.status === 'completed' || task.status === 'failed') {
+              clearInterval(interval);
+              document.getElementById('advisoriesBtn').disabled = false;
+
+              if (task.status === 'completed' && task.result) {
+                const result = task.result;
+                const severities = result.severities;
+                addLog('安全公告同步完成: 查询 ' + result.checked + ' 个包, ' + result.vulnerablePackages + ' 个包存在 ' + result.advisories + ' 条公告 (critical ' + severities.critical + ', high ' + severities.high + ', moderate ' + severities.moderate + ', low ' + severities.low + ')',
+                  result.failed.length > 0 ? 'warning' : 'success');
+                if (result.failed.length > 0) {
+                  addLog(result.failed.length + ' 个包查询失败，沿用上一版本的数据: ' + result.failed.slice(0, 20).join(', '), 'warning');
+                }
+                addLog('公告库快照: ' + result.file + '，将随下次导出进入内网', 'info');
+              } else {
+                addLog('安全公告同步失败: ' + (task.error || '未知错误'), 'error');
+              }
+            }
+          } catch (error) {
+            addLog('获取任务状态失败: ' + error.message, 'error');
+          }
+        }, 2000);
+      } catch (error) {
+        addLog('启动安全公告同步失败: ' + error.message, 'error');
+        document.getElementById('advisoriesBtn').disabled = false;
+      }
+    }
+
     // 刷新缓存状态
     async function refreshCacheStatus() {
       try {
@@ -1036,8 +1453,11 @@ export function getWebUIHTML(config: any): string {
         document.getElementById('totalVersions').textContent = data.totalVersions || 0;
         document.getElementById('lastSync').textContent = '刚刚';
 
-        // 更新包列表
-        updatePackageList(data.packages || []);
+        // 更新包列表（正在搜索时保留搜索结果）
+        cachedPackageList = data.packages || [];
+        if (!document.getElementById('packageSearch').value.trim()) {
+          updatePackageList(cachedPackageList);
+        }
 
         addLog('缓存状态已更新: ' + data.totalPackages + ' 个包, ' + data.totalVersions + ' 个版本', 'success');
       } catch (error) {
@@ -1068,6 +1488,65 @@ export function getWebUIHTML(config: any): string {
       }
     }
 
+    // 包描述、关键字来自第三方 package.json，插入页面前转义
+    function escapeHtml(text) {
+      return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    }
+
+    let cachedPackageList = [];
+    let packageSearchTimer = null;
+
+    // 输入停顿后再搜索，清空搜索框时恢复缓存列表
+    function onPackageSearch() {
+      clearTimeout(packageSearchTimer);
+      packageSearchTimer = setTimeout(searchPackages, 300);
+    }
+
+    // 通过本地搜索索引查找包
+    async function searchPackages() {
+      const text = document.getElementById('packageSearch').value.trim();
+      const field = document.getElementById('packageSearchField').value;
+      if (!text) {
+        updatePackageList(cachedPackageList);
+        return;
+      }
+
+      const query = field ? text.split(/\\s+/).map(term => field + ':' + term).join(' ') : text;
+      try {
+        const response = await fetch(API_BASE + '/search?size=50&text=' + encodeURIComponent(query));
+        const data = await response.json();
+        if (document.getElementById('packageSearch').value.trim() !== text) return;
+
+        const container = document.getElementById('packageList');
+        if (!data.objects) {
+          container.innerHTML = '<p style="color: #666; text-align: center; padding: 20px;">搜索失败: ' + (data.error || '未知错误') + '</p>';
+          return;
+        }
+        if (data.objects.length === 0) {
+          container.innerHTML = '<p style="color: #666; text-align: center; padding: 20px;">没有匹配的包</p>';
+          return;
+        }
+
+        container.innerHTML = data.objects.map(item => {
+          const pkg = item.package;
+          return '<div class="package-item">' +
+            '<div>' +
+              '<div class="package-name">' + pkg.name + '<span class="pkg-version">@' + pkg.version + '</span></div>' +
+              (pkg.description ? '<div class="package-versions">' + escapeHtml(pkg.description) + '</div>' : '') +
+              '<div>' + pkg.keywords.slice(0, 8).map(keyword => '<span class="package-keyword">' + escapeHtml(keyword) + '</span>').join('') + '</div>' +
+            '</div>' +
+            '<div class="package-versions" title="' + pkg.versions.join(', ') + '">' + pkg.versions.length + ' 个本地版本</div>' +
+          '</div>';
+        }).join('');
+
+        if (data.total > data.objects.length) {
+          container.innerHTML += '<p style="text-align: center; color: #666; padding: 10px;">共 ' + data.total + ' 个匹配，仅显示前 ' + data.objects.length + ' 个</p>';
+        }
+      } catch (error) {
+        addLog('搜索失败: ' + error.message, 'error');
+      }
+    }
+
     // 刷新所有元数据
     async function refreshAllMetadata() {
       try {
@@ -1282,7 +1761,17 @@ export function getWebUIHTML(config: any): string {
         'win32-x64': { os: 'win32', arch: 'x64' },
         'win32-arm64': { os: 'win32', arch: 'arm64' },
         'darwin-x64': { os: 'darwin', arch: 'x64' },
-        'darwin-arm64': { os: 'darwin', arch: 'arm64' }
+        'darwin-arm64': { os: 'darwin', arch: 'arm64' },
+        'linux-x64-musl': { os: 'linux', arch: 'x64', libc: 'musl' },
+        'linux-arm64-musl': { os: 'linux', arch: 'arm64', libc: 'musl' },
+        'linux-arm': { os: 'linux', arch: 'arm', libc: 'glibc' },
+        'linux-ia32': { os: 'linux', arch: 'ia32', libc: 'glibc' },
+        'linux-s390x': { os: 'linux', arch: 's390x', libc: 'glibc' },
+        'linux-ppc64': { os: 'linux', arch: 'ppc64', libc: 'glibc' },
+        'win32-ia32': { os: 'win32', arch: 'ia32' },
+        'freebsd-x64': { os: 'freebsd', arch: 'x64' },
+        'android-arm64': { os: 'android', arch: 'arm64' },
+        'android-arm': { os: 'android', arch: 'arm' }
       };
       return Array.from(checkboxes).map(cb => platformMap[cb.value]);
     }
@@ -1326,6 +1815,33 @@ export function getWebUIHTML(config: any): string {
       document.getElementById('progressCurrentPkg').textContent = progress.currentPackage || progress.phaseDescription || '处理中...';
     }
 
+    // 下载阶段名称映射
+    const downloadPhaseLabels = {
+      'downloading': '下载 tarball',
+      'refreshing-metadata': '刷新元数据',
+      'completed': '下载完成'
+    };
+
+    // 更新下载进度显示
+    function updateDownloadProgress(task) {
+      const progress = task.detailedProgress;
+      if (!progress) return;
+      document.getElementById('downloadProgress').classList.remove('hidden');
+
+      const percentage = progress.phase === 'downloading' ? progress.totalProgress : progress.phaseProgress;
+      const phase = task.status === 'paused' ? '已暂停（上游错误率过高）' : (downloadPhaseLabels[progress.phase] || progress.phaseDescription);
+      document.getElementById('downloadPhase').textContent = phase;
+      document.getElementById('downloadPercentage').textContent = percentage + '%';
+      document.getElementById('downloadProgressBar').style.width = percentage + '%';
+      document.getElementById('downloadBytes').textContent = formatSize(progress.bytesDownloaded) +
+        (progress.totalBytes ? ' / ' + formatSize(progress.totalBytes) : '');
+      document.getElementById('downloadSpeed').textContent = progress.throughput > 0 ? formatSize(progress.throughput) + '/s' : '--';
+      document.getElementById('downloadETA').textContent = formatTime(progress.estimatedRemaining);
+      document.getElementById('downloadActive').textContent =
+        '包 ' + progress.processed + '/' + progress.total + (progress.failed > 0 ? '（失败 ' + progress.failed + '）' : '') +
+        (progress.active && progress.active.length > 0 ? ' · 正在下载: ' + progress.active.join(', ') : '');
+    }
+
     // 开始分析
     async function startAnalysis() {
       const platforms = getSelectedPlatforms();
@@ -1338,7 +1854,8 @@ export function getWebUIHTML(config: any): string {
         updateToLatest: document.getElementById('updateToLatest').checked,
         includeOptional: document.getElementById('includeOptional').checked,
         includePeer: document.getElementById('includePeer').checked,
-        completeSiblingVersions: document.getElementById('completeSiblingVersions').checked
+        completeSiblingVersions: document.getElementById('completeSiblingVersions').checked,
+        avoidVulnerable: document.getElementById('avoidVulnerable').checked
       };
 
       try {
@@ -1368,6 +1885,97 @@ export function getWebUIHTML(config: any): string {
       }
     }
 
+    // 基于锁文件开始分析
+    async function startLockfileAnalysis() {
+      const lockfileFile = document.getElementById('lockfileInput').files[0];
+      if (!lockfileFile) {
+        addLog('请先选择锁文件', 'warning');
+        return;
+      }
+      const platforms = getSelectedPlatforms();
+      if (platforms.length === 0) {
+        addLog('请至少选择一个目标平台', 'warning');
+        return;
+      }
+
+      try {
+        document.getElementById('lockfileAnalyzeBtn').disabled = true;
+        document.getElementById('analysisResult').classList.add('hidden');
+        addLog('正在分析锁文件: ' + lockfileFile.name, 'info');
+
+        const body = {
+          lockfile: await lockfileFile.text(),
+          filename: lockfileFile.name,
+          platforms
+        };
+        const packageJsonFile = document.getElementById('lockfilePackageJson').files[0];
+        if (packageJsonFile) {
+          body.packageJson = await packageJsonFile.text();
+        }
+
+        const response = await fetch(API_BASE + '/analyze/lockfile', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body)
+        });
+        const data = await response.json();
+
+        if (data.success && data.taskId) {
+          currentTaskId = data.taskId;
+          addLog('锁文件分析任务已启动: ' + data.taskId, 'success');
+          startAnalysisPolling(data.taskId);
+        } else {
+          addLog('启动锁文件分析失败: ' + (data.error || '未知错误'), 'error');
+        }
+      } catch (error) {
+        addLog('启动锁文件分析失败: ' + error.message, 'error');
+      } finally {
+        document.getElementById('lockfileAnalyzeBtn').disabled = false;
+      }
+    }
+
+    // 添加新包并分析依赖树
+    async function startAddPackages() {
+      const packages = document.getElementById('addPackageSpecs').value
+        .split(/[\\n,]+/)
+        .map(spec => spec.trim())
+        .filter(Boolean);
+      if (packages.length === 0) {
+        addLog('请输入至少一个包规格', 'warning');
+        return;
+      }
+
+      const options = {
+        includeOptional: document.getElementById('includeOptional').checked,
+        includePeer: document.getElementById('includePeer').checked
+      };
+
+      try {
+        document.getElementById('addPackagesBtn').disabled = true;
+        document.getElementById('analysisResult').classList.add('hidden');
+        addLog('正在解析新包: ' + packages.join(', '), 'info');
+
+        const response = await fetch(API_BASE + '/add', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ packages, options, platforms: getSelectedPlatforms() })
+        });
+        const data = await response.json();
+
+        if (data.success && data.taskId) {
+          currentTaskId = data.taskId;
+          addLog('新包分析任务已启动: ' + data.taskId, 'success');
+          startAnalysisPolling(data.taskId);
+        } else {
+          addLog('启动新包分析失败: ' + (data.error || '未知错误'), 'error');
+        }
+      } catch (error) {
+        addLog('启动新包分析失败: ' + error.message, 'error');
+      } finally {
+        document.getElementById('addPackagesBtn').disabled = false;
+      }
+    }
+
     // 开始轮询分析状态
     function startAnalysisPolling(taskId) {
       if (taskPollInterval) {
@@ -1391,6 +1999,16 @@ export function getWebUIHTML(config: any): string {
             if (task.status === 'completed' && task.result) {
               currentAnalysis = task.result;
               addLog('分析完成: 扫描 ' + task.result.scanned + ' 个包, 待下载 ' + task.result.toDownload.length + ' 个', 'success');
+              if (task.result.lockfile) {
+                const lock = task.result.lockfile;
+                addLog('锁文件 ' + lock.type + ' (v' + lock.lockfileVersion + '): 共 ' + lock.total + ' 个包, 已缓存 ' + lock.cached + ' 个, 覆盖规则 ' + lock.overrides + ' 条', 'info');
+                (lock.overrideMismatches || []).forEach(function(check) {
+                  addLog('覆盖规则 ' + check.key + ' -> ' + check.target + ' 与锁定版本 ' + check.mismatched.join(', ') + ' 不符，锁文件可能需要重新生成', 'warning');
+                });
+              }
+              if (task.result.unresolved && task.result.unresolved.length > 0) {
+                addLog('有 ' + task.result.unresolved.length + ' 个依赖无法从 registry 获取，请在下载前确认', 'warning');
+              }
               showAnalysisResult(task.result);
             } else {
               addLog('分析任务失败: ' + (task.error || '未知错误'), 'error');
@@ -1403,44 +2021,230 @@ export function getWebUIHTML(config: any): string {
       }, 1000); // 每秒轮询一次
     }
 
+    // 依赖描述类型名称映射
+    const specTypeLabels = {
+      'registry': 'registry 无匹配版本',
+      'alias': 'npm 别名',
+      'workspace': 'workspace',
+      'file': '本地文件',
+      'link': '本地链接',
+      'git': 'git 仓库',
+      'github': 'GitHub 简写',
+      'tarball': 'tarball URL',
+      'other': '其他协议'
+    };
+
+    // 显示无法解析的依赖警告
+    function showUnresolved(unresolved) {
+      const container = document.getElementById('unresolvedList');
+      if (!unresolved || unresolved.length === 0) {
+        container.classList.add('hidden');
+        container.innerHTML = '';
+        return;
+      }
+
+      const displayList = unresolved.slice(0, 50);
+      container.innerHTML =
+        '<div class="unresolved-title">⚠️ ' + unresolved.length + ' 个依赖无法从 registry 离线获取，需要手动处理</div>' +
+        displayList.map(dep =>
+          '<div class="unresolved-item">' +
+            '<span class="pkg-name">' + dep.name + '</span>' +
+            '<span class="pkg-version">' + dep.spec + '</span>' +
+            '<span class="pkg-reason">' + (specTypeLabels[dep.type] || dep.type) + '</span>' +
+            '<div class="unresolved-by">来自: ' + dep.requiredBy.slice(0, 3).join(', ') +
+              (dep.requiredBy.length > 3 ? ' 等 ' + dep.requiredBy.length + ' 个包' : '') + '</div>' +
+          '</div>'
+        ).join('') +
+        (unresolved.length > 50 ? '<div class="unresolved-by">... 还有 ' + (unresolved.length - 50) + ' 个</div>' : '');
+      container.classList.remove('hidden');
+    }
+
+    // 显示各版本缺失的平台二进制
+    function showBinaryCoverage(binaries) {
+      const container = document.getElementById('binaryList');
+      const incomplete = (binaries || []).filter(item => item.missingPlatforms.length > 0);
+      if (incomplete.length === 0) {
+        container.classList.add('hidden');
+        container.innerHTML = '';
+        return;
+      }
+
+      const displayList = incomplete.slice(0, 50);
+      container.innerHTML =
+        '<div class="unresolved-title">🧩 ' + incomplete.length + ' 个版本缺少目标平台的二进制包（已加入待下载列表）</div>' +
+        displayList.map(item =>
+          '<div class="unresolved-item">' +
+            '<span class="pkg-name">' + item.name + '</span>' +
+            '<span class="pkg-version">' + item.version + '</span>' +
+            '<div class="unresolved-by">缺少: ' + item.missingPlatforms.join(', ') +
+              (item.unsupportedPlatforms.length > 0 ? '（上游未提供: ' + item.unsupportedPlatforms.join(', ') + '）' : '') + '</div>' +
+          '</div>'
+        ).join('') +
+        (incomplete.length > 50 ? '<div class="unresolved-by">... 还有 ' + (incomplete.length - 50) + ' 个</div>' : '');
+      container.classList.remove('hidden');
+    }
+
     // 显示分析结果
     function showAnalysisResult(analysis) {
+      showUnresolved(analysis.unresolved);
+      showBinaryCoverage(analysis.binaries);
       document.getElementById('analysisScanned').textContent = analysis.scanned;
       document.getElementById('analysisToDownload').textContent = analysis.toDownload.length;
 
+      showSeverityFilter(analysis);
+      renderDownloadList();
+
+      document.getElementById('analysisResult').classList.remove('hidden');
+      document.getElementById('downloadResult').classList.add('hidden');
+    }
+
+    const SEVERITY_RANK = { info: 0, low: 1, moderate: 2, high: 3, critical: 4 };
+
+    // 显示漏洞统计与下载过滤选项（仅在存在含漏洞版本时显示）
+    function showSeverityFilter(analysis) {
+      const container = document.getElementById('severityFilter');
+      const vulnerable = analysis.toDownload.filter(pkg => pkg.severity);
+      document.getElementById('severityFilterSelect').value = 'all';
+
+      if (analysis.advisoryFailures && analysis.advisoryFailures.length > 0) {
+        addLog('有 ' + analysis.advisoryFailures.length + ' 个包的安全公告查询失败，未标注漏洞信息', 'warning');
+      }
+
+      if (vulnerable.length === 0) {
+        container.classList.add('hidden');
+        return;
+      }
+
+      const counts = {};
+      vulnerable.forEach(pkg => {
+        counts[pkg.severity] = (counts[pkg.severity] || 0) + 1;
+      });
+      document.getElementById('severitySummary').innerHTML = '⚠️ ' + vulnerable.length + ' 个版本存在已知漏洞: ' +
+        Object.keys(SEVERITY_RANK).reverse().filter(severity => counts[severity]).map(severity =>
+          '<span class="pkg-severity ' + severity + '">' + severity + ' ' + counts[severity] + '</span>'
+        ).join('');
+      container.classList.remove('hidden');
+    }
+
+    // 按漏洞过滤选项筛选待下载列表
+    function getFilteredDownloads() {
+      if (!currentAnalysis) return [];
+      const filter = document.getElementById('severityFilterSelect').value;
+      return currentAnalysis.toDownload.filter(pkg => {
+        if (!pkg.severity || filter === 'all') return true;
+        if (filter === 'any') return false;
+        return SEVERITY_RANK[pkg.severity] < SEVERITY_RANK.high;
+      });
+    }
+
+    // 渲染待下载列表
+    function renderDownloadList() {
+      const toDownload = getFilteredDownloads();
+      document.getElementById('analysisToDownload').textContent = toDownload.length;
+
       const listContainer = document.getElementById('downloadList');
-      if (analysis.toDownload.length === 0) {
-        listContainer.innerHTML = '<p style="text-align: center; padding: 20px; color: #666;">所有依赖已是最新，无需下载</p>';
+      if (toDownload.length === 0) {
+        listContainer.innerHTML = '<p style="text-align: center; padding: 20px; color: #666;">' +
+          (currentAnalysis && currentAnalysis.toDownload.length > 0 ? '所有待下载版本均已被过滤' : '所有依赖已是最新，无需下载') + '</p>';
         document.getElementById('downloadBtn').disabled = true;
-      } else {
-        const reasonLabels = {
-          'newer-version': '新版本',
-          'missing-dependency': '缺失依赖',
-          'platform-binary': '平台包',
-          'sibling-version': '同级版本'
-        };
+        return;
+      }
 
-        // 只显示前50个
-        const displayList = analysis.toDownload.slice(0, 50);
-        listContainer.innerHTML = displayList.map(pkg =>
-          '<div class="download-item">' +
-            '<div>' +
-              '<span class="pkg-name">' + pkg.name + '</span>' +
-              '<span class="pkg-version">@' + pkg.version + '</span>' +
-            '</div>' +
+      const reasonLabels = {
+        'newer-version': '新版本',
+        'missing-dependency': '缺失依赖',
+        'platform-binary': '平台包',
+        'sibling-version': '同级版本',
+        'security-fix': '安全修复',
+        'lockfile': '锁文件',
+        'requested': '手动添加'
+      };
+
+      // 只显示前50个
+      const displayList = toDownload.slice(0, 50);
+      listContainer.innerHTML = displayList.map(pkg =>
+        '<div class="download-item">' +
+          '<div>' +
+            '<span class="pkg-name">' + pkg.name + '</span>' +
+            '<span class="pkg-version">@' + pkg.version + '</span>' +
+          '</div>' +
+          '<div>' +
+            (pkg.severity ? '<span class="pkg-severity ' + pkg.severity + '" title="' +
+              (pkg.advisories || []).map(advisory => advisory.title.replace(/"/g, '&quot;')).join('\\n') + '">' +
+              pkg.severity + '</span>' : '') +
+            (pkg.registry ? '<span class="pkg-registry" title="' + pkg.registry + '">' + registryHost(pkg.registry) + '</span>' : '') +
             '<span class="pkg-reason">' + (reasonLabels[pkg.reason] || pkg.reason) + '</span>' +
-          '</div>'
-        ).join('');
+            '<button class="why-btn" type="button" data-name="' + pkg.name + '" data-version="' + pkg.version + '" onclick="toggleWhy(this)">why</button>' +
+          '</div>' +
+        '</div>' +
+        '<div class="why-tree hidden"></div>'
+      ).join('');
+
+      if (toDownload.length > 50) {
+        listContainer.innerHTML += '<p style="text-align: center; padding: 10px; color: #666;">... 还有 ' +
+          (toDownload.length - 50) + ' 个包</p>';
+      }
+      document.getElementById('downloadBtn').disabled = false;
+    }
+
+    // 显示上游 registry 的主机名
+    function registryHost(registry) {
+      try {
+        return new URL(registry).host;
+      } catch (e) {
+        return registry;
+      }
+    }
+
+    // 展开/收起 "why" 依赖路径树
+    async function toggleWhy(button) {
+      const container = button.closest('.download-item').nextElementSibling;
+      if (!container.classList.contains('hidden')) {
+        container.classList.add('hidden');
+        return;
+      }
+      container.classList.remove('hidden');
+      if (container.dataset.loaded || !currentAnalysis) return;
+
+      container.innerHTML = '<span class="why-empty">加载中...</span>';
+      try {
+        const response = await fetch(API_BASE + '/analysis/' + currentAnalysis.analysisId + '/why/' +
+          encodeURIComponent(button.dataset.name) + '?version=' + encodeURIComponent(button.dataset.version));
+        const data = await response.json();
 
-        if (analysis.toDownload.length > 50) {
-          listContainer.innerHTML += '<p style="text-align: center; padding: 10px; color: #666;">... 还有 ' +
-            (analysis.toDownload.length - 50) + ' 个包</p>';
+        if (!data.success) {
+          container.innerHTML = '<span class="why-empty">' + (data.error || '没有找到依赖路径') + '</span>';
+          return;
         }
-        document.getElementById('downloadBtn').disabled = false;
+
+        container.innerHTML = renderWhyTree(data.paths) +
+          (data.truncated ? '<div class="why-empty">路径过多，仅显示前 ' + data.paths.length + ' 条</div>' : '');
+        container.dataset.loaded = 'true';
+      } catch (error) {
+        container.innerHTML = '<span class="why-empty">加载依赖路径失败: ' + error.message + '</span>';
       }
+    }
 
-      document.getElementById('analysisResult').classList.remove('hidden');
-      document.getElementById('downloadResult').classList.add('hidden');
+    // 将 "why" 路径合并为树：目标包在顶层，逐级展开到引入它的根
+    function renderWhyTree(paths) {
+      const root = { children: {} };
+      paths.forEach(path => {
+        let node = root;
+        path.slice().reverse().forEach(id => {
+          node.children[id] = node.children[id] || { children: {} };
+          node = node.children[id];
+        });
+      });
+
+      function renderNodes(children) {
+        return '<ul>' + Object.keys(children).map(id => {
+          const child = children[id];
+          const hasParents = Object.keys(child.children).length > 0;
+          return '<li>' + id + (hasParents ? renderNodes(child.children) : '') + '</li>';
+        }).join('') + '</ul>';
+      }
+
+      return renderNodes(root.children);
     }
 
     // 取消分析
@@ -1467,10 +2271,19 @@ export function getWebUIHTML(config: any): string {
         document.getElementById('downloadBtn').disabled = true;
         addLog('正在启动下载任务...', 'info');
 
+        // 过滤掉部分版本时直接提交筛选后的列表
+        const filtered = getFilteredDownloads();
+        const body = filtered.length < currentAnalysis.toDownload.length
+          ? { packages: filtered }
+          : { analysisId: currentAnalysis.analysisId };
+        if (body.packages) {
+          addLog('已按漏洞过滤排除 ' + (currentAnalysis.toDownload.length - filtered.length) + ' 个版本', 'info');
+        }
+
         const response = await fetch(API_BASE + '/download', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ analysisId: currentAnalysis.analysisId })
+          body: JSON.stringify(body)
         });
         const data = await response.json();
 
@@ -1503,10 +2316,12 @@ export function getWebUIHTML(config: any): string {
           const task = await response.json();
 
           updateTaskDisplay(task);
+          updateDownloadProgress(task);
 
           if (task.status === 'completed' || task.status === 'failed') {
             clearInterval(taskPollInterval);
             taskPollInterval = null;
+            document.getElementById('downloadProgress').classList.add('hidden');
 
             if (task.status === 'completed' && task.result) {
               addLog('下载完成! 成功: ' + task.result.succeeded + ', 失败: ' + task.result.failed,
@@ -1536,15 +2351,21 @@ export function getWebUIHTML(config: any): string {
         document.getElementById('retryActions').innerHTML =
           '<button class="btn btn-primary" onclick="resetWorkflow()">↩️ 返回</button>';
       } else {
-        failedListContainer.innerHTML = failedPackages.map(pkg =>
-          '<div class="download-item failed">' +
+        const failedStatus = {};
+        (result.results || []).forEach(item => {
+          if (item.status === 'failed') failedStatus[item.name + '@' + item.version] = item;
+        });
+        failedListContainer.innerHTML = failedPackages.map(pkg => {
+          const item = failedStatus[pkg.name + '@' + pkg.version] || {};
+          return '<div class="download-item failed">' +
             '<div>' +
               '<span class="pkg-name">' + pkg.name + '</span>' +
               '<span class="pkg-version">@' + pkg.version + '</span>' +
+              (item.attempts ? '<span class="pkg-reason" title="' + (item.error || '').replace(/"/g, '&quot;') + '">尝试 ' + item.attempts + ' 次</span>' : '') +
             '</div>' +
             '<span class="pkg-status failed">失败</span>' +
-          '</div>'
-        ).join('');
+          '</div>';
+        }).join('');
       }
 
       document.getElementById('analysisResult').classList.add('hidden');
@@ -1714,6 +2535,8 @@ export function getWebUIHTML(config: any): string {
               '<div class="package-versions">' +
                 exp.summary.packages + ' 个包, ' + exp.summary.versions + ' 个版本, ' +
                 formatSize(exp.totalSize) +
+                (exp.signedBy && exp.signedBy.length > 0 ? ' | 🔏 ' + exp.signedBy.join(', ') : '') +
+                (exp.encryptedFor && exp.encryptedFor.length > 0 ? ' | 🔒 ' + exp.encryptedFor.join(', ') : '') +
               '</div>' +
             '</div>' +
             '<span class="status-badge completed">' + exp.type + '</span>' +
@@ -1732,27 +2555,39 @@ export function getWebUIHTML(config: any): string {
       return (bytes / (1024 * 1024 * 1024)).toFixed(2) + ' GB';
     }
 
-    // 获取导出基准时间
-    function getExportBaseTime() {
+    // 获取导出基准（基准时间或内网存储清单）
+    async function getExportBase() {
       const selected = document.querySelector('input[name="exportBase"]:checked').value;
       if (selected === 'last') {
-        return 'last';
+        return { since: 'last' };
       } else if (selected === 'custom') {
         const customTime = document.getElementById('customExportTime').value;
         if (!customTime) {
           addLog('请选择自定义时间', 'warning');
           return null;
         }
-        return new Date(customTime).toISOString();
+        return { since: new Date(customTime).toISOString() };
+      } else if (selected === 'inventory') {
+        const file = document.getElementById('exportInventoryFile').files[0];
+        if (!file) {
+          addLog('请选择存储清单文件', 'warning');
+          return null;
+        }
+        try {
+          return { inventory: JSON.parse(await file.text()) };
+        } catch (error) {
+          addLog('存储清单无法解析: ' + error.message, 'error');
+          return null;
+        }
       } else {
-        return undefined; // 全量导出
+        return {}; // 全量导出
       }
     }
 
     // 预览导出
     async function previewExport() {
-      const since = getExportBaseTime();
-      if (since === null) return;
+      const base = await getExportBase();
+      if (base === null) return;
 
       const includeMetadata = document.getElementById('exportIncludeMetadata').checked;
 
@@ -1763,7 +2598,7 @@ export function getWebUIHTML(config: any): string {
         const response = await fetch(API_BASE + '/export/preview', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ since, includeMetadata })
+          body: JSON.stringify({ ...base, includeMetadata })
         });
         const data = await response.json();
 
@@ -1800,7 +2635,7 @@ export function getWebUIHTML(config: any): string {
               '<span class="pkg-name">' + (file.packageName || file.path) + '</span>' +
               (file.version ? '<span class="pkg-version">@' + file.version + '</span>' : '') +
             '</div>' +
-            '<span class="pkg-reason">' + (file.type === 'tarball' ? 'tarball' : 'metadata') + '</span>' +
+            '<span class="pkg-reason">' + file.type + '</span>' +
           '</div>'
         ).join('');
 
@@ -1818,10 +2653,37 @@ export function getWebUIHTML(config: any): string {
 
     // 创建导出包
     async function createExport() {
-      const since = getExportBaseTime();
-      if (since === null) return;
+      const base = await getExportBase();
+      if (base === null) return;
 
       const includeMetadata = document.getElementById('exportIncludeMetadata').checked;
+      let maxVolumeSize;
+      if (document.getElementById('exportSplitVolumes').checked) {
+        const volumeSizeMB = parseFloat(document.getElementById('exportVolumeSize').value);
+        if (!(volumeSizeMB >= 1)) {
+          addLog('分卷大小至少为 1 MB', 'warning');
+          return;
+        }
+        maxVolumeSize = Math.floor(volumeSizeMB * 1024 * 1024);
+      }
+
+      let encryption;
+      if (document.getElementById('exportEncrypt').checked) {
+        const passphrase = document.getElementById('exportPassphrase').value;
+        const keyFile = document.getElementById('exportRecipientKey').files[0];
+        if (!passphrase && !keyFile) {
+          addLog('加密导出需要填写口令或选择接收方公钥', 'warning');
+          return;
+        }
+        if (passphrase && passphrase.length < 8) {
+          addLog('口令至少为 8 个字符', 'warning');
+          return;
+        }
+        encryption = {
+          passphrase: passphrase || undefined,
+          recipientKey: keyFile ? await keyFile.text() : undefined
+        };
+      }
 
       try {
         document.getElementById('createExportBtn').disabled = true;
@@ -1831,7 +2693,7 @@ export function getWebUIHTML(config: any): string {
         const response = await fetch(API_BASE + '/export/create', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ since, includeMetadata })
+          body: JSON.stringify({ ...base, includeMetadata, maxVolumeSize, encryption })
         });
         const data = await response.json();
 
@@ -1904,7 +2766,9 @@ export function getWebUIHTML(config: any): string {
       document.getElementById('exportProgressPercentage').textContent = totalProgress + '%';
       document.getElementById('exportProgressBar').style.width = totalProgress + '%';
       document.getElementById('exportProgressMessage').textContent =
-        progress.currentFile || progress.phaseDescription || '处理中...';
+        (progress.currentFile || progress.phaseDescription || '处理中...') +
+        (progress.totalBytes ? '（' + formatSize(progress.bytesProcessed || 0) + ' / ' + formatSize(progress.totalBytes) +
+          (progress.estimatedRemaining ? '，剩余 ' + formatTime(progress.estimatedRemaining) : '') + '）' : '');
     }
 
     // 显示导出完成
@@ -1912,9 +2776,25 @@ export function getWebUIHTML(config: any): string {
       document.getElementById('exportProgress').classList.add('hidden');
       document.getElementById('exportComplete').classList.remove('hidden');
 
-      document.getElementById('exportFilename').textContent =
-        result.filename + ' (' + formatSize(result.fileSize) + ')';
-      document.getElementById('exportDownloadLink').href = result.downloadUrl;
+      const volumeLinks = document.getElementById('exportVolumeLinks');
+      if (result.volumes && result.volumes.length > 1) {
+        document.getElementById('exportFilename').textContent =
+          result.volumes.length + ' 个分卷 (' + formatSize(result.fileSize) + ')，请下载全部分卷';
+        document.getElementById('exportDownloadLink').classList.add('hidden');
+        volumeLinks.innerHTML = result.volumes.map(volume =>
+          '<div class="package-item">' +
+            '<a href="' + volume.downloadUrl + '" download>📥 ' + volume.filename + '</a>' +
+            '<span class="package-versions">' + formatSize(volume.fileSize) + '</span>' +
+          '</div>'
+        ).join('');
+        volumeLinks.classList.remove('hidden');
+      } else {
+        document.getElementById('exportFilename').textContent =
+          result.filename + ' (' + formatSize(result.fileSize) + ')';
+        document.getElementById('exportDownloadLink').href = result.downloadUrl;
+        document.getElementById('exportDownloadLink').classList.remove('hidden');
+        volumeLinks.classList.add('hidden');
+      }
     }
 
     // 重置导出状态
@@ -1941,9 +2821,19 @@ export function getWebUIHTML(config: any): string {
         if (this.value === 'custom') {
           customTimeInput.focus();
         }
+        document.getElementById('exportInventoryFile').disabled = this.value !== 'inventory';
       });
     });
 
+    document.getElementById('exportSplitVolumes').addEventListener('change', function() {
+      document.getElementById('exportVolumeSize').disabled = !this.checked;
+    });
+
+    document.getElementById('exportEncrypt').addEventListener('change', function() {
+      document.getElementById('exportPassphrase').disabled = !this.checked;
+      document.getElementById('exportRecipientKey').disabled = !this.checked;
+    });
+
     // 页面加载时刷新状态
     document.addEventListener('DOMContentLoaded', function() {
       refreshCacheStatus();
@@ -0,0 +1,90 @@
+import { createWriteStream } from 'fs';
+import { mkdir, mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
+import tar from 'tar';
+import { TarWriter } from '../src/tar-writer';
+
+describe('TarWriter', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(path.join(tmpdir(), 'tar-writer-'));
+  });
+
+  afterEach(async () => {
+    await rm(workDir, { recursive: true, force: true });
+  });
+
+  /**
+   * 按 differential-packer 的方式写入 tar.gz，返回归档路径
+   */
+  async function pack(write: (writer: TarWriter) => Promise<void>): Promise<string> {
+    const archivePath = path.join(workDir, 'archive.tar.gz');
+    const gzip = createGzip();
+    const done = pipeline(gzip, createWriteStream(archivePath));
+    const writer = new TarWriter(gzip);
+    await write(writer);
+    await writer.finish();
+    await done;
+    return archivePath;
+  }
+
+  async function extract(archivePath: string): Promise<string> {
+    const outDir = path.join(workDir, 'out');
+    await mkdir(outDir);
+    await tar.x({ file: archivePath, cwd: outDir });
+    return outDir;
+  }
+
+  it('round-trips short, long and non-ASCII paths through tar.x', async () => {
+    const longPath = `storage/@scope/${'a'.repeat(120)}/${'nested-directory/'.repeat(4)}pkg-1.0.0.tgz`;
+    const unicodePath = 'storage/中文包/説明-ñ.json';
+    const entries: Array<[string, Buffer]> = [
+      ['storage/lodash/lodash-4.17.21.tgz', Buffer.from('short entry')],
+      [longPath, Buffer.alloc(1500, 0x61)],
+      [unicodePath, Buffer.from('{"name":"中文"}')],
+      ['storage/empty/package.json', Buffer.alloc(0)]
+    ];
+
+    const archivePath = await pack(async (writer) => {
+      for (const [name, content] of entries) {
+        await writer.addBuffer(name, content, new Date('2024-01-02T03:04:05Z'));
+      }
+    });
+
+    const outDir = await extract(archivePath);
+    for (const [name, content] of entries) {
+      expect(await readFile(path.join(outDir, name))).toEqual(content);
+    }
+  });
+
+  it('streams chunked files and reports each chunk', async () => {
+    const chunks = [Buffer.alloc(700, 1), Buffer.alloc(300, 2), Buffer.alloc(24, 3)];
+    const seen: number[] = [];
+
+    const archivePath = await pack((writer) =>
+      writer.addFile('storage/chunked/chunked-1.0.0.tgz', 1024, new Date(), chunks, (chunk) => seen.push(chunk.length))
+    );
+
+    const outDir = await extract(archivePath);
+    expect(await readFile(path.join(outDir, 'storage/chunked/chunked-1.0.0.tgz'))).toEqual(Buffer.concat(chunks));
+    expect(seen).toEqual([700, 300, 24]);
+  });
+
+  it('rejects files whose content does not match the declared size', async () => {
+    const gzip = createGzip();
+    gzip.resume();
+    const writer = new TarWriter(gzip);
+
+    await expect(writer.addFile('short.tgz', 10, new Date(), [Buffer.alloc(4)])).rejects.toThrow(
+      'Entry short.tgz has 4 bytes, expected 10'
+    );
+    await expect(writer.addFile('long.tgz', 2, new Date(), [Buffer.alloc(4)])).rejects.toThrow(
+      'Entry long.tgz is larger than the declared 2 bytes'
+    );
+    gzip.destroy();
+  });
+});
@@ -0,0 +1,216 @@
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import semver from 'semver';
+import { Logger } from '@verdaccio/types';
+import {
+  Advisory,
+  AdvisoryDbSnapshot,
+  AdvisorySeverity,
+  AuditAdvisory,
+  AuditDependencyNode,
+  QuickAuditReport
+} from './types';
+
+// 与 ingest 端的快照目录、文件名及格式版本保持一致
+const ADVISORIES_DIR = '.advisories';
+const ADVISORY_SNAPSHOT_PATTERN = /^advisories-(\d+)\.json$/;
+const ADVISORY_DB_FORMAT = 1;
+const SEVERITIES: AdvisorySeverity[] = ['info', 'low', 'moderate', 'high', 'critical'];
+
+/**
+ * 安全公告库
+ *
+ * 加载差分导入写入的最新公告库快照，实现 npm audit 使用的
+ * bulk advisory 与 quick audit 接口，使内网无需访问公网即可审计依赖
+ */
+export class AdvisoryStore {
+  private storagePath: string;
+  private logger: Logger;
+  private snapshot: AdvisoryDbSnapshot | null = null;
+
+  constructor(storagePath: string, logger: Logger) {
+    this.storagePath = storagePath;
+    this.logger = logger;
+  }
+
+  /**
+   * 加载最新快照（版本号未变化时使用已加载的数据）
+   */
+  async load(): Promise<AdvisoryDbSnapshot | null> {
+    const dir = path.join(this.storagePath, ADVISORIES_DIR);
+    let entries: string[];
+    try {
+      entries = await readdir(dir);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    const revisions = entries
+      .map((entry) => entry.match(ADVISORY_SNAPSHOT_PATTERN))
+      .filter((match): match is RegExpMatchArray => !!match)
+      .map((match) => Number(match[1]))
+      .sort((a, b) => b - a);
+
+    for (const revision of revisions) {
+      if (this.snapshot?.revision === revision) {
+        return this.snapshot;
+      }
+
+      try {
+        const content = await readFile(path.join(dir, `advisories-${revision}.json`), 'utf-8');
+        const snapshot = JSON.parse(content) as AdvisoryDbSnapshot;
+        if (snapshot.format !== ADVISORY_DB_FORMAT) {
+          continue;
+        }
+
+        this.snapshot = snapshot;
+        this.logger.info(
+          { revision, packages: Object.keys(snapshot.advisories).length },
+          'Loaded advisory database revision @{revision} (@{packages} vulnerable packages)'
+        );
+        return snapshot;
+      } catch (error: any) {
+        this.logger.warn(
+          { revision, error: error.message },
+          'Failed to load advisory database revision @{revision}: @{error}'
+        );
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * bulk advisory：请求为 { 包名: [版本, ...] }，返回影响其中任一版本的公告
+   */
+  async bulk(query: Record<string, string[]>): Promise<Record<string, Advisory[]>> {
+    const snapshot = await this.requireSnapshot();
+    const result: Record<string, Advisory[]> = {};
+
+    for (const [name, versions] of Object.entries(query || {})) {
+      const advisories = snapshot.advisories[name];
+      if (!advisories) {
+        continue;
+      }
+
+      const list = Array.isArray(versions) ? versions : [];
+      const matched = advisories.filter(
+        (advisory) => list.length === 0 || list.some((version) => isVulnerable(version, advisory))
+      );
+      if (matched.length > 0) {
+        result[name] = matched;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * quick audit：请求为 npm 6 风格的依赖树，返回命中的公告及依赖路径
+   */
+  async quickAudit(tree: { dependencies?: Record<string, AuditDependencyNode> }): Promise<QuickAuditReport> {
+    const snapshot = await this.requireSnapshot();
+    const advisories: Record<string, AuditAdvisory> = {};
+    const vulnerabilities = Object.fromEntries(SEVERITIES.map((severity) => [severity, 0])) as Record<
+      AdvisorySeverity,
+      number
+    >;
+    const counts = { dependencies: 0, devDependencies: 0, optionalDependencies: 0 };
+
+    const walk = (dependencies: Record<string, AuditDependencyNode> | undefined, parents: string[]): void => {
+      for (const [key, node] of Object.entries(dependencies || {})) {
+        if (!node || typeof node.version !== 'string') {
+          continue;
+        }
+
+        if (node.dev) {
+          counts.devDependencies++;
+        } else {
+          counts.dependencies++;
+        }
+        if (node.optional) {
+          counts.optionalDependencies++;
+        }
+
+        const { name, version } = resolveAlias(key, node.version);
+        const nodePath = [...parents, key];
+
+        for (const advisory of snapshot.advisories[name] || []) {
+          if (!isVulnerable(version, advisory)) {
+            continue;
+          }
+
+          const entry = (advisories[advisory.id] = advisories[advisory.id] || {
+            ...advisory,
+            module_name: name,
+            findings: []
+          });
+          let finding = entry.findings.find((item) => item.version === version);
+          if (!finding) {
+            finding = { version, paths: [] };
+            entry.findings.push(finding);
+          }
+          finding.paths.push(nodePath.join('>'));
+          vulnerabilities[advisory.severity]++;
+        }
+
+        walk(node.dependencies, nodePath);
+      }
+    };
+
+    walk(tree?.dependencies, []);
+
+    return {
+      actions: [],
+      advisories,
+      muted: [],
+      metadata: {
+        vulnerabilities,
+        dependencies: counts.dependencies,
+        devDependencies: counts.devDependencies,
+        optionalDependencies: counts.optionalDependencies,
+        totalDependencies: counts.dependencies + counts.devDependencies
+      }
+    };
+  }
+
+  /**
+   * 尚未导入公告库时抛出错误，由调用方返回 503，避免 npm audit 误报为无漏洞
+   */
+  private async requireSnapshot(): Promise<AdvisoryDbSnapshot> {
+    const snapshot = await this.load();
+    if (!snapshot) {
+      throw Object.assign(new Error('Advisory database has not been imported'), { statusCode: 503 });
+    }
+    return snapshot;
+  }
+}
+
+/**
+ * 版本是否落在公告的受影响范围内（无法解析的版本，如 git / file 依赖，视为不受影响）
+ */
+function isVulnerable(version: string, advisory: Advisory): boolean {
+  if (!semver.valid(version)) {
+    return false;
+  }
+  try {
+    return semver.satisfies(version, advisory.vulnerable_versions, { includePrerelease: true });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 解析别名依赖（"npm:真实包名@版本"）
+ */
+function resolveAlias(name: string, version: string): { name: string; version: string } {
+  if (!version.startsWith('npm:')) {
+    return { name, version };
+  }
+  const spec = version.slice(4);
+  const at = spec.lastIndexOf('@');
+  return at > 0 ? { name: spec.slice(0, at), version: spec.slice(at + 1) } : { name, version };
+}
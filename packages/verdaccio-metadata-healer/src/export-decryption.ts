@@ -0,0 +1,148 @@
+import { createPrivateKey, createPublicKey, diffieHellman, KeyObject, scrypt } from 'crypto';
+import { open, readFile } from 'fs/promises';
+import { Transform } from 'stream';
+import { Logger } from '@verdaccio/types';
+import {
+  ENCRYPTED_ARCHIVE_MAGIC,
+  EncryptedArchiveHeader,
+  EncryptedArchiveRecipient,
+  createArchiveDecryptStream,
+  deriveX25519WrappingKey,
+  getKeyFingerprint,
+  unwrapDataKey
+} from 'verdaccio-offline-common';
+import { HealerConfig } from './types';
+
+// scrypt 参数上限（128 * N * r 字节内存）
+const MAX_SCRYPT_MEMORY = 256 * 1024 * 1024;
+
+/**
+ * 根据插件配置创建解密器（未配置私钥时只能使用口令解密）
+ */
+export function createArchiveDecryptor(config: HealerConfig, logger: Logger): ArchiveDecryptor {
+  return new ArchiveDecryptor(config.decryptionKeys || [], logger);
+}
+
+/**
+ * 判断文件是否为加密导出包（按文件开头的魔数，而不是扩展名）
+ */
+export async function isEncryptedArchive(filePath: string): Promise<boolean> {
+  const handle = await open(filePath, 'r');
+  try {
+    const magic = Buffer.alloc(ENCRYPTED_ARCHIVE_MAGIC.length);
+    const { bytesRead } = await handle.read(magic, 0, magic.length, 0);
+    return bytesRead === magic.length && magic.equals(ENCRYPTED_ARCHIVE_MAGIC);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * 加密导出包解密器
+ *
+ * 按容器头中的封装依次尝试配置的 X25519 私钥（按公钥指纹匹配）与导入时输入的口令，
+ * 解开数据密钥后由 verdaccio-offline-common 的分段解密流逐段校验并解密，输出原始的 tar.gz 流
+ */
+export class ArchiveDecryptor {
+  private keySources: string[];
+  private logger: Logger;
+  private privateKeys: Promise<Map<string, KeyObject>> | null = null;
+
+  constructor(keySources: string[], logger: Logger) {
+    this.keySources = keySources;
+    this.logger = logger;
+  }
+
+  /**
+   * 创建解密流（数据密钥在读到容器头后解开）
+   */
+  createDecryptStream(passphrase?: string): Transform {
+    return createArchiveDecryptStream((header) => this.unwrapDataKey(header, passphrase));
+  }
+
+  private async unwrapDataKey(header: EncryptedArchiveHeader, passphrase?: string): Promise<Buffer> {
+    const privateKeys = await this.loadPrivateKeys();
+    let wrongPassphrase = false;
+
+    for (const recipient of header.recipients) {
+      if (recipient.type === 'x25519') {
+        const privateKey = privateKeys.get(String(recipient.fingerprint).toLowerCase());
+        if (!privateKey) continue;
+
+        const ephemeralKey = Buffer.from(recipient.ephemeralKey, 'base64');
+        const shared = diffieHellman({
+          privateKey,
+          publicKey: createPublicKey({ key: ephemeralKey, format: 'der', type: 'spki' })
+        });
+        const dataKey = unwrapDataKey(deriveX25519WrappingKey(shared, ephemeralKey), recipient);
+        if (!dataKey) {
+          throw new Error('无法用配置的私钥解开数据密钥，导出包可能已被篡改');
+        }
+        this.logger.info({ fingerprint: recipient.fingerprint }, 'Decrypting archive with private key @{fingerprint}');
+        return dataKey;
+      }
+    }
+
+    if (passphrase) {
+      for (const recipient of header.recipients) {
+        if (recipient.type !== 'scrypt') continue;
+        const dataKey = unwrapDataKey(await deriveScryptKey(passphrase, recipient), recipient);
+        if (dataKey) {
+          this.logger.info('Decrypting archive with passphrase');
+          return dataKey;
+        }
+        wrongPassphrase = true;
+      }
+    }
+
+    if (wrongPassphrase) {
+      throw new Error('口令错误，无法解密导出包');
+    }
+    throw new Error('导出包已加密，需要口令或配置的私钥');
+  }
+
+  /**
+   * 读取配置的 X25519 私钥，按公钥指纹索引（读取失败的私钥只记录日志）
+   */
+  private loadPrivateKeys(): Promise<Map<string, KeyObject>> {
+    if (!this.privateKeys) {
+      this.privateKeys = (async () => {
+        const keys = new Map<string, KeyObject>();
+        for (const source of this.keySources) {
+          try {
+            const pem = source.includes('-----BEGIN') ? source : await readFile(source, 'utf-8');
+            const key = createPrivateKey(pem);
+            if (key.asymmetricKeyType !== 'x25519') {
+              throw new Error(`not an X25519 key (${key.asymmetricKeyType})`);
+            }
+            keys.set(getKeyFingerprint(createPublicKey(key)), key);
+          } catch (error: any) {
+            this.logger.error(
+              { source: source.includes('-----BEGIN') ? 'inline key' : source, error: error.message },
+              'Failed to load decryption key @{source}: @{error}'
+            );
+          }
+        }
+        return keys;
+      })();
+    }
+    return this.privateKeys;
+  }
+}
+
+function deriveScryptKey(
+  passphrase: string,
+  params: Extract<EncryptedArchiveRecipient, { type: 'scrypt' }>
+): Promise<Buffer> {
+  const { N, r, p } = params;
+  const memory = 128 * N * r;
+  if (![N, r, p].every(Number.isInteger) || N < 2 || (N & (N - 1)) !== 0 || r < 1 || p < 1 || p > 16 || memory > MAX_SCRYPT_MEMORY) {
+    return Promise.reject(new Error('无效的加密导出包：不支持的 scrypt 参数'));
+  }
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase, Buffer.from(params.salt, 'base64'), 32, { N, r, p, maxmem: memory * 2 }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
@@ -4,13 +4,43 @@ import { Config, Logger, Manifest } from '@verdaccio/types';
 import multer from 'multer';
 import { rm, readdir, stat, access } from 'fs/promises';
 import { join } from 'path';
+import {
+  SearchIndex,
+  StorageAuditor,
+  StorageIndex,
+  OFFLINE_STORAGE_REPAIR_ACTIONS,
+  RegistryRouter,
+  countIssues,
+  getSearchIndex,
+  getStorageIndex
+} from 'verdaccio-offline-common';
 import { StorageScanner } from './storage-scanner';
 import { MetadataPatcher } from './metadata-patcher';
 import { ShasumCache } from './shasum-cache';
-import { ImportHandler } from './import-handler';
+import { ImportHandler, describeImportResult } from './import-handler';
 import { MetadataSyncer, SyncResult } from './metadata-syncer';
+import { createManifestVerifier } from './manifest-verifier';
+import { createArchiveDecryptor } from './export-decryption';
+import { fixLegacyTarballUrls, migrateTarballUrls } from './tarball-url';
+import { OfflineRoutes } from './offline-routes';
 import { getImportUIHTML } from './import-ui';
-import { HealerConfig, TarballInfo, ImportTaskStatus, ImportOptions, ImportProgress } from './types';
+import {
+  HealerConfig,
+  TarballInfo,
+  ImportTaskStatus,
+  ImportOptions,
+  ImportProgress,
+  StorageAuditReport,
+  StorageAuditRequest,
+  StorageAuditTaskStatus,
+  StorageIssue,
+  StorageRepairAction,
+  StorageRepairRequest,
+  StorageRepairResult
+} from './types';
+
+// 未配置 uplink 时默认使用 npmmirror
+const DEFAULT_REGISTRY = 'https://registry.npmmirror.com';
 
 /**
  * 同步任务状态
@@ -44,10 +74,17 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
   // 元数据同步相关
   private syncer!: MetadataSyncer;
   private syncTasks: Map<string, SyncTaskStatus> = new Map();
-  private upstreamRegistry: string = 'https://registry.npmmirror.com';
+  private router: RegistryRouter;
   private readonly defaultSyncConcurrency = 5;
   // Verdaccio 存储实例
   private verdaccioStorage: any;
+  // 本地包搜索索引（npm search）
+  private searchIndex: SearchIndex;
+  // 持久化的存储索引（配置关闭时为 undefined，回退到目录扫描）
+  private storageIndex?: StorageIndex;
+  // 存储完整性审计与修复
+  private auditor: StorageAuditor;
+  private auditTasks: Map<string, StorageAuditTaskStatus> = new Map();
 
   constructor(config: HealerConfig, options: pluginUtils.PluginOptions) {
     super(config, options);
@@ -68,17 +105,17 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
 
     this.patcher = new MetadataPatcher(config, this.logger);
     this.shasumCache = new ShasumCache(config, this.logger);
-
-    // 从 Verdaccio 配置中获取 uplinks
-    if (verdaccioConfig.uplinks) {
-      const firstUplink = Object.values(verdaccioConfig.uplinks)[0] as any;
-      if (firstUplink?.url) {
-        this.upstreamRegistry = firstUplink.url;
-      }
+    this.searchIndex = getSearchIndex(this.storagePath, this.logger);
+    if (config.storageIndex?.enabled !== false) {
+      this.storageIndex = getStorageIndex(this.storagePath, this.logger, config.storageIndex);
     }
+    this.auditor = new StorageAuditor(this.storagePath, this.logger, OFFLINE_STORAGE_REPAIR_ACTIONS);
+
+    // 从 Verdaccio 配置中获取 uplinks 与 packages 规则，按包名路由到对应上游
+    this.router = new RegistryRouter(config, verdaccioConfig, this.logger, DEFAULT_REGISTRY);
 
     this.logger.info(
-      { upstreamRegistry: this.upstreamRegistry },
+      { upstreamRegistry: this.router.getDefault().url },
       'MetadataHealerFilter initialized with upstream: @{upstreamRegistry}'
     );
   }
@@ -96,15 +133,21 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
       this.scanner = new StorageScanner(
         this.config as HealerConfig,
         this.storagePath,
-        this.logger
+        this.logger,
+        this.storageIndex
       );
       this.syncer = new MetadataSyncer(
         this.config as HealerConfig,
         this.storagePath,
         this.logger,
-        this.upstreamRegistry
+        this.router
       );
       this.initialized = true;
+
+      // 迁移旧版本以固定 http://host 保存的修复元数据 tarball 地址（不阻塞初始化）
+      migrateTarballUrls(this.storagePath, (this.config as HealerConfig).host, this.logger).catch((error: any) => {
+        this.logger.warn({ error: error.message }, 'Tarball URL migration failed: @{error}');
+      });
     }
   }
 
@@ -139,17 +182,30 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
     );
 
     try {
+      // 0. 修正旧版本保存的 tarball 地址，有修改时强制回写本地元数据
+      const legacyUrls = fixLegacyTarballUrls(manifest, config.host) > 0;
+
       // 1. 扫描存储目录中的 .tgz 文件
       const tarballs = await this.scanner.scanPackageTarballs(packageName);
 
       if (tarballs.length === 0) {
         // 即使没有本地 tarball，也尝试保存远端元数据
         if (config.autoSaveMetadata !== false) {
-          this.saveMetadataAsync(packageName, manifest);
+          this.saveMetadataAsync(packageName, manifest, legacyUrls);
         }
         return manifest;
       }
 
+      // 本地 tarball 有变化时更新搜索索引（不阻塞返回）
+      this.searchIndex
+        .updateIfChanged(packageName, tarballs.map((tarball) => tarball.version))
+        .catch((error: any) => {
+          this.logger.warn(
+            { packageName, error: error.message },
+            'Failed to update search index for @{packageName}: @{error}'
+          );
+        });
+
       // 2. 对比元数据中的 versions，找出缺失的版本
       const missingVersions = this.findMissingVersions(manifest, tarballs);
 
@@ -166,7 +222,7 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
 
         // 自动保存元数据到本地
         if (config.autoSaveMetadata !== false) {
-          this.saveMetadataAsync(packageName, manifest);
+          this.saveMetadataAsync(packageName, manifest, legacyUrls);
         }
 
         return manifest;
@@ -214,9 +270,9 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
   /**
    * 异步保存元数据到本地文件
    * 不阻塞 filter_metadata 的返回
-   * 只有当远端数据比本地数据更新时才保存
+   * 只有当远端数据比本地数据更新时才保存（force 为 true 时总是保存）
    */
-  private saveMetadataAsync(packageName: string, manifest: Manifest): void {
+  private saveMetadataAsync(packageName: string, manifest: Manifest, force: boolean = false): void {
     // 异步执行，不阻塞返回
     setImmediate(async () => {
       try {
@@ -241,6 +297,7 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
 
         // 检查是否需要更新：远端版本数更多，或者 dist-tags 不同
         const shouldUpdate =
+          force ||
           remoteVersions > localVersions ||
           remoteDistTags.latest !== localDistTags.latest ||
           remoteDistTags.next !== localDistTags.next;
@@ -362,13 +419,23 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
     this.verdaccioStorage = storage;
     this.logger.info('Verdaccio storage instance saved for metadata sync');
 
+    // 二进制制品与 npm audit 接口不依赖导入界面，始终注册
+    new OfflineRoutes(this.storagePath, this.logger, this.searchIndex, this.storageIndex).register(app);
+
     // 检查是否启用导入功能
     if (!config.enableImportUI) {
       this.logger.debug('Import UI is disabled');
       return;
     }
 
-    this.importHandler = new ImportHandler(this.storagePath, this.logger);
+    this.importHandler = new ImportHandler(
+      this.storagePath,
+      this.logger,
+      this.searchIndex,
+      this.storageIndex,
+      createManifestVerifier(config, this.logger),
+      createArchiveDecryptor(config, this.logger)
+    );
 
     // 配置文件上传
     const uploadDir = this.importHandler.getUploadDir();
@@ -378,10 +445,14 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
         fileSize: 1024 * 1024 * 1024 * 10 // 10GB 限制
       },
       fileFilter: (req, file, cb) => {
-        if (file.originalname.endsWith('.tar.gz') || file.originalname.endsWith('.tgz')) {
+        if (
+          file.originalname.endsWith('.tar.gz') ||
+          file.originalname.endsWith('.tgz') ||
+          file.originalname.endsWith('.tar.gz.enc')
+        ) {
           cb(null, true);
         } else {
-          cb(new Error('只支持 .tar.gz 或 .tgz 文件'));
+          cb(new Error('只支持 .tar.gz、.tgz 或 .tar.gz.enc 文件'));
         }
       }
     });
@@ -394,6 +465,9 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
     router.post('/healer/import/local', express.json(), this.handleLocalImport.bind(this));
     router.get('/healer/import/status/:taskId', this.handleStatus.bind(this));
     router.get('/healer/import/history', this.handleHistory.bind(this));
+    router.get('/healer/import/volumes', this.handleVolumeSets.bind(this));
+    router.post('/healer/import/volumes/:exportId/import', express.json(), this.handleVolumeSetImport.bind(this));
+    router.post('/healer/import/volumes/:exportId/discard', this.handleVolumeSetDiscard.bind(this));
     router.get('/healer/ui', this.handleWebUI.bind(this));
 
     // 元数据同步相关路由
@@ -402,6 +476,12 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
     router.post('/healer/sync-all', this.handleSyncAll.bind(this));
     router.get('/healer/sync/status/:taskId', this.handleSyncStatus.bind(this));
     router.get('/healer/packages', this.handleListPackages.bind(this));
+    router.post('/healer/migrate/tarball-urls', this.handleMigrateTarballUrls.bind(this));
+
+    // 存储完整性审计与修复
+    router.post('/healer/audit', express.json(), this.handleAudit.bind(this));
+    router.post('/healer/audit/repair', express.json(), this.handleAuditRepair.bind(this));
+    router.get('/healer/audit/status/:taskId', this.handleAuditStatus.bind(this));
 
     app.use('/_', router);
 
@@ -409,6 +489,19 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
     this.logger.info('Sync API registered at /_/healer/sync/:packageName');
   }
 
+  /**
+   * 重新迁移修复元数据中的旧 tarball 地址（如导入了旧版本保存的元数据）
+   */
+  private async handleMigrateTarballUrls(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await migrateTarballUrls(this.storagePath, (this.config as HealerConfig).host, this.logger, true);
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      this.logger.error({ error: error.message }, 'Tarball URL migration failed: @{error}');
+      res.status(500).json({ success: false, error: error.message });
+    }
+  }
+
   private async handleUpload(req: Request, res: Response): Promise<void> {
     const file = req.file;
 
@@ -420,7 +513,9 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
     const options: ImportOptions = {
       overwrite: req.body.overwrite === 'true',
       rebuildMetadata: req.body.rebuildMetadata !== 'false',
-      validateChecksum: req.body.validateChecksum !== 'false'
+      validateChecksum: req.body.validateChecksum !== 'false',
+      allowPartial: req.body.allowPartial === 'true',
+      passphrase: req.body.passphrase || undefined
     };
 
     const taskId = this.createTask();
@@ -465,7 +560,7 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
         status: 'completed',
         progress: 100,
         result,
-        message: `导入完成: ${result.imported} 个文件`
+        message: describeImportResult(result)
       });
 
       this.logger.info(
@@ -491,7 +586,7 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
   }
 
   private async handleLocalImport(req: Request, res: Response): Promise<void> {
-    const { path: filePath, overwrite, validateChecksum, rebuildMetadata } = req.body || {};
+    const { path: filePath, overwrite, validateChecksum, rebuildMetadata, allowPartial, passphrase } = req.body || {};
 
     if (!filePath || typeof filePath !== 'string') {
       res.status(400).json({ success: false, error: '请提供文件路径' });
@@ -499,8 +594,8 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
     }
 
     // 验证文件扩展名
-    if (!filePath.endsWith('.tar.gz') && !filePath.endsWith('.tgz')) {
-      res.status(400).json({ success: false, error: '只支持 .tar.gz 或 .tgz 文件' });
+    if (!filePath.endsWith('.tar.gz') && !filePath.endsWith('.tgz') && !filePath.endsWith('.tar.gz.enc')) {
+      res.status(400).json({ success: false, error: '只支持 .tar.gz、.tgz 或 .tar.gz.enc 文件' });
       return;
     }
 
@@ -519,7 +614,9 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
     const options: ImportOptions = {
       overwrite: overwrite === true,
       rebuildMetadata: rebuildMetadata !== false,
-      validateChecksum: validateChecksum !== false
+      validateChecksum: validateChecksum !== false,
+      allowPartial: allowPartial === true,
+      passphrase: typeof passphrase === 'string' && passphrase ? passphrase : undefined
     };
 
     const taskId = this.createTask();
@@ -565,7 +662,7 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
         status: 'completed',
         progress: 100,
         result,
-        message: `导入完成: ${result.imported} 个文件`
+        message: describeImportResult(result)
       });
 
       this.logger.info(
@@ -585,6 +682,127 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
     // 注意：本地路径导入不删除源文件
   }
 
+  /**
+   * 列出已暂存、等待其余分卷的分卷导出
+   */
+  private async handleVolumeSets(req: Request, res: Response): Promise<void> {
+    try {
+      res.json({ success: true, volumeSets: await this.importHandler.listVolumeSets() });
+    } catch (error: any) {
+      this.logger.error({ error: error.message }, 'Failed to list staged volumes: @{error}');
+      res.status(500).json({ success: false, error: error.message });
+    }
+  }
+
+  /**
+   * 导入已暂存的分卷导出（缺少分卷时需要 allowPartial: true）
+   */
+  private async handleVolumeSetImport(req: Request, res: Response): Promise<void> {
+    const { exportId } = req.params;
+    const { overwrite, validateChecksum, rebuildMetadata, allowPartial } = req.body || {};
+
+    try {
+      const volumeSet = await this.importHandler.getVolumeSet(exportId);
+      if (!volumeSet) {
+        res.status(404).json({ success: false, error: 'Staged export not found' });
+        return;
+      }
+      if (volumeSet.missing.length > 0 && allowPartial !== true) {
+        res.status(400).json({
+          success: false,
+          error: `缺少分卷: ${volumeSet.missing.join(', ')}，如需导入已接收的分卷请指定 allowPartial`,
+          volumes: volumeSet
+        });
+        return;
+      }
+
+      const options: ImportOptions = {
+        overwrite: overwrite === true,
+        rebuildMetadata: rebuildMetadata !== false,
+        validateChecksum: validateChecksum !== false,
+        allowPartial: allowPartial === true
+      };
+
+      const taskId = this.createTask();
+      this.executeVolumeSetImport(taskId, exportId, options).catch((error) => {
+        this.updateTask(taskId, {
+          status: 'failed',
+          error: error.message
+        });
+      });
+
+      res.json({
+        success: true,
+        taskId,
+        exportId,
+        message: 'Volume import task started'
+      });
+    } catch (error: any) {
+      this.logger.error({ error: error.message }, 'Failed to import staged volumes: @{error}');
+      res.status(500).json({ success: false, error: error.message });
+    }
+  }
+
+  private async executeVolumeSetImport(
+    taskId: string,
+    exportId: string,
+    options: ImportOptions
+  ): Promise<void> {
+    this.updateTask(taskId, { status: 'running', progress: 0 });
+
+    try {
+      const result = await this.importHandler.importVolumeSet(
+        exportId,
+        options,
+        (progress: ImportProgress) => {
+          this.updateTask(taskId, {
+            progress: progress.totalProgress,
+            message: progress.phaseDescription,
+            detailedProgress: progress
+          });
+        }
+      );
+
+      this.updateTask(taskId, {
+        status: 'completed',
+        progress: 100,
+        result,
+        message: describeImportResult(result)
+      });
+
+      this.logger.info(
+        { taskId, exportId, imported: result.imported },
+        'Volume import task for @{exportId} completed: @{imported} files imported'
+      );
+    } catch (error: any) {
+      this.updateTask(taskId, {
+        status: 'failed',
+        error: error.message
+      });
+      this.logger.error(
+        { taskId, error: error.message },
+        'Volume import task failed: @{error}'
+      );
+    }
+  }
+
+  /**
+   * 丢弃已暂存的分卷导出
+   */
+  private async handleVolumeSetDiscard(req: Request, res: Response): Promise<void> {
+    try {
+      const discarded = await this.importHandler.discardVolumeSet(req.params.exportId);
+      if (!discarded) {
+        res.status(404).json({ success: false, error: 'Staged export not found' });
+        return;
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      this.logger.error({ error: error.message }, 'Failed to discard staged volumes: @{error}');
+      res.status(500).json({ success: false, error: error.message });
+    }
+  }
+
   private handleStatus(req: Request, res: Response): void {
     const { taskId } = req.params;
     const task = this.tasks.get(taskId);
@@ -655,6 +873,7 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
       const result = await this.syncer.syncPackage(packageName);
 
       if (result.success) {
+        await this.updateSearchIndex([packageName]);
         res.json({
           success: true,
           packageName: result.packageName,
@@ -822,6 +1041,7 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
 
       const successCount = results.filter(r => r.success).length;
       const failedCount = results.filter(r => !r.success).length;
+      await this.updateSearchIndex(results.filter(r => r.success).map(r => r.packageName));
 
       this.updateSyncTask(taskId, {
         status: 'completed',
@@ -942,6 +1162,259 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
     }
   }
 
+  // ==================== 存储审计功能 ====================
+
+  /**
+   * 处理存储审计请求（异步任务模式）
+   */
+  private async handleAudit(req: Request, res: Response): Promise<void> {
+    const { packages } = (req.body || {}) as StorageAuditRequest;
+
+    const taskId = this.createAuditTask();
+
+    this.executeAudit(taskId, packages).catch((error) => {
+      this.updateAuditTask(taskId, {
+        status: 'failed',
+        error: error.message
+      });
+    });
+
+    res.json({
+      success: true,
+      taskId,
+      auditId: taskId,
+      message: 'Storage audit task started'
+    });
+  }
+
+  /**
+   * 执行存储审计任务，报告作为任务结果保存，修复时通过 auditId（即任务 ID）引用
+   */
+  private async executeAudit(taskId: string, packages: string[] | undefined): Promise<void> {
+    this.updateAuditTask(taskId, { status: 'running', progress: 0, message: 'Auditing storage...' });
+
+    const report = await this.auditor.audit(taskId, packages, (processed, total, packageName) => {
+      this.updateAuditTask(taskId, {
+        progress: Math.round((processed / Math.max(1, total)) * 100),
+        message: `Auditing ${packageName} (${processed}/${total})`
+      });
+    });
+
+    this.updateAuditTask(taskId, {
+      status: 'completed',
+      progress: 100,
+      message: `Audit completed: ${report.total} issues in ${report.scannedPackages} packages`,
+      result: report
+    });
+  }
+
+  /**
+   * 处理存储修复请求（对审计报告中某一类别的问题执行修复操作）
+   */
+  private async handleAuditRepair(req: Request, res: Response): Promise<void> {
+    const { auditId, category, action, items } = (req.body || {}) as StorageRepairRequest;
+
+    const report = this.auditTasks.get(auditId)?.result as StorageAuditReport | undefined;
+    if (!report || report.auditId !== auditId) {
+      res.status(404).json({ success: false, error: 'Audit report not found' });
+      return;
+    }
+    if (!report.actions[category]?.includes(action)) {
+      res.status(400).json({
+        success: false,
+        error: `Action "${action}" is not available for category "${category}"`
+      });
+      return;
+    }
+
+    const selected = items && items.length > 0 ? new Set(items) : null;
+    const issues = report.issues[category].filter(
+      (issue) => !selected || selected.has(`${issue.name}@${issue.version}`)
+    );
+    if (issues.length === 0) {
+      res.status(400).json({ success: false, error: 'No matching issues to repair' });
+      return;
+    }
+
+    const taskId = this.createAuditTask();
+
+    this.executeAuditRepair(taskId, report, issues, action).catch((error) => {
+      this.updateAuditTask(taskId, {
+        status: 'failed',
+        error: error.message
+      });
+    });
+
+    res.json({
+      success: true,
+      taskId,
+      message: `Repairing ${issues.length} issues`
+    });
+  }
+
+  /**
+   * 执行存储修复任务，修复成功的问题从审计报告中移除
+   */
+  private async executeAuditRepair(
+    taskId: string,
+    report: StorageAuditReport,
+    issues: StorageIssue[],
+    action: StorageRepairAction
+  ): Promise<void> {
+    this.ensureInitialized();
+
+    const category = issues[0].category;
+    const result: StorageRepairResult = { auditId: report.auditId, category, action, repaired: [], failed: [] };
+    this.updateAuditTask(taskId, { status: 'running', progress: 0, message: `Running ${action}...` });
+
+    // 同一个包的问题一起处理（元数据只读写一次）
+    const byPackage = new Map<string, StorageIssue[]>();
+    for (const issue of issues) {
+      byPackage.set(issue.name, [...(byPackage.get(issue.name) || []), issue]);
+    }
+
+    let completed = 0;
+    for (const [name, packageIssues] of byPackage) {
+      const repaired = await this.repairPackage(name, packageIssues, action, result);
+      result.repaired.push(...repaired.map((issue) => `${issue.name}@${issue.version}`));
+      const done = new Set(repaired);
+      report.issues[category] = report.issues[category].filter((issue) => !done.has(issue));
+
+      completed += packageIssues.length;
+      this.updateAuditTask(taskId, {
+        progress: Math.round((completed / issues.length) * 100),
+        message: `Running ${action} (${completed}/${issues.length})`
+      });
+    }
+    report.total = countIssues(report.issues);
+
+    const names = Array.from(byPackage.keys());
+    names.forEach((name) => this.clearCache(name));
+    await this.updateSearchIndex(names);
+
+    this.updateAuditTask(taskId, {
+      status: 'completed',
+      progress: 100,
+      message: `${action}: ${result.repaired.length} repaired, ${result.failed.length} failed`,
+      result
+    });
+  }
+
+  /**
+   * 修复单个包的问题，返回修复成功的问题（失败的记录到 result.failed）
+   */
+  private async repairPackage(
+    name: string,
+    issues: StorageIssue[],
+    action: StorageRepairAction,
+    result: StorageRepairResult
+  ): Promise<StorageIssue[]> {
+    const repaired: StorageIssue[] = [];
+    const fail = (issue: StorageIssue, error: any) => {
+      result.failed.push({ item: `${issue.name}@${issue.version}`, error: error.message });
+    };
+
+    if (action === 'reheal') {
+      try {
+        const healed = new Set(await this.rehealVersions(name, issues.map((issue) => issue.version)));
+        for (const issue of issues) {
+          if (healed.has(issue.version)) {
+            repaired.push(issue);
+          } else {
+            fail(issue, new Error('Could not extract metadata from tarball'));
+          }
+        }
+      } catch (error: any) {
+        issues.forEach((issue) => fail(issue, error));
+      }
+      return repaired;
+    }
+
+    if (action === 'drop-version') {
+      try {
+        for (const issue of issues) {
+          if (issue.category !== 'missing-tarball' && issue.filename) {
+            await this.auditor.quarantine(name, issue.filename);
+          }
+        }
+        await this.auditor.dropVersions(name, issues.map((issue) => issue.version));
+        repaired.push(...issues);
+      } catch (error: any) {
+        issues.forEach((issue) => fail(issue, error));
+      }
+      return repaired;
+    }
+
+    for (const issue of issues) {
+      try {
+        await this.auditor.quarantine(name, issue.filename!);
+        repaired.push(issue);
+      } catch (error: any) {
+        this.logger.warn(
+          { name, version: issue.version, error: error.message },
+          'Failed to quarantine @{name}@@{version}: @{error}'
+        );
+        fail(issue, error);
+      }
+    }
+    return repaired;
+  }
+
+  /**
+   * 按本地 tarball 重新生成版本元数据（元数据不存在时创建），返回成功的版本
+   */
+  private async rehealVersions(name: string, versions: string[]): Promise<string[]> {
+    const manifest = (await this.syncer.readLocalMetadata(name)) || ({
+      name,
+      versions: {},
+      'dist-tags': {},
+      _attachments: {},
+      time: {}
+    } as unknown as Manifest);
+
+    const wanted = new Set(versions);
+    for (const version of wanted) {
+      delete manifest.versions?.[version];
+    }
+
+    const tarballs = (await this.scanner.scanPackageTarballs(name)).filter((tarball) => wanted.has(tarball.version));
+    const patched = await this.patcher.patchManifest(manifest, tarballs, this.shasumCache);
+    this.patcher.updateDistTags(patched);
+
+    const healed = versions.filter((version) => patched.versions[version]);
+    if (healed.length > 0) {
+      await this.syncer.saveMetadata(name, patched);
+    }
+    return healed;
+  }
+
+  /**
+   * 获取存储审计 / 修复任务状态
+   */
+  private handleAuditStatus(req: Request, res: Response): void {
+    const { taskId } = req.params;
+    const task = this.auditTasks.get(taskId);
+
+    if (!task) {
+      res.status(404).json({ success: false, error: 'Task not found' });
+      return;
+    }
+
+    res.json(task);
+  }
+
+  /**
+   * 元数据同步后更新存储索引与搜索索引（失败不影响同步结果）
+   */
+  private async updateSearchIndex(packageNames: string[]): Promise<void> {
+    try {
+      await this.storageIndex?.refresh(packageNames);
+      await this.searchIndex.update(packageNames);
+    } catch (error: any) {
+      this.logger.warn({ error: error.message }, 'Failed to update search index: @{error}');
+    }
+  }
+
   private createSyncTask(): string {
     const taskId = `sync-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
     this.syncTasks.set(taskId, {
@@ -958,6 +1431,22 @@ export default class MetadataHealerFilter extends pluginUtils.Plugin<HealerConfi
     }
   }
 
+  private createAuditTask(): string {
+    const taskId = `audit-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+    this.auditTasks.set(taskId, {
+      taskId,
+      status: 'pending'
+    });
+    return taskId;
+  }
+
+  private updateAuditTask(taskId: string, updates: Partial<StorageAuditTaskStatus>): void {
+    const task = this.auditTasks.get(taskId);
+    if (task) {
+      Object.assign(task, updates);
+    }
+  }
+
   private getSyncConcurrency(): number {
     const configured = Number((this.config as HealerConfig).syncConcurrency);
     if (!Number.isFinite(configured) || configured <= 0) {
@@ -1,9 +1,15 @@
 import { createReadStream, createWriteStream } from 'fs';
-import { mkdir, rm, copyFile, readFile, writeFile, stat, access } from 'fs/promises';
+import { mkdir, rm, copyFile, readFile, writeFile, stat, access, readdir, rename } from 'fs/promises';
 import path from 'path';
 import { createHash } from 'crypto';
+import { once } from 'events';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
 import tar from 'tar';
 import { Logger } from '@verdaccio/types';
+import { MANIFEST_FILE, SearchIndex, StorageIndex } from 'verdaccio-offline-common';
+import { ManifestVerifier } from './manifest-verifier';
+import { ArchiveDecryptor, isEncryptedArchive } from './export-decryption';
 import {
   ImportHistoryFile,
   ImportRecord,
@@ -11,11 +17,19 @@ import {
   ImportOptions,
   ImportProgress,
   ExportManifest,
-  ExportFileEntry
+  ExportFileEntry,
+  ImportVolumeSet,
+  ImportSigner
 } from './types';
 
 const IMPORT_HISTORY_FILE = '.import-history.json';
 const TEMP_IMPORT_DIR = '.import-temp';
+// 分卷导出的暂存目录（等待其余分卷）
+const VOLUMES_DIR = '.import-volumes';
+// 导出 ID 用作暂存目录名
+const VOLUME_EXPORT_ID_PATTERN = /^[\w.-]+$/;
+// 解压时两次进度回调的最小间隔（毫秒）
+const PROGRESS_INTERVAL = 500;
 
 /**
  * 差分包导入处理器
@@ -24,26 +38,41 @@ const TEMP_IMPORT_DIR = '.import-temp';
 export class ImportHandler {
   private storagePath: string;
   private logger: Logger;
-
-  constructor(storagePath: string, logger: Logger) {
+  private searchIndex?: SearchIndex;
+  private storageIndex?: StorageIndex;
+  private verifier?: ManifestVerifier;
+  private decryptor: ArchiveDecryptor;
+  // 正在导入的分卷导出（避免同时上传的分卷重复导入）
+  private importingVolumeSets = new Set<string>();
+
+  constructor(
+    storagePath: string,
+    logger: Logger,
+    searchIndex?: SearchIndex,
+    storageIndex?: StorageIndex,
+    verifier?: ManifestVerifier,
+    decryptor?: ArchiveDecryptor
+  ) {
     this.storagePath = storagePath;
     this.logger = logger;
+    this.searchIndex = searchIndex;
+    this.storageIndex = storageIndex;
+    this.verifier = verifier;
+    this.decryptor = decryptor || new ArchiveDecryptor([], logger);
   }
 
   /**
    * 导入差分包
+   *
+   * 分卷导出的分卷先暂存到 storage/.import-volumes/<exportId>，分卷可按任意顺序导入，
+   * 全部到齐（或指定 allowPartial）后一起导入。配置了受信任公钥时先校验清单签名（分卷在暂存前校验）。
+   * 加密导出包在解压时边读边解密，暂存的分卷已是解密后的内容，之后导入分卷时不再需要口令
    */
   async importPackage(
     archivePath: string,
     options: ImportOptions = {},
     onProgress?: (progress: ImportProgress) => void
   ): Promise<ImportResult> {
-    const {
-      overwrite = false,
-      rebuildMetadata = true,
-      validateChecksum = true
-    } = options;
-
     const startTime = Date.now();
     const importId = `import-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
     const tempDir = path.join(this.storagePath, TEMP_IMPORT_DIR, importId);
@@ -51,24 +80,53 @@ export class ImportHandler {
     this.logger.info({ archivePath, importId }, 'Starting import: @{importId}');
 
     try {
-      // 阶段 1: 解压
-      if (onProgress) {
+      // 阶段 1: 解压（加密导出包先解密）
+      const totalBytes = (await stat(archivePath)).size;
+      const encrypted = await isEncryptedArchive(archivePath);
+      const description = encrypted ? '解密并解压导出包' : '解压导出包';
+      let bytesProcessed = 0;
+      let lastReport = 0;
+
+      const reportExtracting = () => {
+        lastReport = Date.now();
+        if (!onProgress) return;
+        const ratio = totalBytes > 0 ? bytesProcessed / totalBytes : 0;
+        const elapsed = lastReport - startTime;
         onProgress({
           phase: 'extracting',
-          phaseProgress: 0,
-          totalProgress: 0,
+          phaseProgress: Math.round(ratio * 100),
+          totalProgress: Math.round(ratio * 10),
           processed: 0,
           total: 1,
           startTime,
-          phaseDescription: '解压导出包...'
+          estimatedRemaining: bytesProcessed > 0 ? Math.round((elapsed / bytesProcessed) * (totalBytes - bytesProcessed)) : undefined,
+          phaseDescription: `${description}...`,
+          bytesProcessed,
+          totalBytes
         });
-      }
+      };
+      reportExtracting();
 
       await mkdir(tempDir, { recursive: true });
-      await tar.extract({
-        file: archivePath,
-        cwd: tempDir
-      });
+      const unpack = tar.x({ cwd: tempDir });
+      // 文件全部写入磁盘后 Unpack 才触发 close
+      const unpacked = once(unpack, 'close');
+      unpacked.catch(() => undefined);
+      await pipeline([
+        createReadStream(archivePath),
+        new Transform({
+          transform(chunk: Buffer, _encoding, callback) {
+            bytesProcessed += chunk.length;
+            if (Date.now() - lastReport >= PROGRESS_INTERVAL) {
+              reportExtracting();
+            }
+            callback(null, chunk);
+          }
+        }),
+        ...(encrypted ? [this.decryptor.createDecryptStream(options.passphrase)] : []),
+        unpack
+      ]);
+      await unpacked;
 
       if (onProgress) {
         onProgress({
@@ -78,7 +136,9 @@ export class ImportHandler {
           processed: 1,
           total: 1,
           startTime,
-          phaseDescription: '解压完成'
+          phaseDescription: '解压完成',
+          bytesProcessed,
+          totalBytes
         });
       }
 
@@ -95,227 +155,524 @@ export class ImportHandler {
         });
       }
 
-      const manifestPath = path.join(tempDir, '.export-manifest.json');
-      let manifest: ExportManifest;
-
-      try {
-        const manifestContent = await readFile(manifestPath, 'utf-8');
-        manifest = JSON.parse(manifestContent);
-      } catch (error) {
-        throw new Error('无效的导出包：缺少或损坏的清单文件');
-      }
+      const manifest = await this.readManifest(tempDir);
+      const signer = await this.verifyManifest(tempDir);
 
       this.logger.info(
         { exportId: manifest.exportId, files: manifest.files.length },
         'Found manifest with @{files} files from export @{exportId}'
       );
 
-      // 阶段 3: 验证文件校验和（可选）
-      const errors: string[] = [];
-      let validated = 0;
-
-      if (validateChecksum) {
-        for (const file of manifest.files) {
-          const filePath = path.join(tempDir, file.path);
-
-          try {
-            const actualChecksum = await this.calculateFileChecksum(filePath);
-            if (actualChecksum !== file.checksum) {
-              errors.push(`校验和不匹配: ${file.path}`);
-              this.logger.warn(
-                { path: file.path },
-                'Checksum mismatch for @{path}'
-              );
-            }
-          } catch (error: any) {
-            errors.push(`无法验证文件: ${file.path} - ${error.message}`);
-          }
-
-          validated++;
-          if (onProgress) {
-            const progress = Math.round((validated / manifest.files.length) * 100);
-            onProgress({
-              phase: 'validating',
-              phaseProgress: progress,
-              totalProgress: 10 + Math.round(progress * 0.2),
-              currentFile: file.path,
-              processed: validated,
-              total: manifest.files.length,
-              startTime,
-              phaseDescription: `验证文件: ${file.path}`
-            });
-          }
+      if (manifest.volumeCount && manifest.volumeCount > 1) {
+        const volumeSet = await this.stageVolume(tempDir, manifest);
+        if ((volumeSet.missing.length > 0 && !options.allowPartial) || this.importingVolumeSets.has(volumeSet.exportId)) {
+          return this.createPendingResult(importId, volumeSet, startTime, onProgress);
         }
+        return await this.importVolumeSet(volumeSet.exportId, options, onProgress);
       }
 
-      // 阶段 4: 导入文件
-      if (onProgress) {
-        onProgress({
-          phase: 'importing',
-          phaseProgress: 0,
-          totalProgress: 30,
-          processed: 0,
-          total: manifest.files.length,
-          startTime,
-          phaseDescription: '导入文件...'
-        });
+      return await this.importExtracted(
+        importId,
+        [{ dir: tempDir, manifest, signer }],
+        path.basename(archivePath),
+        options,
+        startTime,
+        onProgress
+      );
+    } finally {
+      // 清理临时目录
+      try {
+        await rm(tempDir, { recursive: true, force: true });
+      } catch {
+        // 忽略清理错误
       }
+    }
+  }
 
-      let imported = 0;
-      let skipped = 0;
-      let failed = 0;
-      const packages = new Set<string>();
-      let versions = 0;
+  /**
+   * 导入已暂存的分卷导出（缺少分卷时需要指定 allowPartial）
+   */
+  async importVolumeSet(
+    exportId: string,
+    options: ImportOptions = {},
+    onProgress?: (progress: ImportProgress) => void
+  ): Promise<ImportResult> {
+    const volumeSet = await this.getVolumeSet(exportId);
+    if (!volumeSet) {
+      throw new Error(`未找到暂存的分卷导出: ${exportId}`);
+    }
+    if (volumeSet.missing.length > 0 && !options.allowPartial) {
+      throw new Error(`缺少分卷: ${volumeSet.missing.join(', ')}`);
+    }
+    if (this.importingVolumeSets.has(exportId)) {
+      throw new Error(`分卷导出正在导入: ${exportId}`);
+    }
 
-      for (const file of manifest.files) {
-        const normalizedPath = this.normalizePackagePath(file.path);
-        const sourcePath = path.join(tempDir, file.path);
-        const destPath = path.join(this.storagePath, normalizedPath);
+    const startTime = Date.now();
+    const importId = `import-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+    const setDir = this.getVolumeSetDir(exportId);
+    this.importingVolumeSets.add(exportId);
 
-        try {
-          // 检查目标文件是否存在
-          let exists = false;
-          try {
-            await access(destPath);
-            exists = true;
-          } catch {
-            exists = false;
-          }
+    this.logger.info(
+      { exportId, received: volumeSet.received.length, count: volumeSet.volumeCount },
+      'Importing @{received}/@{count} volumes of export @{exportId}'
+    );
 
-          if (exists && !overwrite) {
-            skipped++;
-            this.logger.debug({ path: file.path }, 'Skipping existing file: @{path}');
-          } else {
-            // 确保目标目录存在
-            await mkdir(path.dirname(destPath), { recursive: true });
-            // 复制文件
-            await copyFile(sourcePath, destPath);
-            imported++;
-
-            if (file.packageName) {
-              packages.add(this.normalizePackagePath(file.packageName));
-            }
-            if (file.type === 'tarball') {
-              versions++;
-            }
+    try {
+      const volumes = [];
+      for (const index of volumeSet.received) {
+        const dir = path.join(setDir, `vol-${index}`);
+        volumes.push({ dir, manifest: await this.readManifest(dir), signer: await this.verifyManifest(dir) });
+      }
 
-            this.logger.debug({ path: file.path }, 'Imported file: @{path}');
+      const result = await this.importExtracted(importId, volumes, exportId, options, startTime, onProgress, volumeSet);
+      await rm(setDir, { recursive: true, force: true });
+      return result;
+    } finally {
+      this.importingVolumeSets.delete(exportId);
+    }
+  }
+
+  /**
+   * 列出已暂存、尚未导入的分卷导出
+   */
+  async listVolumeSets(): Promise<ImportVolumeSet[]> {
+    let entries: string[];
+    try {
+      entries = await readdir(path.join(this.storagePath, VOLUMES_DIR));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const sets: ImportVolumeSet[] = [];
+    for (const exportId of entries) {
+      const volumeSet = await this.getVolumeSet(exportId);
+      if (volumeSet) {
+        sets.push(volumeSet);
+      }
+    }
+    return sets.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+
+  /**
+   * 丢弃已暂存的分卷导出
+   */
+  async discardVolumeSet(exportId: string): Promise<boolean> {
+    if (!(await this.getVolumeSet(exportId))) {
+      return false;
+    }
+    if (this.importingVolumeSets.has(exportId)) {
+      throw new Error(`分卷导出正在导入: ${exportId}`);
+    }
+    await rm(this.getVolumeSetDir(exportId), { recursive: true, force: true });
+    this.logger.info({ exportId }, 'Discarded staged volumes of export @{exportId}');
+    return true;
+  }
+
+  /**
+   * 校验并导入已解压的文件（分卷导出时为所有已接收分卷的文件）
+   *
+   * 按分卷记录签名者：来自已签名分卷的文件无论 validateChecksum 如何都会校验，且不导入校验和不一致的文件
+   */
+  private async importExtracted(
+    importId: string,
+    volumes: { dir: string; manifest: ExportManifest; signer: ImportSigner | null }[],
+    filename: string,
+    options: ImportOptions,
+    startTime: number,
+    onProgress?: (progress: ImportProgress) => void,
+    volumeSet?: ImportVolumeSet
+  ): Promise<ImportResult> {
+    const {
+      overwrite = false,
+      rebuildMetadata = true,
+      validateChecksum = true
+    } = options;
+
+    const manifest = volumes[0].manifest;
+    const files = volumes.flatMap(({ dir, manifest: volumeManifest, signer }) =>
+      volumeManifest.files.map((file) => ({ ...file, dir, signed: signer !== null }))
+    );
+    const signers = collectSigners(volumes.map((volume) => volume.signer));
+    const unsignedVolumes = volumes.filter((volume) => !volume.signer).length;
+    if (signers.length > 0 && unsignedVolumes > 0) {
+      this.logger.warn(
+        { unsigned: unsignedVolumes, total: volumes.length },
+        '@{unsigned}/@{total} volumes are not signed by a trusted key, importing them as unsigned'
+      );
+    }
+
+    // 阶段 3: 验证文件校验和（可选，已签名分卷中的文件必须验证）
+    const errors: string[] = [];
+    const invalidFiles = new Set<(typeof files)[number]>();
+    const filesToValidate = validateChecksum ? files : files.filter((file) => file.signed);
+    let validated = 0;
+
+    if (filesToValidate.length > 0) {
+      for (const file of filesToValidate) {
+        const filePath = path.join(file.dir, file.path);
+
+        try {
+          const actualChecksum = await this.calculateFileChecksum(filePath);
+          if (actualChecksum !== file.checksum) {
+            invalidFiles.add(file);
+            errors.push(`校验和不匹配: ${file.path}`);
+            this.logger.warn(
+              { path: file.path },
+              'Checksum mismatch for @{path}'
+            );
           }
         } catch (error: any) {
-          failed++;
-          errors.push(`导入失败: ${file.path} - ${error.message}`);
-          this.logger.error(
-            { path: file.path, error: error.message },
-            'Failed to import @{path}: @{error}'
-          );
+          invalidFiles.add(file);
+          errors.push(`无法验证文件: ${file.path} - ${error.message}`);
         }
 
-        const processed = imported + skipped + failed;
+        validated++;
         if (onProgress) {
-          const progress = Math.round((processed / manifest.files.length) * 100);
+          const progress = Math.round((validated / filesToValidate.length) * 100);
           onProgress({
-            phase: 'importing',
+            phase: 'validating',
             phaseProgress: progress,
-            totalProgress: 30 + Math.round(progress * 0.6),
+            totalProgress: 10 + Math.round(progress * 0.2),
             currentFile: file.path,
-            processed,
-            total: manifest.files.length,
+            processed: validated,
+            total: filesToValidate.length,
             startTime,
-            phaseDescription: `导入文件: ${file.path}`
+            phaseDescription: `验证文件: ${file.path}`
           });
         }
       }
+    }
 
-      // 阶段 5: 重建元数据（可选）
-      let metadataRebuilt = false;
-      if (rebuildMetadata && packages.size > 0) {
-        if (onProgress) {
-          onProgress({
-            phase: 'rebuilding',
-            phaseProgress: 0,
-            totalProgress: 90,
-            processed: 0,
-            total: packages.size,
-            startTime,
-            phaseDescription: '重建元数据...'
-          });
+    // 阶段 4: 导入文件
+    if (onProgress) {
+      onProgress({
+        phase: 'importing',
+        phaseProgress: 0,
+        totalProgress: 30,
+        processed: 0,
+        total: files.length,
+        startTime,
+        phaseDescription: '导入文件...'
+      });
+    }
+
+    let imported = 0;
+    let skipped = 0;
+    let failed = 0;
+    const packages = new Set<string>();
+    let versions = 0;
+
+    for (const file of files) {
+      if (file.signed && invalidFiles.has(file)) {
+        // 与签名清单不一致的文件不导入（错误已在验证阶段记录）
+        failed++;
+        continue;
+      }
+
+      const normalizedPath = this.normalizePackagePath(file.path);
+      const sourcePath = path.join(file.dir, file.path);
+      const destPath = path.join(this.storagePath, normalizedPath);
+
+      try {
+        // 检查目标文件是否存在
+        let exists = false;
+        try {
+          await access(destPath);
+          exists = true;
+        } catch {
+          exists = false;
         }
 
-        // 这里只是标记需要重建，实际重建由 healer-filter 在下次请求时自动完成
-        // 或者可以调用外部的重建逻辑
-        metadataRebuilt = true;
+        if (exists && !overwrite) {
+          skipped++;
+          this.logger.debug({ path: file.path }, 'Skipping existing file: @{path}');
+        } else {
+          // 确保目标目录存在
+          await mkdir(path.dirname(destPath), { recursive: true });
+          // 复制文件
+          await copyFile(sourcePath, destPath);
+          imported++;
+
+          // 二进制制品与安全公告库不涉及元数据
+          if (file.packageName && (file.type === 'tarball' || file.type === 'metadata')) {
+            packages.add(this.normalizePackagePath(file.packageName));
+          }
+          if (file.type === 'tarball') {
+            versions++;
+          }
 
-        if (onProgress) {
-          onProgress({
-            phase: 'rebuilding',
-            phaseProgress: 100,
-            totalProgress: 95,
-            processed: packages.size,
-            total: packages.size,
-            startTime,
-            phaseDescription: '元数据将在下次访问时自动重建'
-          });
+          this.logger.debug({ path: file.path }, 'Imported file: @{path}');
         }
+      } catch (error: any) {
+        failed++;
+        errors.push(`导入失败: ${file.path} - ${error.message}`);
+        this.logger.error(
+          { path: file.path, error: error.message },
+          'Failed to import @{path}: @{error}'
+        );
       }
 
-      // 完成
-      const result: ImportResult = {
-        success: failed === 0,
-        importId,
-        imported,
-        skipped,
-        failed,
-        packages: packages.size,
-        versions,
-        metadataRebuilt,
-        errors: errors.length > 0 ? errors : undefined
-      };
+      const processed = imported + skipped + failed;
+      if (onProgress) {
+        const progress = Math.round((processed / files.length) * 100);
+        onProgress({
+          phase: 'importing',
+          phaseProgress: progress,
+          totalProgress: 30 + Math.round(progress * 0.6),
+          currentFile: file.path,
+          processed,
+          total: files.length,
+          startTime,
+          phaseDescription: `导入文件: ${file.path}`
+        });
+      }
+    }
 
-      // 保存导入记录
-      await this.addImportRecord({
-        importId,
-        timestamp: new Date().toISOString(),
-        timestampMs: Date.now(),
-        sourceExportId: manifest.exportId,
-        fileCount: manifest.files.length,
-        totalSize: manifest.stats.totalSize,
-        filename: path.basename(archivePath),
-        status: failed === 0 ? 'success' : (imported > 0 ? 'partial' : 'failed'),
-        summary: {
-          packages: packages.size,
-          versions,
-          skipped,
-          errors: failed
-        },
-        errors: errors.length > 0 ? errors.slice(0, 10) : undefined
-      });
+    // 更新导入包的存储索引与搜索索引（失败不影响导入结果）
+    if (this.storageIndex && packages.size > 0) {
+      try {
+        await this.storageIndex.refresh(Array.from(packages));
+      } catch (error: any) {
+        this.logger.warn({ error: error.message }, 'Failed to update storage index: @{error}');
+      }
+    }
+    if (this.searchIndex && packages.size > 0) {
+      try {
+        await this.searchIndex.update(Array.from(packages));
+      } catch (error: any) {
+        this.logger.warn({ error: error.message }, 'Failed to update search index: @{error}');
+      }
+    }
 
+    // 阶段 5: 重建元数据（可选）
+    let metadataRebuilt = false;
+    if (rebuildMetadata && packages.size > 0) {
       if (onProgress) {
         onProgress({
-          phase: 'completed',
+          phase: 'rebuilding',
+          phaseProgress: 0,
+          totalProgress: 90,
+          processed: 0,
+          total: packages.size,
+          startTime,
+          phaseDescription: '重建元数据...'
+        });
+      }
+
+      // 这里只是标记需要重建，实际重建由 healer-filter 在下次请求时自动完成
+      // 或者可以调用外部的重建逻辑
+      metadataRebuilt = true;
+
+      if (onProgress) {
+        onProgress({
+          phase: 'rebuilding',
           phaseProgress: 100,
-          totalProgress: 100,
-          processed: manifest.files.length,
-          total: manifest.files.length,
+          totalProgress: 95,
+          processed: packages.size,
+          total: packages.size,
           startTime,
-          phaseDescription: `导入完成: ${imported} 个文件`
+          phaseDescription: '元数据将在下次访问时自动重建'
         });
       }
+    }
 
-      this.logger.info(
-        { importId, imported, skipped, failed },
-        'Import completed: @{imported} imported, @{skipped} skipped, @{failed} failed'
-      );
+    // 完成
+    const missingVolumes = volumeSet && volumeSet.missing.length > 0 ? volumeSet.missing : undefined;
+    const result: ImportResult = {
+      success: failed === 0,
+      importId,
+      imported,
+      skipped,
+      failed,
+      packages: packages.size,
+      versions,
+      metadataRebuilt,
+      volumes: volumeSet,
+      signers: signers.length > 0 ? signers : undefined,
+      errors: errors.length > 0 ? errors : undefined
+    };
+
+    // 保存导入记录
+    await this.addImportRecord({
+      importId,
+      timestamp: new Date().toISOString(),
+      timestampMs: Date.now(),
+      sourceExportId: manifest.exportId,
+      fileCount: files.length,
+      totalSize: volumes.reduce((sum, volume) => sum + volume.manifest.stats.totalSize, 0),
+      filename,
+      volumes: volumeSet?.received,
+      missingVolumes,
+      signers: signers.length > 0 ? signers : undefined,
+      status: failed === 0 && !missingVolumes ? 'success' : (imported > 0 ? 'partial' : 'failed'),
+      summary: {
+        packages: packages.size,
+        versions,
+        skipped,
+        errors: failed
+      },
+      errors: errors.length > 0 ? errors.slice(0, 10) : undefined
+    });
 
-      return result;
-    } finally {
-      // 清理临时目录
+    if (onProgress) {
+      onProgress({
+        phase: 'completed',
+        phaseProgress: 100,
+        totalProgress: 100,
+        processed: files.length,
+        total: files.length,
+        startTime,
+        phaseDescription: `导入完成: ${imported} 个文件`
+      });
+    }
+
+    this.logger.info(
+      { importId, imported, skipped, failed },
+      'Import completed: @{imported} imported, @{skipped} skipped, @{failed} failed'
+    );
+
+    return result;
+  }
+
+  /**
+   * 读取解压目录中的导出清单
+   */
+  private async readManifest(dir: string): Promise<ExportManifest> {
+    try {
+      const manifestContent = await readFile(path.join(dir, MANIFEST_FILE), 'utf-8');
+      return JSON.parse(manifestContent);
+    } catch (error) {
+      throw new Error('无效的导出包：缺少或损坏的清单文件');
+    }
+  }
+
+  /**
+   * 校验清单签名（未配置校验器时视为未签名）
+   */
+  private async verifyManifest(dir: string): Promise<ImportSigner | null> {
+    return this.verifier ? this.verifier.verify(dir) : null;
+  }
+
+  /**
+   * 将解压的分卷移到暂存目录（重复导入同一分卷时替换），返回该导出的接收情况
+   */
+  private async stageVolume(extractedDir: string, manifest: ExportManifest): Promise<ImportVolumeSet> {
+    const { exportId, volumeIndex, volumeCount } = manifest;
+    if (!VOLUME_EXPORT_ID_PATTERN.test(exportId || '')) {
+      throw new Error(`无效的导出包：导出 ID 不合法 (${exportId})`);
+    }
+    if (!Number.isInteger(volumeIndex) || volumeIndex! < 1 || volumeIndex! > volumeCount!) {
+      throw new Error(`无效的导出包：分卷序号不合法 (${volumeIndex}/${volumeCount})`);
+    }
+
+    const staged = await this.getVolumeSet(exportId);
+    if (staged && staged.volumeCount !== volumeCount) {
+      throw new Error(`分卷总数与已接收的分卷不一致: ${volumeCount} / ${staged.volumeCount}`);
+    }
+
+    const setDir = this.getVolumeSetDir(exportId);
+    const target = path.join(setDir, `vol-${volumeIndex}`);
+    await mkdir(setDir, { recursive: true });
+    await rm(target, { recursive: true, force: true });
+    await rename(extractedDir, target);
+
+    const volumeSet = (await this.getVolumeSet(exportId))!;
+    this.logger.info(
+      { exportId, volume: volumeIndex, received: volumeSet.received.length, count: volumeCount },
+      'Staged volume @{volume} of export @{exportId} (@{received}/@{count} received)'
+    );
+    return volumeSet;
+  }
+
+  /**
+   * 读取暂存的分卷导出（不存在时返回 null）
+   */
+  async getVolumeSet(exportId: string): Promise<ImportVolumeSet | null> {
+    if (!VOLUME_EXPORT_ID_PATTERN.test(exportId)) {
+      return null;
+    }
+
+    let entries: string[];
+    try {
+      entries = await readdir(this.getVolumeSetDir(exportId));
+    } catch {
+      return null;
+    }
+
+    const manifests: ExportManifest[] = [];
+    for (const entry of entries) {
+      if (!/^vol-\d+$/.test(entry)) continue;
       try {
-        await rm(tempDir, { recursive: true, force: true });
+        manifests.push(await this.readManifest(path.join(this.getVolumeSetDir(exportId), entry)));
       } catch {
-        // 忽略清理错误
+        // 忽略损坏的分卷
       }
     }
+    if (manifests.length === 0) {
+      return null;
+    }
+
+    const volumeCount = manifests[0].volumeCount || 1;
+    const received = manifests.map((manifest) => manifest.volumeIndex || 1).sort((a, b) => a - b);
+    const missing: number[] = [];
+    for (let index = 1; index <= volumeCount; index++) {
+      if (!received.includes(index)) {
+        missing.push(index);
+      }
+    }
+
+    return {
+      exportId,
+      timestamp: manifests[0].timestamp,
+      volumeCount,
+      received,
+      missing,
+      fileCount: manifests.reduce((sum, manifest) => sum + manifest.files.length, 0),
+      totalSize: manifests.reduce((sum, manifest) => sum + manifest.stats.totalSize, 0)
+    };
+  }
+
+  /**
+   * 分卷未到齐时的结果（未导入任何文件）
+   */
+  private createPendingResult(
+    importId: string,
+    volumeSet: ImportVolumeSet,
+    startTime: number,
+    onProgress?: (progress: ImportProgress) => void
+  ): ImportResult {
+    if (onProgress) {
+      onProgress({
+        phase: 'completed',
+        phaseProgress: 100,
+        totalProgress: 100,
+        processed: volumeSet.received.length,
+        total: volumeSet.volumeCount,
+        startTime,
+        phaseDescription: `已接收分卷 ${volumeSet.received.length}/${volumeSet.volumeCount}，等待其余分卷`
+      });
+    }
+
+    return {
+      success: true,
+      importId,
+      imported: 0,
+      skipped: 0,
+      failed: 0,
+      packages: 0,
+      versions: 0,
+      metadataRebuilt: false,
+      pending: true,
+      volumes: volumeSet
+    };
+  }
+
+  private getVolumeSetDir(exportId: string): string {
+    return path.join(this.storagePath, VOLUMES_DIR, exportId);
   }
 
   /**
@@ -394,3 +751,28 @@ export class ImportHandler {
     return uploadDir;
   }
 }
+
+/**
+ * 导入任务完成时的说明
+ */
+export function describeImportResult(result: ImportResult): string {
+  if (result.pending && result.volumes) {
+    return `已接收分卷 ${result.volumes.received.length}/${result.volumes.volumeCount}，` +
+      `缺少分卷: ${result.volumes.missing.join(', ')}`;
+  }
+  const signers = result.signers?.map((signer) => signer.name).join(', ');
+  return `导入完成: ${result.imported} 个文件` + (signers ? `（签名者: ${signers}）` : '');
+}
+
+/**
+ * 去重后的签名者（按公钥指纹）
+ */
+function collectSigners(signers: (ImportSigner | null)[]): ImportSigner[] {
+  const distinct = new Map<string, ImportSigner>();
+  for (const signer of signers) {
+    if (signer && !distinct.has(signer.fingerprint)) {
+      distinct.set(signer.fingerprint, signer);
+    }
+  }
+  return Array.from(distinct.values());
+}
@@ -1,10 +1,13 @@
-import { Router, Express, Request, Response } from 'express';
+import { Router, Express, Request, Response, json } from 'express';
 import { pluginUtils } from '@verdaccio/core';
 import { Config, Logger } from '@verdaccio/types';
 import multer from 'multer';
-import path from 'path';
 import { rm } from 'fs/promises';
-import { ImportHandler } from './import-handler';
+import { SearchIndex, StorageIndex, getSearchIndex, getStorageIndex } from 'verdaccio-offline-common';
+import { ImportHandler, describeImportResult } from './import-handler';
+import { createManifestVerifier } from './manifest-verifier';
+import { createArchiveDecryptor } from './export-decryption';
+import { OfflineRoutes } from './offline-routes';
 import { getImportUIHTML } from './import-ui';
 import {
   HealerConfig,
@@ -21,6 +24,8 @@ export default class ImportMiddleware extends pluginUtils.Plugin<HealerConfig> {
   private logger: Logger;
   private storagePath: string;
   private importHandler!: ImportHandler;
+  private searchIndex!: SearchIndex;
+  private storageIndex?: StorageIndex;
   private tasks: Map<string, ImportTaskStatus>;
   private upload!: multer.Multer;
 
@@ -35,7 +40,18 @@ export default class ImportMiddleware extends pluginUtils.Plugin<HealerConfig> {
    * 注册中间件路由
    */
   register_middlewares(app: Express, auth: any, storage: any): void {
-    this.importHandler = new ImportHandler(this.storagePath, this.logger);
+    this.searchIndex = getSearchIndex(this.storagePath, this.logger);
+    const indexConfig = (this.config as HealerConfig).storageIndex;
+    this.storageIndex =
+      indexConfig?.enabled !== false ? getStorageIndex(this.storagePath, this.logger, indexConfig) : undefined;
+    this.importHandler = new ImportHandler(
+      this.storagePath,
+      this.logger,
+      this.searchIndex,
+      this.storageIndex,
+      createManifestVerifier(this.config as HealerConfig, this.logger),
+      createArchiveDecryptor(this.config as HealerConfig, this.logger)
+    );
 
     // 配置文件上传
     const uploadDir = this.importHandler.getUploadDir();
@@ -45,11 +61,15 @@ export default class ImportMiddleware extends pluginUtils.Plugin<HealerConfig> {
         fileSize: 1024 * 1024 * 1024 * 10 // 10GB 限制
       },
       fileFilter: (req, file, cb) => {
-        // 只接受 .tar.gz 或 .tgz 文件
-        if (file.originalname.endsWith('.tar.gz') || file.originalname.endsWith('.tgz')) {
+        // 只接受 .tar.gz、.tgz 或加密的 .tar.gz.enc 文件
+        if (
+          file.originalname.endsWith('.tar.gz') ||
+          file.originalname.endsWith('.tgz') ||
+          file.originalname.endsWith('.tar.gz.enc')
+        ) {
           cb(null, true);
         } else {
-          cb(new Error('只支持 .tar.gz 或 .tgz 文件'));
+          cb(new Error('只支持 .tar.gz、.tgz 或 .tar.gz.enc 文件'));
         }
       }
     });
@@ -66,11 +86,19 @@ export default class ImportMiddleware extends pluginUtils.Plugin<HealerConfig> {
     // 获取导入历史
     router.get('/healer/import/history', this.handleHistory.bind(this));
 
+    // 已暂存的分卷导出：列出、导入（缺少分卷时需指定 allowPartial）、丢弃
+    router.get('/healer/import/volumes', this.handleVolumeSets.bind(this));
+    router.post('/healer/import/volumes/:exportId/import', json(), this.handleVolumeSetImport.bind(this));
+    router.post('/healer/import/volumes/:exportId/discard', this.handleVolumeSetDiscard.bind(this));
+
     // Web UI 管理界面
     router.get('/healer/ui', this.handleWebUI.bind(this));
 
     app.use('/_', router);
 
+    // 二进制制品、安全公告库、npm search / audit 与存储清单
+    new OfflineRoutes(this.storagePath, this.logger, this.searchIndex, this.storageIndex).register(app);
+
     this.logger.info('Import middleware registered');
   }
 
@@ -89,7 +117,9 @@ export default class ImportMiddleware extends pluginUtils.Plugin<HealerConfig> {
     const options: ImportOptions = {
       overwrite: req.body.overwrite === 'true',
       rebuildMetadata: req.body.rebuildMetadata !== 'false',
-      validateChecksum: req.body.validateChecksum !== 'false'
+      validateChecksum: req.body.validateChecksum !== 'false',
+      allowPartial: req.body.allowPartial === 'true',
+      passphrase: req.body.passphrase || undefined
     };
 
     // 创建任务
@@ -139,7 +169,7 @@ export default class ImportMiddleware extends pluginUtils.Plugin<HealerConfig> {
         status: 'completed',
         progress: 100,
         result,
-        message: `导入完成: ${result.imported} 个文件`
+        message: describeImportResult(result)
       });
 
       this.logger.info(
@@ -165,6 +195,130 @@ export default class ImportMiddleware extends pluginUtils.Plugin<HealerConfig> {
     }
   }
 
+  /**
+   * 列出已暂存、等待其余分卷的分卷导出
+   */
+  private async handleVolumeSets(req: Request, res: Response): Promise<void> {
+    try {
+      res.json({ success: true, volumeSets: await this.importHandler.listVolumeSets() });
+    } catch (error: any) {
+      this.logger.error({ error: error.message }, 'Failed to list staged volumes: @{error}');
+      res.status(500).json({ success: false, error: error.message });
+    }
+  }
+
+  /**
+   * 导入已暂存的分卷导出（缺少分卷时需要 allowPartial: true）
+   */
+  private async handleVolumeSetImport(req: Request, res: Response): Promise<void> {
+    const { exportId } = req.params;
+    const { overwrite, validateChecksum, rebuildMetadata, allowPartial } = req.body || {};
+
+    try {
+      const volumeSet = await this.importHandler.getVolumeSet(exportId);
+      if (!volumeSet) {
+        res.status(404).json({ success: false, error: 'Staged export not found' });
+        return;
+      }
+      if (volumeSet.missing.length > 0 && allowPartial !== true) {
+        res.status(400).json({
+          success: false,
+          error: `缺少分卷: ${volumeSet.missing.join(', ')}，如需导入已接收的分卷请指定 allowPartial`,
+          volumes: volumeSet
+        });
+        return;
+      }
+
+      const options: ImportOptions = {
+        overwrite: overwrite === true,
+        rebuildMetadata: rebuildMetadata !== false,
+        validateChecksum: validateChecksum !== false,
+        allowPartial: allowPartial === true
+      };
+
+      const taskId = this.createTask();
+      this.executeVolumeSetImport(taskId, exportId, options).catch((error) => {
+        this.updateTask(taskId, {
+          status: 'failed',
+          error: error.message
+        });
+      });
+
+      res.json({
+        success: true,
+        taskId,
+        exportId,
+        message: 'Volume import task started'
+      });
+    } catch (error: any) {
+      this.logger.error({ error: error.message }, 'Failed to import staged volumes: @{error}');
+      res.status(500).json({ success: false, error: error.message });
+    }
+  }
+
+  /**
+   * 执行分卷导入任务
+   */
+  private async executeVolumeSetImport(
+    taskId: string,
+    exportId: string,
+    options: ImportOptions
+  ): Promise<void> {
+    this.updateTask(taskId, { status: 'running', progress: 0 });
+
+    try {
+      const result = await this.importHandler.importVolumeSet(
+        exportId,
+        options,
+        (progress: ImportProgress) => {
+          this.updateTask(taskId, {
+            progress: progress.totalProgress,
+            message: progress.phaseDescription,
+            detailedProgress: progress
+          });
+        }
+      );
+
+      this.updateTask(taskId, {
+        status: 'completed',
+        progress: 100,
+        result,
+        message: describeImportResult(result)
+      });
+
+      this.logger.info(
+        { taskId, exportId, imported: result.imported },
+        'Volume import task for @{exportId} completed: @{imported} files imported'
+      );
+    } catch (error: any) {
+      this.updateTask(taskId, {
+        status: 'failed',
+        error: error.message
+      });
+      this.logger.error(
+        { taskId, error: error.message },
+        'Volume import task failed: @{error}'
+      );
+    }
+  }
+
+  /**
+   * 丢弃已暂存的分卷导出
+   */
+  private async handleVolumeSetDiscard(req: Request, res: Response): Promise<void> {
+    try {
+      const discarded = await this.importHandler.discardVolumeSet(req.params.exportId);
+      if (!discarded) {
+        res.status(404).json({ success: false, error: 'Staged export not found' });
+        return;
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      this.logger.error({ error: error.message }, 'Failed to discard staged volumes: @{error}');
+      res.status(500).json({ success: false, error: error.message });
+    }
+  }
+
   /**
    * 处理状态查询
    */
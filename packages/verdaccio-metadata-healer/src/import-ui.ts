@@ -435,6 +435,42 @@ export function getImportUIHTML(config: any): string {
     #fileInput {
       display: none;
     }
+
+    .search-bar {
+      display: flex;
+      gap: 10px;
+      margin-bottom: 10px;
+    }
+
+    .search-bar input {
+      flex: 1;
+      padding: 8px 10px;
+      border: 1px solid #ddd;
+      border-radius: 5px;
+      font-size: 14px;
+    }
+
+    .search-bar select {
+      padding: 8px 10px;
+      border: 1px solid #ddd;
+      border-radius: 5px;
+      font-size: 14px;
+    }
+
+    .search-list {
+      max-height: 300px;
+      overflow-y: auto;
+    }
+
+    .search-keyword {
+      display: inline-block;
+      font-size: 11px;
+      color: #1e7e34;
+      background: #e8f5e9;
+      padding: 1px 6px;
+      border-radius: 3px;
+      margin: 2px 4px 0 0;
+    }
   </style>
 </head>
 <body>
@@ -450,9 +486,9 @@ export function getImportUIHTML(config: any): string {
       <div class="upload-area" id="uploadArea" onclick="document.getElementById('fileInput').click()">
         <div class="upload-icon">📁</div>
         <div class="upload-text">点击或拖拽文件到此处</div>
-        <div class="upload-hint">支持 .tar.gz 格式的差分导出包</div>
+        <div class="upload-hint">支持 .tar.gz 格式的差分导出包及加密的 .tar.gz.enc</div>
       </div>
-      <input type="file" id="fileInput" accept=".tar.gz,.tgz">
+      <input type="file" id="fileInput" accept=".tar.gz,.tgz,.enc">
 
       <div class="file-info" id="fileInfo">
         <span class="file-name" id="fileName"></span>
@@ -474,6 +510,11 @@ export function getImportUIHTML(config: any): string {
           <label><input type="checkbox" id="rebuildMetadata" checked><span>自动重建元数据</span></label>
           <button class="help-btn" type="button">?<span class="tooltip">导入后自动触发元数据重建，使新导入的包立即可用。</span></button>
         </div>
+        <div class="option-row">
+          <span>解密口令</span>
+          <input type="password" id="passphrase" placeholder="加密导出包的口令" autocomplete="off" style="margin-left: 10px; padding: 5px; width: 200px;">
+          <button class="help-btn" type="button">?<span class="tooltip">导入加密的 .tar.gz.enc 时填写导出时设置的口令。服务器配置了对应的私钥时无需填写。</span></button>
+        </div>
       </div>
 
       <button class="btn btn-primary" id="importBtn" onclick="startImport()" disabled>
@@ -527,6 +568,10 @@ export function getImportUIHTML(config: any): string {
         <div class="option-row">
           <label><input type="checkbox" id="localRebuildMetadata" checked><span>自动重建元数据</span></label>
         </div>
+        <div class="option-row">
+          <span>解密口令</span>
+          <input type="password" id="localPassphrase" placeholder="加密导出包的口令" autocomplete="off" style="margin-left: 10px; padding: 5px; width: 200px;">
+        </div>
       </div>
 
       <button class="btn btn-primary" id="localImportBtn" onclick="startLocalImport()">
@@ -556,6 +601,42 @@ export function getImportUIHTML(config: any): string {
       </div>
     </div>
 
+    <!-- 分卷导出 -->
+    <div class="card">
+      <h2>🧩 待导入的分卷</h2>
+      <p style="color: #666; margin-bottom: 15px;">分卷导出的各分卷可按任意顺序导入，全部到齐后自动导入；缺少分卷时可强制导入已接收的分卷</p>
+      <div class="history-list" id="volumeSetList">
+        <p style="color: #666; text-align: center; padding: 20px;">加载中...</p>
+      </div>
+    </div>
+
+    <!-- 存储清单 -->
+    <div class="card">
+      <h2>🧾 存储清单</h2>
+      <p style="color: #666; margin-bottom: 15px;">
+        列出本地所有 tarball 的校验和、元数据摘要及二进制制品，带到外网后在导出页选择「按内网存储清单」，只导出内网缺少或不一致的文件
+      </p>
+      <button class="btn btn-primary" id="inventoryBtn" onclick="downloadInventory()">⬇️ 下载存储清单</button>
+    </div>
+
+    <!-- 本地包搜索 -->
+    <div class="card">
+      <h2>🔍 搜索本地包</h2>
+      <div class="search-bar">
+        <input type="text" id="searchInput" placeholder="搜索包名、描述、关键字（支持 keywords: author: scope: 限定符）" oninput="onSearchInput()">
+        <select id="searchField" onchange="onSearchInput()">
+          <option value="">全部字段</option>
+          <option value="keywords">关键字</option>
+          <option value="author">作者</option>
+          <option value="maintainer">维护者</option>
+          <option value="scope">scope</option>
+        </select>
+      </div>
+      <div class="search-list" id="searchResults">
+        <p style="color: #666; text-align: center; padding: 20px;">只列出本地有 tarball 的包</p>
+      </div>
+    </div>
+
     <!-- 导入历史 -->
     <div class="card">
       <h2>📜 导入历史</h2>
@@ -631,8 +712,8 @@ export function getImportUIHTML(config: any): string {
 
     // 选择文件
     function selectFile(file) {
-      if (!file.name.endsWith('.tar.gz') && !file.name.endsWith('.tgz')) {
-        addLog('只支持 .tar.gz 或 .tgz 文件', 'error');
+      if (!file.name.endsWith('.tar.gz') && !file.name.endsWith('.tgz') && !file.name.endsWith('.tar.gz.enc')) {
+        addLog('只支持 .tar.gz、.tgz 或 .tar.gz.enc 文件', 'error');
         return;
       }
 
@@ -666,6 +747,7 @@ export function getImportUIHTML(config: any): string {
       formData.append('overwrite', document.getElementById('overwrite').checked);
       formData.append('validateChecksum', document.getElementById('validateChecksum').checked);
       formData.append('rebuildMetadata', document.getElementById('rebuildMetadata').checked);
+      formData.append('passphrase', document.getElementById('passphrase').value);
 
       try {
         document.getElementById('importBtn').disabled = true;
@@ -703,8 +785,8 @@ export function getImportUIHTML(config: any): string {
         return;
       }
 
-      if (!localPath.endsWith('.tar.gz') && !localPath.endsWith('.tgz')) {
-        addLog('只支持 .tar.gz 或 .tgz 文件', 'warning');
+      if (!localPath.endsWith('.tar.gz') && !localPath.endsWith('.tgz') && !localPath.endsWith('.tar.gz.enc')) {
+        addLog('只支持 .tar.gz、.tgz 或 .tar.gz.enc 文件', 'warning');
         return;
       }
 
@@ -721,7 +803,8 @@ export function getImportUIHTML(config: any): string {
             path: localPath,
             overwrite: document.getElementById('localOverwrite').checked,
             validateChecksum: document.getElementById('localValidateChecksum').checked,
-            rebuildMetadata: document.getElementById('localRebuildMetadata').checked
+            rebuildMetadata: document.getElementById('localRebuildMetadata').checked,
+            passphrase: document.getElementById('localPassphrase').value
           })
         });
         const data = await response.json();
@@ -755,10 +838,15 @@ export function getImportUIHTML(config: any): string {
             clearInterval(localPollInterval);
             localPollInterval = null;
 
-            if (task.status === 'completed' && task.result) {
+            if (task.status === 'completed' && task.result && task.result.pending) {
+              addLog(task.message, 'warning');
+              showLocalResult(task.result);
+              loadVolumeSets();
+            } else if (task.status === 'completed' && task.result) {
               addLog('本地导入完成: ' + task.result.imported + ' 个文件', 'success');
               showLocalResult(task.result);
               loadHistory();
+              loadVolumeSets();
             } else {
               addLog('本地导入失败: ' + (task.error || '未知错误'), 'error');
               showLocalError(task.error || '未知错误');
@@ -783,7 +871,7 @@ export function getImportUIHTML(config: any): string {
         bar.style.width = pct + '%';
       }
       if (task.message) {
-        message.textContent = task.message;
+        message.textContent = describeProgress(task.detailedProgress, task.message);
       }
       if (task.detailedProgress) {
         phase.textContent = task.detailedProgress.phaseDescription || task.detailedProgress.phase || '处理中...';
@@ -793,8 +881,8 @@ export function getImportUIHTML(config: any): string {
     function showLocalResult(result) {
       document.getElementById('localProgressContainer').classList.remove('visible');
       document.getElementById('localResultContainer').classList.add('visible');
-      document.getElementById('localResultIcon').textContent = '✅';
-      document.getElementById('localResultTitle').textContent = '导入完成';
+      document.getElementById('localResultIcon').textContent = result.pending ? '🧩' : '✅';
+      document.getElementById('localResultTitle').textContent = result.pending ? describeVolumes(result.volumes) : '导入完成';
       document.getElementById('localResultStats').innerHTML =
         '<div style="text-align: center; color: #666;">' +
         '导入 ' + result.imported + ' 个文件' +
@@ -835,10 +923,15 @@ export function getImportUIHTML(config: any): string {
             clearInterval(pollInterval);
             pollInterval = null;
 
-            if (task.status === 'completed' && task.result) {
+            if (task.status === 'completed' && task.result && task.result.pending) {
+              addLog(task.message, 'warning');
+              showResult(task.result);
+              loadVolumeSets();
+            } else if (task.status === 'completed' && task.result) {
               addLog('导入完成: ' + task.result.imported + ' 个文件', 'success');
               showResult(task.result);
               loadHistory();
+              loadVolumeSets();
             } else {
               addLog('导入失败: ' + (task.error || '未知错误'), 'error');
               showError(task.error || '未知错误');
@@ -869,7 +962,15 @@ export function getImportUIHTML(config: any): string {
       document.getElementById('progressPercentage').textContent = totalProgress + '%';
       document.getElementById('progressBar').style.width = totalProgress + '%';
       document.getElementById('progressMessage').textContent =
-        progress.currentFile || progress.phaseDescription || task.message || '处理中...';
+        progress.currentFile || describeProgress(progress, progress.phaseDescription || task.message || '处理中...');
+    }
+
+    // 解压阶段显示已读取的字节数
+    function describeProgress(progress, text) {
+      if (progress && progress.totalBytes) {
+        return text + ' ' + formatSize(progress.bytesProcessed || 0) + ' / ' + formatSize(progress.totalBytes);
+      }
+      return text;
     }
 
     // 显示结果
@@ -879,8 +980,10 @@ export function getImportUIHTML(config: any): string {
       document.getElementById('resultContainer').classList.remove('error');
       document.getElementById('resultContainer').classList.add('success');
 
-      document.getElementById('resultIcon').textContent = result.success ? '✅' : '⚠️';
-      document.getElementById('resultTitle').textContent = result.success ? '导入完成' : '部分导入成功';
+      document.getElementById('resultIcon').textContent = result.pending ? '🧩' : (result.success ? '✅' : '⚠️');
+      document.getElementById('resultTitle').textContent = result.pending
+        ? describeVolumes(result.volumes)
+        : (result.success ? '导入完成' : '部分导入成功');
 
       document.getElementById('resultStats').innerHTML =
         '<div class="result-stat">' +
@@ -923,6 +1026,37 @@ export function getImportUIHTML(config: any): string {
       currentTaskId = null;
     }
 
+    // 生成并下载存储清单
+    async function downloadInventory() {
+      const btn = document.getElementById('inventoryBtn');
+      btn.disabled = true;
+      addLog('正在生成存储清单...');
+      try {
+        const response = await fetch('/_/healer/inventory');
+        const inventory = await response.json();
+        if (!response.ok) {
+          throw new Error(inventory.error || response.statusText);
+        }
+
+        const blob = new Blob([JSON.stringify(inventory)], { type: 'application/json' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = 'storage-inventory-' + inventory.generatedAt.slice(0, 10) + '.json';
+        link.click();
+        URL.revokeObjectURL(link.href);
+
+        addLog(
+          '存储清单已生成: ' + Object.keys(inventory.tarballs).length + ' 个 tarball, ' +
+          Object.keys(inventory.metadata).length + ' 个包, ' + Object.keys(inventory.files).length + ' 个其他文件',
+          'success'
+        );
+      } catch (error) {
+        addLog('生成存储清单失败: ' + error.message, 'error');
+      } finally {
+        btn.disabled = false;
+      }
+    }
+
     // 加载导入历史
     async function loadHistory() {
       try {
@@ -943,6 +1077,7 @@ export function getImportUIHTML(config: any): string {
               '<div class="history-info">' +
                 new Date(imp.timestampMs).toLocaleString() + ' | ' +
                 imp.summary.packages + ' 个包, ' + imp.summary.versions + ' 个版本' +
+                (imp.signers ? ' | 🔏 ' + imp.signers.map(s => escapeHtml(s.name)).join(', ') : '') +
               '</div>' +
             '</div>' +
             '<span class="status-badge ' + imp.status + '">' + imp.status + '</span>' +
@@ -953,9 +1088,149 @@ export function getImportUIHTML(config: any): string {
       }
     }
 
+    let searchTimer = null;
+
+    // 包描述、关键字来自第三方 package.json，插入页面前转义
+    function escapeHtml(text) {
+      return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    }
+
+    // 输入停顿后再搜索
+    function onSearchInput() {
+      clearTimeout(searchTimer);
+      searchTimer = setTimeout(searchPackages, 300);
+    }
+
+    // 通过 npm search 接口搜索本地包
+    async function searchPackages() {
+      const text = document.getElementById('searchInput').value.trim();
+      const field = document.getElementById('searchField').value;
+      const container = document.getElementById('searchResults');
+      if (!text) {
+        container.innerHTML = '<p style="color: #666; text-align: center; padding: 20px;">只列出本地有 tarball 的包</p>';
+        return;
+      }
+
+      const query = field ? text.split(/\\s+/).map(term => field + ':' + term).join(' ') : text;
+      try {
+        const response = await fetch('/-/v1/search?size=50&text=' + encodeURIComponent(query));
+        const data = await response.json();
+        if (document.getElementById('searchInput').value.trim() !== text) return;
+
+        if (!data.objects) {
+          container.innerHTML = '<p style="color: #666; text-align: center; padding: 20px;">搜索失败: ' + (data.error || '未知错误') + '</p>';
+          return;
+        }
+        if (data.objects.length === 0) {
+          container.innerHTML = '<p style="color: #666; text-align: center; padding: 20px;">没有匹配的包</p>';
+          return;
+        }
+
+        container.innerHTML = data.objects.map(item => {
+          const pkg = item.package;
+          return '<div class="history-item">' +
+            '<div>' +
+              '<div class="history-name">' + pkg.name + '@' + pkg.version + '</div>' +
+              (pkg.description ? '<div class="history-info">' + escapeHtml(pkg.description) + '</div>' : '') +
+              '<div>' + pkg.keywords.slice(0, 8).map(keyword => '<span class="search-keyword">' + escapeHtml(keyword) + '</span>').join('') + '</div>' +
+            '</div>' +
+            '<span class="history-info" title="' + pkg.versions.join(', ') + '">' + pkg.versions.length + ' 个本地版本</span>' +
+          '</div>';
+        }).join('');
+
+        if (data.total > data.objects.length) {
+          container.innerHTML += '<p style="text-align: center; color: #666; padding: 10px;">共 ' + data.total + ' 个匹配，仅显示前 ' + data.objects.length + ' 个</p>';
+        }
+      } catch (error) {
+        addLog('搜索失败: ' + error.message, 'error');
+      }
+    }
+
+    // 分卷接收情况
+    function describeVolumes(volumes) {
+      return '已接收分卷 ' + volumes.received.length + '/' + volumes.volumeCount +
+        (volumes.missing.length > 0 ? '，缺少分卷 ' + volumes.missing.join(', ') : '');
+    }
+
+    // 加载已暂存、等待其余分卷的分卷导出
+    async function loadVolumeSets() {
+      try {
+        const response = await fetch(API_BASE + '/volumes');
+        const data = await response.json();
+
+        const container = document.getElementById('volumeSetList');
+        if (!data.volumeSets || data.volumeSets.length === 0) {
+          container.innerHTML = '<p style="color: #666; text-align: center; padding: 20px;">没有等待中的分卷</p>';
+          return;
+        }
+
+        container.innerHTML = data.volumeSets.map(set =>
+          '<div class="history-item">' +
+            '<div>' +
+              '<div class="history-name">' + escapeHtml(set.exportId) + '</div>' +
+              '<div class="history-info">' +
+                describeVolumes(set) + ' | ' + set.fileCount + ' 个文件' +
+              '</div>' +
+            '</div>' +
+            '<div>' +
+              '<button class="btn btn-primary" style="padding: 5px 10px;" onclick="importVolumeSet(\\'' + set.exportId + '\\')">强制导入</button> ' +
+              '<button class="btn btn-danger" style="padding: 5px 10px;" onclick="discardVolumeSet(\\'' + set.exportId + '\\')">丢弃</button>' +
+            '</div>' +
+          '</div>'
+        ).join('');
+      } catch (error) {
+        addLog('加载分卷失败: ' + error.message, 'error');
+      }
+    }
+
+    // 强制导入已接收的分卷
+    async function importVolumeSet(exportId) {
+      if (!confirm('缺少的分卷中的文件不会被导入，确定导入已接收的分卷吗？')) return;
+      try {
+        const response = await fetch(API_BASE + '/volumes/' + encodeURIComponent(exportId) + '/import', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            overwrite: document.getElementById('overwrite').checked,
+            validateChecksum: document.getElementById('validateChecksum').checked,
+            rebuildMetadata: document.getElementById('rebuildMetadata').checked,
+            allowPartial: true
+          })
+        });
+        const data = await response.json();
+        if (!data.success) {
+          throw new Error(data.error || '未知错误');
+        }
+
+        addLog('分卷导入任务已启动: ' + data.taskId, 'success');
+        document.getElementById('resultContainer').classList.remove('visible');
+        document.getElementById('progressContainer').classList.add('visible');
+        startPolling(data.taskId);
+      } catch (error) {
+        addLog('导入分卷失败: ' + error.message, 'error');
+      }
+    }
+
+    // 丢弃已暂存的分卷
+    async function discardVolumeSet(exportId) {
+      if (!confirm('确定丢弃 ' + exportId + ' 已接收的分卷吗？')) return;
+      try {
+        const response = await fetch(API_BASE + '/volumes/' + encodeURIComponent(exportId) + '/discard', { method: 'POST' });
+        const data = await response.json();
+        if (!data.success) {
+          throw new Error(data.error || '未知错误');
+        }
+        addLog('已丢弃分卷: ' + exportId, 'success');
+        loadVolumeSets();
+      } catch (error) {
+        addLog('丢弃分卷失败: ' + error.message, 'error');
+      }
+    }
+
     // 页面加载时加载历史
     document.addEventListener('DOMContentLoaded', function() {
       loadHistory();
+      loadVolumeSets();
     });
   </script>
 </body>
@@ -9,4 +9,17 @@ export { StorageScanner } from './storage-scanner';
 export { MetadataPatcher } from './metadata-patcher';
 export { ShasumCache } from './shasum-cache';
 export { ImportHandler } from './import-handler';
+export { ManifestVerifier, createManifestVerifier } from './manifest-verifier';
+export { ArchiveDecryptor, createArchiveDecryptor, isEncryptedArchive } from './export-decryption';
+export { AdvisoryStore } from './advisory-store';
+export { OfflineRoutes } from './offline-routes';
+export {
+  SearchIndex,
+  getSearchIndex,
+  StorageIndex,
+  getStorageIndex,
+  StorageAuditor,
+  getMetadataDigest
+} from 'verdaccio-offline-common';
+export { buildStorageInventory } from './storage-inventory';
 export { getImportUIHTML } from './import-ui';
@@ -0,0 +1,251 @@
+import { spawn } from 'child_process';
+import { createPublicKey, KeyObject, verify } from 'crypto';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Logger } from '@verdaccio/types';
+import {
+  MANIFEST_FILE,
+  MANIFEST_OPENPGP_SIGNATURE_FILE,
+  MANIFEST_SIGNATURE_FILE,
+  getKeyFingerprint
+} from 'verdaccio-offline-common';
+import { HealerConfig, ImportSigner, TrustedKeyConfig } from './types';
+
+/**
+ * 根据插件配置创建校验器（未配置受信任公钥且不要求签名时返回 undefined）
+ */
+export function createManifestVerifier(config: HealerConfig, logger: Logger): ManifestVerifier | undefined {
+  const trustedKeys = config.trustedKeys || [];
+  if (trustedKeys.length === 0 && !config.requireSignedImports) {
+    return undefined;
+  }
+
+  logger.info(
+    { keys: trustedKeys.length, required: !!config.requireSignedImports },
+    'Verifying export signatures with @{keys} trusted keys (required: @{required})'
+  );
+  return new ManifestVerifier(trustedKeys, !!config.requireSignedImports, logger);
+}
+
+/**
+ * 导出清单签名校验器
+ *
+ * 校验解压目录中 .export-manifest.sig（Ed25519）或 .export-manifest.json.asc（OpenPGP 分离签名）
+ * 是否由受信任的公钥对清单签名。受信任公钥的签名不匹配说明清单被改动过，无论是否要求签名都拒绝导入；
+ * 未签名或签名者不受信任时，只有 requireSignedImports 才拒绝
+ */
+export class ManifestVerifier {
+  private trustedKeys: TrustedKeyConfig[];
+  private requireSigned: boolean;
+  private logger: Logger;
+  private ed25519Keys: Promise<Map<string, { name: string; key: KeyObject }>> | null = null;
+
+  constructor(trustedKeys: TrustedKeyConfig[], requireSigned: boolean, logger: Logger) {
+    this.trustedKeys = trustedKeys;
+    this.requireSigned = requireSigned;
+    this.logger = logger;
+  }
+
+  /**
+   * 校验解压目录中的清单签名，返回签名者（未签名或签名者不受信任时为 null）
+   */
+  async verify(dir: string): Promise<ImportSigner | null> {
+    const manifest = await readFile(path.join(dir, MANIFEST_FILE));
+    const signature = await readOptional(path.join(dir, MANIFEST_SIGNATURE_FILE));
+    const openpgpSignature = await readOptional(path.join(dir, MANIFEST_OPENPGP_SIGNATURE_FILE));
+
+    if (!signature && !openpgpSignature) {
+      if (this.requireSigned) {
+        throw new Error('导出包未签名（已启用 requireSignedImports）');
+      }
+      return null;
+    }
+
+    const untrusted: string[] = [];
+    let signer: ImportSigner | null = null;
+
+    if (signature) {
+      signer = await this.verifyEd25519(manifest, signature, untrusted);
+    }
+    if (!signer && openpgpSignature) {
+      signer = await this.verifyOpenpgp(manifest, openpgpSignature, untrusted);
+    }
+
+    if (!signer) {
+      const reason = `签名者不受信任: ${untrusted.join(', ')}`;
+      if (this.requireSigned) {
+        throw new Error(`${reason}（已启用 requireSignedImports）`);
+      }
+      this.logger.warn({ reason }, 'Importing archive without a trusted signature: @{reason}');
+      return null;
+    }
+
+    this.logger.info(
+      { type: signer.type, name: signer.name, fingerprint: signer.fingerprint },
+      'Verified @{type} manifest signature by @{name} (@{fingerprint})'
+    );
+    return signer;
+  }
+
+  private async verifyEd25519(manifest: Buffer, content: Buffer, untrusted: string[]): Promise<ImportSigner | null> {
+    let signature: any;
+    try {
+      signature = JSON.parse(content.toString('utf-8'));
+    } catch {
+      throw new Error('无效的导出包：签名文件损坏');
+    }
+    if (signature?.algorithm !== 'ed25519' || typeof signature.signature !== 'string') {
+      throw new Error(`无效的导出包：不支持的签名算法 ${signature?.algorithm}`);
+    }
+
+    const fingerprint = String(signature.fingerprint || '').toLowerCase();
+    const trusted = (await this.loadEd25519Keys()).get(fingerprint);
+    if (!trusted) {
+      untrusted.push(`${signature.keyId || 'ed25519'} (${fingerprint})`);
+      return null;
+    }
+
+    if (!verify(null, manifest, trusted.key, Buffer.from(signature.signature, 'base64'))) {
+      throw new Error(`清单签名校验失败（${trusted.name}），导出包可能已被篡改`);
+    }
+    return { type: 'ed25519', name: trusted.name, fingerprint };
+  }
+
+  /**
+   * 在临时 gpg 主目录中导入受信任的 OpenPGP 公钥后校验分离签名
+   */
+  private async verifyOpenpgp(manifest: Buffer, signature: Buffer, untrusted: string[]): Promise<ImportSigner | null> {
+    const keys = this.trustedKeys.filter((key) => key.openpgpKey);
+    if (keys.length === 0) {
+      untrusted.push('OpenPGP（未配置受信任的 OpenPGP 公钥）');
+      return null;
+    }
+
+    const home = await mkdtemp(path.join(tmpdir(), 'healer-gpg-'));
+    try {
+      const names = new Map<string, string>();
+      for (const key of keys) {
+        const armored = await loadKeyContent(key.openpgpKey!, '-----BEGIN PGP');
+        const status = await runGpg(['--homedir', home, '--batch', '--status-fd', '1', '--import'], Buffer.from(armored));
+        for (const fingerprint of parseStatus(status, 'IMPORT_OK').map((fields) => fields[1])) {
+          names.set(fingerprint.toUpperCase(), key.name || fingerprint);
+        }
+      }
+
+      const manifestPath = path.join(home, 'manifest.json');
+      const signaturePath = path.join(home, 'manifest.json.asc');
+      await writeFile(manifestPath, manifest);
+      await writeFile(signaturePath, signature);
+      const status = await runGpg(
+        ['--homedir', home, '--batch', '--status-fd', '1', '--verify', signaturePath, manifestPath],
+        undefined,
+        true
+      );
+
+      if (parseStatus(status, 'BADSIG').length > 0) {
+        throw new Error('OpenPGP 清单签名校验失败，导出包可能已被篡改');
+      }
+      const valid = parseStatus(status, 'VALIDSIG')[0];
+      if (!valid) {
+        const keyId = parseStatus(status, 'ERRSIG')[0]?.[0] || parseStatus(status, 'NO_PUBKEY')[0]?.[0] || 'unknown';
+        untrusted.push(`OpenPGP (${keyId})`);
+        return null;
+      }
+
+      // VALIDSIG 的最后一个字段为主密钥指纹（子密钥签名时与第一个字段不同）
+      const fingerprint = valid[valid.length - 1].toUpperCase();
+      return { type: 'openpgp', name: names.get(fingerprint) || fingerprint, fingerprint };
+    } finally {
+      await rm(home, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * 读取受信任的 Ed25519 公钥，按指纹索引（读取失败的公钥只记录日志）
+   */
+  private loadEd25519Keys(): Promise<Map<string, { name: string; key: KeyObject }>> {
+    if (!this.ed25519Keys) {
+      this.ed25519Keys = (async () => {
+        const keys = new Map<string, { name: string; key: KeyObject }>();
+        for (const config of this.trustedKeys) {
+          if (!config.publicKey) continue;
+          try {
+            const key = createPublicKey(await loadKeyContent(config.publicKey, '-----BEGIN'));
+            if (key.asymmetricKeyType !== 'ed25519') {
+              throw new Error(`not an Ed25519 key (${key.asymmetricKeyType})`);
+            }
+            const fingerprint = getKeyFingerprint(key);
+            keys.set(fingerprint, { name: config.name || fingerprint, key });
+          } catch (error: any) {
+            this.logger.error(
+              { name: config.name || config.publicKey, error: error.message },
+              'Failed to load trusted key @{name}: @{error}'
+            );
+          }
+        }
+        return keys;
+      })();
+    }
+    return this.ed25519Keys;
+  }
+}
+
+/**
+ * 公钥可以直接填写内容或文件路径
+ */
+async function loadKeyContent(source: string, marker: string): Promise<string> {
+  return source.includes(marker) ? source : readFile(source, 'utf-8');
+}
+
+async function readOptional(filePath: string): Promise<Buffer | null> {
+  try {
+    return await readFile(filePath);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 从 --status-fd 输出中取出指定状态的字段
+ */
+function parseStatus(status: string, keyword: string): string[][] {
+  return status
+    .split('\n')
+    .map((line) => line.trim().split(/\s+/))
+    .filter((fields) => fields[0] === '[GNUPG:]' && fields[1] === keyword)
+    .map((fields) => fields.slice(2));
+}
+
+/**
+ * 运行 gpg，返回标准输出；allowFailure 时签名无效等非零退出码也返回输出，由状态行判断结果
+ */
+function runGpg(args: string[], input?: Buffer, allowFailure = false): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const gpg = spawn('gpg', args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    gpg.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    gpg.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+    gpg.on('error', (error: any) => {
+      reject(error.code === 'ENOENT' ? new Error('未找到 gpg，无法校验 OpenPGP 签名') : error);
+    });
+    gpg.on('close', (code) => {
+      if (code === 0 || allowFailure) {
+        resolve(Buffer.concat(stdout).toString());
+      } else {
+        const message = Buffer.concat(stderr).toString().trim().split('\n').pop();
+        reject(new Error(`gpg exited with code ${code}: ${message}`));
+      }
+    });
+
+    gpg.stdin.on('error', () => {
+      // gpg 提前退出时由 close 事件报告
+    });
+    gpg.stdin.end(input);
+  });
+}
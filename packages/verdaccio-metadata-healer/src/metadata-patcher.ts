@@ -5,6 +5,7 @@ import semver from 'semver';
 import { Logger, Manifest, Version, Dist } from '@verdaccio/types';
 import { HealerConfig, TarballInfo } from './types';
 import { ShasumCache } from './shasum-cache';
+import { getTarballUrl } from './tarball-url';
 
 /**
  * 元数据修补器 - 动态修复缺失的版本信息
@@ -141,15 +142,11 @@ export class MetadataPatcher {
     shasum: string,
     integrity: string
   ): Version {
-    const host = this.config.host || 'localhost:4873';
-
-    // 构建 tarball URL
-    const tarballUrl = `http://${host}/${packageJson.name}/-/${tarball.filename}`;
-
+    // 使用相对地址，由 Verdaccio 按请求改写为对外地址（兼容 HTTPS、反向代理与 url_prefix）
     const dist: Dist = {
       shasum,
       integrity,
-      tarball: tarballUrl
+      tarball: getTarballUrl(packageJson.name, tarball.filename)
     };
 
     // 构建完整的 Version 对象
@@ -2,6 +2,7 @@ import { Logger, Manifest } from '@verdaccio/types';
 import { readFile, writeFile, mkdir } from 'fs/promises';
 import { join, dirname } from 'path';
 import pacote from 'pacote';
+import { RegistryRouter } from 'verdaccio-offline-common';
 import { HealerConfig } from './types';
 
 /**
@@ -23,7 +24,7 @@ export class MetadataSyncer {
   private config: HealerConfig;
   private storagePath: string;
   private logger: Logger;
-  private upstreamRegistry: string;
+  private router: RegistryRouter;
   private readonly defaultSyncConcurrency = 5;
   private remoteMetadataInflight: Map<string, Promise<Manifest>> = new Map();
 
@@ -31,20 +32,13 @@ export class MetadataSyncer {
     config: HealerConfig,
     storagePath: string,
     logger: Logger,
-    upstreamRegistry?: string
+    router: RegistryRouter
   ) {
     this.config = config;
     this.storagePath = storagePath;
     this.logger = logger;
-    // 默认使用 npmmirror，可以通过配置覆盖
-    this.upstreamRegistry = upstreamRegistry || 'https://registry.npmmirror.com';
-  }
-
-  /**
-   * 设置上游 registry URL
-   */
-  setUpstreamRegistry(url: string): void {
-    this.upstreamRegistry = url;
+    // 按 registries 映射与 packages 的 proxy 规则选择上游（默认第一个 uplink，未配置时为 npmmirror）
+    this.router = router;
   }
 
   /**
@@ -57,16 +51,16 @@ export class MetadataSyncer {
     }
 
     this.logger.info(
-      { packageName, registry: this.upstreamRegistry },
+      { packageName, registry: this.router.getTarget(packageName)?.url || '-' },
       '[MetadataSyncer] Fetching metadata for @{packageName} from @{registry}'
     );
 
     const request = (async () => {
       try {
-        const packument = await pacote.packument(packageName, {
-          registry: this.upstreamRegistry,
-          fullMetadata: true
-        });
+        const packument = await pacote.packument(
+          packageName,
+          this.router.getPacoteOptions(packageName, { fullMetadata: true })
+        );
 
         this.logger.info(
           {
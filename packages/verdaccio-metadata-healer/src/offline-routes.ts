@@ -0,0 +1,160 @@
+import { Router, Express, Request, Response, json } from 'express';
+import { Logger } from '@verdaccio/types';
+import { join } from 'path';
+import { SearchIndex, StorageIndex, parseSearchQuery } from 'verdaccio-offline-common';
+import { AdvisoryStore } from './advisory-store';
+import { buildStorageInventory } from './storage-inventory';
+
+// 由 ingest 端镜像、随差分包导入的二进制制品目录
+const ARTIFACTS_DIR = '.artifacts';
+
+/**
+ * 内网离线服务路由：二进制制品、安全公告库、npm search / audit 与存储清单
+ *
+ * 由 healer filter 与独立的导入中间件共用，两者注册的接口完全一致
+ */
+export class OfflineRoutes {
+  private storagePath: string;
+  private logger: Logger;
+  private searchIndex: SearchIndex;
+  private storageIndex?: StorageIndex;
+  private advisoryStore: AdvisoryStore;
+
+  constructor(storagePath: string, logger: Logger, searchIndex: SearchIndex, storageIndex?: StorageIndex) {
+    this.storagePath = storagePath;
+    this.logger = logger;
+    this.searchIndex = searchIndex;
+    this.storageIndex = storageIndex;
+    this.advisoryStore = new AdvisoryStore(storagePath, logger);
+  }
+
+  /**
+   * 注册二进制制品、存储清单、npm search 与 npm audit 路由
+   */
+  register(app: Express): void {
+    const router = Router();
+    // 二进制制品（ELECTRON_MIRROR、npm_config_*_binary_host 等指向此处）
+    router.get('/artifacts/*', this.handleArtifact.bind(this));
+    // 已导入的安全公告库
+    router.get('/healer/advisories', this.handleAdvisorySummary.bind(this));
+    // 重建本地包搜索索引
+    router.post('/healer/search/rebuild', this.handleSearchRebuild.bind(this));
+    // 下载存储清单（外网按清单导出差分包）
+    router.get('/healer/inventory', this.handleInventory.bind(this));
+    app.use('/_', router);
+
+    // npm search 接口，只返回本地有 tarball 的包
+    app.get('/-/v1/search', this.handleSearch.bind(this));
+
+    // npm audit 接口（npm 7+ 使用 bulk，npm 6 及回退时使用 quick），请求体可能经过 gzip 压缩
+    const auditBody = json({ limit: '50mb' });
+    app.post('/-/npm/v1/security/advisories/bulk', auditBody, this.handleAdvisoryBulk.bind(this));
+    app.post('/-/npm/v1/security/audits/quick', auditBody, this.handleQuickAudit.bind(this));
+  }
+
+  /**
+   * 提供二进制制品下载
+   */
+  private handleArtifact(req: Request, res: Response): void {
+    const relativePath = req.params[0];
+    if (!relativePath) {
+      res.status(404).json({ success: false, error: 'Artifact not found' });
+      return;
+    }
+
+    // root 限定在制品目录内，包含 .. 的路径会被拒绝
+    res.sendFile(relativePath, { root: join(this.storagePath, ARTIFACTS_DIR) }, (error: any) => {
+      if (error && !res.headersSent) {
+        res.status(error.statusCode || 404).json({ success: false, error: 'Artifact not found' });
+      }
+    });
+  }
+
+  /**
+   * 处理 bulk advisory 请求
+   */
+  private async handleAdvisoryBulk(req: Request, res: Response): Promise<void> {
+    try {
+      res.json(await this.advisoryStore.bulk(req.body));
+    } catch (error: any) {
+      this.logger.error({ error: error.message }, 'Bulk advisory request failed: @{error}');
+      res.status(error.statusCode || 500).json({ success: false, error: error.message });
+    }
+  }
+
+  /**
+   * 处理 quick audit 请求
+   */
+  private async handleQuickAudit(req: Request, res: Response): Promise<void> {
+    try {
+      res.json(await this.advisoryStore.quickAudit(req.body));
+    } catch (error: any) {
+      this.logger.error({ error: error.message }, 'Quick audit request failed: @{error}');
+      res.status(error.statusCode || 500).json({ success: false, error: error.message });
+    }
+  }
+
+  /**
+   * 处理安全公告库查询
+   */
+  private async handleAdvisorySummary(req: Request, res: Response): Promise<void> {
+    try {
+      const snapshot = await this.advisoryStore.load();
+      res.json({
+        success: true,
+        database: snapshot
+          ? {
+              revision: snapshot.revision,
+              generatedAt: snapshot.generatedAt,
+              registry: snapshot.registry,
+              packages: snapshot.packages,
+              vulnerablePackages: Object.keys(snapshot.advisories).length
+            }
+          : null
+      });
+    } catch (error: any) {
+      this.logger.error({ error: error.message }, 'Failed to load advisory database: @{error}');
+      res.status(500).json({ success: false, error: error.message });
+    }
+  }
+
+  /**
+   * 处理 npm search 请求
+   */
+  private async handleSearch(req: Request, res: Response): Promise<void> {
+    try {
+      res.json(await this.searchIndex.search(parseSearchQuery(req.query)));
+    } catch (error: any) {
+      this.logger.error({ error: error.message }, 'Search failed: @{error}');
+      res.status(500).json({ success: false, error: error.message });
+    }
+  }
+
+  /**
+   * 处理搜索索引重建请求
+   */
+  private async handleSearchRebuild(req: Request, res: Response): Promise<void> {
+    try {
+      const indexed = await this.searchIndex.rebuild();
+      res.json({ success: true, indexed });
+    } catch (error: any) {
+      this.logger.error({ error: error.message }, 'Search index rebuild failed: @{error}');
+      res.status(500).json({ success: false, error: error.message });
+    }
+  }
+
+  /**
+   * 下载存储清单（外网据此只导出内网缺少或不一致的文件）
+   */
+  private async handleInventory(req: Request, res: Response): Promise<void> {
+    try {
+      const inventory = await buildStorageInventory(this.storagePath, this.logger, this.storageIndex);
+      const date = inventory.generatedAt.slice(0, 10);
+      res.setHeader('Content-Disposition', `attachment; filename="storage-inventory-${date}.json"`);
+      res.json(inventory);
+    } catch (error: any) {
+      this.logger.error({ error: error.message }, 'Failed to build storage inventory: @{error}');
+      res.status(500).json({ success: false, error: error.message });
+    }
+  }
+}
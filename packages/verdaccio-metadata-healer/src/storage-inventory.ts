@@ -0,0 +1,126 @@
+import { createReadStream } from 'fs';
+import { readdir, readFile, stat } from 'fs/promises';
+import { createHash } from 'crypto';
+import path from 'path';
+import { Logger } from '@verdaccio/types';
+import {
+  StorageIndex,
+  StorageInventory,
+  extractVersion,
+  getMetadataDigest,
+  scanPackageNames
+} from 'verdaccio-offline-common';
+
+// 与 ingest 端导出的目录保持一致
+const INVENTORY_DIRS = ['.artifacts', '.advisories'];
+
+/**
+ * 生成存储清单
+ *
+ * 列出本地每个 name@version 的 tarball SHA-1、每个包的元数据摘要以及二进制制品、安全公告库文件的大小，
+ * 供外网按清单只导出内网缺少或不一致的部分；启用存储索引时使用索引中已计算的哈希
+ */
+export async function buildStorageInventory(
+  storagePath: string,
+  logger: Logger,
+  index?: StorageIndex
+): Promise<StorageInventory> {
+  const inventory: StorageInventory = {
+    format: 1,
+    generatedAt: new Date().toISOString(),
+    tarballs: {},
+    metadata: {},
+    files: {}
+  };
+
+  let names: string[];
+  try {
+    names = await scanPackageNames(storagePath);
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw error;
+    }
+    names = [];
+  }
+
+  const indexed = index ? await index.getAll() : null;
+
+  for (const name of names) {
+    const packageDir = path.join(storagePath, name);
+    try {
+      const entry = indexed?.get(name);
+      if (entry) {
+        for (const [version, tarball] of Object.entries(entry.versions)) {
+          inventory.tarballs[`${name}@${version}`] =
+            tarball.shasum || (await computeShasum(path.join(packageDir, tarball.filename)));
+        }
+      } else {
+        for (const filename of await readdir(packageDir)) {
+          const version = filename.endsWith('.tgz') ? extractVersion(name, filename) : null;
+          if (version) {
+            inventory.tarballs[`${name}@${version}`] = await computeShasum(path.join(packageDir, filename));
+          }
+        }
+      }
+    } catch (error: any) {
+      logger.warn({ name, error: error.message }, 'Failed to list tarballs of @{name}: @{error}');
+    }
+
+    try {
+      const packument = JSON.parse(await readFile(path.join(packageDir, 'package.json'), 'utf-8'));
+      inventory.metadata[name] = getMetadataDigest(packument);
+    } catch {
+      // 没有元数据或无法解析时视为缺少元数据
+    }
+  }
+
+  for (const dir of INVENTORY_DIRS) {
+    await collectFiles(storagePath, dir, inventory.files);
+  }
+
+  logger.info(
+    {
+      tarballs: Object.keys(inventory.tarballs).length,
+      packages: Object.keys(inventory.metadata).length,
+      files: Object.keys(inventory.files).length
+    },
+    'Built storage inventory: @{tarballs} tarballs, @{packages} packages, @{files} files'
+  );
+
+  return inventory;
+}
+
+/**
+ * 递归列出目录中的文件（路径使用 / 分隔，跳过隐藏文件与下载中的临时文件）
+ */
+async function collectFiles(storagePath: string, relativePath: string, files: Record<string, number>): Promise<void> {
+  let entries;
+  try {
+    entries = await readdir(path.join(storagePath, relativePath), { withFileTypes: true });
+  } catch {
+    return;
+  }
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.') || entry.name.endsWith('.tmp')) {
+      continue;
+    }
+
+    const entryRelativePath = `${relativePath}/${entry.name}`;
+    if (entry.isDirectory()) {
+      await collectFiles(storagePath, entryRelativePath, files);
+    } else if (entry.isFile()) {
+      files[entryRelativePath] = (await stat(path.join(storagePath, entryRelativePath))).size;
+    }
+  }
+}
+
+function computeShasum(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha1');
+    createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
@@ -1,6 +1,7 @@
 import { readdir, stat } from 'fs/promises';
 import path from 'path';
 import { Logger } from '@verdaccio/types';
+import { StorageIndex } from 'verdaccio-offline-common';
 import { HealerConfig, TarballInfo, ScanCacheEntry } from './types';
 
 /**
@@ -12,11 +13,13 @@ export class StorageScanner {
   private storagePath: string;
   private scanCache: Map<string, ScanCacheEntry>;
   private cacheTTL: number;
+  private index?: StorageIndex;
 
-  constructor(config: HealerConfig, storagePath: string, logger: Logger) {
+  constructor(config: HealerConfig, storagePath: string, logger: Logger, index?: StorageIndex) {
     this.config = config;
     this.storagePath = storagePath;
     this.logger = logger;
+    this.index = index;
     this.scanCache = new Map();
     this.cacheTTL = config.scanCacheTTL || 60000; // 默认 1 分钟
   }
@@ -25,6 +28,19 @@ export class StorageScanner {
    * 扫描指定包的所有 tarball 文件
    */
   async scanPackageTarballs(packageName: string): Promise<TarballInfo[]> {
+    // 存储索引由 fs.watch 与定期核对保持最新，无需缓存
+    if (this.index) {
+      const entry = await this.index.getPackage(packageName);
+      const packageDir = this.getPackageDir(packageName);
+      return Object.entries(entry?.versions || {}).map(([version, tarball]) => ({
+        filename: tarball.filename,
+        version,
+        path: path.join(packageDir, tarball.filename),
+        size: tarball.size,
+        mtime: new Date(tarball.mtime)
+      }));
+    }
+
     // 检查缓存
     const cached = this.scanCache.get(packageName);
     if (cached && Date.now() - cached.timestamp < this.cacheTTL) {
@@ -0,0 +1,178 @@
+import { readdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { Logger, Manifest } from '@verdaccio/types';
+import { TarballUrlMigrationResult } from './types';
+
+// 迁移完成标记（位于 storage 根目录，以点开头不会被扫描器当作包）
+const MIGRATION_MARKER = '.tarball-url-migration.json';
+const MIGRATION_FORMAT = 1;
+
+// 旧版本固定使用的主机（未配置 host 时）
+const LEGACY_DEFAULT_HOST = 'localhost:4873';
+
+// 同一存储目录的迁移只执行一次（filter 与 middleware 实例共享）
+const migrations = new Map<string, Promise<TarballUrlMigrationResult>>();
+
+/**
+ * 修复版本使用的 tarball 地址
+ *
+ * 使用相对地址（scoped 包为 @scope/name/-/name-x.tgz），由 Verdaccio 在返回元数据时
+ * 按请求的 X-Forwarded-Proto / Host 以及 url_prefix、VERDACCIO_PUBLIC_URL 改写为完整地址
+ */
+export function getTarballUrl(packageName: string, filename: string): string {
+  return `${packageName}/-/${filename}`;
+}
+
+/**
+ * 将旧版本生成的 http://<host>/<name>/-/<file> 地址改为相对地址，返回修改的版本数
+ */
+export function fixLegacyTarballUrls(manifest: Manifest, legacyHost?: string): number {
+  if (!manifest?.name || !manifest.versions) {
+    return 0;
+  }
+
+  const prefix = `http://${legacyHost || LEGACY_DEFAULT_HOST}/${manifest.name}/-/`;
+  let fixed = 0;
+
+  for (const version of Object.values(manifest.versions)) {
+    const tarball = version?.dist?.tarball;
+    if (typeof tarball !== 'string' || !tarball.startsWith(prefix)) {
+      continue;
+    }
+
+    const filename = tarball.slice(prefix.length);
+    if (!filename || filename.includes('/')) {
+      continue;
+    }
+
+    version.dist.tarball = getTarballUrl(manifest.name, filename);
+    fixed++;
+  }
+
+  return fixed;
+}
+
+/**
+ * 迁移存储中已保存的修复元数据（完成后写入标记，之后启动不再全量扫描）
+ */
+export function migrateTarballUrls(
+  storagePath: string,
+  legacyHost: string | undefined,
+  logger: Logger,
+  force: boolean = false
+): Promise<TarballUrlMigrationResult> {
+  const key = path.resolve(storagePath);
+  const running = migrations.get(key);
+  if (running && !force) {
+    return running;
+  }
+
+  const migration = runMigration(storagePath, legacyHost, logger, force);
+  migrations.set(key, migration);
+  migration.catch(() => migrations.delete(key));
+  return migration;
+}
+
+async function runMigration(
+  storagePath: string,
+  legacyHost: string | undefined,
+  logger: Logger,
+  force: boolean
+): Promise<TarballUrlMigrationResult> {
+  const markerPath = path.join(storagePath, MIGRATION_MARKER);
+
+  if (!force) {
+    try {
+      const marker = JSON.parse(await readFile(markerPath, 'utf-8'));
+      if (marker.format === MIGRATION_FORMAT) {
+        return { scanned: 0, migratedPackages: 0, migratedVersions: 0, skipped: true };
+      }
+    } catch {
+      // 标记不存在或无法解析时执行迁移
+    }
+  }
+
+  const result: TarballUrlMigrationResult = {
+    scanned: 0,
+    migratedPackages: 0,
+    migratedVersions: 0,
+    skipped: false
+  };
+
+  for (const packageName of await scanPackageNames(storagePath)) {
+    const metadataPath = path.join(storagePath, packageName, 'package.json');
+    let manifest: Manifest;
+    try {
+      manifest = JSON.parse(await readFile(metadataPath, 'utf-8'));
+    } catch {
+      continue;
+    }
+
+    result.scanned++;
+    const fixed = fixLegacyTarballUrls(manifest, legacyHost);
+    if (fixed === 0) {
+      continue;
+    }
+
+    try {
+      const tmpPath = `${metadataPath}.${process.pid}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(manifest, null, 2));
+      await rename(tmpPath, metadataPath);
+      result.migratedPackages++;
+      result.migratedVersions += fixed;
+    } catch (error: any) {
+      logger.warn(
+        { packageName, error: error.message },
+        'Failed to migrate tarball URLs for @{packageName}: @{error}'
+      );
+    }
+  }
+
+  await writeFile(
+    markerPath,
+    JSON.stringify({ format: MIGRATION_FORMAT, migratedAt: new Date().toISOString(), ...result }, null, 2)
+  );
+
+  logger.info(
+    { packages: result.migratedPackages, versions: result.migratedVersions, scanned: result.scanned },
+    'Migrated tarball URLs of @{versions} versions in @{packages} packages (@{scanned} scanned)'
+  );
+
+  return result;
+}
+
+/**
+ * 列出存储中的所有包（含 scoped 包）
+ */
+async function scanPackageNames(storagePath: string): Promise<string[]> {
+  const names: string[] = [];
+  let entries: string[];
+  try {
+    entries = await readdir(storagePath);
+  } catch {
+    return names;
+  }
+
+  for (const entry of entries) {
+    if (entry.startsWith('.')) {
+      continue;
+    }
+
+    if (entry.startsWith('@')) {
+      try {
+        for (const child of await readdir(path.join(storagePath, entry))) {
+          if (!child.startsWith('.')) {
+            names.push(`${entry}/${child}`);
+          }
+        }
+      } catch {
+        // 忽略无法读取的 scope 目录
+      }
+      continue;
+    }
+
+    names.push(entry);
+  }
+
+  return names;
+}
@@ -1,4 +1,37 @@
 import { Manifest, Version, Dist } from '@verdaccio/types';
+import {
+  RegistryConfig,
+  StorageIndexConfig,
+  StorageAuditReport,
+  StorageRepairResult
+} from 'verdaccio-offline-common';
+
+// 存储索引、搜索索引、存储审计与上游路由的类型由 verdaccio-offline-common 定义，各插件共用
+export {
+  StorageIndexConfig,
+  SearchIndexEntry,
+  SearchPackageLinks,
+  SearchIndexFile,
+  SearchQuery,
+  SearchResultObject,
+  SearchResponse,
+  StorageIndexTarball,
+  StorageIndexPackage,
+  StorageIndexFile,
+  StorageIndexStats,
+  StorageIssueCategory,
+  StorageRepairAction,
+  StorageIssue,
+  StorageAuditRequest,
+  StorageAuditReport,
+  StorageRepairRequest,
+  StorageRepairResult,
+  RegistryConfig,
+  RegistryTarget,
+  EncryptedArchiveHeader,
+  EncryptedArchiveRecipient,
+  StorageInventory
+} from 'verdaccio-offline-common';
 
 /**
  * 插件配置
@@ -13,11 +46,34 @@ export interface HealerConfig {
   autoUpdateLatest?: boolean;
   /** 是否在 filter_metadata 时自动保存元数据到本地（默认 true） */
   autoSaveMetadata?: boolean;
+  /** 旧版本生成修复元数据 tarball 地址时使用的主机（默认 localhost:4873），仅用于识别并迁移这些地址 */
   host?: string;
   /** 是否启用导入 Web UI（需要在 middlewares 中配置） */
   enableImportUI?: boolean;
   /** Web UI 标题 */
   title?: string;
+  /** scope 到上游 registry 的映射，如 { '@myorg': 'https://npm.pkg.github.com' }，优先于 packages 的 proxy 规则 */
+  registries?: Record<string, string | RegistryConfig>;
+  /** 持久化的存储索引（代替每次读取元数据时扫描包目录） */
+  storageIndex?: StorageIndexConfig;
+  /** 受信任的导出签名公钥 */
+  trustedKeys?: TrustedKeyConfig[];
+  /** 是否拒绝未签名或签名者不受信任的导出包（默认 false） */
+  requireSignedImports?: boolean;
+  /** 解密加密导出包的 X25519 私钥（PKCS#8 PEM 内容或文件路径） */
+  decryptionKeys?: string[];
+}
+
+/**
+ * 受信任的导出签名公钥（publicKey 与 openpgpKey 至少配置一个）
+ */
+export interface TrustedKeyConfig {
+  /** 名称（记录在导入历史中，默认为公钥指纹） */
+  name?: string;
+  /** Ed25519 公钥（SPKI PEM 内容或文件路径） */
+  publicKey?: string;
+  /** OpenPGP 公钥（ASCII armor 内容或文件路径） */
+  openpgpKey?: string;
 }
 
 /**
@@ -85,6 +141,12 @@ export interface ImportRecord {
   totalSize: number;
   /** 原始文件名 */
   filename: string;
+  /** 导入的分卷序号（分卷导出时） */
+  volumes?: number[];
+  /** 强制导入时缺少的分卷序号 */
+  missingVolumes?: number[];
+  /** 清单签名者（签名已通过受信任公钥校验的分卷，按公钥去重） */
+  signers?: ImportSigner[];
   /** 导入状态 */
   status: 'success' | 'partial' | 'failed';
   /** 导入摘要 */
@@ -120,6 +182,10 @@ export interface ImportProgress {
   estimatedRemaining?: number;
   /** 当前阶段描述 */
   phaseDescription: string;
+  /** 解压阶段已读取的导出包字节数 */
+  bytesProcessed?: number;
+  /** 导出包总字节数 */
+  totalBytes?: number;
 }
 
 /**
@@ -153,10 +219,46 @@ export interface ImportResult {
   versions: number;
   /** 是否触发了元数据重建 */
   metadataRebuilt: boolean;
+  /** 分卷未到齐、已暂存等待其余分卷（未导入任何文件） */
+  pending?: boolean;
+  /** 分卷导出的接收情况 */
+  volumes?: ImportVolumeSet;
+  /** 清单签名者（按公钥去重，未签名的分卷不计入） */
+  signers?: ImportSigner[];
   /** 错误列表 */
   errors?: string[];
 }
 
+/**
+ * 导出包的签名者
+ */
+export interface ImportSigner {
+  type: 'ed25519' | 'openpgp';
+  /** 受信任公钥的名称 */
+  name: string;
+  /** 公钥指纹（Ed25519 为 SPKI DER 的 SHA-256，OpenPGP 为主密钥指纹） */
+  fingerprint: string;
+}
+
+/**
+ * 已暂存的分卷导出（storage/.import-volumes/<exportId>）
+ */
+export interface ImportVolumeSet {
+  exportId: string;
+  /** 导出时间 */
+  timestamp: string;
+  /** 分卷总数 */
+  volumeCount: number;
+  /** 已接收的分卷序号 */
+  received: number[];
+  /** 缺少的分卷序号 */
+  missing: number[];
+  /** 已接收分卷中的文件数 */
+  fileCount: number;
+  /** 已接收分卷中的文件总大小（字节） */
+  totalSize: number;
+}
+
 /**
  * 导入选项
  */
@@ -167,6 +269,10 @@ export interface ImportOptions {
   rebuildMetadata?: boolean;
   /** 是否验证文件校验和 */
   validateChecksum?: boolean;
+  /** 分卷未到齐时是否强制导入已接收的分卷 */
+  allowPartial?: boolean;
+  /** 加密导出包的口令（未配置对应私钥时需要） */
+  passphrase?: string;
 }
 
 /**
@@ -177,6 +283,12 @@ export interface ExportManifest {
   exportId: string;
   timestamp: string;
   baseTimestamp?: string;
+  /** 按存储清单导出时清单的生成时间 */
+  baseInventory?: string;
+  /** 分卷序号（从 1 开始，files 与 stats 只包含本分卷的文件） */
+  volumeIndex?: number;
+  /** 分卷总数（未分卷时为空） */
+  volumeCount?: number;
   type: 'full' | 'incremental';
   files: ExportFileEntry[];
   stats: {
@@ -195,7 +307,104 @@ export interface ExportFileEntry {
   size: number;
   mtime: string;
   checksum: string;
-  type: 'tarball' | 'metadata';
+  type: 'tarball' | 'metadata' | 'artifact' | 'advisory';
   packageName?: string;
   version?: string;
 }
+
+/**
+ * 安全公告严重程度
+ */
+export type AdvisorySeverity = 'info' | 'low' | 'moderate' | 'high' | 'critical';
+
+/**
+ * 安全公告（字段与 npm bulk advisory 接口的返回一致）
+ */
+export interface Advisory {
+  id: number;
+  url: string;
+  title: string;
+  severity: AdvisorySeverity;
+  /** 受影响的版本范围 */
+  vulnerable_versions: string;
+  cwe?: string[];
+  cvss?: { score: number; vectorString: string | null };
+}
+
+/**
+ * ingest 端生成、随差分包导入的安全公告库快照（storage/.advisories/advisories-<revision>.json）
+ */
+export interface AdvisoryDbSnapshot {
+  /** 文件格式版本 */
+  format: number;
+  /** 快照版本（生成时间戳） */
+  revision: number;
+  generatedAt: string;
+  registry: string;
+  /** 生成快照时查询的包数量 */
+  packages: number;
+  /** 包名 -> 安全公告 */
+  advisories: Record<string, Advisory[]>;
+}
+
+/**
+ * npm audit quick 接口请求中的依赖节点（npm 6 的 lockfile 风格依赖树）
+ */
+export interface AuditDependencyNode {
+  version?: string;
+  dev?: boolean;
+  optional?: boolean;
+  bundled?: boolean;
+  requires?: Record<string, string>;
+  dependencies?: Record<string, AuditDependencyNode>;
+}
+
+/**
+ * npm audit quick 接口返回的公告（在 Advisory 基础上附加命中的版本与依赖路径）
+ */
+export interface AuditAdvisory extends Advisory {
+  module_name: string;
+  findings: Array<{ version: string; paths: string[] }>;
+}
+
+/**
+ * npm audit quick 接口的返回
+ */
+export interface QuickAuditReport {
+  actions: unknown[];
+  advisories: Record<string, AuditAdvisory>;
+  muted: unknown[];
+  metadata: {
+    vulnerabilities: Record<AdvisorySeverity, number>;
+    dependencies: number;
+    devDependencies: number;
+    optionalDependencies: number;
+    totalDependencies: number;
+  };
+}
+
+/**
+ * tarball 地址迁移结果
+ */
+export interface TarballUrlMigrationResult {
+  /** 扫描的包数量 */
+  scanned: number;
+  /** 修改的包数量 */
+  migratedPackages: number;
+  /** 修改的版本数量 */
+  migratedVersions: number;
+  /** 已迁移过，本次未扫描 */
+  skipped: boolean;
+}
+
+/**
+ * 存储审计 / 修复任务状态
+ */
+export interface StorageAuditTaskStatus {
+  taskId: string;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  progress?: number;
+  message?: string;
+  result?: StorageAuditReport | StorageRepairResult;
+  error?: string;
+}
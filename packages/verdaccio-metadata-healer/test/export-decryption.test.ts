@@ -0,0 +1,92 @@
+import { diffieHellman, generateKeyPairSync, KeyObject, randomBytes, scryptSync } from 'crypto';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Logger } from '@verdaccio/types';
+import {
+  EncryptedArchiveRecipient,
+  createArchiveEncryptStream,
+  createArchiveHeader,
+  createDataKey,
+  deriveX25519WrappingKey,
+  getKeyFingerprint,
+  wrapDataKey
+} from 'verdaccio-offline-common';
+import { ArchiveDecryptor } from '../src/export-decryption';
+
+const PASSPHRASE = 'correct horse battery staple';
+// 测试使用较小的 scrypt 参数
+const SCRYPT_PARAMS = { N: 1024, r: 8, p: 1 };
+
+const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } as unknown as Logger;
+
+async function collect(source: Readable, transform: Transform): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  await pipeline(source, transform, async (stream: AsyncIterable<Buffer>) => {
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+  });
+  return Buffer.concat(chunks);
+}
+
+/**
+ * 按导出端的方式封装数据密钥：口令经 scrypt 派生，公钥经临时 X25519 协商派生
+ */
+function encrypt(plaintext: Buffer, options: { passphrase?: string; recipientKey?: KeyObject }): Promise<Buffer> {
+  const dataKey = createDataKey();
+  const recipients: EncryptedArchiveRecipient[] = [];
+
+  if (options.passphrase) {
+    const salt = randomBytes(16);
+    const kek = scryptSync(options.passphrase, salt, 32, SCRYPT_PARAMS);
+    recipients.push({ type: 'scrypt', salt: salt.toString('base64'), ...SCRYPT_PARAMS, ...wrapDataKey(kek, dataKey) });
+  }
+  if (options.recipientKey) {
+    const ephemeral = generateKeyPairSync('x25519');
+    const ephemeralKey = ephemeral.publicKey.export({ type: 'spki', format: 'der' });
+    const shared = diffieHellman({ privateKey: ephemeral.privateKey, publicKey: options.recipientKey });
+    recipients.push({
+      type: 'x25519',
+      fingerprint: getKeyFingerprint(options.recipientKey),
+      ephemeralKey: ephemeralKey.toString('base64'),
+      ...wrapDataKey(deriveX25519WrappingKey(shared, ephemeralKey), dataKey)
+    });
+  }
+
+  return collect(Readable.from([plaintext]), createArchiveEncryptStream(dataKey, createArchiveHeader(recipients)));
+}
+
+function decrypt(archive: Buffer, decryptor: ArchiveDecryptor, passphrase?: string): Promise<Buffer> {
+  return collect(Readable.from([archive]), decryptor.createDecryptStream(passphrase));
+}
+
+describe('ArchiveDecryptor', () => {
+  const plaintext = randomBytes(100 * 1024);
+
+  it('decrypts a passphrase-encrypted archive', async () => {
+    const archive = await encrypt(plaintext, { passphrase: PASSPHRASE });
+
+    expect(await decrypt(archive, new ArchiveDecryptor([], logger), PASSPHRASE)).toEqual(plaintext);
+  });
+
+  it('decrypts an archive encrypted for a configured X25519 private key', async () => {
+    const { publicKey, privateKey } = generateKeyPairSync('x25519');
+    const archive = await encrypt(plaintext, { recipientKey: publicKey });
+    const decryptor = new ArchiveDecryptor([privateKey.export({ type: 'pkcs8', format: 'pem' }).toString()], logger);
+
+    expect(await decrypt(archive, decryptor)).toEqual(plaintext);
+  });
+
+  it('rejects a wrong passphrase', async () => {
+    const archive = await encrypt(plaintext, { passphrase: PASSPHRASE });
+
+    await expect(decrypt(archive, new ArchiveDecryptor([], logger), 'wrong passphrase')).rejects.toThrow('口令错误');
+  });
+
+  it('asks for a passphrase when no configured key matches', async () => {
+    const archive = await encrypt(plaintext, { recipientKey: generateKeyPairSync('x25519').publicKey });
+    const other = generateKeyPairSync('x25519').privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+    await expect(decrypt(archive, new ArchiveDecryptor([other], logger))).rejects.toThrow('需要口令或配置的私钥');
+  });
+});
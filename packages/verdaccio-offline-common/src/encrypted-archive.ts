@@ -0,0 +1,282 @@
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+import { EncryptedArchiveHeader, EncryptedArchiveRecipient } from './types';
+
+/**
+ * 加密导出包容器格式：
+ * "VOSENC01" 魔数、4 字节大端头长度、头 JSON，之后是若干密文段，
+ * 每段为最多 segmentSize 字节的 AES-256-GCM 密文及 16 字节标签
+ */
+export const ENCRYPTED_ARCHIVE_MAGIC = Buffer.from('VOSENC01');
+const PREFIX_LENGTH = ENCRYPTED_ARCHIVE_MAGIC.length + 4;
+const SEGMENT_SIZE = 64 * 1024;
+const TAG_LENGTH = 16;
+const NONCE_PREFIX_LENGTH = 7;
+const DATA_KEY_LENGTH = 32;
+const X25519_INFO = 'verdaccio-offline-sync x25519';
+// 容器头与分段大小的上限，避免损坏的头导致大量内存占用
+const MAX_HEADER_LENGTH = 1024 * 1024;
+const MAX_SEGMENT_SIZE = 16 * 1024 * 1024;
+
+/**
+ * 生成随机的 32 字节数据密钥
+ */
+export function createDataKey(): Buffer {
+  return randomBytes(DATA_KEY_LENGTH);
+}
+
+/**
+ * 生成容器头（随机 nonce 前缀，默认 64 KiB 分段）
+ */
+export function createArchiveHeader(recipients: EncryptedArchiveRecipient[]): EncryptedArchiveHeader {
+  return {
+    format: 1,
+    cipher: 'aes-256-gcm',
+    segmentSize: SEGMENT_SIZE,
+    noncePrefix: randomBytes(NONCE_PREFIX_LENGTH).toString('base64'),
+    recipients
+  };
+}
+
+/**
+ * 由 X25519 共享密钥派生数据密钥的封装密钥（HKDF-SHA256，以临时公钥为盐）
+ */
+export function deriveX25519WrappingKey(shared: Buffer, ephemeralKey: Buffer): Buffer {
+  return Buffer.from(hkdfSync('sha256', shared, ephemeralKey, X25519_INFO, DATA_KEY_LENGTH));
+}
+
+/**
+ * 以 AES-256-GCM 封装数据密钥（wrappedKey 为密文加 16 字节标签）
+ */
+export function wrapDataKey(kek: Buffer, dataKey: Buffer): { nonce: string; wrappedKey: string } {
+  const nonce = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', kek, nonce);
+  const wrapped = Buffer.concat([cipher.update(dataKey), cipher.final(), cipher.getAuthTag()]);
+  return { nonce: nonce.toString('base64'), wrappedKey: wrapped.toString('base64') };
+}
+
+/**
+ * 解开 AES-256-GCM 封装的数据密钥，密钥不匹配时返回 null
+ */
+export function unwrapDataKey(kek: Buffer, recipient: EncryptedArchiveRecipient): Buffer | null {
+  const wrapped = Buffer.from(recipient.wrappedKey, 'base64');
+  if (wrapped.length !== DATA_KEY_LENGTH + TAG_LENGTH) {
+    throw new Error('无效的加密导出包：数据密钥封装损坏');
+  }
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', kek, Buffer.from(recipient.nonce, 'base64'));
+    decipher.setAuthTag(wrapped.subarray(DATA_KEY_LENGTH));
+    return Buffer.concat([decipher.update(wrapped.subarray(0, DATA_KEY_LENGTH)), decipher.final()]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 创建分段加密流：先输出容器头，再输出密文段
+ */
+export function createArchiveEncryptStream(dataKey: Buffer, header: EncryptedArchiveHeader): Transform {
+  return new EncryptStream(dataKey, header);
+}
+
+/**
+ * 创建分段解密流：读到容器头后调用 resolveKey 解开数据密钥，输出原始明文
+ */
+export function createArchiveDecryptStream(
+  resolveKey: (header: EncryptedArchiveHeader) => Promise<Buffer>
+): Transform {
+  return new DecryptStream(resolveKey);
+}
+
+/**
+ * 第 counter 段的 nonce：7 字节前缀、4 字节大端段序号与 1 字节末段标记
+ */
+function segmentNonce(noncePrefix: Buffer, counter: number, last: boolean): Buffer {
+  const nonce = Buffer.alloc(12);
+  noncePrefix.copy(nonce, 0);
+  nonce.writeUInt32BE(counter, NONCE_PREFIX_LENGTH);
+  nonce[11] = last ? 1 : 0;
+  return nonce;
+}
+
+/**
+ * 分段认证加密流
+ *
+ * 段 nonce 包含段序号与末段标记，整个容器头作为每段的附加认证数据，
+ * 因此段的重排、截断或头的改动都会导致解密失败
+ */
+class EncryptStream extends Transform {
+  private dataKey: Buffer;
+  private noncePrefix: Buffer;
+  private segmentSize: number;
+  private aad: Buffer;
+  private buffered: Buffer[] = [];
+  private bufferedLength = 0;
+  private counter = 0;
+
+  constructor(dataKey: Buffer, header: EncryptedArchiveHeader) {
+    super();
+    this.dataKey = dataKey;
+    this.noncePrefix = Buffer.from(header.noncePrefix, 'base64');
+    this.segmentSize = header.segmentSize;
+
+    const headerJson = Buffer.from(JSON.stringify(header));
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(headerJson.length);
+    this.aad = Buffer.concat([ENCRYPTED_ARCHIVE_MAGIC, length, headerJson]);
+    this.push(this.aad);
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.buffered.push(chunk);
+    this.bufferedLength += chunk.length;
+
+    try {
+      // 保留至少一个字节，确保最后一段在 flush 时带末段标记写出
+      if (this.bufferedLength > this.segmentSize) {
+        let data = Buffer.concat(this.buffered);
+        while (data.length > this.segmentSize) {
+          this.push(this.seal(data.subarray(0, this.segmentSize), false));
+          data = data.subarray(this.segmentSize);
+        }
+        this.buffered = [data];
+        this.bufferedLength = data.length;
+      }
+      callback();
+    } catch (error: any) {
+      callback(error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    try {
+      this.push(this.seal(Buffer.concat(this.buffered), true));
+      this.buffered = [];
+      this.bufferedLength = 0;
+      callback();
+    } catch (error: any) {
+      callback(error);
+    }
+  }
+
+  private seal(segment: Buffer, last: boolean): Buffer {
+    if (this.counter > 0xffffffff) {
+      throw new Error('Encrypted archive has too many segments');
+    }
+    const cipher = createCipheriv('aes-256-gcm', this.dataKey, segmentNonce(this.noncePrefix, this.counter++, last));
+    cipher.setAAD(this.aad);
+    return Buffer.concat([cipher.update(segment), cipher.final(), cipher.getAuthTag()]);
+  }
+}
+
+/**
+ * 分段认证解密流
+ *
+ * 只有确认后面还有数据时才按普通段解密，流结束时剩余部分按末段解密，因此截断的导出包无法通过校验
+ */
+class DecryptStream extends Transform {
+  private resolveKey: (header: EncryptedArchiveHeader) => Promise<Buffer>;
+  private buffered: Buffer[] = [];
+  private bufferedLength = 0;
+  private aad: Buffer | null = null;
+  private dataKey: Buffer | null = null;
+  private noncePrefix = Buffer.alloc(0);
+  private segmentLength = 0;
+  private counter = 0;
+
+  constructor(resolveKey: (header: EncryptedArchiveHeader) => Promise<Buffer>) {
+    super();
+    this.resolveKey = resolveKey;
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.buffered.push(chunk);
+    this.bufferedLength += chunk.length;
+    this.process(false).then(() => callback(), callback);
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.process(true).then(() => callback(), callback);
+  }
+
+  private async process(final: boolean): Promise<void> {
+    if (!this.dataKey) {
+      if (!(await this.readHeader(final))) return;
+    }
+    if (this.bufferedLength <= this.segmentLength && !final) return;
+
+    let data = Buffer.concat(this.buffered);
+    while (data.length > this.segmentLength) {
+      this.push(this.open(data.subarray(0, this.segmentLength), false));
+      data = data.subarray(this.segmentLength);
+    }
+
+    if (final) {
+      if (data.length < TAG_LENGTH) {
+        throw new Error('导出包解密失败：文件不完整');
+      }
+      this.push(this.open(data, true));
+      data = Buffer.alloc(0);
+    }
+    this.buffered = [data];
+    this.bufferedLength = data.length;
+  }
+
+  /**
+   * 解析容器头并解开数据密钥，数据不足时返回 false 等待更多数据
+   */
+  private async readHeader(final: boolean): Promise<boolean> {
+    const data = Buffer.concat(this.buffered);
+    if (data.length >= ENCRYPTED_ARCHIVE_MAGIC.length && !data.subarray(0, ENCRYPTED_ARCHIVE_MAGIC.length).equals(ENCRYPTED_ARCHIVE_MAGIC)) {
+      throw new Error('不是加密的导出包');
+    }
+    const headerLength = data.length >= PREFIX_LENGTH ? data.readUInt32BE(ENCRYPTED_ARCHIVE_MAGIC.length) : -1;
+    if (headerLength > MAX_HEADER_LENGTH) {
+      throw new Error('无效的加密导出包：容器头过大');
+    }
+    if (headerLength < 0 || data.length < PREFIX_LENGTH + headerLength) {
+      if (final) {
+        throw new Error('导出包解密失败：文件不完整');
+      }
+      return false;
+    }
+
+    let header: EncryptedArchiveHeader;
+    try {
+      header = JSON.parse(data.subarray(PREFIX_LENGTH, PREFIX_LENGTH + headerLength).toString('utf-8'));
+    } catch {
+      throw new Error('无效的加密导出包：容器头损坏');
+    }
+    if (header?.format !== 1 || header.cipher !== 'aes-256-gcm') {
+      throw new Error(`无效的加密导出包：不支持的格式 ${header?.format}/${header?.cipher}`);
+    }
+    const noncePrefix = Buffer.from(String(header.noncePrefix), 'base64');
+    if (
+      !Number.isInteger(header.segmentSize) || header.segmentSize <= 0 || header.segmentSize > MAX_SEGMENT_SIZE ||
+      noncePrefix.length !== NONCE_PREFIX_LENGTH || !Array.isArray(header.recipients)
+    ) {
+      throw new Error('无效的加密导出包：容器头参数错误');
+    }
+
+    this.dataKey = await this.resolveKey(header);
+    this.aad = data.subarray(0, PREFIX_LENGTH + headerLength);
+    this.noncePrefix = noncePrefix;
+    this.segmentLength = header.segmentSize + TAG_LENGTH;
+
+    const rest = data.subarray(PREFIX_LENGTH + headerLength);
+    this.buffered = [rest];
+    this.bufferedLength = rest.length;
+    return true;
+  }
+
+  private open(segment: Buffer, last: boolean): Buffer {
+    const decipher = createDecipheriv('aes-256-gcm', this.dataKey!, segmentNonce(this.noncePrefix, this.counter++, last));
+    decipher.setAAD(this.aad!);
+    decipher.setAuthTag(segment.subarray(segment.length - TAG_LENGTH));
+    try {
+      return Buffer.concat([decipher.update(segment.subarray(0, segment.length - TAG_LENGTH)), decipher.final()]);
+    } catch {
+      throw new Error('导出包解密失败：数据已损坏或被篡改');
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { createHash, KeyObject } from 'crypto';
+
+// 导出包中的清单及其签名文件（签名覆盖清单的原始字节）
+export const MANIFEST_FILE = '.export-manifest.json';
+export const MANIFEST_SIGNATURE_FILE = '.export-manifest.sig';
+export const MANIFEST_OPENPGP_SIGNATURE_FILE = '.export-manifest.json.asc';
+
+/**
+ * 公钥指纹（SPKI DER 的 SHA-256，十六进制）
+ *
+ * 用于签名者标识、受信任公钥匹配以及加密导出包中接收方公钥的匹配
+ */
+export function getKeyFingerprint(publicKey: KeyObject): string {
+  return createHash('sha256').update(publicKey.export({ type: 'spki', format: 'der' })).digest('hex');
+}
@@ -0,0 +1,36 @@
+export * from './types';
+export {
+  StorageIndex,
+  getStorageIndex,
+  extractVersion,
+  scanPackageNames,
+  STORAGE_INDEX_FILE,
+  STORAGE_INDEX_FORMAT
+} from './storage-index';
+export { SearchIndex, getSearchIndex, parseSearchQuery } from './search-index';
+export {
+  StorageAuditor,
+  countIssues,
+  QUARANTINE_DIR,
+  STORAGE_REPAIR_ACTIONS,
+  OFFLINE_STORAGE_REPAIR_ACTIONS
+} from './storage-auditor';
+export { readPackageJson } from './tarball';
+export { RegistryRouter } from './registry-router';
+export {
+  ENCRYPTED_ARCHIVE_MAGIC,
+  createArchiveDecryptStream,
+  createArchiveEncryptStream,
+  createArchiveHeader,
+  createDataKey,
+  deriveX25519WrappingKey,
+  unwrapDataKey,
+  wrapDataKey
+} from './encrypted-archive';
+export { getMetadataDigest } from './storage-inventory';
+export {
+  MANIFEST_FILE,
+  MANIFEST_SIGNATURE_FILE,
+  MANIFEST_OPENPGP_SIGNATURE_FILE,
+  getKeyFingerprint
+} from './export-manifest';
@@ -0,0 +1,423 @@
+import { readFileSync } from 'fs';
+import { Config, Logger } from '@verdaccio/types';
+import { RegistryConfig, RegistryFetchOptions, RegistryRouterConfig, RegistryTarget } from './types';
+
+const DEFAULT_REGISTRY = 'https://registry.npmjs.org';
+const DEFAULT_TIMEOUT = 60000;
+
+// Verdaccio 时间间隔单位（毫秒），无单位表示秒
+const INTERVAL_UNITS: Record<string, number> = {
+  '': 1000,
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 86400000,
+  w: 7 * 86400000,
+  M: 30 * 86400000,
+  y: 365 * 86400000
+};
+
+/**
+ * Verdaccio uplink 配置（包含类型定义中未声明的代理字段）
+ */
+interface UplinkConfig {
+  url: string;
+  ca?: string;
+  timeout?: string | number | void;
+  headers?: Record<string, string>;
+  auth?: { type?: string; token?: string; token_env?: boolean | string };
+  strict_ssl?: boolean | void;
+  http_proxy?: string;
+  https_proxy?: string;
+  no_proxy?: string;
+}
+
+/**
+ * 上游 registry 路由器 - 按包名选择上游 registry 及其认证、证书、代理配置
+ *
+ * 路由顺序：
+ * 1. 插件配置 registries 中的 scope 映射
+ * 2. Verdaccio packages 规则中第一个匹配的规则：按其 proxy uplink 的声明顺序依次回退，
+ *    规则未配置 proxy 时该包不从任何上游获取（与 Verdaccio 一致，不会继续匹配后续规则）
+ * 3. 默认上游（upstreamRegistries 列表；未配置时为 upstreamRegistry、第一个 uplink 或 defaultRegistry）
+ */
+export class RegistryRouter {
+  protected logger: Logger;
+  private verdaccioConfig: Partial<Config>;
+  private uplinks: Map<string, RegistryTarget> = new Map();
+  private scopes: Map<string, RegistryTarget> = new Map();
+  private rules: Array<{ pattern: RegExp; uplinks: string[] }> = [];
+  private defaultTarget: RegistryTarget;
+  // 默认上游回退链（第一个为 defaultTarget）
+  private defaultChain: RegistryTarget[];
+  private defaultUplink?: string;
+  // 包名 -> 路由结果（按尝试顺序排列）
+  private routeCache: Map<string, RegistryTarget[]> = new Map();
+
+  constructor(
+    config: RegistryRouterConfig,
+    verdaccioConfig: Partial<Config>,
+    logger: Logger,
+    defaultRegistry: string = DEFAULT_REGISTRY
+  ) {
+    this.logger = logger;
+    this.verdaccioConfig = verdaccioConfig || {};
+
+    const uplinks = (this.verdaccioConfig.uplinks || {}) as Record<string, UplinkConfig>;
+    for (const [name, uplink] of Object.entries(uplinks)) {
+      if (uplink?.url) {
+        this.uplinks.set(name, this.fromUplink(name, uplink, config.timeout));
+      }
+    }
+    this.defaultUplink = this.uplinks.keys().next().value;
+
+    // upstreamRegistry 替代默认（第一个）uplink；与该 uplink 地址相同时沿用其认证配置
+    const firstUplink = this.defaultUplink ? this.uplinks.get(this.defaultUplink) : undefined;
+    if (config.upstreamRegistry && config.upstreamRegistry !== firstUplink?.url) {
+      this.defaultTarget = this.fromRegistryConfig(
+        'default',
+        { url: config.upstreamRegistry },
+        config.timeout
+      );
+    } else {
+      this.defaultTarget =
+        firstUplink ||
+        this.fromRegistryConfig('default', { url: defaultRegistry }, config.timeout);
+    }
+
+    this.defaultChain = [this.defaultTarget];
+    if (config.upstreamRegistries && config.upstreamRegistries.length > 0) {
+      this.defaultChain = this.dedupe(
+        config.upstreamRegistries.map((value, index) =>
+          this.resolveRegistry(`upstream-${index}`, value, config.timeout)
+        )
+      );
+      this.defaultTarget = this.defaultChain[0];
+    }
+
+    for (const [scope, value] of Object.entries(config.registries || {})) {
+      const normalizedScope = scope.replace(/\/\*+$/, '');
+      this.scopes.set(normalizedScope, this.resolveRegistry(normalizedScope, value, config.timeout));
+    }
+
+    for (const [pattern, access] of Object.entries(this.verdaccioConfig.packages || {})) {
+      // 未配置 proxy（或 proxy 均不是已知 uplink）的规则同样保留，匹配时表示不使用上游
+      const proxies = this.toList(access?.proxy).filter((uplink) => this.uplinks.has(uplink));
+      this.rules.push({ pattern: this.globToRegExp(pattern), uplinks: proxies });
+    }
+
+    this.logger.info(
+      {
+        registry: this.defaultChain.map((target) => target.url).join(' -> '),
+        scopes: Array.from(this.scopes.keys()).join(', ') || '-',
+        rules: this.rules.length
+      },
+      'Registry routing: default @{registry}, scopes: @{scopes}, @{rules} package rules'
+    );
+  }
+
+  /**
+   * 默认上游 registry
+   */
+  getDefault(): RegistryTarget {
+    return this.defaultTarget;
+  }
+
+  /**
+   * 获取包对应的首选上游 registry，包不使用上游时返回 undefined
+   */
+  getTarget(packageName: string): RegistryTarget | undefined {
+    return this.getTargets(packageName)[0];
+  }
+
+  /**
+   * 获取包对应的上游 registry 列表（按尝试顺序），包不使用上游时为空
+   * 指定 preferred 时将该 registry 提到最前（如下载时优先使用分析阶段解析版本的 registry）
+   */
+  getTargets(packageName: string, preferred?: string): RegistryTarget[] {
+    let targets = this.routeCache.get(packageName);
+    if (!targets) {
+      targets = this.route(packageName);
+      this.routeCache.set(packageName, targets);
+    }
+
+    const preferredIndex = preferred ? targets.findIndex((target) => target.url === preferred) : -1;
+    if (preferredIndex > 0) {
+      return [targets[preferredIndex], ...targets.filter((_, index) => index !== preferredIndex)];
+    }
+    return targets;
+  }
+
+  /**
+   * 生成 pacote 请求选项（registry、认证、证书、代理、超时）
+   */
+  getPacoteOptions(packageName: string, extra: RegistryFetchOptions = {}): RegistryFetchOptions {
+    const target = this.getTarget(packageName);
+    if (!target) {
+      throw this.createNotProxiedError(packageName);
+    }
+    return { ...this.toPacoteOptions(target), ...extra };
+  }
+
+  /**
+   * 将上游 registry 转换为 pacote / npm-registry-fetch 选项
+   * 认证信息以 //host/path/:_authToken 的形式按地址绑定，tarball 地址与 registry 同源时同样生效
+   */
+  toPacoteOptions(target: RegistryTarget): RegistryFetchOptions {
+    const options: RegistryFetchOptions = {
+      registry: target.url,
+      timeout: target.timeout,
+      strictSSL: target.strictSSL
+    };
+
+    if (target.authorization) {
+      const nerfDart = target.url.replace(/^https?:/, '').replace(/\/?$/, '/');
+      const [type, credentials] = target.authorization.split(' ');
+      if (type === 'Basic') {
+        options[`${nerfDart}:_auth`] = credentials;
+      } else {
+        options[`${nerfDart}:_authToken`] = credentials;
+      }
+    }
+    if (target.ca) {
+      options.ca = target.ca;
+    }
+    if (target.proxy) {
+      options.proxy = target.proxy;
+      options.httpsProxy = target.proxy;
+    }
+    if (target.noProxy) {
+      options.noProxy = target.noProxy;
+    }
+    if (Object.keys(target.headers).length > 0) {
+      options.headers = target.headers;
+    }
+
+    return options;
+  }
+
+  /**
+   * 包不使用任何上游时的 404 错误
+   */
+  protected createNotProxiedError(packageName: string): Error {
+    return Object.assign(new Error(`Package ${packageName} is not proxied to any upstream registry`), {
+      statusCode: 404,
+      code: 'E404'
+    });
+  }
+
+  private route(packageName: string): RegistryTarget[] {
+    if (packageName.startsWith('@')) {
+      const scope = packageName.split('/')[0];
+      const scoped = this.scopes.get(scope);
+      if (scoped) {
+        return [scoped];
+      }
+    }
+
+    // 与 Verdaccio 一致：按 packages 中的声明顺序取第一个匹配的规则，规则没有 proxy 时不使用上游
+    // 规则指向默认 uplink 时使用默认回退链（upstreamRegistry / upstreamRegistries 可替换其地址）
+    const rule = this.rules.find((item) => item.pattern.test(packageName));
+    if (rule) {
+      return this.dedupe(
+        rule.uplinks.flatMap((uplink) =>
+          uplink === this.defaultUplink ? this.defaultChain : [this.uplinks.get(uplink)!]
+        )
+      );
+    }
+
+    return this.defaultChain;
+  }
+
+  /**
+   * 解析 registries / upstreamRegistries 中的配置项（uplink 名称、URL 或完整配置）
+   */
+  private resolveRegistry(
+    name: string,
+    value: string | RegistryConfig,
+    fallbackTimeout?: number
+  ): RegistryTarget {
+    if (typeof value === 'string' && this.uplinks.has(value)) {
+      return this.uplinks.get(value)!;
+    }
+    return this.fromRegistryConfig(
+      name,
+      typeof value === 'string' ? { url: value } : value,
+      fallbackTimeout
+    );
+  }
+
+  /**
+   * 按地址去重，保留首次出现的顺序
+   */
+  private dedupe(targets: RegistryTarget[]): RegistryTarget[] {
+    const seen = new Set<string>();
+    return targets.filter((target) => {
+      const key = target.url.replace(/\/+$/, '');
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private fromUplink(name: string, uplink: UplinkConfig, fallbackTimeout?: number): RegistryTarget {
+    let authorization: string | undefined;
+    if (uplink.auth) {
+      const token =
+        uplink.auth.token ||
+        (uplink.auth.token_env
+          ? process.env[uplink.auth.token_env === true ? 'NPM_TOKEN' : uplink.auth.token_env]
+          : undefined);
+      if (token) {
+        authorization = `${/^basic$/i.test(uplink.auth.type || '') ? 'Basic' : 'Bearer'} ${token}`;
+      }
+    }
+
+    return {
+      name,
+      url: uplink.url,
+      authorization,
+      ca: this.loadCa(uplink.ca),
+      proxy: this.selectProxy(uplink.url, uplink.http_proxy, uplink.https_proxy),
+      noProxy: uplink.no_proxy || this.verdaccioConfig.no_proxy,
+      timeout: this.parseTimeout(uplink.timeout, 1000, fallbackTimeout),
+      strictSSL: uplink.strict_ssl !== false,
+      headers: { ...(uplink.headers || {}) }
+    };
+  }
+
+  private fromRegistryConfig(
+    name: string,
+    registry: RegistryConfig,
+    fallbackTimeout?: number
+  ): RegistryTarget {
+    const token = registry.token || (registry.tokenEnv ? process.env[registry.tokenEnv] : undefined);
+
+    return {
+      name,
+      url: registry.url,
+      authorization: token
+        ? `${registry.authType === 'basic' ? 'Basic' : 'Bearer'} ${token}`
+        : undefined,
+      ca: this.loadCa(registry.ca),
+      proxy: registry.proxy || this.selectProxy(registry.url),
+      noProxy: this.verdaccioConfig.no_proxy,
+      timeout: this.parseTimeout(registry.timeout, 1, fallbackTimeout),
+      strictSSL: registry.strictSSL !== false,
+      headers: { ...(registry.headers || {}) }
+    };
+  }
+
+  /**
+   * 按协议选择代理（uplink 配置优先，其次为 Verdaccio 全局配置）
+   */
+  private selectProxy(url: string, httpProxy?: string, httpsProxy?: string): string | undefined {
+    if (url.startsWith('https:')) {
+      return httpsProxy || this.verdaccioConfig.https_proxy || undefined;
+    }
+    return httpProxy || this.verdaccioConfig.http_proxy || undefined;
+  }
+
+  /**
+   * 读取 CA 证书（支持直接填写证书内容或证书文件路径）
+   */
+  private loadCa(ca?: string): string | undefined {
+    if (!ca) return undefined;
+    if (ca.includes('-----BEGIN')) return ca;
+
+    try {
+      return readFileSync(ca, 'utf-8');
+    } catch (error: any) {
+      this.logger.warn(
+        { ca, error: error.message },
+        'Failed to read CA bundle @{ca}: @{error}'
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * 解析超时配置（毫秒）
+   * 数字按 numberUnit 换算：uplink 与 Verdaccio 一致为秒，插件 registries 中为毫秒；
+   * 字符串按 Verdaccio 时间间隔解析（无单位为秒，支持 '1m 30s'、'1d' 等 ms / s / m / h / d / w / M / y 组合）
+   */
+  private parseTimeout(value: unknown, numberUnit: number, fallback?: number): number {
+    if (value === undefined || value === null || value === '') {
+      return fallback || DEFAULT_TIMEOUT;
+    }
+
+    const timeout =
+      typeof value === 'number'
+        ? value * numberUnit
+        : typeof value === 'string'
+          ? parseInterval(value)
+          : undefined;
+    if (timeout && timeout > 0) {
+      return timeout;
+    }
+
+    const defaultTimeout = fallback || DEFAULT_TIMEOUT;
+    this.logger.warn(
+      { timeout: String(value), fallback: defaultTimeout },
+      'Invalid timeout @{timeout}, using @{fallback} ms'
+    );
+    return defaultTimeout;
+  }
+
+  /**
+   * 将 Verdaccio packages 规则（minimatch 风格）转换为正则
+   */
+  private globToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+      if (char === '*') {
+        if (pattern[i + 1] === '*') {
+          source += '.*';
+          i++;
+        } else {
+          source += '[^/]*';
+        }
+      } else if (char === '?') {
+        source += '[^/]';
+      } else {
+        source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+    return new RegExp(`^${source}$`);
+  }
+
+  private toList(value: unknown): string[] {
+    if (Array.isArray(value)) {
+      return value.map(String);
+    }
+    if (typeof value === 'string') {
+      return value.split(/\s+/).filter(Boolean);
+    }
+    return [];
+  }
+}
+
+/**
+ * 按 Verdaccio 的 parseInterval 规则解析时间间隔（毫秒）
+ * 多个部分的单位必须递减（如 '1h 30m'），无单位部分（秒）只能位于开头；格式无效时返回 undefined
+ */
+function parseInterval(value: string): number | undefined {
+  const parts = value.trim().split(/\s+/).filter(Boolean);
+  let result = 0;
+  let lastUnit = Infinity;
+  for (const part of parts) {
+    const match = part.match(/^((?:0|[1-9][0-9]*)(?:\.[0-9]+)?)(ms|s|m|h|d|w|M|y|)$/);
+    if (!match) {
+      return undefined;
+    }
+    const unit = INTERVAL_UNITS[match[2]];
+    if (unit >= lastUnit || (match[2] === '' && lastUnit !== Infinity)) {
+      return undefined;
+    }
+    lastUnit = unit;
+    result += Number(match[1]) * unit;
+  }
+  return parts.length > 0 ? Math.round(result) : undefined;
+}
@@ -0,0 +1,566 @@
+import { readdir, readFile, rename, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import pLimit from 'p-limit';
+import semver from 'semver';
+import { Logger } from '@verdaccio/types';
+import { readPackageJson } from './tarball';
+import {
+  SearchIndexEntry,
+  SearchIndexFile,
+  SearchPackageLinks,
+  SearchQuery,
+  SearchResponse,
+  SearchResultObject
+} from './types';
+
+const SEARCH_INDEX_FILE = '.search-index.json';
+const SEARCH_INDEX_FORMAT = 1;
+const DEFAULT_SIZE = 20;
+const MAX_SIZE = 250;
+
+// npm 搜索的默认评分权重
+const DEFAULT_WEIGHTS = { quality: 0.65, popularity: 0.98, maintenance: 0.5 };
+
+// 同一进程内的过滤器与中间件实例共享索引，避免交错写入同一文件
+const indexes = new Map<string, SearchIndex>();
+
+/**
+ * 获取存储目录对应的搜索索引
+ */
+export function getSearchIndex(storagePath: string, logger: Logger, concurrency?: number): SearchIndex {
+  const key = path.resolve(storagePath);
+  let index = indexes.get(key);
+  if (!index) {
+    index = new SearchIndex(storagePath, logger, concurrency);
+    indexes.set(key, index);
+  }
+  return index;
+}
+
+/**
+ * 本地包搜索索引
+ *
+ * 根据本地 packument 与 tarball 中的 package.json 记录包名、描述、关键字、作者及本地可用版本，
+ * 持久化到 storage/.search-index.json；下载、导入、元数据修复与同步后按包增量更新，响应 npm search
+ */
+export class SearchIndex {
+  private storagePath: string;
+  private logger: Logger;
+  private concurrency: number;
+  private entries: Promise<Map<string, SearchIndexEntry>> | null = null;
+  private updatedAt = '';
+  // 串行化索引修改，避免并发任务交错写入
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(storagePath: string, logger: Logger, concurrency = 5) {
+    this.storagePath = storagePath;
+    this.logger = logger;
+    this.concurrency = Math.max(1, concurrency);
+  }
+
+  /**
+   * 扫描整个存储目录重建索引
+   */
+  async rebuild(): Promise<number> {
+    return this.enqueue(async () => {
+      const entries = await this.buildAll();
+      this.entries = Promise.resolve(entries);
+      await this.persist(entries);
+      this.logger.info({ count: entries.size }, 'Search index rebuilt: @{count} packages');
+      return entries.size;
+    });
+  }
+
+  /**
+   * 重新索引指定的包（本地已没有 tarball 的包从索引中移除）
+   */
+  async update(names: string[]): Promise<void> {
+    const uniqueNames = Array.from(new Set(names));
+    if (uniqueNames.length === 0) {
+      return;
+    }
+
+    await this.enqueue(async () => {
+      const entries = await this.load();
+      const limit = pLimit(this.concurrency);
+
+      await Promise.all(
+        uniqueNames.map((name) =>
+          limit(async () => {
+            const entry = await this.buildEntry(name);
+            if (entry) {
+              entries.set(name, entry);
+            } else {
+              entries.delete(name);
+            }
+          })
+        )
+      );
+
+      await this.persist(entries);
+      this.logger.debug({ count: uniqueNames.length }, 'Search index updated for @{count} packages');
+    });
+  }
+
+  /**
+   * 搜索（参数与返回格式与 npm /-/v1/search 一致）
+   */
+  async search(query: SearchQuery): Promise<SearchResponse> {
+    const entries = await this.load();
+    const parsed = parseSearchText(query.text || '');
+    const weights = {
+      quality: toWeight(query.quality, DEFAULT_WEIGHTS.quality),
+      popularity: toWeight(query.popularity, DEFAULT_WEIGHTS.popularity),
+      maintenance: toWeight(query.maintenance, DEFAULT_WEIGHTS.maintenance)
+    };
+    const weightSum = weights.quality + weights.popularity + weights.maintenance || 1;
+
+    const matched: SearchResultObject[] = [];
+    for (const entry of entries.values()) {
+      if (!matchesQualifiers(entry, parsed)) {
+        continue;
+      }
+
+      const relevance = scoreRelevance(entry, parsed.terms);
+      if (relevance === 0) {
+        continue;
+      }
+
+      const detail = {
+        quality: scoreQuality(entry),
+        popularity: Math.min(1, Math.log10(1 + entry.versions.length) / 2),
+        maintenance: scoreMaintenance(entry.date)
+      };
+      const final =
+        (detail.quality * weights.quality +
+          detail.popularity * weights.popularity +
+          detail.maintenance * weights.maintenance) /
+        weightSum;
+      const exact = parsed.boostExact && parsed.terms.some((term) => term === entry.name.toLowerCase());
+
+      matched.push({
+        package: toSearchPackage(entry),
+        score: { final, detail },
+        searchScore: (exact ? 100000 : 0) + relevance * (1 + final)
+      });
+    }
+
+    matched.sort((a, b) => b.searchScore - a.searchScore || a.package.name.localeCompare(b.package.name));
+
+    const size = Math.min(MAX_SIZE, Math.max(1, Number(query.size) || DEFAULT_SIZE));
+    const from = Math.max(0, Number(query.from) || 0);
+    return {
+      objects: matched.slice(from, from + size),
+      total: matched.length,
+      time: new Date().toUTCString()
+    };
+  }
+
+  /**
+   * 本地 tarball 版本与索引不一致时重新索引该包（元数据修复时调用）
+   */
+  async updateIfChanged(name: string, versions: string[]): Promise<void> {
+    const entry = (await this.load()).get(name);
+    const indexed = new Set(entry?.versions || []);
+    if (entry && indexed.size === versions.length && versions.every((version) => indexed.has(version))) {
+      return;
+    }
+    await this.update([name]);
+  }
+
+  /**
+   * 索引统计
+   */
+  async getStats(): Promise<{ packages: number; updatedAt: string }> {
+    const entries = await this.load();
+    return { packages: entries.size, updatedAt: this.updatedAt };
+  }
+
+  /**
+   * 加载索引（同一实例只加载一次）
+   */
+  private load(): Promise<Map<string, SearchIndexEntry>> {
+    if (!this.entries) {
+      this.entries = this.readIndex().catch((error) => {
+        this.entries = null;
+        throw error;
+      });
+    }
+    return this.entries;
+  }
+
+  /**
+   * 读取索引文件（不存在或格式不识别时从存储目录构建）
+   */
+  private async readIndex(): Promise<Map<string, SearchIndexEntry>> {
+    try {
+      const content = await readFile(path.join(this.storagePath, SEARCH_INDEX_FILE), 'utf-8');
+      const file = JSON.parse(content) as SearchIndexFile;
+      if (file.format === SEARCH_INDEX_FORMAT) {
+        this.updatedAt = file.updatedAt;
+        return new Map(Object.entries(file.packages || {}));
+      }
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        this.logger.warn({ error: error.message }, 'Failed to load search index, rebuilding: @{error}');
+      }
+    }
+
+    const entries = await this.buildAll();
+    await this.persist(entries);
+    this.logger.info({ count: entries.size }, 'Search index built: @{count} packages');
+    return entries;
+  }
+
+  private async buildAll(): Promise<Map<string, SearchIndexEntry>> {
+    const names = await this.scanPackageNames();
+    const entries = new Map<string, SearchIndexEntry>();
+    const limit = pLimit(this.concurrency);
+
+    await Promise.all(
+      names.map((name) =>
+        limit(async () => {
+          const entry = await this.buildEntry(name);
+          if (entry) {
+            entries.set(name, entry);
+          }
+        })
+      )
+    );
+
+    return entries;
+  }
+
+  private async persist(entries: Map<string, SearchIndexEntry>): Promise<void> {
+    this.updatedAt = new Date().toISOString();
+    const file: SearchIndexFile = {
+      format: SEARCH_INDEX_FORMAT,
+      updatedAt: this.updatedAt,
+      packages: Object.fromEntries(entries)
+    };
+
+    const indexPath = path.join(this.storagePath, SEARCH_INDEX_FILE);
+    const tempPath = `${indexPath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(file));
+    await rename(tempPath, indexPath);
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.then(
+      () => undefined,
+      () => undefined
+    );
+    return run;
+  }
+
+  /**
+   * 读取包的本地 packument 与 tarball，生成索引条目（没有 tarball 时返回 null）
+   */
+  private async buildEntry(name: string): Promise<SearchIndexEntry | null> {
+    const packageDir = path.join(this.storagePath, name);
+    let files: string[];
+    try {
+      files = await readdir(packageDir);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT' && error.code !== 'ENOTDIR') {
+        this.logger.warn({ name, error: error.message }, 'Failed to index @{name}: @{error}');
+      }
+      return null;
+    }
+
+    const tarballs = new Map<string, string>();
+    for (const file of files) {
+      const version = file.endsWith('.tgz') ? extractVersionFromFilename(file) : null;
+      if (version) {
+        tarballs.set(version, file);
+      }
+    }
+    if (tarballs.size === 0) {
+      return null;
+    }
+
+    const versions = Array.from(tarballs.keys()).sort(semver.rcompare);
+    let packument: any = null;
+    try {
+      packument = JSON.parse(await readFile(path.join(packageDir, 'package.json'), 'utf-8'));
+    } catch {
+      // 元数据可能尚未生成，回退到 tarball 中的 package.json
+    }
+
+    const tagged = packument?.['dist-tags']?.latest;
+    const version =
+      tagged && tarballs.has(tagged) ? tagged : versions.find((v) => !semver.prerelease(v)) || versions[0];
+
+    let manifest = packument?.versions?.[version];
+    let date: string | undefined = packument?.time?.[version];
+    if (!manifest) {
+      const tarballPath = path.join(packageDir, tarballs.get(version)!);
+      try {
+        manifest = await readPackageJson(tarballPath, `${name}@${version}`);
+        date = date || (await stat(tarballPath)).mtime.toISOString();
+      } catch (error: any) {
+        this.logger.warn(
+          { name, version, error: error.message },
+          'Failed to read package.json of @{name}@@{version} for search index: @{error}'
+        );
+      }
+    }
+
+    const source = manifest || packument || {};
+    return {
+      name,
+      version,
+      versions,
+      description: typeof source.description === 'string' ? source.description : packument?.description,
+      keywords: normalizeKeywords(source.keywords ?? packument?.keywords),
+      author: getPersonName(source.author ?? packument?.author),
+      maintainers: (Array.isArray(source.maintainers) ? source.maintainers : [])
+        .map(getPersonName)
+        .filter((maintainer: string | undefined): maintainer is string => !!maintainer),
+      publisher: source._npmUser?.name,
+      license: typeof source.license === 'string' ? source.license : undefined,
+      date,
+      links: getLinks(source)
+    };
+  }
+
+  /**
+   * 列出存储目录中的包名（含 scoped 包）
+   */
+  private async scanPackageNames(): Promise<string[]> {
+    const names: string[] = [];
+    const entries = await readdir(this.storagePath, { withFileTypes: true });
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith('.')) continue;
+      if (!entry.name.startsWith('@')) {
+        names.push(entry.name);
+        continue;
+      }
+
+      const scoped = await readdir(path.join(this.storagePath, entry.name), { withFileTypes: true });
+      for (const item of scoped) {
+        if (item.isDirectory() && !item.name.startsWith('.')) {
+          names.push(`${entry.name}/${item.name}`);
+        }
+      }
+    }
+
+    return names;
+  }
+}
+
+/**
+ * 从 URL 查询参数中读取搜索请求
+ */
+export function parseSearchQuery(query: Record<string, unknown>): SearchQuery {
+  return {
+    text: typeof query.text === 'string' ? query.text : '',
+    size: Number(query.size),
+    from: Number(query.from),
+    quality: Number(query.quality),
+    popularity: Number(query.popularity),
+    maintenance: Number(query.maintenance)
+  };
+}
+
+/**
+ * 解析后的搜索文本
+ */
+interface ParsedSearchText {
+  terms: string[];
+  keywords: string[];
+  authors: string[];
+  maintainers: string[];
+  scopes: string[];
+  boostExact: boolean;
+}
+
+/**
+ * 拆分搜索文本中的普通词与限定符（未识别的限定符如 is: / not: 忽略）
+ */
+function parseSearchText(text: string): ParsedSearchText {
+  const parsed: ParsedSearchText = {
+    terms: [],
+    keywords: [],
+    authors: [],
+    maintainers: [],
+    scopes: [],
+    boostExact: true
+  };
+
+  for (const token of text.toLowerCase().split(/\s+/).filter(Boolean)) {
+    const separator = token.indexOf(':');
+    if (separator <= 0) {
+      parsed.terms.push(token);
+      continue;
+    }
+
+    const qualifier = token.slice(0, separator);
+    const value = token.slice(separator + 1);
+    switch (qualifier) {
+      case 'keywords':
+        parsed.keywords.push(...value.split(',').filter(Boolean));
+        break;
+      case 'author':
+        parsed.authors.push(value);
+        break;
+      case 'maintainer':
+        parsed.maintainers.push(value);
+        break;
+      case 'scope':
+        parsed.scopes.push(value.replace(/^@/, ''));
+        break;
+      case 'boost-exact':
+        parsed.boostExact = value !== 'false';
+        break;
+      default:
+        break;
+    }
+  }
+
+  return parsed;
+}
+
+function matchesQualifiers(entry: SearchIndexEntry, parsed: ParsedSearchText): boolean {
+  const keywords = entry.keywords.map((keyword) => keyword.toLowerCase());
+  if (parsed.keywords.length > 0 && !parsed.keywords.some((keyword) => keywords.includes(keyword))) {
+    return false;
+  }
+  if (parsed.authors.some((author) => !(entry.author || '').toLowerCase().includes(author))) {
+    return false;
+  }
+  const people = [entry.publisher, ...entry.maintainers].filter(Boolean).map((name) => name!.toLowerCase());
+  if (parsed.maintainers.some((maintainer) => !people.includes(maintainer))) {
+    return false;
+  }
+  if (parsed.scopes.length > 0 && !parsed.scopes.includes(getScope(entry.name))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 文本相关度（0-1）：每个词取其在名称、关键字、描述、作者中的最佳匹配，任一词无匹配时为 0
+ * 只有限定符时所有通过过滤的包相关度相同
+ */
+function scoreRelevance(entry: SearchIndexEntry, terms: string[]): number {
+  if (terms.length === 0) {
+    return 1;
+  }
+
+  const name = entry.name.toLowerCase();
+  const bareName = name.replace(/^@[^/]+\//, '');
+  const keywords = entry.keywords.map((keyword) => keyword.toLowerCase());
+  const description = (entry.description || '').toLowerCase();
+  const people = [entry.author, ...entry.maintainers].filter(Boolean).join(' ').toLowerCase();
+
+  let total = 0;
+  for (const term of terms) {
+    let score = 0;
+    if (name === term || bareName === term) {
+      score = 1;
+    } else if (name.startsWith(term) || bareName.startsWith(term)) {
+      score = 0.8;
+    } else if (name.includes(term)) {
+      score = 0.6;
+    } else if (keywords.includes(term)) {
+      score = 0.5;
+    } else if (keywords.some((keyword) => keyword.includes(term))) {
+      score = 0.35;
+    } else if (description.includes(term)) {
+      score = 0.3;
+    } else if (people.includes(term)) {
+      score = 0.2;
+    }
+
+    if (score === 0) {
+      return 0;
+    }
+    total += score;
+  }
+
+  return total / terms.length;
+}
+
+/**
+ * 质量分：元数据的完整程度
+ */
+function scoreQuality(entry: SearchIndexEntry): number {
+  return (
+    (entry.description ? 0.3 : 0) +
+    (entry.keywords.length > 0 ? 0.25 : 0) +
+    (entry.license ? 0.2 : 0) +
+    (entry.links.repository ? 0.25 : 0)
+  );
+}
+
+/**
+ * 维护分：展示版本发布得越近越高，两年以上为 0
+ */
+function scoreMaintenance(date?: string): number {
+  const time = date ? Date.parse(date) : NaN;
+  if (!Number.isFinite(time)) {
+    return 0;
+  }
+  const days = (Date.now() - time) / (24 * 60 * 60 * 1000);
+  return Math.max(0, Math.min(1, 1 - days / 730));
+}
+
+function toSearchPackage(entry: SearchIndexEntry): SearchResultObject['package'] {
+  return {
+    name: entry.name,
+    scope: getScope(entry.name),
+    version: entry.version,
+    versions: entry.versions,
+    description: entry.description,
+    keywords: entry.keywords,
+    date: entry.date,
+    links: entry.links,
+    author: entry.author ? { name: entry.author } : undefined,
+    publisher: entry.publisher ? { username: entry.publisher } : undefined,
+    maintainers: entry.maintainers.map((username) => ({ username })),
+    license: entry.license
+  };
+}
+
+function getScope(name: string): string {
+  return name.startsWith('@') ? name.slice(1, name.indexOf('/')) : 'unscoped';
+}
+
+function toWeight(value: number | undefined, fallback: number): number {
+  return value !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function normalizeKeywords(keywords: unknown): string[] {
+  if (typeof keywords === 'string') {
+    return keywords.split(/[\s,]+/).filter(Boolean);
+  }
+  return Array.isArray(keywords) ? keywords.filter((keyword) => typeof keyword === 'string') : [];
+}
+
+/**
+ * 作者 / 维护者可能为字符串（"Name <email> (url)"）或对象
+ */
+function getPersonName(person: any): string | undefined {
+  if (typeof person === 'string') {
+    return person.replace(/\s*[<(].*$/, '').trim() || undefined;
+  }
+  return typeof person?.name === 'string' ? person.name : undefined;
+}
+
+function getLinks(manifest: any): SearchPackageLinks {
+  const repository = typeof manifest.repository === 'string' ? manifest.repository : manifest.repository?.url;
+  const bugs = typeof manifest.bugs === 'string' ? manifest.bugs : manifest.bugs?.url;
+  return {
+    homepage: typeof manifest.homepage === 'string' ? manifest.homepage : undefined,
+    repository: typeof repository === 'string' ? repository.replace(/^git\+/, '') : undefined,
+    bugs: typeof bugs === 'string' ? bugs : undefined
+  };
+}
+
+function extractVersionFromFilename(filename: string): string | null {
+  const match = filename.replace(/\.tgz$/, '').match(/-(\d+\.\d+\.\d+(?:-[a-zA-Z0-9.]+)?(?:\+[a-zA-Z0-9.]+)?)$/);
+  return match && semver.valid(match[1]) ? match[1] : null;
+}
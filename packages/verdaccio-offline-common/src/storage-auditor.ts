@@ -0,0 +1,393 @@
+import { createReadStream } from 'fs';
+import { mkdir, readdir, readFile, rename, stat, unlink, writeFile } from 'fs/promises';
+import { createHash } from 'crypto';
+import path from 'path';
+import pLimit from 'p-limit';
+import semver from 'semver';
+import { Logger } from '@verdaccio/types';
+import { extractVersion, scanPackageNames } from './storage-index';
+import { readPackageJson } from './tarball';
+import {
+  StorageAuditReport,
+  StorageIssue,
+  StorageIssueCategory,
+  StorageRepairAction
+} from './types';
+
+// 隔离目录（以点开头，扫描器与索引都会忽略）
+export const QUARANTINE_DIR = '.quarantine';
+
+/**
+ * 每个问题类别可执行的修复操作
+ */
+export const STORAGE_REPAIR_ACTIONS: Record<StorageIssueCategory, StorageRepairAction[]> = {
+  'corrupt-tarball': ['redownload', 'quarantine', 'drop-version'],
+  'hash-mismatch': ['redownload', 'reheal', 'quarantine'],
+  'missing-tarball': ['redownload', 'drop-version'],
+  'orphan-tarball': ['reheal', 'quarantine'],
+  'manifest-mismatch': ['redownload', 'quarantine']
+};
+
+/**
+ * 内网可执行的修复操作（无法重新下载）
+ */
+export const OFFLINE_STORAGE_REPAIR_ACTIONS = Object.fromEntries(
+  Object.entries(STORAGE_REPAIR_ACTIONS).map(([category, actions]) => [
+    category,
+    actions.filter((action) => action !== 'redownload')
+  ])
+) as Record<StorageIssueCategory, StorageRepairAction[]>;
+
+/**
+ * 存储审计器
+ *
+ * 逐个读取包目录中的 tarball 与 package.json，检查 tarball 能否解压、哈希是否与元数据一致、
+ * 内部 package.json 的 name / version 是否与文件一致，以及元数据记录为本地已有的版本是否缺少 tarball；
+ * 审计直接读取磁盘，不依赖存储索引
+ */
+export class StorageAuditor {
+  private storagePath: string;
+  private logger: Logger;
+  private actions: Record<StorageIssueCategory, StorageRepairAction[]>;
+  private concurrency: number;
+
+  constructor(
+    storagePath: string,
+    logger: Logger,
+    actions: Record<StorageIssueCategory, StorageRepairAction[]> = STORAGE_REPAIR_ACTIONS,
+    concurrency = 5
+  ) {
+    this.storagePath = storagePath;
+    this.logger = logger;
+    this.actions = actions;
+    this.concurrency = Math.max(1, concurrency);
+  }
+
+  /**
+   * 审计存储（packages 为空时审计所有包）
+   */
+  async audit(
+    auditId: string,
+    packages?: string[],
+    onProgress?: (processed: number, total: number, packageName: string) => void
+  ): Promise<StorageAuditReport> {
+    const startedAt = new Date().toISOString();
+    const names = packages && packages.length > 0
+      ? Array.from(new Set(packages))
+      : await scanPackageNames(this.storagePath);
+
+    const issues = createIssueMap();
+    const limit = pLimit(this.concurrency);
+    let processed = 0;
+    let scannedTarballs = 0;
+
+    await Promise.all(
+      names.map((name) =>
+        limit(async () => {
+          try {
+            const scanned = await this.auditPackage(name, issues);
+            scannedTarballs += scanned;
+          } catch (error: any) {
+            this.logger.warn({ name, error: error.message }, 'Failed to audit @{name}: @{error}');
+          }
+          onProgress?.(++processed, names.length, name);
+        })
+      )
+    );
+
+    const report: StorageAuditReport = {
+      auditId,
+      startedAt,
+      completedAt: new Date().toISOString(),
+      scannedPackages: names.length,
+      scannedTarballs,
+      total: countIssues(issues),
+      issues,
+      actions: this.actions
+    };
+
+    this.logger.info(
+      { packages: names.length, tarballs: scannedTarballs, issues: report.total },
+      'Storage audit completed: @{packages} packages, @{tarballs} tarballs, @{issues} issues'
+    );
+
+    return report;
+  }
+
+  /**
+   * 将 tarball 移到隔离目录（同名文件已存在时追加时间戳）
+   */
+  async quarantine(name: string, filename: string): Promise<string> {
+    const source = path.join(this.storagePath, name, filename);
+    const targetDir = path.join(this.storagePath, QUARANTINE_DIR, name);
+    await mkdir(targetDir, { recursive: true });
+
+    let target = path.join(targetDir, filename);
+    try {
+      await stat(target);
+      target = `${target}.${Date.now()}`;
+    } catch {
+      // 目标不存在
+    }
+
+    await rename(source, target);
+    this.logger.info({ name, filename }, 'Quarantined @{filename} of @{name}');
+    return path.relative(this.storagePath, target);
+  }
+
+  /**
+   * 从元数据中移除版本，同时移除对应的 time、_attachments 与指向这些版本的 dist-tags；
+   * 没有剩余版本时删除 package.json（包没有元数据时无需处理）
+   */
+  async dropVersions(name: string, versions: string[]): Promise<void> {
+    const metadataPath = path.join(this.storagePath, name, 'package.json');
+    let content: string;
+    try {
+      content = await readFile(metadataPath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    const packument = JSON.parse(content);
+    const dropped = new Set(versions);
+
+    for (const version of dropped) {
+      const tarball = packument.versions?.[version]?.dist?.tarball;
+      delete packument.versions?.[version];
+      delete packument.time?.[version];
+
+      const attachments = packument._attachments || {};
+      for (const [filename, attachment] of Object.entries<any>(attachments)) {
+        if (attachment?.version === version || (tarball && getFilename(tarball) === filename)) {
+          delete attachments[filename];
+        }
+      }
+    }
+
+    const remaining = Object.keys(packument.versions || {});
+    if (remaining.length === 0) {
+      await unlink(metadataPath);
+      this.logger.info({ name }, 'Removed metadata of @{name}: no versions left');
+      return;
+    }
+
+    const distTags = packument['dist-tags'] || {};
+    for (const [tag, version] of Object.entries<string>(distTags)) {
+      if (dropped.has(version)) {
+        delete distTags[tag];
+      }
+    }
+    if (!distTags.latest) {
+      const valid = remaining.filter((version) => semver.valid(version));
+      const stable = valid.filter((version) => !semver.prerelease(version));
+      const latest = (stable.length > 0 ? stable : valid).sort(semver.rcompare)[0];
+      if (latest) {
+        distTags.latest = latest;
+      }
+    }
+    packument['dist-tags'] = distTags;
+    packument.time = { ...packument.time, modified: new Date().toISOString() };
+
+    const tmpPath = `${metadataPath}.${process.pid}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(packument, null, 2));
+    await rename(tmpPath, metadataPath);
+
+    this.logger.info(
+      { name, versions: versions.join(', ') },
+      'Dropped versions @{versions} from metadata of @{name}'
+    );
+  }
+
+  /**
+   * 审计单个包，返回检查的 tarball 数量
+   */
+  private async auditPackage(
+    name: string,
+    issues: Record<StorageIssueCategory, StorageIssue[]>
+  ): Promise<number> {
+    const packageDir = path.join(this.storagePath, name);
+    let files: string[];
+    try {
+      files = await readdir(packageDir);
+    } catch (error: any) {
+      if (error.code === 'ENOENT' || error.code === 'ENOTDIR') {
+        return 0;
+      }
+      throw error;
+    }
+
+    let packument: any = null;
+    let metadataError = 'package.json not found';
+    if (files.includes('package.json')) {
+      try {
+        packument = JSON.parse(await readFile(path.join(packageDir, 'package.json'), 'utf-8'));
+      } catch (error: any) {
+        metadataError = `package.json is unreadable: ${error.message}`;
+      }
+    }
+
+    const localVersions = new Set<string>();
+    let scanned = 0;
+
+    for (const filename of files) {
+      const version = filename.endsWith('.tgz') ? extractVersion(name, filename) : null;
+      if (!version) continue;
+
+      localVersions.add(version);
+      scanned++;
+      const issue = await this.checkTarball(name, version, filename, packument, metadataError);
+      if (issue) {
+        issues[issue.category].push(issue);
+      }
+    }
+
+    for (const [version, manifest] of Object.entries<any>(packument?.versions || {})) {
+      if (localVersions.has(version) || !isLocalVersion(packument, version, manifest)) {
+        continue;
+      }
+      issues['missing-tarball'].push({
+        category: 'missing-tarball',
+        name,
+        version,
+        filename: getFilename(manifest?.dist?.tarball),
+        detail: 'Tarball recorded in metadata does not exist'
+      });
+    }
+
+    return scanned;
+  }
+
+  /**
+   * 检查单个 tarball（每个 tarball 只报告最严重的一个问题）
+   */
+  private async checkTarball(
+    name: string,
+    version: string,
+    filename: string,
+    packument: any,
+    metadataError: string
+  ): Promise<StorageIssue | null> {
+    const filePath = path.join(this.storagePath, name, filename);
+    const spec = `${name}@${version}`;
+    const issue = (category: StorageIssueCategory, detail: string): StorageIssue => ({
+      category,
+      name,
+      version,
+      filename,
+      detail
+    });
+
+    let hashes: { shasum: string; sha1: string; sha512: string };
+    let packageJson: any;
+    try {
+      hashes = await computeHashes(filePath);
+      packageJson = await readPackageJson(filePath, spec);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        // 审计期间被删除
+        return null;
+      }
+      return issue('corrupt-tarball', error.message);
+    }
+
+    if (packageJson.name !== name || !isSameVersion(packageJson.version, version)) {
+      return issue('manifest-mismatch', `Tarball contains ${packageJson.name}@${packageJson.version}`);
+    }
+
+    if (!packument || !packument.versions?.[version]) {
+      return issue('orphan-tarball', packument ? 'Version is not listed in package.json' : metadataError);
+    }
+
+    const mismatch = verifyDist(packument.versions[version].dist, hashes);
+    return mismatch ? issue('hash-mismatch', mismatch) : null;
+  }
+}
+
+/**
+ * 未修复问题的总数
+ */
+export function countIssues(issues: Record<StorageIssueCategory, StorageIssue[]>): number {
+  return Object.values(issues).reduce((sum, list) => sum + list.length, 0);
+}
+
+function createIssueMap(): Record<StorageIssueCategory, StorageIssue[]> {
+  return {
+    'corrupt-tarball': [],
+    'hash-mismatch': [],
+    'missing-tarball': [],
+    'orphan-tarball': [],
+    'manifest-mismatch': []
+  };
+}
+
+/**
+ * 元数据是否记录该版本的 tarball 在本地（_attachments 中有记录，或使用本地的相对 tarball 地址）；
+ * 从上游保存的完整元数据包含所有版本，未下载的版本不算缺失
+ */
+function isLocalVersion(packument: any, version: string, manifest: any): boolean {
+  const tarball = manifest?.dist?.tarball;
+  if (typeof tarball === 'string' && tarball && !/^https?:\/\//i.test(tarball)) {
+    return true;
+  }
+
+  const filename = getFilename(tarball);
+  return Object.entries<any>(packument._attachments || {}).some(
+    ([key, attachment]) => key === filename || attachment?.version === version
+  );
+}
+
+/**
+ * 与 dist.integrity（sha1 / sha512）及 dist.shasum 比对，不一致时返回说明
+ */
+function verifyDist(
+  dist: any,
+  hashes: { shasum: string; sha1: string; sha512: string }
+): string | null {
+  const digests: Record<string, string> = { sha1: hashes.sha1, sha512: hashes.sha512 };
+  const declared = String(dist?.integrity || '')
+    .trim()
+    .split(/\s+/)
+    .map((entry) => entry.match(/^(sha1|sha512)-([A-Za-z0-9+/=]+)/i))
+    .filter((match): match is RegExpMatchArray => !!match);
+
+  if (declared.length > 0 && !declared.some(([, algorithm, digest]) => digests[algorithm.toLowerCase()] === digest)) {
+    return `Integrity mismatch: expected ${dist.integrity}, got sha512-${hashes.sha512}`;
+  }
+  if (dist?.shasum && String(dist.shasum).toLowerCase() !== hashes.shasum) {
+    return `Shasum mismatch: expected ${dist.shasum}, got ${hashes.shasum}`;
+  }
+  return null;
+}
+
+function isSameVersion(actual: string, expected: string): boolean {
+  if (actual === expected) {
+    return true;
+  }
+  const left = semver.valid(actual, { loose: true });
+  const right = semver.valid(expected, { loose: true });
+  return !!left && !!right && semver.eq(left, right);
+}
+
+function getFilename(tarball: unknown): string | undefined {
+  return typeof tarball === 'string' && tarball ? tarball.split('/').pop() : undefined;
+}
+
+function computeHashes(filePath: string): Promise<{ shasum: string; sha1: string; sha512: string }> {
+  return new Promise((resolve, reject) => {
+    const sha1 = createHash('sha1');
+    const sha512 = createHash('sha512');
+    createReadStream(filePath)
+      .on('data', (chunk) => {
+        sha1.update(chunk);
+        sha512.update(chunk);
+      })
+      .on('end', () => {
+        const digest = sha1.digest();
+        resolve({ shasum: digest.toString('hex'), sha1: digest.toString('base64'), sha512: sha512.digest('base64') });
+      })
+      .on('error', reject);
+  });
+}
@@ -0,0 +1,590 @@
+import { createReadStream, FSWatcher, watch } from 'fs';
+import { readdir, readFile, rename, stat, writeFile } from 'fs/promises';
+import { createHash } from 'crypto';
+import path from 'path';
+import pLimit from 'p-limit';
+import semver from 'semver';
+import { Logger } from '@verdaccio/types';
+import {
+  StorageIndexConfig,
+  StorageIndexFile,
+  StorageIndexPackage,
+  StorageIndexStats,
+  StorageIndexTarball
+} from './types';
+
+// ingest-middleware、metadata-healer 写入，offline-storage 只读取的索引文件名及格式版本
+export const STORAGE_INDEX_FILE = '.storage-index.json';
+export const STORAGE_INDEX_FORMAT = 1;
+const DEFAULT_RECONCILE_INTERVAL = 10 * 60 * 1000;
+// 文件变化事件合并后再刷新
+const WATCH_DEBOUNCE = 1000;
+const PERSIST_DELAY = 2000;
+// 构建与计算哈希时每处理多少项保存一次进度（中断后从此处继续）
+const CHECKPOINT_INTERVAL = 500;
+
+// 同一存储目录共享一个索引实例（filter 与 middleware 实例避免重复监听与交错写入）
+const indexes = new Map<string, StorageIndex>();
+
+/**
+ * 获取存储目录对应的存储索引（首次获取时开始监听与构建）
+ */
+export function getStorageIndex(
+  storagePath: string,
+  logger: Logger,
+  config: StorageIndexConfig = {},
+  concurrency?: number
+): StorageIndex {
+  const key = path.resolve(storagePath);
+  let index = indexes.get(key);
+  if (!index) {
+    index = new StorageIndex(storagePath, logger, config, concurrency);
+    index.start();
+    indexes.set(key, index);
+  }
+  return index;
+}
+
+/**
+ * 持久化的存储索引
+ *
+ * 记录每个包本地可用的版本（文件名、大小、mtime、shasum / integrity）及 package.json 是否存在，
+ * 保存到 storage/.storage-index.json；通过 fs.watch 与定期核对保持最新，
+ * 首次构建按包增量保存进度，重启后跳过目录未变化的包继续构建
+ */
+export class StorageIndex {
+  private storagePath: string;
+  private logger: Logger;
+  private config: StorageIndexConfig;
+  private concurrency: number;
+  private packages = new Map<string, StorageIndexPackage>();
+  private complete = false;
+  private updatedAt = '';
+  private loaded: Promise<void> | null = null;
+  private reconciling: Promise<void> | null = null;
+  private hashing: Promise<void> | null = null;
+  // fs.watch 报告变化、尚未刷新的包
+  private dirty = new Set<string>();
+  private watcher: FSWatcher | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private persistTimer: NodeJS.Timeout | null = null;
+  private reconcileTimer: NodeJS.Timeout | null = null;
+  private started = false;
+
+  constructor(storagePath: string, logger: Logger, config: StorageIndexConfig = {}, concurrency = 5) {
+    this.storagePath = storagePath;
+    this.logger = logger;
+    this.config = config;
+    this.concurrency = Math.max(1, concurrency);
+  }
+
+  /**
+   * 开始监听存储目录，并在后台构建 / 核对索引
+   */
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    if (this.config.watch !== false) {
+      this.startWatcher();
+    }
+
+    const interval = this.config.reconcileInterval ?? DEFAULT_RECONCILE_INTERVAL;
+    if (interval > 0) {
+      this.reconcileTimer = setInterval(() => {
+        this.reconcile().catch((error: any) => {
+          this.logger.warn({ error: error.message }, 'Storage index reconciliation failed: @{error}');
+        });
+      }, interval);
+      this.reconcileTimer.unref();
+    }
+
+    this.reconcile().catch((error: any) => {
+      this.logger.warn({ error: error.message }, 'Storage index build failed: @{error}');
+    });
+  }
+
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    for (const timer of [this.flushTimer, this.persistTimer]) {
+      if (timer) clearTimeout(timer);
+    }
+    if (this.reconcileTimer) clearInterval(this.reconcileTimer);
+    this.flushTimer = this.persistTimer = this.reconcileTimer = null;
+    this.started = false;
+  }
+
+  /**
+   * 所有已索引的包（首次构建未完成时等待构建完成）
+   */
+  async getAll(): Promise<Map<string, StorageIndexPackage>> {
+    await this.load();
+    if (!this.complete) {
+      await this.reconcile();
+    }
+    await this.flush();
+    return this.packages;
+  }
+
+  /**
+   * 单个包的索引（尚未索引或有未处理的变化时立即读取该包目录）
+   */
+  async getPackage(name: string): Promise<StorageIndexPackage | null> {
+    await this.load();
+    if (this.dirty.has(name) || !this.packages.has(name)) {
+      this.dirty.delete(name);
+      await this.refreshPackage(name);
+    }
+    return this.packages.get(name) || null;
+  }
+
+  /**
+   * 写入存储后立即刷新指定的包（不依赖 fs.watch 事件）
+   */
+  async refresh(names: string[]): Promise<void> {
+    await this.load();
+    const limit = pLimit(this.concurrency);
+    await Promise.all(
+      Array.from(new Set(names)).map((name) =>
+        limit(async () => {
+          this.dirty.delete(name);
+          await this.refreshPackage(name);
+        })
+      )
+    );
+  }
+
+  /**
+   * 与存储目录全量核对：重新读取目录 mtime 或 package.json 有变化的包，移除已删除的包
+   */
+  reconcile(): Promise<void> {
+    if (!this.reconciling) {
+      this.reconciling = this.runReconcile().finally(() => {
+        this.reconciling = null;
+      });
+    }
+    return this.reconciling;
+  }
+
+  async getStats(): Promise<StorageIndexStats> {
+    await this.load();
+    let versions = 0;
+    let hashed = 0;
+    for (const entry of this.packages.values()) {
+      for (const tarball of Object.values(entry.versions)) {
+        versions++;
+        if (tarball.shasum && tarball.integrity) hashed++;
+      }
+    }
+    return {
+      packages: this.packages.size,
+      versions,
+      hashed,
+      complete: this.complete,
+      watching: !!this.watcher,
+      updatedAt: this.updatedAt
+    };
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readIndex();
+    }
+    return this.loaded;
+  }
+
+  private async readIndex(): Promise<void> {
+    try {
+      const content = await readFile(path.join(this.storagePath, STORAGE_INDEX_FILE), 'utf-8');
+      const file = JSON.parse(content) as StorageIndexFile;
+      if (file.format === STORAGE_INDEX_FORMAT) {
+        this.packages = new Map(Object.entries(file.packages || {}));
+        this.complete = file.complete === true;
+        this.updatedAt = file.updatedAt;
+        this.logger.info(
+          { count: this.packages.size, complete: this.complete },
+          'Loaded storage index: @{count} packages (complete: @{complete})'
+        );
+      }
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        this.logger.warn({ error: error.message }, 'Failed to load storage index, rebuilding: @{error}');
+      }
+    }
+  }
+
+  private async runReconcile(): Promise<void> {
+    await this.load();
+    const names = await scanPackageNames(this.storagePath);
+    const limit = pLimit(this.concurrency);
+    const firstBuild = !this.complete;
+    let processed = 0;
+    let refreshed = 0;
+
+    await Promise.all(
+      names.map((name) =>
+        limit(async () => {
+          if (await this.isStale(name)) {
+            await this.refreshPackage(name);
+            refreshed++;
+          }
+          if (++processed % CHECKPOINT_INTERVAL === 0 && firstBuild) {
+            await this.persist();
+            this.logger.info(
+              { processed, total: names.length },
+              'Building storage index: @{processed}/@{total} packages'
+            );
+          }
+        })
+      )
+    );
+
+    const existing = new Set(names);
+    for (const name of Array.from(this.packages.keys())) {
+      if (!existing.has(name)) {
+        this.packages.delete(name);
+        refreshed++;
+      }
+    }
+
+    if (firstBuild || refreshed > 0) {
+      this.complete = true;
+      await this.persist();
+      this.logger.info(
+        { count: this.packages.size, refreshed },
+        'Storage index reconciled: @{count} packages (@{refreshed} updated)'
+      );
+    }
+
+    this.scheduleHashing();
+  }
+
+  /**
+   * 包目录或 package.json 的 mtime 与索引不一致时需要重新读取
+   */
+  private async isStale(name: string): Promise<boolean> {
+    const entry = this.packages.get(name);
+    if (!entry) {
+      return true;
+    }
+
+    const packageDir = path.join(this.storagePath, name);
+    try {
+      const dirStat = await stat(packageDir);
+      if (dirStat.mtimeMs !== entry.dirMtime) {
+        return true;
+      }
+    } catch {
+      return true;
+    }
+
+    const metadataMtime = await getMtime(path.join(packageDir, 'package.json'));
+    return metadataMtime !== (entry.metadata?.mtime ?? null);
+  }
+
+  /**
+   * 读取包目录更新索引条目（目录不存在，或既没有 tarball 也没有 package.json 时移除）
+   */
+  private async refreshPackage(name: string): Promise<void> {
+    const packageDir = path.join(this.storagePath, name);
+    let files: string[];
+    let dirMtime: number;
+    try {
+      files = await readdir(packageDir);
+      dirMtime = (await stat(packageDir)).mtimeMs;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT' && error.code !== 'ENOTDIR') {
+        this.logger.warn({ name, error: error.message }, 'Failed to index @{name}: @{error}');
+      }
+      if (this.packages.delete(name)) {
+        this.schedulePersist();
+      }
+      return;
+    }
+
+    const previous = this.packages.get(name);
+    const versions: Record<string, StorageIndexTarball> = {};
+    for (const file of files) {
+      const version = file.endsWith('.tgz') ? extractVersion(name, file) : null;
+      if (!version) continue;
+
+      try {
+        const fileStat = await stat(path.join(packageDir, file));
+        const known = previous?.versions[version];
+        const unchanged =
+          known && known.filename === file && known.size === fileStat.size && known.mtime === fileStat.mtimeMs;
+        versions[version] = unchanged
+          ? known
+          : { filename: file, size: fileStat.size, mtime: fileStat.mtimeMs };
+      } catch {
+        // 文件可能在读取目录后被删除
+      }
+    }
+
+    const metadata = await this.readMetadata(packageDir, previous?.metadata ?? null);
+    if (Object.keys(versions).length === 0 && !metadata) {
+      this.packages.delete(name);
+    } else {
+      this.packages.set(name, { dirMtime, versions, metadata });
+    }
+
+    this.schedulePersist();
+    // 首次构建期间不计算哈希，构建完成后统一计算
+    if (this.complete && Object.values(versions).some((tarball) => !tarball.shasum)) {
+      this.scheduleHashing();
+    }
+  }
+
+  /**
+   * 读取 package.json 的 latest 及其依赖（mtime 未变化时沿用索引中的数据）
+   */
+  private async readMetadata(
+    packageDir: string,
+    previous: StorageIndexPackage['metadata']
+  ): Promise<StorageIndexPackage['metadata']> {
+    const metadataPath = path.join(packageDir, 'package.json');
+    const mtime = await getMtime(metadataPath);
+    if (mtime === null) {
+      return null;
+    }
+    if (previous && previous.mtime === mtime) {
+      return previous;
+    }
+
+    try {
+      const packument = JSON.parse(await readFile(metadataPath, 'utf-8'));
+      const latest = packument['dist-tags']?.latest;
+      return {
+        mtime,
+        latest,
+        dependencies: (latest && packument.versions?.[latest]?.dependencies) || {}
+      };
+    } catch {
+      // 元数据损坏时仍记录其存在
+      return { mtime };
+    }
+  }
+
+  /**
+   * 合并 fs.watch 报告的变化后刷新
+   */
+  private async flush(): Promise<void> {
+    if (this.dirty.size === 0) {
+      return;
+    }
+    const names = Array.from(this.dirty);
+    this.dirty.clear();
+    await this.refresh(names);
+  }
+
+  private startWatcher(): void {
+    try {
+      this.watcher = watch(this.storagePath, { recursive: true }, (_event, filename) => {
+        const name = filename ? getPackageName(filename.toString()) : null;
+        if (!name) return;
+        this.dirty.add(name);
+        if (!this.flushTimer) {
+          this.flushTimer = setTimeout(() => {
+            this.flushTimer = null;
+            this.flush().catch((error: any) => {
+              this.logger.warn({ error: error.message }, 'Failed to refresh storage index: @{error}');
+            });
+          }, WATCH_DEBOUNCE);
+          this.flushTimer.unref();
+        }
+      });
+      this.watcher.on('error', (error: any) => {
+        this.logger.warn(
+          { error: error.message },
+          'Storage watcher stopped, relying on periodic reconciliation: @{error}'
+        );
+        this.watcher?.close();
+        this.watcher = null;
+      });
+      this.watcher.unref();
+    } catch (error: any) {
+      this.logger.warn(
+        { error: error.message },
+        'Cannot watch storage directory, relying on periodic reconciliation: @{error}'
+      );
+      this.watcher = null;
+    }
+  }
+
+  /**
+   * 后台计算缺少哈希的 tarball（与读取同一遍完成 SHA-1 与 SHA-512）
+   */
+  private scheduleHashing(): void {
+    if (this.config.hashTarballs === false || this.hashing) {
+      return;
+    }
+    this.hashing = this.hashMissing()
+      .catch((error: any) => {
+        this.logger.warn({ error: error.message }, 'Failed to hash tarballs for storage index: @{error}');
+      })
+      .finally(() => {
+        this.hashing = null;
+      });
+  }
+
+  private async hashMissing(): Promise<void> {
+    const limit = pLimit(this.concurrency);
+    // 本轮已尝试过的条目（文件已删除等情况不再重复尝试）
+    const attempted = new WeakSet<StorageIndexTarball>();
+    let hashed = 0;
+
+    // 计算期间新加入的 tarball 在下一轮处理
+    for (;;) {
+      const pending: Array<{ name: string; version: string; tarball: StorageIndexTarball }> = [];
+      for (const [name, entry] of this.packages) {
+        for (const [version, tarball] of Object.entries(entry.versions)) {
+          if ((!tarball.shasum || !tarball.integrity) && !attempted.has(tarball)) {
+            pending.push({ name, version, tarball });
+          }
+        }
+      }
+      if (pending.length === 0) {
+        break;
+      }
+
+      await Promise.all(
+        pending.map(({ name, version, tarball }) =>
+          limit(async () => {
+            attempted.add(tarball);
+            const filePath = path.join(this.storagePath, name, tarball.filename);
+            try {
+              const fileStat = await stat(filePath);
+              const hashes = await computeHashes(filePath);
+              // 计算期间文件被替换时丢弃结果，由刷新后的新条目重新计算
+              const current = this.packages.get(name)?.versions[version];
+              if (current === tarball && fileStat.size === tarball.size && fileStat.mtimeMs === tarball.mtime) {
+                tarball.shasum = hashes.shasum;
+                tarball.integrity = hashes.integrity;
+              }
+            } catch {
+              // 文件已删除，等待刷新移除
+            }
+            if (++hashed % CHECKPOINT_INTERVAL === 0) {
+              await this.persist();
+            }
+          })
+        )
+      );
+    }
+
+    if (hashed > 0) {
+      await this.persist();
+      this.logger.info({ count: hashed }, 'Storage index hashed @{count} tarballs');
+    }
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer) {
+      return;
+    }
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist().catch((error: any) => {
+        this.logger.warn({ error: error.message }, 'Failed to save storage index: @{error}');
+      });
+    }, PERSIST_DELAY);
+    this.persistTimer.unref();
+  }
+
+  private async persist(): Promise<void> {
+    this.updatedAt = new Date().toISOString();
+    const file: StorageIndexFile = {
+      format: STORAGE_INDEX_FORMAT,
+      complete: this.complete,
+      updatedAt: this.updatedAt,
+      packages: Object.fromEntries(this.packages)
+    };
+
+    const indexPath = path.join(this.storagePath, STORAGE_INDEX_FILE);
+    const tempPath = `${indexPath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(file));
+    await rename(tempPath, indexPath);
+  }
+}
+
+/**
+ * 从 tarball 文件名中提取版本号（优先按包名前缀截取，兼容 scope-name-1.0.0.tgz 等格式）
+ */
+export function extractVersion(name: string, filename: string): string | null {
+  const baseName = filename.slice(0, -'.tgz'.length);
+  const prefix = `${name.split('/').pop()}-`;
+  if (baseName.startsWith(prefix) && semver.valid(baseName.slice(prefix.length))) {
+    return baseName.slice(prefix.length);
+  }
+
+  const match = baseName.match(/-(\d+\.\d+\.\d+(?:-[a-zA-Z0-9.]+)?(?:\+[a-zA-Z0-9.]+)?)$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * fs.watch 报告的相对路径对应的包名（忽略 .exports、.storage-index.json 等点开头的条目）
+ */
+function getPackageName(relativePath: string): string | null {
+  const segments = relativePath.split(/[\\/]/).filter(Boolean);
+  if (segments.length === 0 || segments[0].startsWith('.')) {
+    return null;
+  }
+  if (segments[0].startsWith('@')) {
+    return segments.length >= 2 && !segments[1].startsWith('.') ? `${segments[0]}/${segments[1]}` : null;
+  }
+  return segments[0];
+}
+
+async function getMtime(filePath: string): Promise<number | null> {
+  try {
+    return (await stat(filePath)).mtimeMs;
+  } catch {
+    return null;
+  }
+}
+
+function computeHashes(filePath: string): Promise<{ shasum: string; integrity: string }> {
+  return new Promise((resolve, reject) => {
+    const sha1 = createHash('sha1');
+    const sha512 = createHash('sha512');
+    createReadStream(filePath)
+      .on('data', (chunk) => {
+        sha1.update(chunk);
+        sha512.update(chunk);
+      })
+      .on('end', () => resolve({ shasum: sha1.digest('hex'), integrity: `sha512-${sha512.digest('base64')}` }))
+      .on('error', reject);
+  });
+}
+
+/**
+ * 列出存储目录中的包名（含 scoped 包）
+ */
+export async function scanPackageNames(storagePath: string): Promise<string[]> {
+  const names: string[] = [];
+  const entries = await readdir(storagePath, { withFileTypes: true });
+
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name.startsWith('.')) continue;
+    if (!entry.name.startsWith('@')) {
+      names.push(entry.name);
+      continue;
+    }
+
+    try {
+      const scoped = await readdir(path.join(storagePath, entry.name), { withFileTypes: true });
+      for (const item of scoped) {
+        if (item.isDirectory() && !item.name.startsWith('.')) {
+          names.push(`${entry.name}/${item.name}`);
+        }
+      }
+    } catch {
+      // 忽略无法读取的 scope 目录
+    }
+  }
+
+  return names;
+}
@@ -0,0 +1,13 @@
+import { createHash } from 'crypto';
+
+/**
+ * 元数据摘要（版本列表与 dist-tags 的 SHA-256）
+ *
+ * 内网生成存储清单与外网按清单比较时使用同一实现。
+ * 只比较两端都不会改写的部分：tarball 地址、_attachments 等由各端按需改写，不计入摘要
+ */
+export function getMetadataDigest(packument: any): string {
+  const versions = Object.keys(packument?.versions || {}).sort();
+  const distTags = Object.entries(packument?.['dist-tags'] || {}).sort(([a], [b]) => a.localeCompare(b));
+  return createHash('sha256').update(JSON.stringify({ versions, distTags })).digest('hex');
+}
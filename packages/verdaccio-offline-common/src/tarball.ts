@@ -0,0 +1,40 @@
+import tar from 'tar';
+
+/**
+ * 读取 tarball 顶层目录下的 package.json（通常为 package/package.json）
+ *
+ * tarball 损坏或缺少 package.json 时抛出 code 为 EBADTARBALL 的错误
+ */
+export async function readPackageJson(tarballPath: string, spec: string): Promise<any> {
+  let content: Buffer | null = null;
+
+  try {
+    await tar.t({
+      file: tarballPath,
+      filter: (entryPath) => content === null && /^[^/]+\/package\.json$/.test(entryPath),
+      onentry: (entry) => {
+        const chunks: Buffer[] = [];
+        entry.on('data', (chunk: Buffer) => chunks.push(chunk));
+        entry.on('end', () => {
+          content = Buffer.concat(chunks);
+        });
+      }
+    });
+  } catch (error: any) {
+    throw createBadTarballError(`Tarball for ${spec} is corrupted: ${error.message}`);
+  }
+
+  if (content === null) {
+    throw createBadTarballError(`package.json not found in tarball for ${spec}`);
+  }
+
+  try {
+    return JSON.parse((content as Buffer).toString('utf-8'));
+  } catch {
+    throw createBadTarballError(`Invalid package.json in tarball for ${spec}`);
+  }
+}
+
+function createBadTarballError(message: string): Error {
+  return Object.assign(new Error(message), { code: 'EBADTARBALL' });
+}
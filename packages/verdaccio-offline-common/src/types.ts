@@ -0,0 +1,366 @@
+/**
+ * 存储索引配置
+ */
+export interface StorageIndexConfig {
+  /** 是否启用（默认 true，关闭后回退到目录扫描） */
+  enabled?: boolean;
+  /** 是否通过 fs.watch 监听存储目录变化（默认 true） */
+  watch?: boolean;
+  /** 定期与存储目录核对的间隔（毫秒，默认 600000，0 表示不核对） */
+  reconcileInterval?: number;
+  /** 是否在后台计算 tarball 的 shasum / integrity（默认 true） */
+  hashTarballs?: boolean;
+}
+
+/**
+ * 搜索索引条目（只包含本地已有 tarball 的包）
+ */
+export interface SearchIndexEntry {
+  name: string;
+  /** 用于展示的版本（dist-tags.latest 在本地时取该版本，否则取本地最高稳定版本） */
+  version: string;
+  /** 本地可用的版本（从高到低） */
+  versions: string[];
+  description?: string;
+  keywords: string[];
+  author?: string;
+  maintainers: string[];
+  publisher?: string;
+  license?: string;
+  /** version 的发布时间 */
+  date?: string;
+  links: SearchPackageLinks;
+}
+
+/**
+ * 包的相关链接
+ */
+export interface SearchPackageLinks {
+  homepage?: string;
+  repository?: string;
+  bugs?: string;
+}
+
+/**
+ * 搜索索引文件（storage/.search-index.json）
+ */
+export interface SearchIndexFile {
+  /** 文件格式版本 */
+  format: number;
+  updatedAt: string;
+  packages: Record<string, SearchIndexEntry>;
+}
+
+/**
+ * 搜索请求参数（与 npm /-/v1/search 一致）
+ */
+export interface SearchQuery {
+  /** 搜索文本，支持 keywords: / author: / maintainer: / scope: / boost-exact: 限定符 */
+  text: string;
+  /** 返回数量（默认 20，最大 250） */
+  size?: number;
+  from?: number;
+  /** 各项评分的权重 */
+  quality?: number;
+  popularity?: number;
+  maintenance?: number;
+}
+
+/**
+ * 搜索结果中的单个包（格式与 npm /-/v1/search 一致，附加本地可用版本 versions）
+ */
+export interface SearchResultObject {
+  package: {
+    name: string;
+    scope: string;
+    version: string;
+    versions: string[];
+    description?: string;
+    keywords: string[];
+    date?: string;
+    links: SearchPackageLinks;
+    author?: { name: string };
+    publisher?: { username: string };
+    maintainers: Array<{ username: string }>;
+    license?: string;
+  };
+  score: {
+    final: number;
+    detail: {
+      quality: number;
+      popularity: number;
+      maintenance: number;
+    };
+  };
+  searchScore: number;
+}
+
+/**
+ * 搜索结果
+ */
+export interface SearchResponse {
+  objects: SearchResultObject[];
+  total: number;
+  time: string;
+}
+
+/**
+ * 存储索引中的 tarball
+ */
+export interface StorageIndexTarball {
+  filename: string;
+  size: number;
+  mtime: number;
+  /** SHA-1（十六进制，与 dist.shasum 一致），后台计算完成前为空 */
+  shasum?: string;
+  /** SHA-512 SRI（与 dist.integrity 一致），后台计算完成前为空 */
+  integrity?: string;
+}
+
+/**
+ * 存储索引中的包
+ */
+export interface StorageIndexPackage {
+  /** 包目录的 mtime，用于核对时判断是否需要重新读取 */
+  dirMtime: number;
+  versions: Record<string, StorageIndexTarball>;
+  /** 本地 package.json 的信息，不存在时为 null */
+  metadata: {
+    mtime: number;
+    latest?: string;
+    /** latest 版本的依赖 */
+    dependencies?: Record<string, string>;
+  } | null;
+}
+
+/**
+ * 存储索引文件（storage/.storage-index.json，三个插件共用的格式）
+ */
+export interface StorageIndexFile {
+  format: number;
+  /** 首次构建是否已完成（未完成时下次启动继续构建） */
+  complete: boolean;
+  updatedAt: string;
+  packages: Record<string, StorageIndexPackage>;
+}
+
+/**
+ * 存储索引统计
+ */
+export interface StorageIndexStats {
+  packages: number;
+  versions: number;
+  /** 已计算哈希的 tarball 数量 */
+  hashed: number;
+  complete: boolean;
+  watching: boolean;
+  updatedAt: string;
+}
+
+/**
+ * 存储审计发现的问题类别
+ * - corrupt-tarball: tarball 无法解压（截断、格式错误或缺少 package.json）
+ * - hash-mismatch: tarball 的哈希与元数据中的 dist.shasum / dist.integrity 不一致
+ * - missing-tarball: 元数据记录为本地已有（_attachments 或相对 tarball 地址）的版本缺少 tarball
+ * - orphan-tarball: tarball 在元数据中没有对应版本（或包没有 package.json）
+ * - manifest-mismatch: tarball 内 package.json 的 name / version 与文件不一致
+ */
+export type StorageIssueCategory =
+  | 'corrupt-tarball'
+  | 'hash-mismatch'
+  | 'missing-tarball'
+  | 'orphan-tarball'
+  | 'manifest-mismatch';
+
+/**
+ * 存储修复操作
+ * - redownload: 从上游重新下载 tarball 并刷新元数据（仅外网 ingest-middleware）
+ * - reheal: 按本地 tarball 重新生成该版本的元数据
+ * - quarantine: 将 tarball 移到 storage/.quarantine
+ * - drop-version: 从元数据中移除该版本（有 tarball 时一并隔离）
+ */
+export type StorageRepairAction = 'redownload' | 'reheal' | 'quarantine' | 'drop-version';
+
+/**
+ * 存储审计发现的问题
+ */
+export interface StorageIssue {
+  category: StorageIssueCategory;
+  name: string;
+  version: string;
+  /** 相关的 tarball 文件名（相对包目录） */
+  filename?: string;
+  detail: string;
+}
+
+/**
+ * 存储审计请求
+ */
+export interface StorageAuditRequest {
+  /** 只审计指定的包（默认审计整个存储） */
+  packages?: string[];
+}
+
+/**
+ * 存储审计报告（审计任务的结果）
+ */
+export interface StorageAuditReport {
+  /** 审计任务 ID，修复时引用 */
+  auditId: string;
+  startedAt: string;
+  completedAt: string;
+  scannedPackages: number;
+  scannedTarballs: number;
+  /** 尚未修复的问题总数 */
+  total: number;
+  issues: Record<StorageIssueCategory, StorageIssue[]>;
+  /** 每个类别可执行的修复操作 */
+  actions: Record<StorageIssueCategory, StorageRepairAction[]>;
+}
+
+/**
+ * 存储修复请求
+ */
+export interface StorageRepairRequest {
+  auditId: string;
+  category: StorageIssueCategory;
+  action: StorageRepairAction;
+  /** 只修复指定的 name@version（默认修复该类别的所有问题） */
+  items?: string[];
+}
+
+/**
+ * 存储修复结果
+ */
+export interface StorageRepairResult {
+  auditId: string;
+  category: StorageIssueCategory;
+  action: StorageRepairAction;
+  /** 已修复的 name@version */
+  repaired: string[];
+  failed: Array<{ item: string; error: string }>;
+}
+
+/**
+ * 上游 registry 配置（registries 映射的值；字符串形式可以是 URL 或 uplink 名称）
+ */
+export interface RegistryConfig {
+  url: string;
+  /** 认证 token */
+  token?: string;
+  /** 从环境变量读取 token */
+  tokenEnv?: string;
+  /** 认证方式（默认 bearer） */
+  authType?: 'bearer' | 'basic';
+  /** CA 证书内容或证书文件路径 */
+  ca?: string;
+  /** HTTP(S) 代理地址 */
+  proxy?: string;
+  /** 请求超时（数字为毫秒；字符串按 Verdaccio 时间间隔解析，如 '30s' / '1m 30s'） */
+  timeout?: number | string;
+  /** 是否校验 TLS 证书（默认 true） */
+  strictSSL?: boolean;
+  /** 附加请求头 */
+  headers?: Record<string, string>;
+}
+
+/**
+ * 解析后的上游 registry（每个包按路由规则选定）
+ */
+export interface RegistryTarget {
+  /** uplink 名称或 registries 中的 scope */
+  name: string;
+  url: string;
+  /** 完整的 Authorization 头（如 'Bearer xxx'） */
+  authorization?: string;
+  /** CA 证书内容 */
+  ca?: string;
+  proxy?: string;
+  noProxy?: string;
+  timeout: number;
+  strictSSL: boolean;
+  headers: Record<string, string>;
+}
+
+/**
+ * 上游路由相关的插件配置（各插件配置中的同名字段）
+ */
+export interface RegistryRouterConfig {
+  /** 替代默认（第一个）uplink 的上游地址 */
+  upstreamRegistry?: string;
+  /** 按顺序尝试的默认上游列表（URL 或 uplink 名称） */
+  upstreamRegistries?: Array<string | RegistryConfig>;
+  /** scope 到上游 registry 的映射，优先于 packages 的 proxy 规则 */
+  registries?: Record<string, string | RegistryConfig>;
+  /** 未单独配置超时的上游使用的请求超时（毫秒） */
+  timeout?: number;
+}
+
+/**
+ * pacote / npm-registry-fetch 请求选项（认证信息以 //host/path/:_authToken 形式的键附加）
+ */
+export interface RegistryFetchOptions {
+  registry?: string;
+  timeout?: number;
+  strictSSL?: boolean;
+  ca?: string;
+  proxy?: string;
+  httpsProxy?: string;
+  noProxy?: string;
+  headers?: Record<string, string>;
+  [key: string]: any;
+}
+
+/**
+ * 加密导出包的容器头（位于 "VOSENC01" 与 4 字节大端长度之后的 JSON）
+ */
+export interface EncryptedArchiveHeader {
+  format: 1;
+  cipher: 'aes-256-gcm';
+  /** 每段明文的字节数（最后一段可以更短） */
+  segmentSize: number;
+  /** 分段 nonce 的前 7 字节（base64），之后是 4 字节大端段序号与 1 字节末段标记 */
+  noncePrefix: string;
+  /** 数据密钥的各个封装（任一可解开即可解密） */
+  recipients: EncryptedArchiveRecipient[];
+}
+
+/**
+ * 数据密钥的封装：由口令经 scrypt 派生，或由临时 X25519 密钥与接收方公钥协商后经 HKDF-SHA256 派生，
+ * 再以 AES-256-GCM 加密 32 字节的数据密钥
+ */
+export type EncryptedArchiveRecipient =
+  | {
+      type: 'scrypt';
+      salt: string;
+      N: number;
+      r: number;
+      p: number;
+      nonce: string;
+      wrappedKey: string;
+    }
+  | {
+      type: 'x25519';
+      /** 接收方公钥指纹（SPKI DER 的 SHA-256） */
+      fingerprint: string;
+      /** 临时公钥（SPKI DER，base64） */
+      ephemeralKey: string;
+      nonce: string;
+      wrappedKey: string;
+    };
+
+/**
+ * 内网存储清单（metadata-healer 生成，ingest-middleware 据此只导出内网缺少或不一致的文件）
+ */
+export interface StorageInventory {
+  /** 清单格式版本 */
+  format: 1;
+  /** 生成时间 (ISO 8601) */
+  generatedAt: string;
+  /** name@version → tarball 的 SHA-1（十六进制，与 dist.shasum 一致） */
+  tarballs: Record<string, string>;
+  /** 包名 → 元数据摘要（版本列表与 dist-tags 的 SHA-256） */
+  metadata: Record<string, string>;
+  /** .artifacts / .advisories 下的文件（相对 storage 的路径 → 大小） */
+  files: Record<string, number>;
+}
@@ -0,0 +1,118 @@
+import { randomBytes } from 'crypto';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  createArchiveDecryptStream,
+  createArchiveEncryptStream,
+  createArchiveHeader,
+  createDataKey,
+  unwrapDataKey,
+  wrapDataKey
+} from '../src/encrypted-archive';
+
+const MAGIC_LENGTH = 8;
+const TAG_LENGTH = 16;
+const SEGMENT_SIZE = 64 * 1024;
+
+async function collect(source: Readable, transform: Transform): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  await pipeline(source, transform, async (stream: AsyncIterable<Buffer>) => {
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+  });
+  return Buffer.concat(chunks);
+}
+
+/**
+ * 按固定大小切分，覆盖段边界跨越写入块的情况
+ */
+function pieces(data: Buffer, size: number): Readable {
+  const result = [];
+  for (let offset = 0; offset < data.length; offset += size) {
+    result.push(data.subarray(offset, offset + size));
+  }
+  return Readable.from(result);
+}
+
+function encrypt(plaintext: Buffer, dataKey: Buffer): Promise<Buffer> {
+  return collect(pieces(plaintext, 10000), createArchiveEncryptStream(dataKey, createArchiveHeader([])));
+}
+
+function decrypt(archive: Buffer, dataKey: Buffer): Promise<Buffer> {
+  return collect(pieces(archive, 7777), createArchiveDecryptStream(async () => dataKey));
+}
+
+/**
+ * 拆分容器为头部（魔数、头长度、头 JSON）与密文段
+ */
+function splitArchive(archive: Buffer): { header: Buffer; segments: Buffer[] } {
+  const headerEnd = MAGIC_LENGTH + 4 + archive.readUInt32BE(MAGIC_LENGTH);
+  const segments: Buffer[] = [];
+  for (let offset = headerEnd; offset < archive.length; offset += SEGMENT_SIZE + TAG_LENGTH) {
+    segments.push(archive.subarray(offset, offset + SEGMENT_SIZE + TAG_LENGTH));
+  }
+  return { header: archive.subarray(0, headerEnd), segments };
+}
+
+describe('encrypted archive format', () => {
+  const dataKey = createDataKey();
+  // 三个完整段加一个不足一段的末段
+  const plaintext = randomBytes(SEGMENT_SIZE * 3 + 1234);
+  let archive: Buffer;
+
+  beforeAll(async () => {
+    archive = await encrypt(plaintext, dataKey);
+  });
+
+  it('round-trips an archive across segment boundaries', async () => {
+    expect(splitArchive(archive).segments).toHaveLength(4);
+    expect(await decrypt(archive, dataKey)).toEqual(plaintext);
+  });
+
+  it('round-trips an empty archive and an exact multiple of the segment size', async () => {
+    for (const data of [Buffer.alloc(0), randomBytes(SEGMENT_SIZE * 2)]) {
+      expect(await decrypt(await encrypt(data, dataKey), dataKey)).toEqual(data);
+    }
+  });
+
+  it('wraps and unwraps the data key', () => {
+    const kek = randomBytes(32);
+    const recipient = { type: 'scrypt' as const, salt: '', N: 2, r: 1, p: 1, ...wrapDataKey(kek, dataKey) };
+
+    expect(unwrapDataKey(kek, recipient)).toEqual(dataKey);
+    expect(unwrapDataKey(randomBytes(32), recipient)).toBeNull();
+  });
+
+  it('rejects an archive truncated at a segment boundary', async () => {
+    const { header, segments } = splitArchive(archive);
+    const truncated = Buffer.concat([header, ...segments.slice(0, -1)]);
+
+    await expect(decrypt(truncated, dataKey)).rejects.toThrow('数据已损坏或被篡改');
+  });
+
+  it('rejects an archive truncated inside a segment or the header', async () => {
+    const { header } = splitArchive(archive);
+
+    await expect(decrypt(archive.subarray(0, archive.length - 100), dataKey)).rejects.toThrow('数据已损坏或被篡改');
+    await expect(decrypt(archive.subarray(0, header.length - 1), dataKey)).rejects.toThrow('文件不完整');
+  });
+
+  it('rejects reordered segments', async () => {
+    const { header, segments } = splitArchive(archive);
+    const reordered = Buffer.concat([header, segments[1], segments[0], ...segments.slice(2)]);
+
+    await expect(decrypt(reordered, dataKey)).rejects.toThrow('数据已损坏或被篡改');
+  });
+
+  it('rejects a modified header', async () => {
+    const { header, segments } = splitArchive(archive);
+    // 只改动 JSON 的空白：解析结果不变，但头整体是每段的附加认证数据
+    const json = Buffer.from(header.subarray(MAGIC_LENGTH + 4).toString('utf-8').replace('"format":1,', '"format":1, '));
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(json.length);
+    const tampered = Buffer.concat([header.subarray(0, MAGIC_LENGTH), length, json, ...segments]);
+
+    await expect(decrypt(tampered, dataKey)).rejects.toThrow('数据已损坏或被篡改');
+  });
+});
@@ -2,6 +2,7 @@ import { readdir } from 'fs/promises';
 import { basename } from 'path';
 import semver from 'semver';
 import { Logger, Manifest, Callback } from '@verdaccio/types';
+import { getStorageIndexReader } from './StorageIndexReader';
 import { OfflineStorageConfig } from './types';
 
 // Import LocalFS from @verdaccio/local-storage-legacy
@@ -138,6 +139,30 @@ export class OfflinePackageStorage extends LocalFS {
     );
   }
 
+  /**
+   * 从存储索引读取本地版本（索引不可用或包目录有未索引的变化时返回 null）
+   */
+  private async readIndexedVersions(name: string): Promise<string[] | null> {
+    if (this.config.storageIndex?.enabled === false || !this.config.storage) {
+      return null;
+    }
+    return getStorageIndexReader(this.config.storage as string, this.logger).getLocalVersions(name, this.path);
+  }
+
+  /**
+   * 扫描包目录中的 tarball 得到本地版本
+   */
+  private async scanLocalVersions(name: string): Promise<string[]> {
+    const items = await readdir(this.path);
+    return items
+      .filter((item: string) => item.endsWith('.tgz'))
+      .map((item: string) => {
+        // Extract version from filename: package-name-1.0.0.tgz -> 1.0.0
+        const baseName = basename(name);
+        return item.substring(baseName.length + 1, item.length - 4);
+      });
+  }
+
   /**
    * Computes a package's definition that only lists the locally available versions.
    */
@@ -193,14 +218,7 @@ export class OfflinePackageStorage extends LocalFS {
           '[verdaccio-offline-storage/readPackage] Discovering local versions for package: @{packageName}'
         );
 
-        const items = await readdir(this.path);
-        const localVersions = items
-          .filter((item: string) => item.endsWith('.tgz'))
-          .map((item: string) => {
-            // Extract version from filename: package-name-1.0.0.tgz -> 1.0.0
-            const baseName = basename(name);
-            return item.substring(baseName.length + 1, item.length - 4);
-          })
+        const localVersions = ((await this.readIndexedVersions(name)) || (await this.scanLocalVersions(name)))
           .filter((v: string) => semver.valid(v));
 
         this.logger.debug(
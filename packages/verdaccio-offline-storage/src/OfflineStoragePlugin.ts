@@ -4,6 +4,7 @@ import { Logger, Callback } from '@verdaccio/types';
 import { pluginUtils } from '@verdaccio/core';
 import { OfflineStorageConfig, PluginOptions } from './types';
 import { OfflinePackageStorage } from './OfflinePackageStorage';
+import { getStorageIndexReader } from './StorageIndexReader';
 
 // Import LocalDatabase - try multiple package names for compatibility
 let LocalDatabase: any;
@@ -60,6 +61,36 @@ export default class OfflineStoragePlugin extends LocalDatabase {
    * Packages with no cached versions (only package.json file in the directory) are ignored.
    */
   get(callback: Callback): void {
+    this.getIndexedPackages()
+      .catch(() => null)
+      .then((indexed) => {
+        if (indexed) {
+          this.data.list = indexed;
+          this.logger.debug(
+            { totalItems: indexed.length },
+            '[verdaccio-offline-storage/get] Full list of packages (@{totalItems}) has been read from the storage index'
+          );
+          callback(null, indexed);
+          return;
+        }
+        this.scanPackages(callback);
+      });
+  }
+
+  /**
+   * 从存储索引读取有本地 tarball 的包（索引不可用时返回 null）
+   */
+  private async getIndexedPackages(): Promise<string[] | null> {
+    if (this.config.storageIndex?.enabled === false || !this.config.storage) {
+      return null;
+    }
+    return getStorageIndexReader(this.config.storage as string, this.logger).getPackageNames();
+  }
+
+  /**
+   * 扫描每个包目录，找出有本地 tarball 的包
+   */
+  private scanPackages(callback: Callback): void {
     const packages: string[] = [];
 
     this.search(
@@ -0,0 +1,122 @@
+import { readFile, stat } from 'fs/promises';
+import { join, resolve } from 'path';
+import { Logger } from '@verdaccio/types';
+import { STORAGE_INDEX_FILE, STORAGE_INDEX_FORMAT, StorageIndexFile } from 'verdaccio-offline-common';
+
+// 两次检查索引文件是否变化的最小间隔（毫秒）
+const CHECK_INTERVAL = 2000;
+
+// getPackageStorage 为每个包创建新的实例，同一存储目录共用一个读取器
+const readers = new Map<string, StorageIndexReader>();
+
+/**
+ * 获取存储目录对应的索引读取器
+ */
+export function getStorageIndexReader(storagePath: string, logger: Logger): StorageIndexReader {
+  const key = resolve(storagePath);
+  let reader = readers.get(key);
+  if (!reader) {
+    reader = new StorageIndexReader(storagePath, logger);
+    readers.set(key, reader);
+  }
+  return reader;
+}
+
+/**
+ * 存储索引读取器
+ *
+ * 读取 storage/.storage-index.json，代替每次 readPackage / get 时的 readdir；
+ * 索引不存在、未构建完成或包目录在索引之后有变化时返回 null，由调用方回退到扫描目录
+ */
+export class StorageIndexReader {
+  private indexPath: string;
+  private logger: Logger;
+  private file: StorageIndexFile | null = null;
+  private mtime = 0;
+  private checkedAt = 0;
+  private loading: Promise<StorageIndexFile | null> | null = null;
+
+  constructor(storagePath: string, logger: Logger) {
+    this.indexPath = join(storagePath, STORAGE_INDEX_FILE);
+    this.logger = logger;
+  }
+
+  /**
+   * 包本地可用的版本（包目录的 mtime 与索引一致时才使用索引）
+   */
+  async getLocalVersions(name: string, packagePath: string): Promise<string[] | null> {
+    const file = await this.load();
+    const entry = file?.packages[name];
+    if (!entry) {
+      return null;
+    }
+
+    try {
+      const dirStat = await stat(packagePath);
+      if (dirStat.mtimeMs !== entry.dirMtime) {
+        return null;
+      }
+    } catch {
+      return null;
+    }
+
+    return Object.keys(entry.versions);
+  }
+
+  /**
+   * 有本地 tarball 的所有包名（索引首次构建完成后才可用）
+   */
+  async getPackageNames(): Promise<string[] | null> {
+    const file = await this.load();
+    if (!file?.complete) {
+      return null;
+    }
+
+    return Object.entries(file.packages)
+      .filter(([, entry]) => Object.keys(entry.versions).length > 0)
+      .map(([name]) => name);
+  }
+
+  private load(): Promise<StorageIndexFile | null> {
+    if (Date.now() - this.checkedAt < CHECK_INTERVAL) {
+      return Promise.resolve(this.file);
+    }
+    if (!this.loading) {
+      this.loading = this.reload().finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * 索引文件的 mtime 有变化时重新读取
+   */
+  private async reload(): Promise<StorageIndexFile | null> {
+    this.checkedAt = Date.now();
+    try {
+      const fileStat = await stat(this.indexPath);
+      if (fileStat.mtimeMs === this.mtime) {
+        return this.file;
+      }
+
+      const file = JSON.parse(await readFile(this.indexPath, 'utf-8')) as StorageIndexFile;
+      this.file = file.format === STORAGE_INDEX_FORMAT ? file : null;
+      this.mtime = fileStat.mtimeMs;
+      this.logger.debug(
+        { count: Object.keys(file.packages || {}).length },
+        '[verdaccio-offline-storage] Loaded storage index with @{count} packages'
+      );
+    } catch (err: any) {
+      if (err.code !== 'ENOENT') {
+        this.logger.warn(
+          { err: err.message },
+          '[verdaccio-offline-storage] Failed to read storage index, scanning directories instead: @{err}'
+        );
+      }
+      this.file = null;
+      this.mtime = 0;
+    }
+    return this.file;
+  }
+}
@@ -9,7 +9,16 @@
 
 import OfflineStoragePlugin from './OfflineStoragePlugin';
 import { OfflinePackageStorage } from './OfflinePackageStorage';
-import { OfflineStorageConfig, PluginOptions } from './types';
+import { StorageIndexReader, getStorageIndexReader } from './StorageIndexReader';
+import { OfflineStorageConfig, PluginOptions, StorageIndexFile } from './types';
 
 export default OfflineStoragePlugin;
-export { OfflineStoragePlugin, OfflinePackageStorage, OfflineStorageConfig, PluginOptions };
+export {
+  OfflineStoragePlugin,
+  OfflinePackageStorage,
+  StorageIndexReader,
+  getStorageIndexReader,
+  OfflineStorageConfig,
+  PluginOptions,
+  StorageIndexFile
+};
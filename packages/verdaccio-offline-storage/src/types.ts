@@ -1,11 +1,19 @@
 import { Config, Logger } from '@verdaccio/types';
 
+// The shared storage index format is defined by verdaccio-offline-common
+export { StorageIndexTarball, StorageIndexPackage, StorageIndexFile } from 'verdaccio-offline-common';
+
 /**
  * Offline storage plugin configuration
  */
 export interface OfflineStorageConfig extends Config {
   /** Force offline mode for all packages */
   offline?: boolean;
+  /** Read the storage index maintained by ingest-middleware / metadata-healer instead of scanning directories */
+  storageIndex?: {
+    /** Defaults to true; falls back to directory scans when the index is missing */
+    enabled?: boolean;
+  };
 }
 
 /**